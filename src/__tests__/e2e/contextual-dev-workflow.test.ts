@@ -4,14 +4,16 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
-import { execSync } from 'child_process';
 import { ContextualDev } from '../../lib/ContextualDev.js';
 
-// Mock child_process execSync for git commands
-vi.mock('child_process', () => ({
-  execSync: vi.fn()
+// Fake git layer: branch detection goes through CLIContext.gitOps
+const { getCurrentBranch } = vi.hoisted(() => ({
+  getCurrentBranch: vi.fn()
 }));
 
+const mockCurrentBranch = (branch: string) =>
+  getCurrentBranch.mockResolvedValue({ success: true, data: branch });
+
 // Mock core index
 vi.mock('../../lib/core/index.js', () => ({
   runMultiShopManager: vi.fn().mockResolvedValue(undefined),
@@ -23,7 +25,8 @@ vi.mock('../../lib/core/index.js', () => ({
     },
     shopOps: {},
     credOps: {},
-    devOps: {}
+    devOps: {},
+    gitOps: { getCurrentBranch }
   })
 }));
 
@@ -40,6 +43,17 @@ describe('ContextualDev E2E Workflow', () => {
     delete process.env.AUTO_SELECT_DEV;
     vi.clearAllMocks();
 
+    // Mocks are reset between tests: restore the default CLI context and branch
+    const { createMultiShopCLI } = await import('../../lib/core/index.js');
+    vi.mocked(createMultiShopCLI).mockReturnValue({
+      deps: { cwd: '/test', shopsDir: '/test/shops', credentialsDir: '/test/shops/credentials' },
+      shopOps: {},
+      credOps: {},
+      devOps: {},
+      gitOps: { getCurrentBranch }
+    } as any);
+    mockCurrentBranch('main');
+
     // Reset startDevelopmentWorkflow mock to default successful result
     const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
     vi.mocked(startDevelopmentWorkflow).mockResolvedValue({ success: true });
@@ -52,7 +66,7 @@ describe('ContextualDev E2E Workflow', () => {
   describe('Shop-specific branch detection', () => {
     test('detects shop-a/main as shop-specific branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/main' as any);
+      mockCurrentBranch('shop-a/main');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -62,14 +76,14 @@ describe('ContextualDev E2E Workflow', () => {
       await contextualDev.run();
 
       // Assert
-      expect(execSync).toHaveBeenCalledWith('git branch --show-current', { encoding: 'utf8' });
+      expect(getCurrentBranch).toHaveBeenCalled();
       expect(runMultiShopManager).toHaveBeenCalled();
       expect(process.env.AUTO_SELECT_DEV).toBe('true');
     });
 
     test('detects shop-b/staging as shop-specific branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-b/staging' as any);
+      mockCurrentBranch('shop-b/staging');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -85,7 +99,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('detects shop-name-with-dashes/feature as shop-specific branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-name-with-dashes/promo-campaign' as any);
+      mockCurrentBranch('shop-name-with-dashes/promo-campaign');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -101,7 +115,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('delegates to shop manager for shop-specific branches', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('my-shop/main' as any);
+      mockCurrentBranch('my-shop/main');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -116,7 +130,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('sets AUTO_SELECT_DEV environment variable for shop branches', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/main' as any);
+      mockCurrentBranch('shop-a/main');
 
       const contextualDev = new ContextualDev();
 
@@ -131,7 +145,7 @@ describe('ContextualDev E2E Workflow', () => {
   describe('Feature branch detection', () => {
     test('detects main as feature branch (core branch, no slash)', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main' as any);
+      mockCurrentBranch('main');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       const { runMultiShopManager } = await import('../../lib/core/index.js');
@@ -148,7 +162,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('detects develop as feature branch (no slash)', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('develop' as any);
+      mockCurrentBranch('develop');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       const { runMultiShopManager } = await import('../../lib/core/index.js');
@@ -165,7 +179,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('detects single-word branch as feature branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('production' as any);
+      mockCurrentBranch('production');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       const { runMultiShopManager } = await import('../../lib/core/index.js');
@@ -182,7 +196,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('delegates to contextual development for non-slash branches', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('bugfix' as any);
+      mockCurrentBranch('bugfix');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
 
@@ -197,7 +211,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('does not set AUTO_SELECT_DEV for non-slash branches', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('test-branch' as any);
+      mockCurrentBranch('test-branch');
 
       const contextualDev = new ContextualDev();
 
@@ -210,7 +224,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('branches with slashes are treated as shop branches', async () => {
       // Arrange - Any branch with slash is treated as shop branch
-      vi.mocked(execSync).mockReturnValue('feature/carousel-fix' as any);
+      mockCurrentBranch('feature/carousel-fix');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
@@ -230,7 +244,7 @@ describe('ContextualDev E2E Workflow', () => {
   describe('Branch name edge cases', () => {
     test('handles branch with multiple slashes (shop-a/feature/sub)', async () => {
       // Arrange - First slash determines shop-specific
-      vi.mocked(execSync).mockReturnValue('shop-a/feature/sub' as any);
+      mockCurrentBranch('shop-a/feature/sub');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -245,7 +259,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('handles branch with numbers (shop-123/main)', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-123/main' as any);
+      mockCurrentBranch('shop-123/main');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -260,7 +274,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('handles branch without slash (main)', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main' as any);
+      mockCurrentBranch('main');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       const { runMultiShopManager } = await import('../../lib/core/index.js');
@@ -277,7 +291,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('handles empty branch name', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('' as any);
+      mockCurrentBranch('');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       const { runMultiShopManager } = await import('../../lib/core/index.js');
@@ -294,7 +308,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('trims whitespace from branch name', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('  shop-a/main  \n' as any);
+      mockCurrentBranch('  shop-a/main  \n');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
@@ -311,9 +325,7 @@ describe('ContextualDev E2E Workflow', () => {
   describe('Error handling', () => {
     test('handles git command failure gracefully', async () => {
       // Arrange
-      vi.mocked(execSync).mockImplementation(() => {
-        throw new Error('fatal: not a git repository');
-      });
+      getCurrentBranch.mockResolvedValue({ success: false, error: 'fatal: not a git repository' });
 
       const contextualDev = new ContextualDev();
 
@@ -323,7 +335,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('handles development workflow failure', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main' as any);
+      mockCurrentBranch('main');
 
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
       vi.mocked(startDevelopmentWorkflow).mockResolvedValue({
@@ -342,7 +354,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('handles shop manager failure', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/main') as any;
+      mockCurrentBranch('shop-a/main');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
       vi.mocked(runMultiShopManager).mockRejectedValue(new Error('Shop manager failed'));
@@ -354,10 +366,10 @@ describe('ContextualDev E2E Workflow', () => {
     });
   });
 
-  describe('Git command execution', () => {
-    test('executes git branch --show-current command', async () => {
+  describe('Git branch detection', () => {
+    test('reads the current branch through the context git operations', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main') as any;
+      mockCurrentBranch('main');
 
       const contextualDev = new ContextualDev();
 
@@ -365,15 +377,12 @@ describe('ContextualDev E2E Workflow', () => {
       await contextualDev.run();
 
       // Assert
-      expect(execSync).toHaveBeenCalledWith(
-        'git branch --show-current',
-        { encoding: 'utf8' }
-      );
+      expect(getCurrentBranch).toHaveBeenCalledTimes(1);
     });
 
-    test('uses utf8 encoding for git output', async () => {
+    test('creates the CLI context before detecting the branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/main') as any;
+      mockCurrentBranch('shop-a/main');
 
       const contextualDev = new ContextualDev();
 
@@ -381,15 +390,16 @@ describe('ContextualDev E2E Workflow', () => {
       await contextualDev.run();
 
       // Assert
-      const call = vi.mocked(execSync).mock.calls[0];
-      expect(call[1]).toEqual({ encoding: 'utf8' });
+      const { createMultiShopCLI } = await import('../../lib/core/index.js');
+      expect(createMultiShopCLI).toHaveBeenCalled();
+      expect(getCurrentBranch).toHaveBeenCalled();
     });
   });
 
   describe('Workflow delegation verification', () => {
     test('shop-specific branches use shop manager workflow', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/promo') as any;
+      mockCurrentBranch('shop-a/promo');
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
@@ -406,7 +416,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('feature branches (without slash) use contextual development workflow', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main' as any);  // Branch without slash
+      mockCurrentBranch('main');  // Branch without slash
 
       const { runMultiShopManager } = await import('../../lib/core/index.js');
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
@@ -423,7 +433,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('creates CLI context for feature branches (without slash)', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('develop' as any);  // Branch without slash
+      mockCurrentBranch('develop');  // Branch without slash
 
       const { createMultiShopCLI } = await import('../../lib/core/index.js');
 
@@ -438,7 +448,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('passes context to startDevelopmentWorkflow for non-slash branches', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('bugfix' as any);  // Branch without slash
+      mockCurrentBranch('bugfix');  // Branch without slash
 
       const { createMultiShopCLI } = await import('../../lib/core/index.js');
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
@@ -447,7 +457,8 @@ describe('ContextualDev E2E Workflow', () => {
         deps: { cwd: '/test', shopsDir: '/test/shops', credentialsDir: '/test/shops/credentials' },
         shopOps: {},
         credOps: {},
-        devOps: {}
+        devOps: {},
+        gitOps: { getCurrentBranch }
       };
 
       vi.mocked(createMultiShopCLI).mockReturnValue(mockContext as any);
@@ -477,7 +488,7 @@ describe('ContextualDev E2E Workflow', () => {
       const { runMultiShopManager } = await import('../../lib/core/index.js');
 
       for (const branch of shopBranches) {
-        vi.mocked(execSync).mockReturnValue(branch) as any;
+        mockCurrentBranch(branch);
 
         const contextualDev = new ContextualDev();
 
@@ -506,7 +517,7 @@ describe('ContextualDev E2E Workflow', () => {
       const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
 
       for (const branch of featureBranches) {
-        vi.mocked(execSync).mockReturnValue(branch) as any;
+        mockCurrentBranch(branch);
 
         const contextualDev = new ContextualDev();
 
@@ -525,7 +536,7 @@ describe('ContextualDev E2E Workflow', () => {
   describe('Console output', () => {
     test('logs detected shop-specific branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('shop-a/main') as any;
+      mockCurrentBranch('shop-a/main');
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
       const contextualDev = new ContextualDev();
@@ -542,7 +553,7 @@ describe('ContextualDev E2E Workflow', () => {
 
     test('logs detected feature branch', async () => {
       // Arrange
-      vi.mocked(execSync).mockReturnValue('main' as any);  // Use branch without slash
+      mockCurrentBranch('main');  // Use branch without slash
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
       const contextualDev = new ContextualDev();
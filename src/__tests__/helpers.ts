@@ -2,10 +2,14 @@
  * Test helper utilities for ShopDevs Multi-Shop tests
  */
 
+import { vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import { tmpdir } from 'os';
+import http from 'http';
+import type { AddressInfo } from 'net';
 import type { ShopConfig, ShopCredentials } from '../types/shop.js';
+import type { GitOperations } from '../lib/core/types.js';
 
 /**
  * Creates a temporary directory for testing
@@ -38,6 +42,7 @@ export const createMockShopConfig = (
   overrides: Partial<ShopConfig> = {}
 ): ShopConfig => {
   return {
+    version: 2,
     shopId,
     name: `Test Shop ${shopId}`,
     shopify: {
@@ -265,3 +270,97 @@ export const createMockFunction = <T extends (...args: any[]) => any>() => {
 
   return mockFn;
 };
+
+/**
+ * Creates a fake GitOperations where every command succeeds
+ * @param overrides Optional replacements for individual operations
+ * @returns GitOperations built from vi.fn() mocks
+ */
+export const createMockGitOperations = (overrides: Partial<GitOperations> = {}): GitOperations => {
+  return {
+    getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'main' }),
+    getHeadCommit: vi.fn().mockResolvedValue({ success: true, data: 'abc1234' }),
+    getRemoteUrl: vi.fn().mockResolvedValue({ success: true, data: 'git@github.com:example/theme.git' }),
+    isWorkingTreeClean: vi.fn().mockResolvedValue({ success: true, data: true }),
+    fetch: vi.fn().mockResolvedValue({ success: true }),
+    checkout: vi.fn().mockResolvedValue({ success: true }),
+    createBranch: vi.fn().mockResolvedValue({ success: true }),
+    branchExists: vi.fn().mockResolvedValue({ success: true, data: true }),
+    listBranches: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    diffNameStatus: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    listFiles: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    readFile: vi.fn().mockResolvedValue({ success: true, data: null }),
+    revListCount: vi.fn().mockResolvedValue({ success: true, data: 0 }),
+    getCommit: vi.fn().mockResolvedValue({ success: true, data: { sha: 'abc1234', author: 'Test User', date: '2026-01-01T00:00:00Z' } }),
+    mergeBase: vi.fn().mockResolvedValue({ success: true, data: 'base123' }),
+    firstCommitDate: vi.fn().mockResolvedValue({ success: true, data: '2026-01-01T00:00:00Z' }),
+    merge: vi.fn().mockResolvedValue({ success: true, data: { merged: true, conflicts: [] } }),
+    abortMerge: vi.fn().mockResolvedValue({ success: true }),
+    pushBranch: vi.fn().mockResolvedValue({ success: true }),
+    deleteBranch: vi.fn().mockResolvedValue({ success: true }),
+    tagExists: vi.fn().mockResolvedValue({ success: true, data: false }),
+    createTag: vi.fn().mockResolvedValue({ success: true }),
+    pushTag: vi.fn().mockResolvedValue({ success: true }),
+    restoreFiles: vi.fn().mockResolvedValue({ success: true }),
+    removeFiles: vi.fn().mockResolvedValue({ success: true }),
+    addFiles: vi.fn().mockResolvedValue({ success: true }),
+    commit: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides
+  };
+};
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface MockApiResponse {
+  status?: number;
+  body?: unknown;
+}
+
+export interface MockApiServer {
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server standing in for a hosting provider API
+ * @param respond Maps each recorded request to a JSON response (defaults to 200 {})
+ * @returns Base URL, the requests received so far, and a close function
+ */
+export const startMockApiServer = async (
+  respond: (request: RecordedRequest) => MockApiResponse = () => ({})
+): Promise<MockApiServer> => {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on('end', () => {
+      const recorded: RecordedRequest = {
+        method: req.method ?? 'GET',
+        url: req.url ?? '/',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined
+      };
+      requests.push(recorded);
+
+      const { status = 200, body = {} } = respond(recorded);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+};
@@ -0,0 +1,144 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  createTempDir,
+  cleanupTempDir,
+  setupTestProject,
+  createMockShopConfig,
+  createTestShop,
+  writeShopConfig
+} from '../helpers.js';
+
+/**
+ * Integration tests for the multi-shop binary's option parsing
+ * Runs the real commander program in-process against a temp project; git and gh go through
+ * the mocked command runner, so the tests see every command a run would execute
+ */
+
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
+}));
+
+type CommandCall = readonly [string, readonly string[]];
+
+describe('multi-shop binary', () => {
+  let tempDir: string;
+  let shopsDir: string;
+  let calls: CommandCall[];
+  let sigintListeners: NodeJS.SignalsListener[];
+  let sigtermListeners: NodeJS.SignalsListener[];
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    shopsDir = setupTestProject(tempDir).shopsDir;
+    calls = [];
+    sigintListeners = process.listeners('SIGINT');
+    sigtermListeners = process.listeners('SIGTERM');
+
+    vi.resetModules();
+    vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    // The binary installs its own shutdown handlers on import
+    process.listeners('SIGINT').filter(listener => !sigintListeners.includes(listener))
+      .forEach(listener => process.off('SIGINT', listener));
+    process.listeners('SIGTERM').filter(listener => !sigtermListeners.includes(listener))
+      .forEach(listener => process.off('SIGTERM', listener));
+    vi.restoreAllMocks();
+    cleanupTempDir(tempDir);
+  });
+
+  /** Answers gh and git like a clean repository with no open pull requests */
+  const runBinary = async (args: string[]): Promise<void> => {
+    const { runCommand } = await import('../../lib/core/command-runner.js');
+    vi.mocked(runCommand).mockImplementation(async (command, commandArgs) => {
+      calls.push([command, commandArgs]);
+      if (command === 'gh' && commandArgs[1] === 'list') return { exitCode: 0, stdout: '[]', stderr: '' };
+      if (command === 'gh' && commandArgs[1] === 'create') {
+        return { exitCode: 0, stdout: 'https://github.com/org/repo/pull/7\n', stderr: '' };
+      }
+      return { exitCode: 0, stdout: '', stderr: '' };
+    });
+
+    process.argv = ['node', 'multi-shop', ...args];
+    await import('../../bin/multi-shop.js');
+  };
+
+  const prBases = (): string[] => calls
+    .filter(([command, args]) => command === 'gh' && args[1] === 'create')
+    .map(([, args]) => args[args.indexOf('--base') + 1] ?? '');
+
+  describe('sync', () => {
+    beforeEach(() => {
+      // Custom naming: staging branches are stores/<shop>/preview
+      fs.writeFileSync(
+        path.join(shopsDir, 'settings.json'),
+        JSON.stringify({ branchNaming: { pattern: 'stores/{shop}/{environment}', environments: { production: 'live', staging: 'preview' } } })
+      );
+      const config = createMockShopConfig('shop-a');
+      writeShopConfig(shopsDir, 'shop-a', {
+        ...config,
+        shopify: {
+          ...config.shopify,
+          stores: {
+            production: { domain: 'shop-a.myshopify.com', branch: 'stores/shop-a/live' },
+            staging: { domain: 'staging-shop-a.myshopify.com', branch: 'stores/shop-a/preview' }
+          }
+        }
+      });
+    });
+
+    test('targets the configured staging branch without --base-suffix', async () => {
+      // Act
+      await runBinary(['sync', '--shops', 'shop-a', '--title', 'Release']);
+      await vi.waitFor(() => expect(console.log).toHaveBeenCalled());
+
+      // Assert
+      expect(prBases()).toEqual(['stores/shop-a/preview']);
+    });
+
+    test('uses the --base-suffix segment in the configured pattern when given', async () => {
+      // Act
+      await runBinary(['sync', '--shops', 'shop-a', '--title', 'Release', '--base-suffix', 'hotfix']);
+      await vi.waitFor(() => expect(console.log).toHaveBeenCalled());
+
+      // Assert
+      expect(prBases()).toEqual(['stores/shop-a/hotfix']);
+    });
+  });
+
+  describe('campaign run-due', () => {
+    const manifest = {
+      version: 1,
+      campaigns: [{
+        name: 'black-friday',
+        shops: ['shop-a'],
+        startsAt: '2026-11-27T00:00:00-05:00',
+        endsAt: '2026-12-01T00:00:00-05:00',
+        launch: 'pull-request'
+      }]
+    };
+
+    beforeEach(() => {
+      createTestShop(tempDir, 'shop-a');
+      fs.writeFileSync(path.join(shopsDir, 'campaigns.json'), JSON.stringify(manifest));
+    });
+
+    test('--dry-run previews the due launch without running git or gh', async () => {
+      // Act
+      await runBinary(['campaign', 'run-due', '--dry-run', '--now', '2026-11-28T12:00:00Z']);
+      await vi.waitFor(() => expect(console.log).toHaveBeenCalled());
+
+      // Assert
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('(dry run, nothing changed)'));
+      expect(calls).toEqual([]);
+      expect(JSON.parse(fs.readFileSync(path.join(shopsDir, 'campaigns.json'), 'utf8'))).toEqual(manifest);
+    });
+  });
+});
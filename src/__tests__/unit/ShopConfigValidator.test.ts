@@ -244,6 +244,86 @@ describe('ShopConfigValidator', () => {
       // Assert
       expect(result).toEqual(validConfig);
     });
+
+    test('validates versioned config with additional named environments', () => {
+      // Arrange
+      const validConfig: ShopConfig = {
+        version: 2,
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: {
+            production: { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' },
+            dev: { domain: 'dev-test-shop.myshopify.com', branch: 'test-shop/dev' },
+            'holiday-preview': { domain: 'test-shop.myshopify.com', branch: 'test-shop/holiday-preview', themeId: '987654321' }
+          },
+          authentication: { method: 'theme-access-app' }
+        }
+      };
+
+      // Act
+      const result = validator.validateConfig(validConfig, 'test-shop');
+
+      // Assert
+      expect(result).toEqual(validConfig);
+    });
+
+    test('validates branches from a prefixed branch naming pattern', () => {
+      const validConfig: ShopConfig = {
+        version: 2,
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: {
+            production: { domain: 'test-shop.myshopify.com', branch: 'stores/test-shop/live' },
+            staging: { domain: 'staging-test-shop.myshopify.com', branch: 'stores/test-shop/preview' }
+          },
+          authentication: { method: 'theme-access-app' }
+        }
+      };
+
+      expect(validator.validateConfig(validConfig, 'test-shop')).toEqual(validConfig);
+    });
+
+    test('validates content protection globs', () => {
+      const withProtection = (contentProtection: unknown): unknown => ({
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: { production: { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' } },
+          authentication: { method: 'theme-access-app' }
+        },
+        contentProtection
+      });
+      const protection = { enabled: true, mode: 'strict', verbosity: 'verbose' };
+
+      expect(() => validator.validateConfig(
+        withProtection({ ...protection, include: ['sections/*.json'], exclude: ['templates/gift_card.json'] }),
+        'test-shop'
+      )).not.toThrow();
+      expect(() => validator.validateConfig(withProtection({ ...protection, include: ['/config/*.json'] }), 'test-shop'))
+        .toThrow(ShopValidationError);
+      expect(() => validator.validateConfig(withProtection({ ...protection, exclude: 'templates/*.json' }), 'test-shop'))
+        .toThrow(ShopValidationError);
+    });
+
+    test('throws error for invalid environment names or a missing production environment', () => {
+      // Arrange
+      const withStores = (stores: Record<string, unknown>): unknown => ({
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: { stores, authentication: { method: 'theme-access-app' } }
+      });
+      const store = { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' };
+
+      // Act & Assert
+      expect(() => validator.validateConfig(withStores({ production: store, 'Holiday Preview': store }), 'test-shop'))
+        .toThrow(ShopValidationError);
+      expect(() => validator.validateConfig(withStores({ qa: { ...store, branch: 'test-shop/qa' } }), 'test-shop'))
+        .toThrow(ShopValidationError);
+      expect(() => validator.validateConfig(withStores({ production: store, qa: { ...store, branch: 'qa' } }), 'test-shop'))
+        .toThrow(ShopValidationError);
+    });
   });
 
   describe('validateCredentialsStructure', () => {
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for branch-naming module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, setupTestProject } from '../helpers.js';
+import {
+  DEFAULT_BRANCH_NAMING,
+  environmentBranchName,
+  loadBranchNaming,
+  parsePromoBranch,
+  parseShopBranch,
+  promoBranchName,
+  resolveBranchNaming
+} from '../../lib/core/branch-naming.js';
+import { validateBranchNaming } from '../../lib/core/validation.js';
+
+const storesNaming = resolveBranchNaming({
+  pattern: 'stores/{shop}/{environment}',
+  environments: { production: 'live', staging: 'preview' },
+  promoPattern: 'stores/{shop}/promo-{promo}'
+});
+
+describe('branch-naming', () => {
+  describe('default naming', () => {
+    test('names main, staging, other environment and promo branches', () => {
+      expect(environmentBranchName(DEFAULT_BRANCH_NAMING, 'shop-a', 'production')).toBe('shop-a/main');
+      expect(environmentBranchName(DEFAULT_BRANCH_NAMING, 'shop-a', 'staging')).toBe('shop-a/staging');
+      expect(environmentBranchName(DEFAULT_BRANCH_NAMING, 'shop-a', 'qa')).toBe('shop-a/qa');
+      expect(promoBranchName(DEFAULT_BRANCH_NAMING, 'shop-a', 'summer-sale')).toBe('shop-a/promo-summer-sale');
+    });
+
+    test('parses shop branches back to shop and environment', () => {
+      expect(parseShopBranch(DEFAULT_BRANCH_NAMING, 'shop-a/main')).toEqual({ shopId: 'shop-a', environment: 'production' });
+      expect(parseShopBranch(DEFAULT_BRANCH_NAMING, 'shop-a/new-header')).toEqual({
+        shopId: 'shop-a',
+        environment: 'new-header'
+      });
+      expect(parseShopBranch(DEFAULT_BRANCH_NAMING, 'main')).toBeNull();
+      expect(parsePromoBranch(DEFAULT_BRANCH_NAMING, 'shop-a/promo-summer-sale')).toEqual({
+        shopId: 'shop-a',
+        promo: 'summer-sale'
+      });
+      expect(parsePromoBranch(DEFAULT_BRANCH_NAMING, 'shop-a/staging')).toBeNull();
+    });
+  });
+
+  describe('custom naming', () => {
+    test('names and parses branches under a prefix with renamed environments', () => {
+      expect(environmentBranchName(storesNaming, 'shop-a', 'production')).toBe('stores/shop-a/live');
+      expect(environmentBranchName(storesNaming, 'shop-a', 'staging')).toBe('stores/shop-a/preview');
+      expect(parseShopBranch(storesNaming, 'stores/shop-a/preview')).toEqual({ shopId: 'shop-a', environment: 'staging' });
+      expect(parseShopBranch(storesNaming, 'shop-a/staging')).toBeNull();
+      expect(parsePromoBranch(storesNaming, 'stores/shop-a/promo-bfcm')).toEqual({ shopId: 'shop-a', promo: 'bfcm' });
+    });
+  });
+
+  describe('validateBranchNaming', () => {
+    test('accepts the default and prefixed naming', () => {
+      expect(validateBranchNaming(DEFAULT_BRANCH_NAMING).success).toBe(true);
+      expect(validateBranchNaming(storesNaming).success).toBe(true);
+    });
+
+    test('rejects missing placeholders, bad segments and invalid branch names', () => {
+      expect(validateBranchNaming({ ...DEFAULT_BRANCH_NAMING, pattern: '{shop}-{shop}/{environment}' }).error).toBe(
+        'Branch pattern must contain {shop} and {environment} once each'
+      );
+      expect(validateBranchNaming({ ...DEFAULT_BRANCH_NAMING, promoPattern: '{shop}/promo' }).error).toBe(
+        'Promo branch pattern must contain {shop} and {promo} once each'
+      );
+      expect(validateBranchNaming({ ...DEFAULT_BRANCH_NAMING, environments: { production: 'Live' } }).error).toBe(
+        'Environment branch names must be lowercase letters, digits, dots, underscores or hyphens: production'
+      );
+      expect(validateBranchNaming({ ...DEFAULT_BRANCH_NAMING, pattern: '{shop}-{environment}' }).error).toMatch(
+        /: shop-a-staging$/
+      );
+    });
+  });
+
+  describe('loadBranchNaming', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      setupTestProject(tempDir);
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    const writeSettings = (settings: unknown): void => {
+      fs.writeFileSync(path.join(tempDir, 'shops', 'settings.json'), JSON.stringify(settings));
+    };
+
+    test('uses the defaults without settings and merges configured naming', async () => {
+      expect((await loadBranchNaming(tempDir)).data).toEqual(DEFAULT_BRANCH_NAMING);
+
+      writeSettings({ branchNaming: { pattern: 'stores/{shop}/{environment}', environments: { staging: 'preview' } } });
+
+      expect((await loadBranchNaming(tempDir)).data).toEqual({
+        pattern: 'stores/{shop}/{environment}',
+        environments: { production: 'main', staging: 'preview' },
+        promoPattern: '{shop}/promo-{promo}'
+      });
+    });
+
+    test('reports invalid naming settings', async () => {
+      writeSettings({ branchNaming: { pattern: 'stores/{environment}' } });
+
+      expect((await loadBranchNaming(tempDir)).error).toBe(
+        'Invalid branchNaming in shops/settings.json: Branch pattern must contain {shop} and {environment} once each'
+      );
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for branch-sync module (multi-shop sync-main)
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+import { createMockGitOperations, createMockShopConfig } from '../helpers.js';
+
+describe('branch-sync', () => {
+  let mockContext: CLIContext;
+  let gitOps: GitOperations;
+
+  beforeEach(() => {
+    gitOps = createMockGitOperations({
+      getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'feature/x' }),
+      revListCount: vi.fn().mockResolvedValue({ success: true, data: 3 })
+    });
+
+    mockContext = {
+      deps: {
+        cwd: '/test/project',
+        shopsDir: '/test/project/shops',
+        credentialsDir: '/test/project/shops/credentials'
+      },
+      shopOps: {
+        loadConfig: vi.fn(async (shopId: string) => ({ success: true, data: createMockShopConfig(shopId) })),
+        saveConfig: vi.fn(),
+        listShops: vi.fn().mockResolvedValue({ success: true, data: ['shop-a', 'shop-b'] }),
+        deleteShop: vi.fn()
+      },
+      credOps: {
+        loadCredentials: vi.fn(),
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
+      },
+      devOps: {
+        startDev: vi.fn()
+      },
+      gitOps
+    };
+  });
+
+  describe('syncMainToShopBranches', () => {
+    test('merges main into main and staging branches of every shop', async () => {
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(r => r.branch)).toEqual([
+        'shop-a/main', 'shop-a/staging', 'shop-b/main', 'shop-b/staging'
+      ]);
+      expect(result.data?.every(r => r.status === 'updated')).toBe(true);
+      expect(gitOps.fetch).toHaveBeenCalled();
+      expect(gitOps.merge).toHaveBeenCalledWith('origin/shop-a/main', { fastForwardOnly: true });
+      expect(gitOps.merge).toHaveBeenCalledWith('origin/main', { rebase: false });
+      expect(gitOps.pushBranch).not.toHaveBeenCalled();
+    });
+
+    test('merges main into every configured environment branch', async () => {
+      const config = createMockShopConfig('shop-a');
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({
+        success: true,
+        data: {
+          ...config,
+          shopify: {
+            ...config.shopify,
+            stores: { ...config.shopify.stores, qa: { domain: 'qa-shop-a.myshopify.com', branch: 'shop-a/qa' } }
+          }
+        }
+      });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(result.data?.map(r => r.branch)).toEqual(['shop-a/main', 'shop-a/staging', 'shop-a/qa']);
+    });
+
+    test('falls back to main and staging when the config cannot be loaded', async () => {
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({ success: false, error: 'Shop configuration not found: shop-a' });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(result.data?.map(r => r.branch)).toEqual(['shop-a/main', 'shop-a/staging']);
+    });
+
+    test('restores the original branch afterwards', async () => {
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      await syncMainToShopBranches(mockContext);
+
+      const calls = vi.mocked(gitOps.checkout).mock.calls.map(call => call[0]);
+      expect(calls[calls.length - 1]).toBe('feature/x');
+    });
+
+    test('falls back to the commit SHA on a detached HEAD', async () => {
+      vi.mocked(gitOps.getCurrentBranch).mockResolvedValue({ success: true, data: '' });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('abc1234');
+    });
+
+    test('refuses to run with uncommitted changes', async () => {
+      vi.mocked(gitOps.isWorkingTreeClean).mockResolvedValue({ success: true, data: false });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('uncommitted changes');
+      expect(gitOps.fetch).not.toHaveBeenCalled();
+    });
+
+    test('reports branches that are already up to date', async () => {
+      vi.mocked(gitOps.revListCount).mockResolvedValue({ success: true, data: 0 });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(result.data?.map(r => r.status)).toEqual(['up-to-date', 'up-to-date']);
+    });
+
+    test('reports conflicts per shop', async () => {
+      let currentBranch = '';
+      vi.mocked(gitOps.checkout).mockImplementation(async (ref) => {
+        currentBranch = ref;
+        return { success: true };
+      });
+      vi.mocked(gitOps.merge).mockImplementation(async (ref) => {
+        if (ref === 'origin/main' && currentBranch === 'shop-b/staging') {
+          return { success: true, data: { merged: false, conflicts: ['config/settings_data.json', 'layout/theme.liquid'] } };
+        }
+        return { success: true, data: { merged: true, conflicts: [] } };
+      });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext);
+
+      const conflict = result.data?.find(r => r.branch === 'shop-b/staging');
+      expect(conflict).toEqual({
+        shop: 'shop-b',
+        branch: 'shop-b/staging',
+        status: 'conflict',
+        conflicts: ['config/settings_data.json', 'layout/theme.liquid']
+      });
+      expect(result.data?.filter(r => r.status === 'updated')).toHaveLength(3);
+    });
+
+    test('reports failed git commands without stopping other branches', async () => {
+      vi.mocked(gitOps.merge).mockImplementation(async (ref) => ref === 'origin/shop-a/main'
+        ? { success: false, error: 'fatal: Not possible to fast-forward, aborting.' }
+        : { success: true, data: { merged: true, conflicts: [] } });
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(result.data?.[0]).toEqual({
+        shop: 'shop-a',
+        branch: 'shop-a/main',
+        status: 'failed',
+        error: 'fatal: Not possible to fast-forward, aborting.'
+      });
+      expect(result.data?.[1]?.status).toBe('updated');
+    });
+
+    test('rebases and force-pushes with lease when requested', async () => {
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      await syncMainToShopBranches(mockContext, { shops: ['shop-a'], rebase: true, push: true });
+
+      expect(gitOps.merge).toHaveBeenCalledWith('origin/main', { rebase: true });
+      expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-a/main', { forceWithLease: true });
+    });
+
+    test('marks missing remote branches', async () => {
+      vi.mocked(gitOps.branchExists).mockImplementation(async (branch) =>
+        ({ success: true, data: branch !== 'shop-a/staging' }));
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-a'] });
+
+      expect(gitOps.branchExists).toHaveBeenCalledWith('shop-a/staging', { remote: true });
+      expect(result.data?.[1]).toEqual({
+        shop: 'shop-a',
+        branch: 'shop-a/staging',
+        status: 'missing',
+        error: 'origin/shop-a/staging not found'
+      });
+    });
+
+    test('rejects unknown shops', async () => {
+      const { syncMainToShopBranches } = await import('../../lib/core/branch-sync.js');
+
+      const result = await syncMainToShopBranches(mockContext, { shops: ['shop-z'] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown shop: shop-z');
+    });
+  });
+
+  describe('formatBranchSyncReport', () => {
+    test('lists each branch with conflicts', async () => {
+      const { formatBranchSyncReport } = await import('../../lib/core/branch-sync.js');
+
+      const report = formatBranchSyncReport([
+        { shop: 'shop-a', branch: 'shop-a/main', status: 'updated' },
+        { shop: 'shop-a', branch: 'shop-a/staging', status: 'conflict', conflicts: ['templates/index.json'] }
+      ]);
+
+      expect(report).toContain('shop-a/main: updated');
+      expect(report).toContain('conflict: templates/index.json');
+      expect(report).toContain('Resolve conflicts manually for: shop-a');
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Unit tests for campaign-schedule module
+ * Theme publishing goes to a local server standing in for the Shopify Admin API
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  cleanupTempDir,
+  createMockGitOperations,
+  createTempDir,
+  createTestShop,
+  startMockApiServer,
+  type MockApiServer
+} from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { runCommand } from '../../lib/core/command-runner.js';
+import {
+  findDueCampaigns,
+  formatCampaignRun,
+  loadCampaignManifest,
+  runDueCampaigns
+} from '../../lib/core/campaign-schedule.js';
+import { validateCampaignManifest } from '../../lib/core/validation.js';
+import type { Campaign, CampaignManifest } from '../../types/shop.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+// Mock command-runner (GitHub CLI)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
+}));
+
+const promo: Campaign = {
+  name: 'black-friday',
+  shops: ['shop-a'],
+  startsAt: '2026-11-27T00:00:00-05:00',
+  endsAt: '2026-12-01T00:00:00-05:00',
+  launch: 'pull-request',
+  owner: 'marketing@example.com'
+};
+
+const during = new Date('2026-11-28T12:00:00Z');
+const after = new Date('2026-12-02T12:00:00Z');
+
+describe('campaign-schedule', () => {
+  describe('findDueCampaigns', () => {
+    test('starts campaigns inside their window and ends those past it, once each', () => {
+      const manifest: CampaignManifest = { version: 1, campaigns: [promo] };
+      const started = { ...promo, runs: { 'shop-a': { startedAt: '2026-11-27T05:00:00.000Z' } } };
+      const ended = { ...promo, runs: { 'shop-a': { startedAt: 'x', endedAt: 'y' } } };
+
+      expect(findDueCampaigns(manifest, new Date('2026-11-26T12:00:00Z'))).toEqual([]);
+      expect(findDueCampaigns(manifest, during).map(due => due.phase)).toEqual(['start']);
+      expect(findDueCampaigns({ version: 1, campaigns: [started] }, during)).toEqual([]);
+      expect(findDueCampaigns({ version: 1, campaigns: [started] }, after).map(due => due.phase)).toEqual(['end']);
+      expect(findDueCampaigns({ version: 1, campaigns: [ended] }, after)).toEqual([]);
+    });
+  });
+
+  describe('validateCampaignManifest', () => {
+    test('accepts a valid manifest', () => {
+      expect(validateCampaignManifest({ version: 1, campaigns: [promo] }).success).toBe(true);
+    });
+
+    test.each([
+      [{ ...promo, startsAt: '2026-11-27 00:00' }, 'ISO 8601 with a time zone'],
+      [{ ...promo, endsAt: promo.startsAt }, 'endsAt must be after startsAt'],
+      [{ ...promo, shops: [] }, 'non-empty list of shop IDs'],
+      [{ ...promo, launch: 'publish-theme' }, 'theme ID for every shop'],
+      [{ ...promo, name: 'Black Friday' }, 'lowercase letters']
+    ])('rejects %o', (campaign, error) => {
+      expect(validateCampaignManifest({ version: 1, campaigns: [campaign] }).error).toContain(error);
+    });
+
+    test('rejects duplicate campaign names', () => {
+      expect(validateCampaignManifest({ version: 1, campaigns: [promo, promo] }).error).toBe('black-friday: Campaign names must be unique');
+    });
+  });
+
+  describe('runDueCampaigns', () => {
+    let tempDir: string;
+    let shopsDir: string;
+    let gitOps: GitOperations;
+    let context: CLIContext;
+    let server: MockApiServer | undefined;
+
+    const writeManifest = (...campaigns: Campaign[]): void => {
+      fs.writeFileSync(path.join(shopsDir, 'campaigns.json'), JSON.stringify({ version: 1, campaigns }));
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      tempDir = createTempDir();
+      ({ shopsDir } = createTestShop(tempDir, 'shop-a'));
+
+      gitOps = createMockGitOperations({
+        getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'main' }),
+        listFiles: vi.fn().mockResolvedValue({ success: true, data: ['config/settings_data.json'] }),
+        readFile: vi.fn().mockResolvedValue({ success: true, data: '{"current":{}}\n' })
+      });
+      context = { ...createMultiShopCLI(tempDir), gitOps };
+
+      vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+        if (args[1] === 'list') return { exitCode: 0, stdout: '[]', stderr: '' };
+        if (args[1] === 'create') {
+          const pr = args[args.indexOf('--head') + 1]?.endsWith('-rollback') ? 2 : 1;
+          return { exitCode: 0, stdout: `https://github.com/org/repo/pull/${pr}\n`, stderr: '' };
+        }
+        return { exitCode: 0, stdout: '', stderr: '' };
+      });
+    });
+
+    afterEach(async () => {
+      await server?.close();
+      server = undefined;
+      cleanupTempDir(tempDir);
+    });
+
+    test('previews due actions in a dry run without changing anything', async () => {
+      // Arrange
+      writeManifest(promo);
+
+      // Act
+      const result = await runDueCampaigns(context, { now: during, dryRun: true });
+
+      // Assert
+      expect(result.data?.results).toEqual([
+        {
+          campaign: 'black-friday',
+          shop: 'shop-a',
+          phase: 'start',
+          steps: ['Snapshot content of shop-a/main', 'Open PR shop-a/promo-black-friday → shop-a/main'],
+          success: true
+        }
+      ]);
+      expect(runCommand).not.toHaveBeenCalled();
+      expect((await loadCampaignManifest(context.deps)).data?.campaigns[0]?.runs).toBeUndefined();
+      expect(formatCampaignRun(result.data!)).toContain('(dry run, nothing changed)');
+    });
+
+    test('opens the promo PR at start and a rollback PR from the snapshot at end', async () => {
+      // Arrange
+      writeManifest(promo);
+
+      // Act
+      const start = await runDueCampaigns(context, { now: during });
+      const end = await runDueCampaigns(context, { now: after });
+
+      // Assert
+      expect(start.data?.results[0]?.success).toBe(true);
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        expect.arrayContaining(['create', '--base', 'shop-a/main', '--head', 'shop-a/promo-black-friday', '--title', 'Launch campaign: black-friday']),
+        expect.anything()
+      );
+
+      expect(end.data?.results[0]).toMatchObject({ phase: 'end', success: true });
+      expect(gitOps.createBranch).toHaveBeenCalledWith('shop-a/promo-black-friday-rollback', 'origin/shop-a/main');
+      expect(gitOps.commit).toHaveBeenCalledWith(expect.stringMatching(/^Restore content for shop-a from snapshot /));
+      expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-a/promo-black-friday-rollback');
+      expect(gitOps.createTag).toHaveBeenCalledWith(
+        'archive/shop-a/promo-black-friday/2026-12-02',
+        'origin/shop-a/promo-black-friday',
+        expect.any(String)
+      );
+      expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-black-friday', { remote: true });
+
+      const run = (await loadCampaignManifest(context.deps)).data?.campaigns[0]?.runs?.['shop-a'];
+      expect(run).toMatchObject({
+        startedAt: during.toISOString(),
+        endedAt: after.toISOString(),
+        snapshotId: expect.stringMatching(/^\d{8}-\d{6}/),
+        pullRequests: ['https://github.com/org/repo/pull/1', 'https://github.com/org/repo/pull/2']
+      });
+    });
+
+    test('skips the rollback PR and tears down when production already matches the snapshot', async () => {
+      // Arrange - the promo PR was never merged, so production still has the snapshotted content
+      writeManifest(promo);
+      await runDueCampaigns(context, { now: during });
+      fs.mkdirSync(path.join(tempDir, 'config'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'config/settings_data.json'), '{"current":{}}\n');
+
+      // Act
+      const end = await runDueCampaigns(context, { now: after });
+
+      // Assert
+      expect(end.data?.results[0]).toMatchObject({ phase: 'end', success: true });
+      expect(gitOps.commit).not.toHaveBeenCalled();
+      expect(gitOps.pushBranch).not.toHaveBeenCalledWith('shop-a/promo-black-friday-rollback');
+      expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-black-friday-rollback', { force: true });
+      expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-black-friday', { remote: true });
+      expect(runCommand).not.toHaveBeenCalledWith('gh', expect.arrayContaining(['--head', 'shop-a/promo-black-friday-rollback']), expect.anything());
+
+      const run = (await loadCampaignManifest(context.deps)).data?.campaigns[0]?.runs?.['shop-a'];
+      expect(run).toMatchObject({ endedAt: after.toISOString(), pullRequests: ['https://github.com/org/repo/pull/1'] });
+    });
+
+    test('publishes the promo theme at start and republishes the previous one at end', async () => {
+      // Arrange
+      server = await startMockApiServer(request => {
+        const { query, variables } = request.body as { query: string; variables?: { id: string } };
+        return query.startsWith('mutation')
+          ? { body: { data: { themePublish: { theme: { id: variables?.id, name: 'Theme' }, userErrors: [] } } } }
+          : { body: { data: { themes: { nodes: [{ id: 'gid://shopify/OnlineStoreTheme/100', name: 'Live' }] } } } };
+      });
+      writeManifest({ ...promo, launch: 'publish-theme', themes: { 'shop-a': '200' } });
+
+      // Act
+      await runDueCampaigns(context, { now: during, themeApi: { adminUrl: server.url } });
+      const end = await runDueCampaigns(context, { now: after, themeApi: { adminUrl: server.url } });
+
+      // Assert
+      expect(end.data?.results[0]?.success).toBe(true);
+      const published = server.requests
+        .map(request => (request.body as { variables?: { id: string } }).variables?.id)
+        .filter(Boolean);
+      expect(published).toEqual(['gid://shopify/OnlineStoreTheme/200', 'gid://shopify/OnlineStoreTheme/100']);
+      expect(server.requests[0]?.headers['x-shopify-access-token']).toBe('prod-token-shop-a');
+      expect(gitOps.fetch).toHaveBeenCalled();
+      expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-black-friday', { remote: true });
+    });
+
+    test('keeps a promo branch with unmerged work at the end and reports it', async () => {
+      // Arrange - the promo PR was never merged, so the promo still has its own changes
+      writeManifest(promo);
+      await runDueCampaigns(context, { now: during });
+      vi.mocked(gitOps.revListCount).mockResolvedValue({ success: true, data: 2 });
+      vi.mocked(gitOps.diffNameStatus).mockResolvedValue({ success: true, data: [{ status: 'modified', path: 'sections/banner.liquid' }] });
+
+      // Act
+      const end = await runDueCampaigns(context, { now: after });
+
+      // Assert
+      expect(end.data?.results[0]).toMatchObject({ phase: 'end', success: false });
+      expect(end.data?.results[0]?.error).toContain('shop-a/promo-black-friday was kept');
+      expect(end.data?.results[0]?.error).toContain('sections/banner.liquid');
+      expect(gitOps.createTag).not.toHaveBeenCalled();
+      expect(gitOps.deleteBranch).not.toHaveBeenCalledWith('shop-a/promo-black-friday', expect.anything());
+      expect((await loadCampaignManifest(context.deps)).data?.campaigns[0]?.runs?.['shop-a']?.endedAt).toBe(after.toISOString());
+    });
+
+    test('reports a failed launch and leaves it due for the next run', async () => {
+      // Arrange
+      vi.mocked(runCommand).mockResolvedValue({ exitCode: 127, stdout: '', stderr: 'spawn gh ENOENT' });
+      writeManifest(promo);
+
+      // Act
+      const result = await runDueCampaigns(context, { now: during });
+
+      // Assert
+      expect(result.data?.results[0]).toMatchObject({ success: false, error: 'GitHub CLI not available' });
+      const manifest = (await loadCampaignManifest(context.deps)).data;
+      expect(findDueCampaigns(manifest!, during)).toHaveLength(1);
+    });
+
+    test('rejects an invalid manifest', async () => {
+      writeManifest({ ...promo, endsAt: '2026-11-01T00:00:00Z' });
+
+      const result = await runDueCampaigns(context, { now: during });
+
+      expect(result.error).toBe('Invalid shops/campaigns.json: black-friday: Campaign endsAt must be after startsAt');
+    });
+  });
+});
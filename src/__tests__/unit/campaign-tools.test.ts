@@ -1,9 +1,11 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import type { CLIContext } from '../../lib/core/types.js';
+import { createMockGitOperations, createMockShopConfig } from '../helpers.js';
 
 // Mock @clack/prompts
 vi.mock('@clack/prompts', () => ({
   select: vi.fn(),
+  multiselect: vi.fn(),
   text: vi.fn(),
   confirm: vi.fn(),
   isCancel: vi.fn(),
@@ -15,9 +17,10 @@ vi.mock('@clack/prompts', () => ({
   }))
 }));
 
-// Mock child_process
-vi.mock('child_process', () => ({
-  execSync: vi.fn()
+// Mock command-runner (GitHub CLI)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
 }));
 
 describe('campaign-tools', () => {
@@ -31,18 +34,20 @@ describe('campaign-tools', () => {
         credentialsDir: '/test/project/shops/credentials'
       },
       shopOps: {
-        loadConfig: vi.fn(),
+        loadConfig: vi.fn(async (shopId: string) => ({ success: true, data: createMockShopConfig(shopId) })),
         saveConfig: vi.fn(),
         listShops: vi.fn(),
         deleteShop: vi.fn()
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
-      }
+      },
+      gitOps: createMockGitOperations()
     };
 
     vi.clearAllMocks();
@@ -94,56 +99,42 @@ describe('campaign-tools', () => {
   describe('Create Promo Branch', () => {
     test('creates promo branch from shop main', async () => {
       // Arrange
-      const { select, text, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
         success: true,
         data: ['shop-a', 'shop-b']
       });
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('create')  // Campaign tool choice
-        .mockResolvedValueOnce('shop-a'); // Shop selection
+      vi.mocked(select).mockResolvedValueOnce('create'); // Campaign tool choice
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']); // Shop selection
 
       vi.mocked(text).mockResolvedValue('summer-sale');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-        // Return strings (not Buffers) since code uses encoding: 'utf8'
-        if (command.includes('git rev-parse')) return 'sha123' as any;
-        if (command.includes('git checkout -b')) return 'Switched to branch' as any;
-        if (command.includes('git push')) return 'Branch pushed' as any;
-        if (command.includes('git branch --show-current')) return 'main' as any;
-        return '' as any;
-      });
-
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
       // Act
       const result = await handleCampaignTools(mockContext);
 
-      // Assert - Test behavior, not implementation details
+      // Assert
       expect(result.success).toBe(true);
-      expect(execSync).toHaveBeenCalled(); // Verify git commands were called
-      const calls = vi.mocked(execSync).mock.calls.map(call => call[0]);
-      const callsStr = calls.join(' ');
-      expect(callsStr).toContain('shop-a/promo-summer-sale'); // Branch name used
+      expect(mockContext.gitOps.branchExists).toHaveBeenCalledWith('shop-a/main', { remote: true });
+      expect(mockContext.gitOps.createBranch).toHaveBeenCalledWith('shop-a/promo-summer-sale', 'origin/shop-a/main');
+      expect(mockContext.gitOps.pushBranch).toHaveBeenCalledWith('shop-a/promo-summer-sale', { setUpstream: true });
     });
 
     test('validates promo name format', async () => {
       // Arrange
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
         success: true,
         data: ['shop-a']
       });
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('create')
-        .mockResolvedValueOnce('shop-a');
+      vi.mocked(select).mockResolvedValueOnce('create');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
 
       // Mock text to return invalid name
       let validateFn: ((value: string) => string | undefined) | undefined;
@@ -167,28 +158,21 @@ describe('campaign-tools', () => {
 
     test('shows error when base branch does not exist', async () => {
       // Arrange
-      const { select, text, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
         success: true,
         data: ['shop-a']
       });
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('create')
-        .mockResolvedValueOnce('shop-a');
+      vi.mocked(select).mockResolvedValueOnce('create');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
 
       vi.mocked(text).mockResolvedValue('summer-sale');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      // Mock git rev-parse to fail (branch doesn't exist)
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        if (typeof cmd === 'string' && cmd.includes('git rev-parse')) {
-          throw new Error('Branch not found');
-        }
-        return Buffer.from('');
-      });
+      // Base branch doesn't exist on origin
+      vi.mocked(mockContext.gitOps.branchExists).mockResolvedValue({ success: true, data: false });
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -198,6 +182,38 @@ describe('campaign-tools', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.error).toContain('Base branch');
+      expect(mockContext.gitOps.createBranch).not.toHaveBeenCalled();
+    });
+
+    test('reports git failures while creating the branch', async () => {
+      // Arrange
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
+
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
+        success: true,
+        data: ['shop-a']
+      });
+
+      vi.mocked(select).mockResolvedValueOnce('create');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+
+      vi.mocked(text).mockResolvedValue('summer-sale');
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      vi.mocked(mockContext.gitOps.createBranch).mockResolvedValue({
+        success: false,
+        error: "fatal: a branch named 'shop-a/promo-summer-sale' already exists"
+      });
+
+      const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
+
+      // Act
+      const result = await handleCampaignTools(mockContext);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('already exists');
+      expect(mockContext.gitOps.pushBranch).not.toHaveBeenCalled();
     });
   });
 
@@ -205,22 +221,21 @@ describe('campaign-tools', () => {
     test('creates PR from promo branch to shop main', async () => {
       // Arrange
       const { select, confirm, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
+      const { runCommand } = await import('../../lib/core/command-runner.js');
 
       vi.mocked(select).mockResolvedValue('push');
       vi.mocked(confirm).mockResolvedValue(true);
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-        if (command.includes('git branch --show-current')) {
-          return 'shop-a/promo-summer-sale' as any;
-        }
-        if (command.includes('gh pr create')) {
-          return 'PR created' as any;
-        }
-        return '' as any;
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({
+        success: true,
+        data: 'shop-a/promo-summer-sale'
       });
+      vi.mocked(runCommand).mockImplementation(async (_command, args) => ({
+        exitCode: 0,
+        stdout: args[1] === 'list' ? '[]' : 'https://github.com/org/repo/pull/7\n',
+        stderr: ''
+      }));
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -229,21 +244,47 @@ describe('campaign-tools', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(execSync).toHaveBeenCalledWith(
-        expect.stringContaining('gh pr create --base shop-a/main --head shop-a/promo-summer-sale'),
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        expect.arrayContaining(['pr', 'create', '--base', 'shop-a/main', '--head', 'shop-a/promo-summer-sale']),
         expect.any(Object)
       );
     });
 
+    test('falls back to manual instructions when GitHub CLI is missing', async () => {
+      // Arrange
+      const { select, confirm, isCancel } = await import('@clack/prompts');
+      const { runCommand } = await import('../../lib/core/command-runner.js');
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      vi.mocked(select).mockResolvedValue('push');
+      vi.mocked(confirm).mockResolvedValue(true);
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({
+        success: true,
+        data: 'shop-a/promo-summer-sale'
+      });
+      vi.mocked(runCommand).mockResolvedValue({ exitCode: 127, stdout: '', stderr: 'spawn gh ENOENT' });
+
+      const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
+
+      // Act
+      const result = await handleCampaignTools(mockContext);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('gh pr create --base shop-a/main --head shop-a/promo-summer-sale'));
+    });
+
     test('rejects when not on promo branch', async () => {
       // Arrange
       const { select, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
 
       vi.mocked(select).mockResolvedValue('push');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockReturnValue('main' as any); // Not on promo branch
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({ success: true, data: 'main' }); // Not on promo branch
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -260,21 +301,14 @@ describe('campaign-tools', () => {
     test('deletes promo branch after confirmation', async () => {
       // Arrange
       const { select, confirm, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
 
       vi.mocked(select).mockResolvedValue('end');
       vi.mocked(confirm).mockResolvedValue(true); // Confirm deletion
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-        if (command.includes('git branch --show-current')) {
-          return 'shop-a/promo-summer-sale' as any;
-        }
-        if (command.includes('git checkout')) return '' as any;
-        if (command.includes('git branch -D')) return '' as any;
-        if (command.includes('git push')) return '' as any;
-        return '' as any;
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({
+        success: true,
+        data: 'shop-a/promo-summer-sale'
       });
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
@@ -284,21 +318,54 @@ describe('campaign-tools', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(execSync).toHaveBeenCalledWith('git checkout shop-a/main');
-      expect(execSync).toHaveBeenCalledWith('git branch -D shop-a/promo-summer-sale');
-      expect(execSync).toHaveBeenCalledWith('git push origin --delete shop-a/promo-summer-sale');
+      expect(mockContext.gitOps.checkout).toHaveBeenCalledWith('shop-a/main');
+      expect(mockContext.gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-summer-sale', { force: true });
+      expect(mockContext.gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-summer-sale', { remote: true });
+      expect(mockContext.gitOps.createTag).toHaveBeenCalledWith(
+        expect.stringMatching(/^archive\/shop-a\/promo-summer-sale\/\d{4}-\d{2}-\d{2}$/),
+        'origin/shop-a/promo-summer-sale',
+        expect.any(String)
+      );
+    });
+
+    test('refuses to delete unmerged changes unless forced', async () => {
+      // Arrange
+      const { select, confirm, isCancel, note } = await import('@clack/prompts');
+
+      vi.mocked(select).mockResolvedValue('end');
+      vi.mocked(confirm).mockResolvedValue(false); // Decline force
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({ success: true, data: 'shop-a/promo-summer-sale' });
+      vi.mocked(mockContext.gitOps.revListCount).mockResolvedValue({ success: true, data: 2 });
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [{ status: 'modified', path: 'sections/hero.liquid' }]
+      });
+
+      const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
+
+      // Act
+      const result = await handleCampaignTools(mockContext);
+
+      // Assert
+      expect(result.error).toBe("Promo has unmerged changes");
+      expect(note).toHaveBeenCalledWith(expect.stringContaining('sections/hero.liquid'), "⚠️ Unmerged Changes");
+      expect(mockContext.gitOps.deleteBranch).not.toHaveBeenCalled();
     });
 
     test('cancels when user declines confirmation', async () => {
       // Arrange
       const { select, confirm, isCancel } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
 
       vi.mocked(select).mockResolvedValue('end');
       vi.mocked(confirm).mockResolvedValue(false); // Decline deletion
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockReturnValue('shop-a/promo-summer-sale' as any);
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({
+        success: true,
+        data: 'shop-a/promo-summer-sale'
+      });
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -308,6 +375,7 @@ describe('campaign-tools', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.error).toContain("Cancelled");
+      expect(mockContext.gitOps.deleteBranch).not.toHaveBeenCalled();
     });
   });
 
@@ -315,17 +383,14 @@ describe('campaign-tools', () => {
     test('lists all promo branches', async () => {
       // Arrange
       const { select, isCancel, note } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
 
       vi.mocked(select).mockResolvedValue('list');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockReturnValue(`
-        origin/shop-a/promo-summer-sale
-        origin/shop-a/main
-        origin/shop-b/promo-black-friday
-        origin/shop-b/staging
-      ` as any);
+      vi.mocked(mockContext.gitOps.listBranches).mockResolvedValue({
+        success: true,
+        data: ['shop-a/promo-summer-sale', 'shop-a/main', 'shop-b/promo-black-friday', 'shop-b/staging']
+      });
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -338,21 +403,20 @@ describe('campaign-tools', () => {
         expect.stringContaining("2 active promo"),
         expect.any(String)
       );
+      expect(mockContext.gitOps.listBranches).toHaveBeenCalledWith({ remote: true });
     });
 
     test('handles no active promos', async () => {
       // Arrange
       const { select, isCancel, note } = await import('@clack/prompts');
-      const { execSync } = await import('child_process');
 
       vi.mocked(select).mockResolvedValue('list');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockReturnValue(`
-        origin/shop-a/main
-        origin/shop-a/staging
-        origin/shop-b/main
-      ` as any);
+      vi.mocked(mockContext.gitOps.listBranches).mockResolvedValue({
+        success: true,
+        data: ['shop-a/main', 'shop-a/staging', 'shop-b/main']
+      });
 
       const { handleCampaignTools } = await import('../../lib/core/campaign-tools.js');
 
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for campaigns module
+ * Git is mocked; PRs go through a mocked GitHub CLI
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { cleanupTempDir, createMockGitOperations, createTempDir, createTestShop } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { runCommand } from '../../lib/core/command-runner.js';
+import { loadCampaignManifest } from '../../lib/core/campaign-schedule.js';
+import {
+  createCampaign,
+  endCampaign,
+  formatCampaignStatus,
+  getCampaignStatus,
+  pushCampaign
+} from '../../lib/core/campaigns.js';
+import { validateCampaignManifest } from '../../lib/core/validation.js';
+import type { Campaign } from '../../types/shop.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+// Mock command-runner (GitHub CLI)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
+}));
+
+describe('campaigns', () => {
+  let tempDir: string;
+  let shopsDir: string;
+  let gitOps: GitOperations;
+  let context: CLIContext;
+
+  const writeManifest = (...campaigns: Campaign[]): void => {
+    fs.writeFileSync(path.join(shopsDir, 'campaigns.json'), JSON.stringify({ version: 1, campaigns }));
+  };
+
+  const loadCampaign = async (): Promise<Campaign | undefined> =>
+    (await loadCampaignManifest(context.deps)).data?.campaigns[0];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = createTempDir();
+    ({ shopsDir } = createTestShop(tempDir, 'shop-a'));
+    createTestShop(tempDir, 'shop-b');
+
+    gitOps = createMockGitOperations({
+      // Production branches exist on origin, promo branches don't yet
+      branchExists: vi.fn().mockImplementation(async (branch: string) =>
+        ({ success: true, data: !branch.includes('promo-') }))
+    });
+    context = { ...createMultiShopCLI(tempDir), gitOps };
+
+    vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+      if (args[1] === 'list') return { exitCode: 0, stdout: '[]', stderr: '' };
+      if (args[1] === 'create') {
+        const pr = args[args.indexOf('--head') + 1]?.startsWith('shop-b') ? 2 : 1;
+        return { exitCode: 0, stdout: `https://github.com/org/repo/pull/${pr}\n`, stderr: '' };
+      }
+      return { exitCode: 0, stdout: '', stderr: '' };
+    });
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  test('creates and pushes a promo branch on every shop and records the campaign', async () => {
+    // Arrange
+    vi.mocked(gitOps.getCurrentBranch)
+      .mockResolvedValueOnce({ success: true, data: 'main' })
+      .mockResolvedValue({ success: true, data: 'shop-b/promo-black-friday' });
+
+    // Act
+    const result = await createCampaign(context, { name: 'black-friday', shops: ['shop-a', 'shop-b'], owner: 'marketing' });
+
+    // Assert
+    expect(result.data?.map(shop => shop.success)).toEqual([true, true]);
+    expect(gitOps.createBranch).toHaveBeenCalledWith('shop-a/promo-black-friday', 'origin/shop-a/main');
+    expect(gitOps.createBranch).toHaveBeenCalledWith('shop-b/promo-black-friday', 'origin/shop-b/main');
+    expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-b/promo-black-friday', { setUpstream: true });
+    expect(gitOps.checkout).toHaveBeenCalledWith('main');
+
+    const campaign = await loadCampaign();
+    expect(campaign).toMatchObject({ name: 'black-friday', shops: ['shop-a', 'shop-b'], owner: 'marketing' });
+    expect(campaign?.runs?.['shop-b']?.branchCreatedAt).toEqual(expect.any(String));
+    expect(validateCampaignManifest({ version: 1, campaigns: [campaign] }).success).toBe(true);
+  });
+
+  test('keeps going when one shop fails', async () => {
+    // Arrange
+    vi.mocked(gitOps.pushBranch).mockImplementation(async (branch: string) =>
+      branch.startsWith('shop-a') ? { success: false, error: 'remote rejected' } : { success: true });
+
+    // Act
+    const result = await createCampaign(context, { name: 'black-friday', shops: ['shop-a', 'shop-b'] });
+
+    // Assert
+    expect(result.data).toEqual([
+      { shop: 'shop-a', branch: 'shop-a/promo-black-friday', success: false, error: 'remote rejected' },
+      { shop: 'shop-b', branch: 'shop-b/promo-black-friday', success: true }
+    ]);
+    expect(Object.keys((await loadCampaign())?.runs ?? {})).toEqual(['shop-b']);
+  });
+
+  test('opens every promo PR at once and ends the campaign everywhere', async () => {
+    // Arrange
+    writeManifest({ name: 'black-friday', shops: ['shop-a', 'shop-b'] });
+    vi.mocked(gitOps.branchExists).mockResolvedValue({ success: true, data: true });
+
+    // Act
+    const pushed = await pushCampaign(context, 'black-friday');
+    const ended = await endCampaign(context, 'black-friday');
+
+    // Assert
+    expect(pushed.data?.map(shop => shop.url)).toEqual(['https://github.com/org/repo/pull/1', 'https://github.com/org/repo/pull/2']);
+    expect(runCommand).toHaveBeenCalledWith(
+      'gh',
+      expect.arrayContaining(['create', '--base', 'shop-b/main', '--head', 'shop-b/promo-black-friday', '--title', 'Deploy promo campaign: black-friday']),
+      expect.anything()
+    );
+
+    expect(ended.data?.every(shop => shop.success)).toBe(true);
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-a/promo-black-friday', { remote: true });
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith('shop-b/promo-black-friday', { force: true });
+
+    const runs = (await loadCampaign())?.runs;
+    expect(runs?.['shop-a']).toMatchObject({ pullRequests: ['https://github.com/org/repo/pull/1'], endedAt: expect.any(String) });
+  });
+
+  test('reports each shop state in one table', async () => {
+    // Arrange
+    writeManifest({
+      name: 'black-friday',
+      shops: ['shop-a', 'shop-b'],
+      runs: { 'shop-a': { pullRequests: ['https://github.com/org/repo/pull/1'] } }
+    });
+    vi.mocked(gitOps.listBranches).mockResolvedValue({ success: true, data: ['shop-a/main', 'shop-a/promo-black-friday'] });
+
+    // Act
+    const result = await getCampaignStatus(context, 'black-friday');
+
+    // Assert
+    expect(result.data?.[0]?.shops.map(shop => shop.state)).toEqual(['pr-open', 'no-branch']);
+    const table = formatCampaignStatus(result.data ?? []);
+    expect(table).toContain('shop-a  shop-a/promo-black-friday  🔀 PR open');
+    expect(table).toContain('shop-b  shop-b/promo-black-friday  ⚪ no branch');
+    expect((await getCampaignStatus(context, 'summer-sale')).error).toBe('Campaign summer-sale not found in shops/campaigns.json');
+  });
+
+  test('rejects partial schedules', () => {
+    const campaign = { name: 'black-friday', shops: ['shop-a'], startsAt: '2026-11-27T00:00:00Z' };
+
+    expect(validateCampaignManifest({ version: 1, campaigns: [campaign] }).error)
+      .toBe('black-friday: Scheduled campaigns need startsAt, endsAt and launch together');
+  });
+});
@@ -52,7 +52,8 @@ describe('cli', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
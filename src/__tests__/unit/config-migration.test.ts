@@ -0,0 +1,111 @@
+/**
+ * Unit tests for config-migration module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockShopConfig,
+  readShopConfig,
+  setupTestProject,
+  writeShopConfig
+} from '../helpers.js';
+import { migrateShopConfig, migrateShopConfigs, CURRENT_CONFIG_VERSION } from '../../lib/core/config-migration.js';
+import { createShopOperations } from '../../lib/core/shop-operations.js';
+import type { Dependencies } from '../../lib/core/types.js';
+import type { ShopConfig } from '../../types/shop.js';
+
+const legacyConfig = (shopId: string): ShopConfig => {
+  const { version: _version, ...config } = createMockShopConfig(shopId);
+  return config;
+};
+
+describe('config-migration', () => {
+  let tempDir: string;
+  let deps: Dependencies;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { shopsDir, credentialsDir } = setupTestProject(tempDir);
+    deps = { cwd: tempDir, shopsDir, credentialsDir };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('migrateShopConfig', () => {
+    test('stamps the version and fills in missing environment branches', () => {
+      // Arrange
+      const raw = {
+        shopId: 'shop-a',
+        name: 'Shop A',
+        shopify: {
+          stores: {
+            production: { domain: 'shop-a.myshopify.com' },
+            staging: { domain: 'staging-shop-a.myshopify.com', branch: 'shop-a/staging' },
+            'holiday-preview': { domain: 'shop-a.myshopify.com' }
+          },
+          authentication: { method: 'theme-access-app' }
+        }
+      };
+
+      // Act
+      const { config, changed } = migrateShopConfig(raw, 'shop-a');
+
+      // Assert
+      expect(changed).toBe(true);
+      expect(config.version).toBe(CURRENT_CONFIG_VERSION);
+      expect(config.shopify.stores).toEqual({
+        production: { domain: 'shop-a.myshopify.com', branch: 'shop-a/main' },
+        staging: { domain: 'staging-shop-a.myshopify.com', branch: 'shop-a/staging' },
+        'holiday-preview': { domain: 'shop-a.myshopify.com', branch: 'shop-a/holiday-preview' }
+      });
+    });
+
+    test('leaves current configs untouched', () => {
+      const current = createMockShopConfig('shop-a');
+
+      const { config, changed } = migrateShopConfig(current, 'shop-a');
+
+      expect(changed).toBe(false);
+      expect(config).toBe(current);
+    });
+  });
+
+  describe('migrateShopConfigs', () => {
+    test('rewrites legacy files and reports up-to-date and invalid ones', async () => {
+      // Arrange
+      writeShopConfig(deps.shopsDir, 'shop-a', legacyConfig('shop-a'));
+      writeShopConfig(deps.shopsDir, 'shop-b', createMockShopConfig('shop-b'));
+      fs.writeFileSync(
+        path.join(deps.shopsDir, 'shop-c.config.json'),
+        JSON.stringify({ ...legacyConfig('shop-c'), shopify: { stores: { staging: { domain: 'staging.myshopify.com' } } } })
+      );
+
+      // Act
+      const result = await migrateShopConfigs(deps);
+
+      // Assert
+      expect(result.data).toEqual({
+        migrated: ['shop-a'],
+        unchanged: ['shop-b'],
+        failed: [{ shop: 'shop-c', error: 'A production environment is required' }]
+      });
+      expect(readShopConfig(deps.shopsDir, 'shop-a')?.version).toBe(CURRENT_CONFIG_VERSION);
+      expect(readShopConfig(deps.shopsDir, 'shop-c')?.version).toBeUndefined();
+    });
+
+    test('upgrades legacy files in memory when loading', async () => {
+      writeShopConfig(deps.shopsDir, 'shop-a', legacyConfig('shop-a'));
+
+      const loaded = await createShopOperations(deps).loadConfig('shop-a');
+
+      expect(loaded.data?.version).toBe(CURRENT_CONFIG_VERSION);
+      expect(readShopConfig(deps.shopsDir, 'shop-a')?.version).toBeUndefined();
+    });
+  });
+});
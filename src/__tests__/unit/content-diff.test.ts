@@ -0,0 +1,185 @@
+/**
+ * Unit tests for content-diff module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockGitOperations,
+  createMockShopConfig,
+  setupTestProject,
+  writeShopConfig
+} from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import {
+  diffContentFile,
+  diffContentJson,
+  diffShopContent,
+  formatContentDiff,
+  parseContentJson
+} from '../../lib/core/content-diff.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+const settingsOnShop = {
+  current: { colors_accent_1: '#ff0000', logo_width: 120, sections: { header: { type: 'header', settings: { sticky: true } } } }
+};
+
+const settingsOnMain = {
+  current: { colors_accent_1: '#000000', sections: { header: { type: 'header', settings: { sticky: true } } }, type_body: 'inter' }
+};
+
+/** readFile backed by { ref: { path: contents } } */
+const filesAt = (files: Record<string, Record<string, string>>): GitOperations['readFile'] =>
+  vi.fn(async (ref: string, file: string) => ({ success: true, data: files[ref]?.[file] ?? null }));
+
+describe('content-diff', () => {
+  describe('diffContentJson', () => {
+    test('lists changed, added and removed keys with their values', () => {
+      expect(diffContentJson(settingsOnShop, settingsOnMain)).toEqual([
+        { path: 'current.colors_accent_1', kind: 'changed', before: '#ff0000', after: '#000000' },
+        { path: 'current.logo_width', kind: 'removed', before: 120 },
+        { path: 'current.type_body', kind: 'added', after: 'inter' }
+      ]);
+    });
+
+    test('compares arrays as a whole and quotes unusual keys', () => {
+      const before = { order: ['hero', 'featured'], sections: { 'hero banner': { settings: { title: 'Sale' } } } };
+      const after = { order: ['featured', 'hero'], sections: { 'hero banner': { settings: { title: 'New in' } } } };
+
+      expect(diffContentJson(before, after).map(change => change.path)).toEqual([
+        'order',
+        'sections["hero banner"].settings.title'
+      ]);
+    });
+
+    test('reports no changes for equal content', () => {
+      expect(diffContentJson(settingsOnShop, structuredClone(settingsOnShop))).toEqual([]);
+    });
+  });
+
+  describe('parseContentJson', () => {
+    test('ignores the comment Shopify puts at the top of generated files', () => {
+      const text = `/*\n * IMPORTANT: The contents of this file are auto-generated.\n */\n{"current": {"logo_width": 90}}`;
+
+      expect(parseContentJson(text)).toEqual({ current: { logo_width: 90 } });
+    });
+  });
+
+  describe('diffContentFile', () => {
+    test('diffs the file at both refs and flags new, deleted and invalid files', async () => {
+      // Arrange
+      const git = createMockGitOperations({
+        readFile: filesAt({
+          main: {
+            'config/settings_data.json': JSON.stringify(settingsOnMain),
+            'templates/index.json': '{}',
+            'locales/en.default.json': '{ not json'
+          },
+          'origin/shop-a/staging': {
+            'config/settings_data.json': JSON.stringify(settingsOnShop),
+            'templates/product.json': '{}',
+            'locales/en.default.json': '{}'
+          }
+        })
+      });
+
+      // Act
+      const settings = await diffContentFile(git, 'main', 'origin/shop-a/staging', 'config/settings_data.json');
+      const added = await diffContentFile(git, 'main', 'origin/shop-a/staging', 'templates/index.json');
+      const removed = await diffContentFile(git, 'main', 'origin/shop-a/staging', 'templates/product.json');
+      const invalid = await diffContentFile(git, 'main', 'origin/shop-a/staging', 'locales/en.default.json');
+
+      // Assert
+      expect(settings.status).toBe('modified');
+      expect(settings.changes).toHaveLength(3);
+      expect(added).toEqual({ file: 'templates/index.json', status: 'added', changes: [] });
+      expect(removed).toEqual({ file: 'templates/product.json', status: 'removed', changes: [] });
+      expect(invalid.error).toBeDefined();
+    });
+  });
+
+  describe('diffShopContent', () => {
+    let tempDir: string;
+    let gitOps: GitOperations;
+    let context: CLIContext;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      const { shopsDir } = setupTestProject(tempDir);
+      writeShopConfig(shopsDir, 'shop-a', createMockShopConfig('shop-a'));
+
+      gitOps = createMockGitOperations({
+        diffNameStatus: vi.fn().mockResolvedValue({
+          success: true,
+          data: [
+            { status: 'M', path: 'config/settings_data.json' },
+            { status: 'M', path: 'sections/header.liquid' }
+          ]
+        }),
+        readFile: filesAt({
+          main: { 'config/settings_data.json': JSON.stringify(settingsOnMain) },
+          'origin/shop-a/staging': { 'config/settings_data.json': JSON.stringify(settingsOnShop) },
+          'origin/shop-a/main': { 'config/settings_data.json': JSON.stringify(settingsOnMain) }
+        })
+      });
+      context = { ...createMultiShopCLI(tempDir), gitOps };
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    test('diffs content files between main and the staging branch', async () => {
+      // Act
+      const result = await diffShopContent(context, 'shop-a');
+
+      // Assert
+      expect(gitOps.diffNameStatus).toHaveBeenCalledWith('main', 'origin/shop-a/staging');
+      expect(result.data?.to).toBe('origin/shop-a/staging');
+      expect(result.data?.files.map(file => file.file)).toEqual(['config/settings_data.json']);
+      expect(result.data?.files[0]?.changes.map(change => change.path)).toEqual([
+        'current.colors_accent_1',
+        'current.logo_width',
+        'current.type_body'
+      ]);
+    });
+
+    test('compares against the requested environment and ref', async () => {
+      const result = await diffShopContent(context, 'shop-a', { from: 'feature/header', environment: 'production' });
+
+      expect(gitOps.diffNameStatus).toHaveBeenCalledWith('feature/header', 'origin/shop-a/main');
+      expect(result.data?.from).toBe('feature/header');
+    });
+
+    test('fails for unknown shops and environments', async () => {
+      expect((await diffShopContent(context, 'shop-b')).success).toBe(false);
+      expect((await diffShopContent(context, 'shop-a', { environment: 'qa' })).error).toBe('shop-a has no qa environment');
+    });
+  });
+
+  describe('formatContentDiff', () => {
+    test('shows each key with the shop value and the incoming value', () => {
+      const output = formatContentDiff({
+        shop: 'shop-a',
+        from: 'main',
+        to: 'origin/shop-a/staging',
+        files: [
+          { file: 'config/settings_data.json', status: 'modified', changes: diffContentJson(settingsOnShop, settingsOnMain) },
+          { file: 'templates/index.json', status: 'added', changes: [] }
+        ]
+      });
+
+      expect(output).toContain('~ current.colors_accent_1: "#ff0000" → "#000000"');
+      expect(output).toContain('- current.logo_width (was 120)');
+      expect(output).toContain('+ current.type_body: "inter"');
+      expect(output).toContain('templates/index.json: new file');
+    });
+
+    test('says when no content would change', () => {
+      expect(formatContentDiff({ shop: 'shop-a', from: 'main', to: 'origin/shop-a/staging', files: [] })).toContain(
+        'No content files would change'
+      );
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for content-merge module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, createMockGitOperations, setupTestProject } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { DEFAULT_CONTENT_RULES } from '../../lib/core/content-rules.js';
+import {
+  createSmartMergeBranch,
+  formatContentMergeNotes,
+  mergeContentFile,
+  mergeContentJson
+} from '../../lib/core/content-merge.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+const base = {
+  current: { colors_accent_1: '#000000', logo_width: 100, type_body: 'inter' }
+};
+
+const shop = {
+  current: { colors_accent_1: '#ff0000', logo_width: 140, shop_banner: true }
+};
+
+const main = {
+  current: { colors_accent_1: '#000000', logo_width: 120, type_body: 'inter', cart_type: 'drawer' }
+};
+
+/** readFile backed by { ref: { path: contents } } */
+const filesAt = (files: Record<string, Record<string, string>>): GitOperations['readFile'] =>
+  vi.fn(async (ref: string, file: string) => ({ success: true, data: files[ref]?.[file] ?? null }));
+
+describe('content-merge', () => {
+  describe('mergeContentJson', () => {
+    test('keeps shop values, adds new keys from main and flags values changed on both sides', () => {
+      const result = mergeContentJson(shop, main, base);
+
+      expect(result.merged).toEqual({
+        current: { colors_accent_1: '#ff0000', logo_width: 140, shop_banner: true, cart_type: 'drawer' }
+      });
+      expect(result.added).toEqual(['current.cart_type']);
+      expect(result.conflicts).toEqual([
+        { path: 'current.logo_width', reason: 'changed-on-both', shop: 140, incoming: 120 }
+      ]);
+    });
+
+    test('keeps main changes to values the shop never customized as shop values', () => {
+      const result = mergeContentJson(base, { current: { ...base.current, type_body: 'roboto' } }, base);
+
+      expect(result.merged).toEqual(base);
+      expect(result.kept).toEqual(['current.type_body']);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    test('flags keys removed on main and values whose type changed', () => {
+      const result = mergeContentJson(
+        { current: { legacy_header: true, logo: 'logo.png' } },
+        { current: { logo: { url: 'logo.png' } } },
+        { current: { legacy_header: true, logo: 'logo.png' } }
+      );
+
+      expect(result.merged).toEqual({ current: { legacy_header: true, logo: 'logo.png' } });
+      expect(result.conflicts.map(conflict => [conflict.path, conflict.reason])).toEqual([
+        ['current.legacy_header', 'removed-on-main'],
+        ['current.logo', 'type-changed']
+      ]);
+    });
+
+    test('appends sections new on main to the shop order and leaves sections the shop removed out', () => {
+      const template = {
+        sections: { hero: { type: 'image-banner' }, featured: { type: 'featured-collection' } },
+        order: ['hero', 'featured']
+      };
+      const shopTemplate = { sections: { featured: { type: 'featured-collection' } }, order: ['featured'] };
+      const mainTemplate = {
+        sections: { ...template.sections, reviews: { type: 'reviews', settings: { heading: 'Reviews' } } },
+        order: ['hero', 'reviews', 'featured']
+      };
+
+      const result = mergeContentJson(shopTemplate, mainTemplate, template);
+
+      expect(result.merged).toEqual({
+        sections: { featured: { type: 'featured-collection' }, reviews: { type: 'reviews', settings: { heading: 'Reviews' } } },
+        order: ['featured', 'reviews']
+      });
+      expect(result.added).toEqual(['sections.reviews']);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    test('treats every differing value as kept without a merge base', () => {
+      const result = mergeContentJson(shop, main);
+
+      expect(result.kept).toEqual(['current.colors_accent_1', 'current.logo_width']);
+      expect(result.added).toEqual(['current.type_body', 'current.cart_type']);
+    });
+  });
+
+  describe('mergeContentFile', () => {
+    const header = '/*\n * IMPORTANT: The contents of this file are auto-generated.\n */';
+
+    test('keeps the generated header and leaves unchanged files byte for byte', async () => {
+      // Arrange
+      const git = createMockGitOperations({
+        readFile: filesAt({
+          'origin/shop-a/staging': {
+            'config/settings_data.json': `${header}\n${JSON.stringify(shop)}`,
+            'locales/en.default.json': '{ "general": { "title": "Shop" } }'
+          },
+          main: {
+            'config/settings_data.json': JSON.stringify(main),
+            'locales/en.default.json': '{ "general": { "title": "Main" } }'
+          }
+        })
+      });
+      const refs = { shop: 'origin/shop-a/staging', incoming: 'main' };
+
+      // Act
+      const settings = await mergeContentFile(git, refs, 'config/settings_data.json');
+      const locales = await mergeContentFile(git, refs, 'locales/en.default.json');
+
+      // Assert
+      expect(settings.contents?.startsWith(`${header}\n{`)).toBe(true);
+      expect(settings.merge.added).toEqual(['current.type_body', 'current.cart_type']);
+      expect(locales.contents).toBe('{ "general": { "title": "Shop" } }');
+      expect(locales.merge.kept).toEqual(['general.title']);
+    });
+
+    test('takes new files from main and keeps files main deleted', async () => {
+      const git = createMockGitOperations({
+        readFile: filesAt({
+          'origin/shop-a/staging': { 'templates/old.json': '{}' },
+          main: { 'templates/new.json': '{"sections":{}}' },
+          base123: { 'templates/old.json': '{}' }
+        })
+      });
+      const refs = { shop: 'origin/shop-a/staging', incoming: 'main', base: 'base123' };
+
+      const added = await mergeContentFile(git, refs, 'templates/new.json');
+      const deleted = await mergeContentFile(git, refs, 'templates/old.json');
+
+      expect(added).toEqual({ merge: expect.objectContaining({ status: 'added' }), contents: '{"sections":{}}' });
+      expect(deleted.contents).toBe('{}');
+      expect(deleted.merge.conflicts).toEqual([{ path: '(file)', reason: 'removed-on-main' }]);
+    });
+  });
+
+  describe('createSmartMergeBranch', () => {
+    let tempDir: string;
+    let gitOps: GitOperations;
+    let context: CLIContext;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      setupTestProject(tempDir);
+
+      gitOps = createMockGitOperations({
+        getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'main' }),
+        diffNameStatus: vi.fn().mockResolvedValue({
+          success: true,
+          data: [
+            { status: 'modified', path: 'config/settings_data.json' },
+            { status: 'modified', path: 'sections/header.liquid' }
+          ]
+        }),
+        merge: vi.fn().mockResolvedValue({ success: true, data: { merged: false, conflicts: ['config/settings_data.json'] } }),
+        readFile: filesAt({
+          'origin/shop-a/staging': { 'config/settings_data.json': JSON.stringify(shop) },
+          'origin/main': { 'config/settings_data.json': JSON.stringify(main) },
+          base123: { 'config/settings_data.json': JSON.stringify(base) }
+        })
+      });
+      context = { ...createMultiShopCLI(tempDir), gitOps };
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    test('merges main on a branch off the shop branch with content resolved key by key', async () => {
+      // Act
+      const result = await createSmartMergeBranch(context, { shop: 'shop-a', base: 'shop-a/staging', contentRules: DEFAULT_CONTENT_RULES });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.branch).toBe('content-merge/shop-a/staging');
+      expect(gitOps.fetch).toHaveBeenCalled();
+      expect(gitOps.createBranch).toHaveBeenCalledWith('content-merge/shop-a/staging', 'origin/shop-a/staging');
+      expect(gitOps.mergeBase).toHaveBeenCalledWith('origin/main', 'origin/shop-a/staging');
+      expect(gitOps.diffNameStatus).toHaveBeenCalledWith('origin/shop-a/staging', 'origin/main');
+      expect(gitOps.merge).toHaveBeenCalledWith('origin/main', { noCommit: true });
+
+      const written = JSON.parse(fs.readFileSync(path.join(tempDir, 'config/settings_data.json'), 'utf8'));
+      expect(written.current).toEqual({ ...shop.current, cart_type: 'drawer' });
+      expect(gitOps.addFiles).toHaveBeenCalledWith(['config/settings_data.json']);
+      expect(gitOps.commit).toHaveBeenCalledWith('Merge main into shop-a/staging, keeping shop-a content');
+      expect(gitOps.pushBranch).toHaveBeenCalledWith('content-merge/shop-a/staging', { setUpstream: true, forceWithLease: true });
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('main');
+    });
+
+    test('aborts when code files conflict', async () => {
+      // Arrange
+      vi.mocked(gitOps.merge).mockResolvedValue({
+        success: true,
+        data: { merged: false, conflicts: ['config/settings_data.json', 'sections/header.liquid'] }
+      });
+
+      // Act
+      const result = await createSmartMergeBranch(context, { shop: 'shop-a', base: 'shop-a/staging', contentRules: DEFAULT_CONTENT_RULES });
+
+      // Assert
+      expect(result.error).toBe('Smart merge for shop-a failed: Merge conflicts outside content files: sections/header.liquid');
+      expect(gitOps.abortMerge).toHaveBeenCalled();
+      expect(gitOps.commit).not.toHaveBeenCalled();
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('main');
+    });
+
+    test('refuses to run with uncommitted changes', async () => {
+      vi.mocked(gitOps.isWorkingTreeClean).mockResolvedValue({ success: true, data: false });
+
+      const result = await createSmartMergeBranch(context, { shop: 'shop-a', base: 'shop-a/staging', contentRules: DEFAULT_CONTENT_RULES });
+
+      expect(result.error).toBe('Working tree has uncommitted changes. Commit or stash them first.');
+      expect(gitOps.createBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('formatContentMergeNotes', () => {
+    test('summarizes each file and lists conflicts to review', () => {
+      const notes = formatContentMergeNotes([
+        {
+          file: 'config/settings_data.json',
+          status: 'merged',
+          added: ['current.cart_type'],
+          kept: [],
+          conflicts: [{ path: 'current.logo_width', reason: 'changed-on-both', shop: 140, incoming: 120 }]
+        }
+      ]);
+
+      expect(notes).toContain('- `config/settings_data.json`: 1 added, 1 to review');
+      expect(notes).toContain('  - ⚠️ `current.logo_width` changed on main and in the shop: kept 140, main has 120');
+    });
+  });
+});
@@ -41,7 +41,8 @@ describe('content-protection', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for content-rules module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, setupTestProject } from '../helpers.js';
+import {
+  DEFAULT_CONTENT_RULES,
+  isContentFile,
+  loadContentRules,
+  matchesGlob,
+  resolveContentRules
+} from '../../lib/core/content-rules.js';
+
+describe('content-rules', () => {
+  describe('matchesGlob', () => {
+    test('keeps * and ? within a path segment', () => {
+      expect(matchesGlob('sections/header-group.json', 'sections/*.json')).toBe(true);
+      expect(matchesGlob('sections/nested/group.json', 'sections/*.json')).toBe(false);
+      expect(matchesGlob('locales/de.json', 'locales/??.json')).toBe(true);
+      expect(matchesGlob('locales/de.default.json', 'locales/??.json')).toBe(false);
+    });
+
+    test('lets ** span zero or more directories', () => {
+      expect(matchesGlob('templates/index.json', 'templates/**/*.json')).toBe(true);
+      expect(matchesGlob('templates/customers/account.json', 'templates/**/*.json')).toBe(true);
+      expect(matchesGlob('snippets/metafields/badge.liquid', 'snippets/**')).toBe(true);
+      expect(matchesGlob('templates/index.liquid', 'templates/**/*.json')).toBe(false);
+    });
+
+    test('matches dots literally', () => {
+      expect(matchesGlob('config/settings_data.json', 'config/settings_data.json')).toBe(true);
+      expect(matchesGlob('config/settings_dataXjson', 'config/settings_data.json')).toBe(false);
+    });
+  });
+
+  describe('isContentFile', () => {
+    test('defaults to theme settings, markets, JSON templates and locales', () => {
+      const files = [
+        'config/settings_data.json',
+        'config/markets.json',
+        'config/settings_schema.json',
+        'templates/product.json',
+        'templates/customers/login.json',
+        'locales/en.default.json',
+        'sections/header.liquid',
+        'sections/header-group.json'
+      ];
+
+      expect(files.filter(file => isContentFile(file))).toEqual([
+        'config/settings_data.json',
+        'config/markets.json',
+        'templates/product.json',
+        'templates/customers/login.json',
+        'locales/en.default.json'
+      ]);
+    });
+
+    test('leaves out excluded files', () => {
+      const rules = { include: ['templates/*.json'], exclude: ['templates/gift_card.json'] };
+
+      expect(isContentFile('templates/index.json', rules)).toBe(true);
+      expect(isContentFile('templates/gift_card.json', rules)).toBe(false);
+    });
+  });
+
+  describe('resolveContentRules', () => {
+    test('replaces the defaults list by list', () => {
+      const defaults = resolveContentRules({ include: ['sections/*.json'] });
+
+      expect(defaults).toEqual({ include: ['sections/*.json'], exclude: [] });
+      expect(resolveContentRules({ exclude: ['sections/footer-group.json'] }, defaults)).toEqual({
+        include: ['sections/*.json'],
+        exclude: ['sections/footer-group.json']
+      });
+    });
+  });
+
+  describe('loadContentRules', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      setupTestProject(tempDir);
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    const writeSettings = (settings: unknown): void => {
+      fs.writeFileSync(path.join(tempDir, 'shops', 'settings.json'), JSON.stringify(settings));
+    };
+
+    test('reads globs from shops/settings.json', async () => {
+      expect((await loadContentRules(tempDir)).data).toEqual(DEFAULT_CONTENT_RULES);
+
+      writeSettings({ contentProtection: { defaultMode: 'warn', include: ['config/*.json'] } });
+
+      expect((await loadContentRules(tempDir)).data).toEqual({ include: ['config/*.json'], exclude: [] });
+    });
+
+    test('reports invalid globs', async () => {
+      writeSettings({ contentProtection: { exclude: ['templates\\*.json'] } });
+
+      expect((await loadContentRules(tempDir)).error).toBe(
+        'Invalid shops/settings.json: contentProtection.exclude must be theme-relative path globs using *, ** and ?: templates\\*.json'
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for content-snapshots module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, createMockGitOperations, createTestShop } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { runCommand } from '../../lib/core/command-runner.js';
+import {
+  createContentSnapshot,
+  diffContentSnapshot,
+  listContentSnapshots,
+  loadContentSnapshot,
+  restoreContentSnapshot,
+  snapshotDir
+} from '../../lib/core/content-snapshots.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+// Mock command-runner (Shopify CLI)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
+}));
+
+const settings = '{"current":{"colors_accent_1":"#ff0000"}}\n';
+const template = '{"sections":{},"order":[]}\n';
+
+describe('content-snapshots', () => {
+  let tempDir: string;
+  let gitOps: GitOperations;
+  let context: CLIContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = createTempDir();
+    createTestShop(tempDir, 'shop-a');
+
+    gitOps = createMockGitOperations({
+      getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'main' }),
+      listFiles: vi.fn().mockResolvedValue({
+        success: true,
+        data: ['config/settings_data.json', 'config/settings_schema.json', 'sections/header.liquid', 'templates/index.json']
+      }),
+      readFile: vi.fn(async (_ref: string, file: string) => ({
+        success: true,
+        data: ({ 'config/settings_data.json': settings, 'templates/index.json': template } as Record<string, string>)[file] ?? null
+      }))
+    });
+    context = { ...createMultiShopCLI(tempDir), gitOps };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('createContentSnapshot', () => {
+    test('archives the content files of the production branch', async () => {
+      // Act
+      const result = await createContentSnapshot(context, 'shop-a', { message: 'Before sale' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(gitOps.listFiles).toHaveBeenCalledWith('origin/shop-a/main');
+      expect(result.data?.source).toEqual({ kind: 'branch', branch: 'shop-a/main' });
+      expect(result.data?.files).toEqual({ 'config/settings_data.json': settings, 'templates/index.json': template });
+      expect(result.data?.id).toMatch(/^\d{8}-\d{6}$/);
+
+      const saved = JSON.parse(fs.readFileSync(path.join(snapshotDir(context.deps, 'shop-a'), `${result.data?.id}.json`), 'utf8'));
+      expect(saved).toMatchObject({ version: 1, shopId: 'shop-a', message: 'Before sale' });
+    });
+
+    test('keeps the snapshot archive out of git even without the .gitignore entry from init', async () => {
+      await createContentSnapshot(context, 'shop-a');
+
+      expect(fs.readFileSync(path.join(tempDir, 'shops/snapshots/.gitignore'), 'utf8')).toBe('*\n');
+    });
+
+    test('gives snapshots taken in the same second distinct ids', async () => {
+      const first = await createContentSnapshot(context, 'shop-a');
+      const second = await createContentSnapshot(context, 'shop-a');
+
+      expect(second.data?.id).not.toBe(first.data?.id);
+      expect((await listContentSnapshots(context.deps, 'shop-a')).data).toHaveLength(2);
+    });
+
+    test('pulls the live theme with the shop token', async () => {
+      // Arrange
+      vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+        const themeDir = String(args[args.indexOf('--path') + 1]);
+        fs.mkdirSync(path.join(themeDir, 'config'), { recursive: true });
+        fs.writeFileSync(path.join(themeDir, 'config/settings_data.json'), settings);
+        return { exitCode: 0, stdout: '', stderr: '' };
+      });
+
+      // Act
+      const result = await createContentSnapshot(context, 'shop-a', { fromTheme: true });
+
+      // Assert
+      expect(result.data?.source).toEqual({ kind: 'theme', environment: 'production', domain: 'shop-a.myshopify.com' });
+      expect(result.data?.files).toEqual({ 'config/settings_data.json': settings });
+      expect(runCommand).toHaveBeenCalledWith(
+        'shopify',
+        expect.arrayContaining(['theme', 'pull', '--live', '--store', 'shop-a.myshopify.com', '--only', 'templates/**/*.json']),
+        expect.objectContaining({ env: expect.objectContaining({ SHOPIFY_CLI_THEME_TOKEN: 'prod-token-shop-a' }) })
+      );
+    });
+
+    test('reports a missing Shopify CLI', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ exitCode: 127, stdout: '', stderr: '' });
+
+      const result = await createContentSnapshot(context, 'shop-a', { fromTheme: true });
+
+      expect(result.error).toBe('Shopify CLI not found. Install: pnpm add -g @shopify/cli');
+    });
+  });
+
+  describe('loadContentSnapshot', () => {
+    test('rejects invalid ids and paths outside the theme', async () => {
+      const dir = snapshotDir(context.deps, 'shop-a');
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, '20260101-120000.json'),
+        JSON.stringify({ version: 1, id: '20260101-120000', shopId: 'shop-a', createdAt: '', source: { kind: 'branch', branch: 'x' }, files: { '../.env': '' } })
+      );
+
+      expect((await loadContentSnapshot(context.deps, 'shop-a', '../shop-b/20260101-120000')).success).toBe(false);
+      expect((await loadContentSnapshot(context.deps, 'shop-a', '20260101-120000')).error).toBe('Snapshot contains a path outside the theme');
+    });
+  });
+
+  describe('diffContentSnapshot', () => {
+    test('lists what a restore would change on the branch', async () => {
+      // Arrange
+      const snapshot = await createContentSnapshot(context, 'shop-a');
+      vi.mocked(gitOps.readFile).mockImplementation(async (_ref, file) => ({
+        success: true,
+        data: file === 'config/settings_data.json' ? '{"current":{"colors_accent_1":"#000000"}}' : null
+      }));
+
+      // Act
+      const result = await diffContentSnapshot(context, 'shop-a', snapshot.data?.id ?? '');
+
+      // Assert
+      expect(result.data?.to).toBe('origin/shop-a/main');
+      expect(result.data?.files).toEqual([
+        {
+          file: 'config/settings_data.json',
+          status: 'modified',
+          changes: [{ path: 'current.colors_accent_1', kind: 'changed', before: '#000000', after: '#ff0000' }]
+        },
+        { file: 'templates/index.json', status: 'added', changes: [] }
+      ]);
+    });
+  });
+
+  describe('restoreContentSnapshot', () => {
+    test('commits the selected files onto the branch and returns to the original one', async () => {
+      // Arrange
+      const snapshot = await createContentSnapshot(context, 'shop-a');
+      const id = snapshot.data?.id ?? '';
+
+      // Act
+      const result = await restoreContentSnapshot(context, 'shop-a', id, { files: ['config/settings_data.json'], push: true });
+
+      // Assert
+      expect(result.data).toEqual({ status: 'restored', branch: 'shop-a/main', files: ['config/settings_data.json'], pushed: true });
+      expect(fs.readFileSync(path.join(tempDir, 'config/settings_data.json'), 'utf8')).toBe(settings);
+      expect(fs.existsSync(path.join(tempDir, 'templates/index.json'))).toBe(false);
+      expect(gitOps.fetch).toHaveBeenCalled();
+      expect(gitOps.checkout).toHaveBeenNthCalledWith(1, 'shop-a/main');
+      expect(gitOps.merge).toHaveBeenCalledWith('origin/shop-a/main', { fastForwardOnly: true });
+      expect(gitOps.commit).toHaveBeenCalledWith(`Restore content for shop-a from snapshot ${id}`);
+      expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-a/main');
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('main');
+    });
+
+    test('commits nothing when the branch already matches the snapshot', async () => {
+      // Arrange - the checked-out branch already has the snapshot's content
+      const snapshot = await createContentSnapshot(context, 'shop-a');
+      fs.mkdirSync(path.join(tempDir, 'config'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'config/settings_data.json'), settings);
+
+      // Act
+      const result = await restoreContentSnapshot(context, 'shop-a', snapshot.data?.id ?? '', {
+        files: ['config/settings_data.json'],
+        push: true
+      });
+
+      // Assert
+      expect(result.data).toEqual({ status: 'unchanged', branch: 'shop-a/main', files: ['config/settings_data.json'], pushed: false });
+      expect(gitOps.commit).not.toHaveBeenCalled();
+      expect(gitOps.pushBranch).not.toHaveBeenCalled();
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('main');
+    });
+
+    test('refuses files the snapshot does not have', async () => {
+      const snapshot = await createContentSnapshot(context, 'shop-a');
+
+      const result = await restoreContentSnapshot(context, 'shop-a', snapshot.data?.id ?? '', { files: ['layout/theme.liquid'] });
+
+      expect(result.error).toContain('Not in snapshot');
+      expect(gitOps.checkout).not.toHaveBeenCalled();
+    });
+  });
+});
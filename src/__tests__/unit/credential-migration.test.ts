@@ -0,0 +1,120 @@
+/**
+ * Unit tests for credential-migration module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockCredentials,
+  setupTestProject,
+  writeShopCredentials
+} from '../helpers.js';
+import { migrateCredentials } from '../../lib/core/credential-migration.js';
+import { createCredentialOperations } from '../../lib/core/credential-operations.js';
+import { loadGlobalSettings } from '../../lib/core/global-settings.js';
+import type { Dependencies } from '../../lib/core/types.js';
+
+describe('credential-migration', () => {
+  let tempDir: string;
+  let deps: Dependencies;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { shopsDir, credentialsDir } = setupTestProject(tempDir);
+    deps = { cwd: tempDir, shopsDir, credentialsDir };
+
+    vi.stubEnv('MULTI_SHOP_CREDENTIALS_PASSPHRASE', 'test-passphrase');
+    writeShopCredentials(credentialsDir, 'shop-a', createMockCredentials('shop-a'));
+    writeShopCredentials(credentialsDir, 'shop-b', createMockCredentials('shop-b'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+    vi.unstubAllEnvs();
+  });
+
+  test('moves plaintext files into the encrypted backend and switches settings', async () => {
+    // Act
+    const result = await migrateCredentials(deps, { to: 'encrypted-file' });
+
+    // Assert
+    expect(result.data).toEqual({
+      backend: 'encrypted-file',
+      migrated: ['shop-a', 'shop-b'],
+      failed: [],
+      removedPlaintext: true
+    });
+    expect(fs.readdirSync(deps.credentialsDir).sort()).toEqual(['shop-a.credentials.enc', 'shop-b.credentials.enc']);
+
+    const settings = await loadGlobalSettings(tempDir);
+    expect(settings.data?.credentials).toEqual({ backend: 'encrypted-file' });
+
+    const loaded = await createCredentialOperations(deps).loadCredentials('shop-b');
+    expect(loaded.data?.shopify.stores.staging.themeToken).toBe('staging-token-shop-b');
+  });
+
+  test('keeps plaintext files when asked', async () => {
+    const result = await migrateCredentials(deps, { to: 'encrypted-file', keepPlaintext: true });
+
+    expect(result.data?.removedPlaintext).toBe(false);
+    expect(fs.existsSync(path.join(deps.credentialsDir, 'shop-a.credentials.json'))).toBe(true);
+  });
+
+  test('uses the configured backend when none is given', async () => {
+    fs.writeFileSync(
+      path.join(deps.shopsDir, 'settings.json'),
+      JSON.stringify({ contentProtection: { defaultMode: 'warn', defaultVerbosity: 'quiet', applyToNewShops: false }, credentials: { backend: 'encrypted-file' }, version: '1.0.0' })
+    );
+
+    const result = await migrateCredentials(deps);
+
+    expect(result.data?.backend).toBe('encrypted-file');
+    expect(result.data?.migrated).toEqual(['shop-a', 'shop-b']);
+  });
+
+  test('leaves plaintext and settings alone for shops that fail', async () => {
+    // Arrange - a read command that never finds anything
+    fs.writeFileSync(
+      path.join(deps.shopsDir, 'settings.json'),
+      JSON.stringify({
+        contentProtection: { defaultMode: 'strict', defaultVerbosity: 'verbose', applyToNewShops: true },
+        credentials: { backend: 'file', readCommand: ['cat', path.join(tempDir, 'nowhere-{shop}.json')], writeCommand: ['true'] },
+        version: '1.0.0'
+      })
+    );
+
+    // Act
+    const result = await migrateCredentials(deps, { to: 'command' });
+
+    // Assert
+    expect(result.data?.migrated).toEqual([]);
+    expect(result.data?.failed.map(f => f.shop)).toEqual(['shop-a', 'shop-b']);
+    expect(fs.existsSync(path.join(deps.credentialsDir, 'shop-a.credentials.json'))).toBe(true);
+    expect((await loadGlobalSettings(tempDir)).data?.credentials?.backend).toBe('file');
+  });
+
+  test('keeps every plaintext file and the file backend when one shop fails', async () => {
+    // Arrange - shop-b's file can't be read, shop-a migrates fine
+    fs.writeFileSync(path.join(deps.credentialsDir, 'shop-b.credentials.json'), '{ not json');
+
+    // Act
+    const result = await migrateCredentials(deps, { to: 'encrypted-file' });
+
+    // Assert
+    expect(result.data).toMatchObject({ migrated: ['shop-a'], removedPlaintext: false });
+    expect(result.data?.failed.map(f => f.shop)).toEqual(['shop-b']);
+    expect(fs.existsSync(path.join(deps.credentialsDir, 'shop-a.credentials.json'))).toBe(true);
+    expect((await loadGlobalSettings(tempDir)).data?.credentials?.backend ?? 'file').toBe('file');
+
+    const loaded = await createCredentialOperations(deps).loadCredentials('shop-a');
+    expect(loaded.data?.shopify.stores.production.themeToken).toBe('prod-token-shop-a');
+  });
+
+  test('rejects read-only and plaintext targets', async () => {
+    expect((await migrateCredentials(deps, { to: 'env' })).error).toContain('read-only');
+    expect((await migrateCredentials(deps)).error).toBe('Choose a target backend: --to encrypted-file or --to command');
+  });
+});
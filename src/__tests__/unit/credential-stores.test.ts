@@ -0,0 +1,413 @@
+/**
+ * Unit tests for the credential store backends and backend selection
+ * File-based stores run against a temp directory; the command store runs real `cat`/`tee`
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockCredentials,
+  createMockShopConfig,
+  setupTestProject,
+  writeShopConfig,
+  writeShopCredentials,
+  getFilePermissions
+} from '../helpers.js';
+import { createCredentialOperations, createCredentialStore } from '../../lib/core/credential-operations.js';
+import { createFileCredentialStore, computeCredentialChecksum } from '../../lib/core/file-credential-store.js';
+import { createEncryptedCredentialStore } from '../../lib/core/encrypted-credential-store.js';
+import { createEnvCredentialStore, credentialEnvVar } from '../../lib/core/env-credential-store.js';
+import { createCommandCredentialStore } from '../../lib/core/command-credential-store.js';
+import type { Dependencies } from '../../lib/core/types.js';
+
+describe('credential stores', () => {
+  let tempDir: string;
+  let deps: Dependencies;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { shopsDir, credentialsDir } = setupTestProject(tempDir);
+    deps = { cwd: tempDir, shopsDir, credentialsDir };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+    vi.unstubAllEnvs();
+  });
+
+  describe('checksums', () => {
+    const tamper = (shopId: string): void => {
+      const credPath = path.join(deps.credentialsDir, `${shopId}.credentials.json`);
+      fs.writeFileSync(credPath, fs.readFileSync(credPath, 'utf8').replace(`staging-token-${shopId}`, 'edited'));
+    };
+
+    test('saves a checksum over the store tokens', async () => {
+      // Act
+      await createFileCredentialStore(deps).save('shop-a', createMockCredentials('shop-a'));
+
+      // Assert
+      const saved = JSON.parse(fs.readFileSync(path.join(deps.credentialsDir, 'shop-a.credentials.json'), 'utf8'));
+      expect(saved._metadata.checksum).toBe(computeCredentialChecksum(createMockCredentials('shop-a')));
+      expect(saved._metadata.checksum).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('ignores fields other than the tokens', () => {
+      const base = createMockCredentials('shop-a');
+
+      expect(computeCredentialChecksum({ ...base, notes: 'changed', developer: 'someone' }))
+        .toBe(computeCredentialChecksum(base));
+      expect(computeCredentialChecksum(createMockCredentials('shop-b'))).not.toBe(computeCredentialChecksum(base));
+    });
+
+    test('warns but still loads when tokens were edited by hand', async () => {
+      // Arrange
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await createFileCredentialStore(deps).save('shop-a', createMockCredentials('shop-a'));
+      tamper('shop-a');
+
+      // Act
+      const result = await createFileCredentialStore(deps).load('shop-a');
+
+      // Assert
+      expect(result.data?.shopify.stores.staging.themeToken).toBe('edited');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Credential checksum mismatch for shop-a'), '');
+    });
+
+    test('fails on mismatch when configured to', async () => {
+      // Arrange
+      await createFileCredentialStore(deps).save('shop-a', createMockCredentials('shop-a'));
+      tamper('shop-a');
+      fs.writeFileSync(
+        path.join(deps.shopsDir, 'settings.json'),
+        JSON.stringify({ credentials: { backend: 'file', onChecksumMismatch: 'fail' } })
+      );
+
+      // Act
+      const result = await createCredentialOperations(deps).loadCredentials('shop-a');
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Credential checksum mismatch for shop-a: tokens changed outside multi-shop'
+      });
+    });
+
+    test('keeps the created timestamp when saving again', async () => {
+      // Arrange
+      const store = createFileCredentialStore(deps);
+      await store.save('shop-a', createMockCredentials('shop-a'));
+      const first = await store.load('shop-a');
+      const created = first.data?._metadata?.created;
+
+      // Act - re-save an edited copy, as shop editing and migration do
+      vi.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+      await store.save('shop-a', { ...first.data!, notes: 'rotated' });
+      vi.useRealTimers();
+
+      // Assert
+      const saved = await store.load('shop-a');
+      expect(created).toBeDefined();
+      expect(saved.data?._metadata?.created).toBe(created);
+      expect(saved.data?.notes).toBe('rotated');
+    });
+
+    test('loads files saved before checksums existed', async () => {
+      writeShopCredentials(deps.credentialsDir, 'shop-a', createMockCredentials('shop-a'));
+
+      const result = await createFileCredentialStore(deps, 'fail').load('shop-a');
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('encrypted-file', () => {
+    test('round-trips credentials without writing tokens in plaintext', async () => {
+      // Arrange
+      const store = createEncryptedCredentialStore(deps, 'correct horse battery staple');
+      const credentials = createMockCredentials('shop-a');
+
+      // Act
+      const saved = await store.save('shop-a', credentials);
+      const loaded = await store.load('shop-a');
+
+      // Assert
+      expect(saved.success).toBe(true);
+      expect(loaded.data?.shopify.stores.production.themeToken).toBe('prod-token-shop-a');
+
+      const encPath = path.join(deps.credentialsDir, 'shop-a.credentials.enc');
+      expect(fs.readFileSync(encPath, 'utf8')).not.toContain('prod-token-shop-a');
+      if (process.platform !== 'win32') {
+        expect(getFilePermissions(encPath)).toBe('600');
+      }
+    });
+
+    test('rejects a wrong passphrase', async () => {
+      // Arrange
+      await createEncryptedCredentialStore(deps, 'right').save('shop-a', createMockCredentials('shop-a'));
+
+      // Act
+      const result = await createEncryptedCredentialStore(deps, 'wrong').load('shop-a');
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Cannot decrypt credentials (wrong passphrase or modified file)'
+      });
+    });
+
+    test('returns null when the shop has no encrypted file', async () => {
+      const result = await createEncryptedCredentialStore(deps, 'secret').load('shop-a');
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+
+    test('rejects shop IDs that escape the credentials directory', async () => {
+      const result = await createEncryptedCredentialStore(deps, 'secret').load('../shop-a');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Shop ID contains invalid characters');
+    });
+  });
+
+  describe('env', () => {
+    test('builds variable names from the shop ID and environment', () => {
+      expect(credentialEnvVar('fashion-us', 'production')).toBe('MULTI_SHOP_FASHION_US_PRODUCTION_TOKEN');
+      expect(credentialEnvVar('fashion-us', 'holiday-preview')).toBe('MULTI_SHOP_FASHION_US_HOLIDAY_PREVIEW_TOKEN');
+    });
+
+    test('reads a token for every environment of the shop', async () => {
+      // Arrange
+      const store = createEnvCredentialStore(
+        { MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN: 'prod-env', MULTI_SHOP_SHOP_A_QA_TOKEN: 'qa-env' },
+        () => ['production', 'staging', 'qa']
+      );
+
+      // Act
+      const loaded = await store.load('shop-a');
+      const saved = await store.save('shop-a', createMockCredentials('shop-a'));
+
+      // Assert
+      expect(loaded.data?.shopify.stores).toEqual({
+        production: { themeToken: 'prod-env' },
+        staging: { themeToken: '' },
+        qa: { themeToken: 'qa-env' }
+      });
+      expect(saved.error).toBe(
+        'Environment credentials are read-only; set MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN, MULTI_SHOP_SHOP_A_STAGING_TOKEN and MULTI_SHOP_SHOP_A_QA_TOKEN'
+      );
+    });
+
+    test('reads tokens from the environment', async () => {
+      // Arrange
+      const store = createEnvCredentialStore({
+        MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN: 'prod-env',
+        MULTI_SHOP_SHOP_A_STAGING_TOKEN: 'staging-env',
+        MULTI_SHOP_DEVELOPER: 'ci'
+      });
+
+      // Act
+      const result = await store.load('shop-a');
+
+      // Assert
+      expect(result.data).toEqual({
+        developer: 'ci',
+        shopify: { stores: { production: { themeToken: 'prod-env' }, staging: { themeToken: 'staging-env' } } }
+      });
+    });
+
+    test('returns null when no variables are set and refuses to save', async () => {
+      const store = createEnvCredentialStore({});
+
+      expect(await store.load('shop-a')).toEqual({ success: true, data: null });
+      expect((await store.save('shop-a', createMockCredentials('shop-a'))).error).toBe(
+        'Environment credentials are read-only; set MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN and MULTI_SHOP_SHOP_A_STAGING_TOKEN'
+      );
+    });
+  });
+
+  describe('command', () => {
+    test('writes through stdin and reads the JSON back', async () => {
+      // Arrange
+      const secretsDir = path.join(tempDir, 'secrets');
+      fs.mkdirSync(secretsDir);
+      const store = createCommandCredentialStore(deps, {
+        readCommand: ['cat', path.join(secretsDir, '{shop}.json')],
+        writeCommand: ['tee', path.join(secretsDir, '{shop}.json')]
+      });
+
+      // Act
+      const saved = await store.save('shop-a', createMockCredentials('shop-a'));
+      const loaded = await store.load('shop-a');
+
+      // Assert
+      expect(saved.success).toBe(true);
+      expect(fs.existsSync(path.join(secretsDir, 'shop-a.json'))).toBe(true);
+      expect(loaded.data?.shopify.stores.staging.themeToken).toBe('staging-token-shop-a');
+    });
+
+    test('reports read command failures', async () => {
+      const store = createCommandCredentialStore(deps, { readCommand: ['cat', path.join(tempDir, 'missing-{shop}.json')] });
+
+      const result = await store.load('shop-a');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('missing-shop-a.json');
+    });
+
+    test('is read-only without a write command', async () => {
+      const store = createCommandCredentialStore(deps, { readCommand: ['cat', '{shop}.json'] });
+
+      const result = await store.save('shop-a', createMockCredentials('shop-a'));
+
+      expect(result.error).toBe('No credentials.writeCommand configured; store credentials with your secret manager');
+    });
+  });
+
+  describe('environment precedence', () => {
+    const env = { MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN: 'prod-env' };
+    const writePrecedence = (envPrecedence: string): void => {
+      fs.writeFileSync(
+        path.join(deps.shopsDir, 'settings.json'),
+        JSON.stringify({ credentials: { backend: 'file', envPrecedence } })
+      );
+    };
+
+    beforeEach(() => {
+      writeShopCredentials(deps.credentialsDir, 'shop-a', createMockCredentials('shop-a'));
+    });
+
+    test('prefers variables over the backend by default and reports each source', async () => {
+      // Act
+      const result = await createCredentialOperations(deps, undefined, env).resolveCredentials('shop-a');
+
+      // Assert
+      expect(result.data?.credentials?.shopify.stores.production.themeToken).toBe('prod-env');
+      expect(result.data?.credentials?.shopify.stores.staging.themeToken).toBe('staging-token-shop-a');
+      expect(result.data?.sources).toEqual({
+        production: { kind: 'env', name: 'MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN' },
+        staging: { kind: 'store', name: 'file' }
+      });
+      expect(result.data?.credentials?._metadata).toBeUndefined();
+    });
+
+    test('falls back to variables when the backend has no token', async () => {
+      // Arrange
+      writePrecedence('store-first');
+      writeShopCredentials(deps.credentialsDir, 'shop-a', createMockCredentials('shop-a', {
+        shopify: { stores: { production: { themeToken: '' }, staging: { themeToken: 'staging-file' } } }
+      }));
+
+      // Act
+      const result = await createCredentialOperations(deps, undefined, env).resolveCredentials('shop-a');
+
+      // Assert
+      expect(result.data?.sources.production.kind).toBe('env');
+      expect(result.data?.credentials?.shopify.stores.production.themeToken).toBe('prod-env');
+      expect(result.data?.credentials?.shopify.stores.staging.themeToken).toBe('staging-file');
+    });
+
+    test('resolves every environment of the shop config', async () => {
+      // Arrange
+      const config = createMockShopConfig('shop-a');
+      writeShopConfig(deps.shopsDir, 'shop-a', {
+        ...config,
+        shopify: {
+          ...config.shopify,
+          stores: { ...config.shopify.stores, qa: { domain: 'qa-shop-a.myshopify.com', branch: 'shop-a/qa' } }
+        }
+      });
+
+      // Act
+      const result = await createCredentialOperations(deps, undefined, {
+        ...env,
+        MULTI_SHOP_SHOP_A_QA_TOKEN: 'qa-env'
+      }).resolveCredentials('shop-a');
+
+      // Assert
+      expect(result.data?.credentials?.shopify.stores['qa']?.themeToken).toBe('qa-env');
+      expect(result.data?.sources).toEqual({
+        production: { kind: 'env', name: 'MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN' },
+        staging: { kind: 'store', name: 'file' },
+        qa: { kind: 'env', name: 'MULTI_SHOP_SHOP_A_QA_TOKEN' }
+      });
+    });
+
+    test('keeps backend tokens first with store-first', async () => {
+      writePrecedence('store-first');
+
+      const result = await createCredentialOperations(deps, undefined, env).loadCredentials('shop-a');
+
+      expect(result.data?.shopify.stores.production.themeToken).toBe('prod-token-shop-a');
+    });
+
+    test('ignores variables with store-only', async () => {
+      writePrecedence('store-only');
+
+      const result = await createCredentialOperations(deps, undefined, env).resolveCredentials('shop-a');
+
+      expect(result.data?.sources.production).toEqual({ kind: 'store', name: 'file' });
+    });
+
+    test('needs no backend when variables cover every token', async () => {
+      // Arrange - encrypted backend without a passphrase would otherwise fail
+      fs.writeFileSync(path.join(deps.shopsDir, 'settings.json'), JSON.stringify({ credentials: { backend: 'encrypted-file' } }));
+      vi.stubEnv('MULTI_SHOP_CREDENTIALS_PASSPHRASE', '');
+
+      // Act
+      const result = await createCredentialOperations(deps, undefined, {
+        ...env,
+        MULTI_SHOP_SHOP_A_STAGING_TOKEN: 'staging-env',
+        MULTI_SHOP_DEVELOPER: 'ci'
+      }).loadCredentials('shop-a');
+
+      // Assert
+      expect(result.data).toEqual({
+        developer: 'ci',
+        shopify: { stores: { production: { themeToken: 'prod-env' }, staging: { themeToken: 'staging-env' } } }
+      });
+    });
+  });
+
+  describe('backend selection', () => {
+    test('uses the backend from shops/settings.json', async () => {
+      // Arrange
+      vi.stubEnv('MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN', 'prod-env');
+      writeShopCredentials(deps.credentialsDir, 'shop-a', createMockCredentials('shop-a'));
+      fs.writeFileSync(
+        path.join(deps.shopsDir, 'settings.json'),
+        JSON.stringify({ credentials: { backend: 'env' } })
+      );
+
+      // Act
+      const result = await createCredentialOperations(deps).loadCredentials('shop-a');
+
+      // Assert
+      expect(result.data?.shopify.stores.production.themeToken).toBe('prod-env');
+    });
+
+    test('defaults to plaintext files', async () => {
+      writeShopCredentials(deps.credentialsDir, 'shop-a', createMockCredentials('shop-a'));
+
+      const result = await createCredentialOperations(deps).loadCredentials('shop-a');
+
+      expect(result.data?.shopify.stores.production.themeToken).toBe('prod-token-shop-a');
+    });
+
+    test('requires a passphrase for encrypted files', () => {
+      vi.stubEnv('MULTI_SHOP_CREDENTIALS_PASSPHRASE', '');
+
+      const result = createCredentialStore(deps, { backend: 'encrypted-file' });
+
+      expect(result).toEqual({ success: false, error: 'MULTI_SHOP_CREDENTIALS_PASSPHRASE is not set' });
+    });
+
+    test('requires a read command for the command backend', () => {
+      const result = createCredentialStore(deps, { backend: 'command' });
+
+      expect(result).toEqual({ success: false, error: 'credentials.readCommand is required for the command backend' });
+    });
+  });
+});
@@ -37,14 +37,15 @@ describe('dev-operations', () => {
         credentialsDir: '/test/project/shops/credentials'
       },
       shopOps: {
-        loadConfig: vi.fn(),
+        loadConfig: vi.fn(async (shopId: string) => ({ success: true, data: createMockShopConfig(shopId) })),
         saveConfig: vi.fn(),
         listShops: vi.fn(),
         deleteShop: vi.fn()
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -119,8 +120,8 @@ describe('dev-operations', () => {
         expect.objectContaining({
           message: 'Select shop for development:',
           options: [
-            { value: 'shop-a', label: 'shop-a', hint: 'Start dev server for shop-a' },
-            { value: 'shop-b', label: 'shop-b', hint: 'Start dev server for shop-b' }
+            expect.objectContaining({ value: 'shop-a', label: 'shop-a', hint: expect.any(String) }),
+            expect.objectContaining({ value: 'shop-b', label: 'shop-b', hint: expect.any(String) })
           ]
         })
       );
@@ -179,6 +180,50 @@ describe('dev-operations', () => {
       );
     });
 
+    test('lists every configured environment with production last', async () => {
+      // Arrange
+      const config = createMockShopConfig('shop-a');
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({ success: true, data: ['shop-a'] });
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({
+        success: true,
+        data: {
+          ...config,
+          shopify: {
+            ...config.shopify,
+            stores: {
+              ...config.shopify.stores,
+              'holiday-preview': { domain: 'holiday-shop-a.myshopify.com', branch: 'shop-a/holiday-preview' }
+            }
+          }
+        }
+      });
+
+      const { select, isCancel } = await import('@clack/prompts');
+      vi.mocked(select)
+        .mockResolvedValueOnce('shop-a')
+        .mockResolvedValueOnce(Symbol('cancel'));
+      vi.mocked(isCancel)
+        .mockReturnValueOnce(false)
+        .mockReturnValueOnce(true);
+
+      const { startDevelopmentWorkflow } = await import('../../lib/core/dev-operations.js');
+
+      // Act
+      await startDevelopmentWorkflow(mockContext);
+
+      // Assert
+      expect(select).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Select environment:',
+          options: [
+            { value: 'staging', label: 'Staging', hint: 'Safe for development' },
+            { value: 'holiday-preview', label: 'Holiday Preview', hint: 'Safe for development' },
+            { value: 'production', label: 'Production', hint: 'Live store - be careful!' }
+          ]
+        })
+      );
+    });
+
     test('returns error when environment selection is cancelled', async () => {
       // Arrange
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
@@ -0,0 +1,330 @@
+/**
+ * Unit tests for git-operations module
+ * Runs against real throwaway repositories (a bare "origin" plus a clone)
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir } from '../helpers.js';
+import { createGitOperations, parseNameStatus } from '../../lib/core/git-operations.js';
+import { runCommand } from '../../lib/core/command-runner.js';
+import type { Dependencies, GitOperations } from '../../lib/core/types.js';
+
+const git = (cwd: string, ...args: string[]): string =>
+  execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+
+const commitFile = (cwd: string, file: string, content: string, message: string): void => {
+  fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+  fs.writeFileSync(path.join(cwd, file), content);
+  git(cwd, 'add', '-A');
+  git(cwd, 'commit', '-q', '-m', message);
+};
+
+describe('git-operations', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let gitOps: GitOperations;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const remoteDir = path.join(tempDir, 'origin.git');
+    repoDir = path.join(tempDir, 'theme');
+
+    git(tempDir, 'init', '-q', '--bare', '-b', 'main', remoteDir);
+    git(tempDir, 'init', '-q', '-b', 'main', repoDir);
+    git(repoDir, 'config', 'user.email', 'dev@example.com');
+    git(repoDir, 'config', 'user.name', 'Dev');
+    git(repoDir, 'remote', 'add', 'origin', remoteDir);
+
+    commitFile(repoDir, 'layout/theme.liquid', '<html></html>\n', 'Initial commit');
+    git(repoDir, 'push', '-q', '-u', 'origin', 'main');
+
+    const deps: Dependencies = {
+      cwd: repoDir,
+      shopsDir: path.join(repoDir, 'shops'),
+      credentialsDir: path.join(repoDir, 'shops/credentials')
+    };
+    gitOps = createGitOperations(deps);
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('branch state', () => {
+    test('reads current branch and head commit', async () => {
+      const branch = await gitOps.getCurrentBranch();
+      const head = await gitOps.getHeadCommit();
+
+      expect(branch).toEqual({ success: true, data: 'main' });
+      expect(head.data).toBe(git(repoDir, 'rev-parse', 'HEAD'));
+    });
+
+    test('reports working tree cleanliness', async () => {
+      expect((await gitOps.isWorkingTreeClean()).data).toBe(true);
+
+      fs.writeFileSync(path.join(repoDir, 'layout/theme.liquid'), '<html>changed</html>\n');
+
+      expect((await gitOps.isWorkingTreeClean()).data).toBe(false);
+    });
+
+    test('returns git errors as failed results', async () => {
+      const result = await gitOps.checkout('does-not-exist');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('does-not-exist');
+    });
+  });
+
+  describe('branches', () => {
+    test('creates, pushes and lists branches', async () => {
+      await gitOps.createBranch('shop-a/main');
+      const pushed = await gitOps.pushBranch('shop-a/main', { setUpstream: true });
+      await gitOps.fetch();
+
+      expect(pushed.success).toBe(true);
+      expect((await gitOps.getCurrentBranch()).data).toBe('shop-a/main');
+      expect((await gitOps.listBranches()).data).toEqual(['main', 'shop-a/main']);
+      expect((await gitOps.listBranches({ remote: true })).data).toEqual(['main', 'shop-a/main']);
+    });
+
+    test('creates branches from a start point', async () => {
+      commitFile(repoDir, 'sections/header.liquid', 'header\n', 'Add header');
+
+      const created = await gitOps.createBranch('shop-a/promo-sale', 'origin/main');
+
+      expect(created.success).toBe(true);
+      expect(fs.existsSync(path.join(repoDir, 'sections/header.liquid'))).toBe(false);
+    });
+
+    test('checks local and remote branch existence separately', async () => {
+      git(repoDir, 'branch', 'local-only');
+
+      expect((await gitOps.branchExists('local-only')).data).toBe(true);
+      expect((await gitOps.branchExists('local-only', { remote: true })).data).toBe(false);
+      expect((await gitOps.branchExists('main', { remote: true })).data).toBe(true);
+    });
+
+    test('passes branch names as arguments, not shell input', async () => {
+      const result = await gitOps.createBranch('x; touch pwned');
+
+      expect(result.success).toBe(false);
+      expect(fs.existsSync(path.join(repoDir, 'pwned'))).toBe(false);
+    });
+
+    test('deletes local and remote branches', async () => {
+      await gitOps.createBranch('shop-a/promo-sale');
+      await gitOps.pushBranch('shop-a/promo-sale');
+      await gitOps.checkout('main');
+
+      const local = await gitOps.deleteBranch('shop-a/promo-sale', { force: true });
+      const remote = await gitOps.deleteBranch('shop-a/promo-sale', { remote: true });
+
+      expect(local.success).toBe(true);
+      expect(remote.success).toBe(true);
+      expect((await gitOps.branchExists('shop-a/promo-sale')).data).toBe(false);
+      expect((await gitOps.branchExists('shop-a/promo-sale', { remote: true })).data).toBe(false);
+    });
+  });
+
+  describe('history', () => {
+    test('counts commits between refs', async () => {
+      git(repoDir, 'branch', 'shop-a/staging');
+      commitFile(repoDir, 'a.liquid', 'a\n', 'A');
+      commitFile(repoDir, 'b.liquid', 'b\n', 'B');
+
+      const result = await gitOps.revListCount('shop-a/staging', 'main');
+
+      expect(result).toEqual({ success: true, data: 2 });
+    });
+
+    test('dates a branch by its first own commit, also after merging its base back in', async () => {
+      git(repoDir, 'checkout', '-q', '-b', 'shop-a/promo-sale');
+      fs.writeFileSync(path.join(repoDir, 'banner.liquid'), 'sale\n');
+      git(repoDir, 'add', '-A');
+      git(repoDir, 'commit', '-q', '--date', '2026-01-05T10:00:00+00:00', '-m', 'Promo banner');
+      commitFile(repoDir, 'banner.liquid', 'sale!\n', 'Promo copy');
+      git(repoDir, 'checkout', '-q', 'main');
+      commitFile(repoDir, 'main.liquid', 'main\n', 'Main change');
+      git(repoDir, 'checkout', '-q', 'shop-a/promo-sale');
+      git(repoDir, 'merge', '-q', '--no-edit', 'main');
+      git(repoDir, 'branch', 'shop-b/promo-sale', 'main');
+
+      expect((await gitOps.firstCommitDate('main', 'shop-a/promo-sale')).data).toBe('2026-01-05T10:00:00+00:00');
+      expect((await gitOps.firstCommitDate('main', 'shop-b/promo-sale')).data).toBeNull();
+    });
+
+    test('creates, detects and pushes annotated tags', async () => {
+      const tag = 'archive/shop-a/promo-sale/2026-09-01';
+
+      expect((await gitOps.tagExists(tag)).data).toBe(false);
+      expect((await gitOps.createTag(tag, 'main', 'Archive of shop-a/promo-sale')).success).toBe(true);
+      expect((await gitOps.pushTag(tag)).success).toBe(true);
+
+      expect((await gitOps.tagExists(tag)).data).toBe(true);
+      expect(git(repoDir, 'cat-file', '-t', tag)).toBe('tag');
+      expect(git(repoDir, 'ls-remote', '--tags', 'origin')).toContain(`refs/tags/${tag}`);
+    });
+
+    test('reads the author and date of a commit', async () => {
+      const result = await gitOps.getCommit('origin/main');
+
+      expect(result.data).toEqual({
+        sha: git(repoDir, 'rev-parse', 'origin/main'),
+        author: 'Dev',
+        date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/)
+      });
+    });
+
+    test('lists changed files with their status', async () => {
+      git(repoDir, 'branch', 'before');
+      commitFile(repoDir, 'templates/index.json', '{}\n', 'Add template');
+      git(repoDir, 'mv', 'layout/theme.liquid', 'layout/base.liquid');
+      git(repoDir, 'commit', '-q', '-m', 'Rename layout');
+
+      const result = await gitOps.diffNameStatus('before', 'main');
+
+      expect(result.data).toEqual([
+        { status: 'renamed', path: 'layout/base.liquid', previousPath: 'layout/theme.liquid' },
+        { status: 'added', path: 'templates/index.json' }
+      ]);
+    });
+  });
+
+  describe('readFile', () => {
+    test('reads a file at a ref and returns null when it is missing there', async () => {
+      commitFile(repoDir, 'config/settings_data.json', '{"current":{}}\n', 'Add settings');
+      git(repoDir, 'checkout', '-q', '-b', 'shop-a/main');
+      commitFile(repoDir, 'config/settings_data.json', '{"current":{"color":"red"}}\n', 'Shop settings');
+
+      expect((await gitOps.readFile('main', 'config/settings_data.json')).data).toBe('{"current":{}}\n');
+      expect((await gitOps.readFile('shop-a/main', 'config/settings_data.json')).data).toBe('{"current":{"color":"red"}}\n');
+      expect((await gitOps.readFile('main', 'templates/missing.json')).data).toBeNull();
+      expect((await gitOps.readFile('no-such-branch', 'config/settings_data.json')).success).toBe(false);
+    });
+
+    test('lists the files at a ref', async () => {
+      commitFile(repoDir, 'templates/index.json', '{}\n', 'Add template');
+
+      expect((await gitOps.listFiles('main')).data).toEqual(expect.arrayContaining(['templates/index.json']));
+      expect((await gitOps.listFiles('no-such-branch')).success).toBe(false);
+    });
+  });
+
+  describe('committing', () => {
+    test('restores, removes and commits files', async () => {
+      commitFile(repoDir, 'templates/index.json', '{"a":1}\n', 'Add template');
+      git(repoDir, 'checkout', '-q', '-b', 'shop-a/main');
+      commitFile(repoDir, 'templates/index.json', '{"a":2}\n', 'Shop template');
+      commitFile(repoDir, 'templates/page.json', '{}\n', 'Shop page');
+
+      await gitOps.restoreFiles('main', ['templates/index.json']);
+      await gitOps.removeFiles(['templates/page.json']);
+      const result = await gitOps.commit('Reset content');
+
+      expect(result.success).toBe(true);
+      expect((await gitOps.isWorkingTreeClean()).data).toBe(true);
+      expect((await gitOps.diffNameStatus('main', 'shop-a/main')).data).toEqual([]);
+    });
+
+    test('treats empty path lists as no-ops', async () => {
+      expect((await gitOps.restoreFiles('main', [])).success).toBe(true);
+      expect((await gitOps.removeFiles([])).success).toBe(true);
+    });
+  });
+
+  describe('merge', () => {
+    beforeEach(() => {
+      git(repoDir, 'checkout', '-q', '-b', 'shop-a/main');
+      git(repoDir, 'checkout', '-q', 'main');
+    });
+
+    test('merges a ref into the current branch', async () => {
+      commitFile(repoDir, 'sections/footer.liquid', 'footer\n', 'Add footer');
+      git(repoDir, 'checkout', '-q', 'shop-a/main');
+
+      const result = await gitOps.merge('main');
+
+      expect(result.data).toEqual({ merged: true, conflicts: [] });
+      expect(fs.existsSync(path.join(repoDir, 'sections/footer.liquid'))).toBe(true);
+    });
+
+    test('reports conflicts and aborts the merge', async () => {
+      commitFile(repoDir, 'config/settings_data.json', '{"color":"red"}\n', 'Main colour');
+      git(repoDir, 'checkout', '-q', 'shop-a/main');
+      commitFile(repoDir, 'config/settings_data.json', '{"color":"blue"}\n', 'Shop colour');
+
+      const result = await gitOps.merge('main');
+
+      expect(result.data).toEqual({ merged: false, conflicts: ['config/settings_data.json'] });
+      expect((await gitOps.isWorkingTreeClean()).data).toBe(true);
+    });
+
+    test('rebases onto a ref', async () => {
+      commitFile(repoDir, 'main.liquid', 'main\n', 'Main change');
+      git(repoDir, 'checkout', '-q', 'shop-a/main');
+      commitFile(repoDir, 'shop.liquid', 'shop\n', 'Shop change');
+
+      const result = await gitOps.merge('main', { rebase: true });
+
+      expect(result.data?.merged).toBe(true);
+      expect((await gitOps.revListCount('shop-a/main', 'main')).data).toBe(0);
+    });
+
+    test('fails fast-forward-only merges on diverged branches', async () => {
+      commitFile(repoDir, 'main.liquid', 'main\n', 'Main change');
+      git(repoDir, 'checkout', '-q', 'shop-a/main');
+      commitFile(repoDir, 'shop.liquid', 'shop\n', 'Shop change');
+
+      const result = await gitOps.merge('main', { fastForwardOnly: true });
+
+      expect(result.success).toBe(false);
+    });
+
+    test('leaves conflicted no-commit merges in progress for the caller to resolve', async () => {
+      commitFile(repoDir, 'config/settings_data.json', '{"color":"red"}\n', 'Main colour');
+      git(repoDir, 'checkout', '-q', 'shop-a/main');
+      commitFile(repoDir, 'config/settings_data.json', '{"color":"blue"}\n', 'Shop colour');
+
+      const result = await gitOps.merge('main', { noCommit: true });
+
+      expect(result.data).toEqual({ merged: false, conflicts: ['config/settings_data.json'] });
+      fs.writeFileSync(path.join(repoDir, 'config/settings_data.json'), '{"color":"blue"}\n');
+      expect((await gitOps.addFiles(['config/settings_data.json'])).success).toBe(true);
+      expect((await gitOps.commit('Merge main')).success).toBe(true);
+      expect((await gitOps.revListCount('shop-a/main', 'main')).data).toBe(0);
+    });
+  });
+
+  describe('parseNameStatus', () => {
+    test('parses added, modified, deleted and copied entries', () => {
+      const changes = parseNameStatus('A\tnew.liquid\nM\tconfig/settings_data.json\nD\told.liquid\nC75\ta.json\tb.json\nT\tlink');
+
+      expect(changes).toEqual([
+        { status: 'added', path: 'new.liquid' },
+        { status: 'modified', path: 'config/settings_data.json' },
+        { status: 'deleted', path: 'old.liquid' },
+        { status: 'copied', path: 'b.json', previousPath: 'a.json' },
+        { status: 'other', path: 'link' }
+      ]);
+    });
+  });
+
+  describe('runCommand', () => {
+    test('reports a missing executable with exit code 127', async () => {
+      const result = await runCommand('multi-shop-definitely-missing-binary', []);
+
+      expect(result.exitCode).toBe(127);
+      expect(result.stderr).toContain('ENOENT');
+    });
+
+    test('passes stdin input to the command', async () => {
+      const result = await runCommand('git', ['hash-object', '--stdin'], { input: 'hello\n' });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim()).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+  });
+});
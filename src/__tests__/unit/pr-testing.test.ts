@@ -0,0 +1,200 @@
+/**
+ * Unit tests for pr-testing module (multi-shop test-pr)
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { CLIContext, GitOperations, PullRequestProvider } from '../../lib/core/types.js';
+import { createMockGitOperations } from '../helpers.js';
+
+// Mock @clack/prompts
+vi.mock('@clack/prompts', () => ({
+  select: vi.fn(),
+  isCancel: vi.fn(),
+  note: vi.fn()
+}));
+
+// Mock the configured PR provider
+vi.mock('../../lib/core/pull-requests.js', () => ({
+  loadPullRequestProvider: vi.fn()
+}));
+
+// Mock dev server launcher
+vi.mock('../../lib/core/dev-operations.js', () => ({
+  startShopifyDevelopmentServer: vi.fn()
+}));
+
+const shopConfig = (shopId: string, environments: string[]) => ({
+  success: true,
+  data: {
+    shopId,
+    name: shopId,
+    shopify: {
+      stores: Object.fromEntries(environments.map(name => [name, { domain: `${shopId}-${name}.myshopify.com`, branch: `${shopId}/${name}` }])),
+      authentication: { method: 'theme-access-app' }
+    }
+  }
+});
+
+describe('pr-testing', () => {
+  let mockContext: CLIContext;
+  let gitOps: GitOperations;
+  let provider: PullRequestProvider;
+
+  beforeEach(async () => {
+    gitOps = createMockGitOperations({
+      getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'feature/new-header' })
+    });
+
+    mockContext = {
+      deps: {
+        cwd: '/test/project',
+        shopsDir: '/test/project/shops',
+        credentialsDir: '/test/project/shops/credentials'
+      },
+      shopOps: {
+        loadConfig: vi.fn().mockImplementation(async (shopId: string) => shopConfig(shopId, ['production', 'staging'])),
+        saveConfig: vi.fn(),
+        listShops: vi.fn().mockResolvedValue({ success: true, data: ['shop-a', 'shop-b', 'shop-c'] }),
+        deleteShop: vi.fn()
+      },
+      credOps: {
+        loadCredentials: vi.fn(),
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
+      },
+      devOps: {
+        startDev: vi.fn()
+      },
+      gitOps
+    };
+
+    provider = {
+      name: 'gitlab-api',
+      create: vi.fn(),
+      findOpen: vi.fn(),
+      findLatest: vi.fn(),
+      getHeadBranch: vi.fn().mockResolvedValue({ success: true, data: 'feature/new-header' }),
+      updateBody: vi.fn(),
+      addLabels: vi.fn(),
+      addReviewers: vi.fn()
+    };
+    const { loadPullRequestProvider } = await import('../../lib/core/pull-requests.js');
+    vi.mocked(loadPullRequestProvider).mockResolvedValue({
+      success: true,
+      data: { provider, settings: { provider: 'gitlab-api' } }
+    });
+
+    const { isCancel } = await import('@clack/prompts');
+    vi.mocked(isCancel).mockReturnValue(false);
+  });
+
+  test('checks out PR numbers through the configured provider', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('stop');
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    await testPullRequest(mockContext, { pr: '42' });
+
+    expect(provider.getHeadBranch).toHaveBeenCalledWith(42);
+    expect(gitOps.fetch).toHaveBeenCalled();
+    expect(gitOps.checkout).toHaveBeenCalledWith('feature/new-header');
+  });
+
+  test('takes the PR number from merge request and pull request URLs', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('stop');
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    await testPullRequest(mockContext, { pr: 'https://gitlab.com/acme/theme/-/merge_requests/17' });
+    await testPullRequest(mockContext, { pr: 'https://bitbucket.org/acme/theme/pull-requests/8' });
+
+    expect(provider.getHeadBranch).toHaveBeenNthCalledWith(1, 17);
+    expect(provider.getHeadBranch).toHaveBeenNthCalledWith(2, 8);
+  });
+
+  test('checks out branch names with git', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('stop');
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    await testPullRequest(mockContext, { pr: 'feature/new-header' });
+
+    expect(gitOps.checkout).toHaveBeenCalledWith('feature/new-header');
+    expect(provider.getHeadBranch).not.toHaveBeenCalled();
+  });
+
+  test('runs a staging dev session for each shop in turn', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('start');
+    const { startShopifyDevelopmentServer } = await import('../../lib/core/dev-operations.js');
+    vi.mocked(startShopifyDevelopmentServer).mockResolvedValue({ success: true });
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    const result = await testPullRequest(mockContext);
+
+    expect(startShopifyDevelopmentServer).toHaveBeenCalledTimes(3);
+    expect(startShopifyDevelopmentServer).toHaveBeenNthCalledWith(2, mockContext, 'shop-b', 'staging', false);
+    expect(result.data).toEqual({
+      branch: 'feature/new-header',
+      tested: ['shop-a', 'shop-b', 'shop-c'],
+      skipped: [],
+      failed: []
+    });
+  });
+
+  test('uses the first pre-production environment of shops without staging', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('start');
+    vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) =>
+      shopConfig(shopId, shopId === 'shop-a' ? ['production', 'qa', 'holiday-preview'] : ['production']) as any);
+    const { startShopifyDevelopmentServer } = await import('../../lib/core/dev-operations.js');
+    vi.mocked(startShopifyDevelopmentServer).mockResolvedValue({ success: true });
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    const result = await testPullRequest(mockContext, { shops: ['shop-a', 'shop-b'] });
+
+    expect(select).toHaveBeenCalledWith(expect.objectContaining({ message: 'Shop 1/2: shop-a (qa)' }));
+    expect(startShopifyDevelopmentServer).toHaveBeenCalledWith(mockContext, 'shop-a', 'qa', false);
+    expect(result.data?.tested).toEqual(['shop-a']);
+    expect(result.data?.failed).toEqual([{ shop: 'shop-b', error: 'No non-production environment configured' }]);
+  });
+
+  test('skips single shops and stops early', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select)
+      .mockResolvedValueOnce('skip')
+      .mockResolvedValueOnce('start')
+      .mockResolvedValueOnce('stop');
+    const { startShopifyDevelopmentServer } = await import('../../lib/core/dev-operations.js');
+    vi.mocked(startShopifyDevelopmentServer).mockResolvedValue({ success: false, error: 'Shopify CLI not available' });
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    const result = await testPullRequest(mockContext);
+
+    expect(result.data?.tested).toEqual([]);
+    expect(result.data?.skipped).toEqual(['shop-a', 'shop-c']);
+    expect(result.data?.failed).toEqual([{ shop: 'shop-b', error: 'Shopify CLI not available' }]);
+  });
+
+  test('limits testing to selected shops', async () => {
+    const { select } = await import('@clack/prompts');
+    vi.mocked(select).mockResolvedValue('skip');
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    const result = await testPullRequest(mockContext, { shops: ['shop-c'] });
+
+    expect(select).toHaveBeenCalledTimes(1);
+    expect(result.data?.skipped).toEqual(['shop-c']);
+  });
+
+  test('returns error when checkout fails', async () => {
+    vi.mocked(provider.getHeadBranch).mockResolvedValue({ success: false, error: 'no pull requests found' });
+    const { testPullRequest } = await import('../../lib/core/pr-testing.js');
+
+    const result = await testPullRequest(mockContext, { pr: '999' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Failed to check out 999: no pull requests found');
+    expect(gitOps.checkout).not.toHaveBeenCalled();
+  });
+});
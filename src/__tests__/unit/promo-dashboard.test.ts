@@ -0,0 +1,151 @@
+/**
+ * Unit tests for promo-dashboard module
+ * Git is mocked; PR state comes from a mocked GitHub CLI
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { cleanupTempDir, createMockGitOperations, createTempDir, createTestShop } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { runCommand } from '../../lib/core/command-runner.js';
+import { formatPromoDashboard, getPromoDashboard } from '../../lib/core/promo-dashboard.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+// Mock command-runner (GitHub CLI)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
+}));
+
+const now = new Date('2026-12-15T12:00:00Z');
+
+describe('promo-dashboard', () => {
+  let tempDir: string;
+  let shopsDir: string;
+  let gitOps: GitOperations;
+  let context: CLIContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = createTempDir();
+    ({ shopsDir } = createTestShop(tempDir, 'shop-a'));
+    createTestShop(tempDir, 'shop-b');
+
+    gitOps = createMockGitOperations({
+      listBranches: vi.fn().mockResolvedValue({
+        success: true,
+        data: ['shop-a/main', 'shop-a/promo-black-friday', 'shop-b/main', 'shop-b/promo-winter']
+      }),
+      // 3 ahead, 1 behind
+      revListCount: vi.fn().mockImplementation(async (from: string) =>
+        ({ success: true, data: from.includes('promo-') ? 1 : 3 })),
+      getCommit: vi.fn().mockResolvedValue({
+        success: true,
+        data: { sha: 'head456', author: 'Marketing', date: '2026-12-14T09:00:00Z' }
+      }),
+      firstCommitDate: vi.fn().mockResolvedValue({ success: true, data: '2026-10-01T00:00:00Z' })
+    });
+    context = { ...createMultiShopCLI(tempDir), gitOps };
+
+    vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+      if (args[1] !== 'list') return { exitCode: 0, stdout: 'gh version 2.40.0', stderr: '' };
+      const pullRequests = args.includes('shop-a/promo-black-friday')
+        ? [{ number: 7, url: 'https://github.com/org/repo/pull/7', state: 'MERGED' }]
+        : [];
+      return { exitCode: 0, stdout: JSON.stringify(pullRequests), stderr: '' };
+    });
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  test('reports age, drift, PR state, theme and last author per promo branch', async () => {
+    // Arrange
+    fs.writeFileSync(path.join(shopsDir, 'campaigns.json'), JSON.stringify({
+      version: 1,
+      campaigns: [{
+        name: 'black-friday',
+        shops: ['shop-a'],
+        themes: { 'shop-a': '200' },
+        runs: { 'shop-a': { branchCreatedAt: '2026-11-20T00:00:00Z' } }
+      }]
+    }));
+
+    // Act
+    const result = await getPromoDashboard(context, { now });
+
+    // Assert
+    expect(result.data?.promos).toEqual([
+      {
+        shop: 'shop-a',
+        promo: 'black-friday',
+        branch: 'shop-a/promo-black-friday',
+        base: 'shop-a/main',
+        themeId: '200',
+        createdAt: '2026-11-20T00:00:00Z',
+        ageDays: 25,
+        ahead: 3,
+        behind: 1,
+        lastCommit: { sha: 'head456', author: 'Marketing', date: '2026-12-14T09:00:00Z' },
+        pullRequest: { number: 7, url: 'https://github.com/org/repo/pull/7', state: 'merged' },
+        stale: false
+      },
+      expect.objectContaining({ branch: 'shop-b/promo-winter', createdAt: '2026-10-01T00:00:00Z', ageDays: 75, pullRequest: null, stale: true })
+    ]);
+    expect(gitOps.revListCount).toHaveBeenCalledWith('origin/shop-a/main', 'origin/shop-a/promo-black-friday');
+    expect(result.data?.warnings).toEqual(['1 promo branch is older than 30 days: shop-b/promo-winter (75d)']);
+
+    const table = formatPromoDashboard(result.data!);
+    expect(table).toContain('shop-a  black-friday  25d');
+    expect(table).toContain('+3 / -1');
+    expect(table).toContain('✅ merged #7');
+  });
+
+  test('dates unrecorded promos by their first commit and leaves the age unknown without one', async () => {
+    // Arrange - shop-b's promo has no commits of its own yet
+    vi.mocked(gitOps.firstCommitDate).mockImplementation(async (_base: string, head: string) =>
+      ({ success: true, data: head.includes('shop-a') ? '2026-12-01T08:00:00+00:00' : null }));
+
+    // Act
+    const result = await getPromoDashboard(context, { now, staleAfterDays: 10 });
+
+    // Assert
+    expect(gitOps.firstCommitDate).toHaveBeenCalledWith('origin/shop-a/main', 'origin/shop-a/promo-black-friday');
+    expect(result.data?.promos[0]).toMatchObject({ createdAt: '2026-12-01T08:00:00+00:00', ageDays: 14, stale: true });
+    expect(result.data?.promos[1]).not.toHaveProperty('ageDays');
+    expect(result.data?.promos[1]).not.toHaveProperty('createdAt');
+    expect(result.data?.promos[1]?.stale).toBe(false);
+    expect(result.data?.warnings).toContain('1 promo branch is older than 10 days: shop-a/promo-black-friday (14d)');
+    expect(formatPromoDashboard(result.data!)).toMatch(/shop-b\s+winter\s+\?/);
+  });
+
+  test('reads the stale threshold from settings and lets the caller override it', async () => {
+    // Arrange
+    fs.writeFileSync(path.join(shopsDir, 'settings.json'), JSON.stringify({ campaigns: { staleAfterDays: 90 } }));
+
+    // Act
+    const fromSettings = await getPromoDashboard(context, { now });
+    const overridden = await getPromoDashboard(context, { now, staleAfterDays: 10 });
+
+    // Assert
+    expect(fromSettings.data?.promos.filter(promo => promo.stale)).toHaveLength(0);
+    expect(overridden.data?.promos.filter(promo => promo.stale)).toHaveLength(2);
+    expect((await getPromoDashboard(context, { now, staleAfterDays: 0 })).error).toContain('positive number of days');
+  });
+
+  test('still shows git state when the PR provider is unavailable', async () => {
+    // Arrange
+    vi.mocked(runCommand).mockResolvedValue({ exitCode: 127, stdout: '', stderr: 'spawn gh ENOENT' });
+
+    // Act
+    const result = await getPromoDashboard(context, { now });
+
+    // Assert
+    expect(result.data?.promos[0]).toMatchObject({ ahead: 3, behind: 1 });
+    expect(result.data?.promos[0]).not.toHaveProperty('pullRequest');
+    expect(result.data?.warnings).toContain('PR state unavailable: GitHub CLI not available');
+    expect(formatPromoDashboard(result.data!)).toContain('  ?  ');
+  });
+});
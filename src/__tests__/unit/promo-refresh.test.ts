@@ -0,0 +1,106 @@
+/**
+ * Unit tests for promo-refresh module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupTempDir, createMockGitOperations, createTempDir, createTestShop } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { DEFAULT_BRANCH_NAMING } from '../../lib/core/branch-naming.js';
+import { formatPromoRefresh, refreshPromo } from '../../lib/core/promo-refresh.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+
+const branch = 'shop-a/promo-summer-sale';
+
+describe('promo-refresh', () => {
+  let tempDir: string;
+  let gitOps: GitOperations;
+  let context: CLIContext;
+
+  /** shop-a/main has 3 commits the promo doesn't */
+  const behindMain = (): void => {
+    vi.mocked(gitOps.revListCount).mockResolvedValue({ success: true, data: 3 });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = createTempDir();
+    createTestShop(tempDir, 'shop-a');
+    gitOps = createMockGitOperations({
+      getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: 'shop-a/main' })
+    });
+    context = { ...createMultiShopCLI(tempDir), gitOps };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  test('merges the shop main branch into the promo and pushes it', async () => {
+    // Arrange
+    behindMain();
+
+    // Act
+    const result = await refreshPromo(context, DEFAULT_BRANCH_NAMING, branch, { push: true, interactive: false });
+
+    // Assert
+    expect(result.data).toMatchObject({ shop: 'shop-a', base: 'shop-a/main', status: 'updated', behind: 3, pushed: true });
+    expect(gitOps.checkout).toHaveBeenCalledWith(branch);
+    expect(gitOps.merge).toHaveBeenCalledWith(`origin/${branch}`, { fastForwardOnly: true });
+    expect(gitOps.merge).toHaveBeenCalledWith('origin/shop-a/main', { rebase: false });
+    expect(gitOps.pushBranch).toHaveBeenCalledWith(branch, { forceWithLease: false });
+    expect(gitOps.checkout).toHaveBeenLastCalledWith('shop-a/main');
+  });
+
+  test('reports each conflicting file and flags content files', async () => {
+    // Arrange
+    behindMain();
+    vi.mocked(gitOps.diffNameStatus).mockResolvedValue({
+      success: true,
+      data: [{ status: 'modified', path: 'templates/index.json' }, { status: 'modified', path: 'sections/hero.liquid' }]
+    });
+    vi.mocked(gitOps.merge).mockImplementation(async (ref: string) => ref === 'origin/shop-a/main'
+      ? { success: true, data: { merged: false, conflicts: ['templates/index.json', 'sections/hero.liquid'] } }
+      : { success: true, data: { merged: true, conflicts: [] } });
+
+    // Act
+    const result = await refreshPromo(context, DEFAULT_BRANCH_NAMING, branch, { rebase: true, push: true, interactive: false });
+
+    // Assert
+    expect(result.data).toMatchObject({
+      status: 'conflict',
+      contentFiles: ['templates/index.json'],
+      conflicts: ['templates/index.json', 'sections/hero.liquid'],
+      pushed: false
+    });
+    expect(gitOps.pushBranch).not.toHaveBeenCalled();
+    expect(gitOps.checkout).toHaveBeenLastCalledWith('shop-a/main');
+
+    const report = formatPromoRefresh(result.data!);
+    expect(report).toContain('↳ conflict: templates/index.json (content)');
+    expect(report).toContain('↳ conflict: sections/hero.liquid\n');
+  });
+
+  test('leaves an up-to-date promo alone', async () => {
+    // Act
+    const result = await refreshPromo(context, DEFAULT_BRANCH_NAMING, branch, { push: true, interactive: false });
+
+    // Assert
+    expect(result.data).toMatchObject({ status: 'up-to-date', behind: 0 });
+    expect(gitOps.merge).toHaveBeenCalledTimes(1);
+    expect(gitOps.pushBranch).not.toHaveBeenCalled();
+  });
+
+  test('refuses a dirty working tree and branches that are not promos', async () => {
+    // Arrange
+    vi.mocked(gitOps.isWorkingTreeClean).mockResolvedValue({ success: true, data: false });
+
+    // Act
+    const dirty = await refreshPromo(context, DEFAULT_BRANCH_NAMING, branch);
+    const notPromo = await refreshPromo(context, DEFAULT_BRANCH_NAMING, 'shop-a/main');
+
+    // Assert
+    expect(dirty.error).toBe("Working tree has uncommitted changes. Commit or stash them first.");
+    expect(notPromo.error).toBe('shop-a/main is not a promo branch');
+    expect(gitOps.checkout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for promo-teardown module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupTempDir, createMockGitOperations, createTempDir, createTestShop } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { DEFAULT_BRANCH_NAMING } from '../../lib/core/branch-naming.js';
+import { archiveTagName, planPromoTeardown, teardownPromo } from '../../lib/core/promo-teardown.js';
+import type { CLIContext, FileChange, GitOperations } from '../../lib/core/types.js';
+
+const branch = 'shop-a/promo-summer-sale';
+const now = new Date('2026-09-01T12:00:00Z');
+
+describe('promo-teardown', () => {
+  let tempDir: string;
+  let gitOps: GitOperations;
+  let context: CLIContext;
+
+  /** The promo has 2 commits not in shop-a/main, touching these files */
+  const withUnmergedChanges = (changes: FileChange[]): void => {
+    vi.mocked(gitOps.revListCount).mockImplementation(async (from: string) =>
+      ({ success: true, data: from === 'origin/shop-a/main' ? 2 : 0 }));
+    vi.mocked(gitOps.diffNameStatus).mockResolvedValue({ success: true, data: changes });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = createTempDir();
+    createTestShop(tempDir, 'shop-a');
+    gitOps = createMockGitOperations({
+      getCurrentBranch: vi.fn().mockResolvedValue({ success: true, data: branch })
+    });
+    context = { ...createMultiShopCLI(tempDir), gitOps };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  test('archives a merged promo as a tag before deleting it everywhere', async () => {
+    // Act
+    const plan = await planPromoTeardown(context, DEFAULT_BRANCH_NAMING, branch, now);
+    const result = await teardownPromo(context, plan.data!);
+
+    // Assert
+    expect(plan.data).toMatchObject({ base: 'shop-a/main', ref: `origin/${branch}`, unmergedCommits: 0, unmergedFiles: [] });
+    expect(result.data).toEqual({ branch, archiveTag: 'archive/shop-a/promo-summer-sale/2026-09-01', rescued: [], rescuePushed: false });
+    expect(gitOps.checkout).toHaveBeenCalledWith('shop-a/main');
+    expect(gitOps.createTag).toHaveBeenCalledWith(
+      'archive/shop-a/promo-summer-sale/2026-09-01',
+      `origin/${branch}`,
+      `Archive of ${branch} before teardown`
+    );
+    expect(gitOps.pushTag).toHaveBeenCalledWith('archive/shop-a/promo-summer-sale/2026-09-01');
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith(branch, { remote: true });
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith(branch, { force: true });
+  });
+
+  test('refuses to lose unmerged changes unless forced', async () => {
+    // Arrange
+    withUnmergedChanges([
+      { status: 'modified', path: 'templates/index.json' },
+      { status: 'modified', path: 'sections/hero.liquid' }
+    ]);
+    const plan = (await planPromoTeardown(context, DEFAULT_BRANCH_NAMING, branch, now)).data!;
+
+    // Act
+    const refused = await teardownPromo(context, plan, { rescue: ['templates/index.json'] });
+    const forced = await teardownPromo(context, plan, { force: true });
+
+    // Assert
+    expect(plan.contentFiles).toEqual(['templates/index.json']);
+    expect(refused.error).toBe(
+      `${branch} has 2 commits not merged into shop-a/main (sections/hero.liquid). Merge it, rescue the content files or force the teardown.`
+    );
+    expect(forced.success).toBe(true);
+    expect(gitOps.deleteBranch).toHaveBeenCalledTimes(2);
+  });
+
+  test('carries content files back to the shop branch', async () => {
+    // Arrange
+    withUnmergedChanges([
+      { status: 'modified', path: 'templates/index.json' },
+      { status: 'modified', path: 'config/settings_data.json' }
+    ]);
+    const plan = (await planPromoTeardown(context, DEFAULT_BRANCH_NAMING, branch, now)).data!;
+
+    // Act
+    const result = await teardownPromo(context, plan, { rescue: plan.contentFiles, pushRescue: true });
+
+    // Assert
+    expect(result.data?.rescued).toEqual(['templates/index.json', 'config/settings_data.json']);
+    expect(gitOps.merge).toHaveBeenCalledWith('origin/shop-a/main', { fastForwardOnly: true });
+    expect(gitOps.restoreFiles).toHaveBeenCalledWith(`origin/${branch}`, ['templates/index.json', 'config/settings_data.json']);
+    expect(gitOps.commit).toHaveBeenCalledWith(expect.stringMatching(/^Rescue content from shop-a\/promo-summer-sale/));
+    expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-a/main');
+    expect(vi.mocked(gitOps.commit).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(gitOps.deleteBranch).mock.invocationCallOrder[0]!);
+  });
+
+  test('archives unpushed local commits and numbers repeat archives', async () => {
+    // Arrange
+    vi.mocked(gitOps.revListCount).mockImplementation(async (from: string) =>
+      ({ success: true, data: from === `origin/${branch}` ? 1 : 0 }));
+    vi.mocked(gitOps.tagExists).mockImplementation(async (tag: string) =>
+      ({ success: true, data: tag === archiveTagName(branch, now) }));
+
+    // Act
+    const plan = await planPromoTeardown(context, DEFAULT_BRANCH_NAMING, branch, now);
+
+    // Assert
+    expect(plan.data).toMatchObject({ ref: branch, archiveTag: 'archive/shop-a/promo-summer-sale/2026-09-01-2' });
+  });
+
+  test('rejects branches that are not promos', async () => {
+    expect((await planPromoTeardown(context, DEFAULT_BRANCH_NAMING, 'shop-a/main')).error).toBe('shop-a/main is not a promo branch');
+  });
+});
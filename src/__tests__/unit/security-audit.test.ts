@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   createTempDir,
   cleanupTempDir,
@@ -9,6 +9,8 @@ import {
   createMockCredentials
 } from '../helpers.js';
 import { runSecurityAudit, formatAuditReport } from '../../lib/core/security-audit.js';
+import { createFileCredentialStore } from '../../lib/core/file-credential-store.js';
+import { createEncryptedCredentialStore, PASSPHRASE_ENV_VAR } from '../../lib/core/encrypted-credential-store.js';
 import type { Dependencies } from '../../lib/core/types.js';
 import fs from 'fs';
 import path from 'path';
@@ -32,6 +34,7 @@ describe('Security Audit', () => {
 
   afterEach(() => {
     cleanupTempDir(tempDir);
+    vi.unstubAllEnvs();
   });
 
   describe('runSecurityAudit', () => {
@@ -159,6 +162,25 @@ shops/credentials/
       expect(shopAudit?.hasStaging).toBe(true);
     });
 
+    test('should report where each token comes from', async () => {
+      // Arrange - Production token only in the environment, staging in the file
+      const shopId = 'ci-shop';
+      writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+      writeShopCredentials(deps.credentialsDir, shopId, createMockCredentials(shopId));
+      vi.stubEnv('MULTI_SHOP_CI_SHOP_PRODUCTION_TOKEN', 'prod-env');
+
+      // Act
+      const result = await runSecurityAudit(deps);
+
+      // Assert
+      const shopAudit = result.data?.shops.find(s => s.shopId === shopId);
+      expect(shopAudit?.tokenSources).toEqual({
+        production: { kind: 'env', name: 'MULTI_SHOP_CI_SHOP_PRODUCTION_TOKEN' },
+        staging: { kind: 'store', name: 'file' }
+      });
+      expect(formatAuditReport(result.data!)).toContain('Production Token: ✅ (env MULTI_SHOP_CI_SHOP_PRODUCTION_TOKEN)');
+    });
+
     test('should detect missing staging credentials', async () => {
       // Arrange
       const shopId = 'partial-creds';
@@ -281,18 +303,8 @@ shops/credentials/
       const shopId = 'test-shop';
       writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
 
-      // Write credentials with metadata for clean audit
-      const credsWithMetadata = {
-        ...createMockCredentials(shopId),
-        _metadata: {
-          created: new Date().toISOString(),
-          version: '1.0.0'
-        }
-      };
-      const credPath = path.join(deps.credentialsDir, `${shopId}.credentials.json`);
-      fs.writeFileSync(credPath, JSON.stringify(credsWithMetadata, null, 2));
-      // Set proper file permissions (600)
-      fs.chmodSync(credPath, 0o600);
+      // Save through the store so the file carries metadata and a checksum (chmod 600)
+      await createFileCredentialStore(deps).save(shopId, createMockCredentials(shopId));
       // Set proper directory permissions (700)
       fs.chmodSync(deps.credentialsDir, 0o700);
 
@@ -331,9 +343,9 @@ shops/credentials/
       expect(shopAudit?.integrityValid).toBe(false);
     });
 
-    test('should mark credentials with metadata as integrity valid', async () => {
-      // Arrange - Write both config and credentials with metadata
-      const shopId = 'new-format-shop';
+    test('should not accept metadata without a checksum as integrity valid', async () => {
+      // Arrange - Metadata written before checksums were recorded
+      const shopId = 'legacy-shop';
       writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
 
       const credsWithMetadata = {
@@ -351,8 +363,139 @@ shops/credentials/
 
       // Assert
       const shopAudit = result.data?.shops.find(s => s.shopId === shopId);
-      expect(shopAudit).toBeDefined();
+      expect(shopAudit?.integrityValid).toBe(false);
+      expect(shopAudit?.integrity).toBe('unverified');
+      expect(result.data?.issues).toContainEqual(expect.objectContaining({
+        level: 'warning',
+        shopId,
+        message: 'Credential file has no integrity checksum'
+      }));
+    });
+
+    test('should mark credentials saved with a checksum as integrity valid', async () => {
+      // Arrange
+      const shopId = 'new-format-shop';
+      writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+      await createFileCredentialStore(deps).save(shopId, createMockCredentials(shopId));
+
+      // Act
+      const result = await runSecurityAudit(deps);
+
+      // Assert
+      const shopAudit = result.data?.shops.find(s => s.shopId === shopId);
       expect(shopAudit?.integrityValid).toBe(true);
+      expect(shopAudit?.integrity).toBe('verified');
+      expect(result.data?.issues.some(i => i.shopId === shopId)).toBe(false);
+    });
+
+    test('should report hand-edited tokens as an error for that shop', async () => {
+      // Arrange - Save, then change a token without updating the checksum
+      const shopId = 'edited-shop';
+      writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+      writeShopConfig(deps.shopsDir, 'other-shop', createMockShopConfig('other-shop'));
+      const store = createFileCredentialStore(deps);
+      await store.save(shopId, createMockCredentials(shopId));
+      await store.save('other-shop', createMockCredentials('other-shop'));
+
+      const credPath = path.join(deps.credentialsDir, `${shopId}.credentials.json`);
+      fs.writeFileSync(credPath, fs.readFileSync(credPath, 'utf8').replace('prod-token-edited-shop', 'swapped-token'));
+
+      // Act
+      const result = await runSecurityAudit(deps);
+
+      // Assert
+      expect(result.data?.shops.find(s => s.shopId === shopId)?.integrity).toBe('mismatch');
+      expect(result.data?.shops.find(s => s.shopId === 'other-shop')?.integrity).toBe('verified');
+      const errors = result.data?.issues.filter(i => i.level === 'error' && i.shopId !== undefined);
+      expect(errors?.map(i => i.shopId)).toEqual([shopId]);
+      expect(formatAuditReport(result.data!)).toContain('checksum mismatch');
+    });
+
+    describe('encrypted-file backend', () => {
+      const passphrase = 'correct horse battery staple';
+
+      beforeEach(() => {
+        fs.writeFileSync(
+          path.join(deps.shopsDir, 'settings.json'),
+          JSON.stringify({ credentials: { backend: 'encrypted-file' } })
+        );
+      });
+
+      test('should audit the encrypted file instead of reporting it missing', async () => {
+        // Arrange
+        const shopId = 'vault-shop';
+        writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+        await createEncryptedCredentialStore(deps, passphrase).save(shopId, createMockCredentials(shopId));
+        vi.stubEnv(PASSPHRASE_ENV_VAR, passphrase);
+
+        // Act
+        const result = await runSecurityAudit(deps);
+
+        // Assert
+        const shopAudit = result.data?.shops.find(s => s.shopId === shopId);
+        expect(shopAudit?.integrity).toBe('verified');
+        expect(shopAudit?.filePermissions).toBe('600');
+        expect(shopAudit?.lastModified).not.toBe('never');
+        expect(shopAudit?.hasProduction).toBe(true);
+        expect(result.data?.issues.some(i => i.shopId === shopId)).toBe(false);
+      });
+
+      test('should report credentials it cannot decrypt as an error', async () => {
+        // Arrange - saved with a passphrase, audited without one
+        const shopId = 'vault-shop';
+        writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+        await createEncryptedCredentialStore(deps, passphrase).save(shopId, createMockCredentials(shopId));
+        vi.stubEnv(PASSPHRASE_ENV_VAR, '');
+
+        // Act
+        const result = await runSecurityAudit(deps);
+
+        // Assert
+        const shopAudit = result.data?.shops.find(s => s.shopId === shopId);
+        expect(shopAudit?.integrity).toBe('unreadable');
+        expect(shopAudit?.integrityValid).toBe(false);
+        expect(result.data?.issues).toContainEqual(expect.objectContaining({
+          level: 'error',
+          shopId,
+          message: expect.stringContaining(`${PASSPHRASE_ENV_VAR} is not set`)
+        }));
+      });
+
+      test('should still report shops without an encrypted file as missing', async () => {
+        // Arrange - a plaintext file is not what this backend reads
+        const shopId = 'plain-shop';
+        writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+        writeShopCredentials(deps.credentialsDir, shopId, createMockCredentials(shopId));
+        vi.stubEnv(PASSPHRASE_ENV_VAR, passphrase);
+
+        // Act
+        const result = await runSecurityAudit(deps);
+
+        // Assert
+        expect(result.data?.shops.find(s => s.shopId === shopId)?.integrity).toBe('missing');
+      });
+    });
+
+    describe('command backend', () => {
+      test('should not ask for checksums the backend never records', async () => {
+        // Arrange - the secret manager prints plain credentials JSON
+        const secretsDir = path.join(deps.cwd, 'secrets');
+        fs.mkdirSync(secretsDir);
+        fs.writeFileSync(
+          path.join(deps.shopsDir, 'settings.json'),
+          JSON.stringify({ credentials: { backend: 'command', readCommand: ['cat', path.join(secretsDir, '{shop}.json')] } })
+        );
+        const shopId = 'vault-shop';
+        writeShopConfig(deps.shopsDir, shopId, createMockShopConfig(shopId));
+        fs.writeFileSync(path.join(secretsDir, `${shopId}.json`), JSON.stringify(createMockCredentials(shopId)));
+
+        // Act
+        const result = await runSecurityAudit(deps);
+
+        // Assert
+        expect(result.data?.shops.find(s => s.shopId === shopId)?.integrity).toBe('unverified');
+        expect(result.data?.issues.some(i => i.message === 'Credential file has no integrity checksum')).toBe(false);
+      });
     });
   });
 
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for shop-cloning module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockGitOperations,
+  createMockShopConfig,
+  readShopConfig,
+  setupTestProject,
+  writeShopConfig
+} from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import { buildClonedConfig, cloneShop } from '../../lib/core/shop-cloning.js';
+import type { CLIContext, GitOperations } from '../../lib/core/types.js';
+import type { ContentProtectionConfig, ShopConfig, ShopifyStore } from '../../types/shop.js';
+
+const defaultProtection: ContentProtectionConfig = { enabled: true, mode: 'warn', verbosity: 'verbose' };
+
+const withStore = (config: ShopConfig, environment: string, store: ShopifyStore): ShopConfig => ({
+  ...config,
+  shopify: { ...config.shopify, stores: { ...config.shopify.stores, [environment]: store } }
+});
+
+describe('shop-cloning', () => {
+  describe('buildClonedConfig', () => {
+    test('rewrites domains and branches and drops theme IDs', () => {
+      // Arrange
+      const source = withStore(createMockShopConfig('shop-a'), 'production', {
+        domain: 'shop-a.myshopify.com',
+        branch: 'shop-a/main',
+        themeId: '123'
+      });
+
+      // Act
+      const result = buildClonedConfig(source, { source: 'shop-a', shopId: 'shop-b' }, defaultProtection);
+
+      // Assert
+      expect(result.data?.shopify.stores).toEqual({
+        production: { domain: 'shop-b.myshopify.com', branch: 'shop-b/main' },
+        staging: { domain: 'staging-shop-b.myshopify.com', branch: 'shop-b/staging' }
+      });
+      expect(result.data?.name).toBe('shop-b');
+      expect(result.data?.contentProtection).toEqual(defaultProtection);
+      expect(result.data?.metadata).toBeUndefined();
+    });
+
+    test('copies protection and metadata when asked', () => {
+      const source = createMockShopConfig('shop-a', {
+        metadata: { tags: ['region:eu'] },
+        contentProtection: { enabled: true, mode: 'strict', verbosity: 'quiet' }
+      });
+
+      const result = buildClonedConfig(
+        source,
+        { source: 'shop-a', shopId: 'shop-b', copyContentProtection: true, copyMetadata: true },
+        defaultProtection
+      );
+
+      expect(result.data?.contentProtection).toEqual(source.contentProtection);
+      expect(result.data?.metadata?.tags).toEqual(['region:eu']);
+    });
+
+    test('requires an explicit domain when it cannot be derived', () => {
+      const source = withStore(createMockShopConfig('shop-a'), 'staging', {
+        domain: 'preview.myshopify.com',
+        branch: 'shop-a/staging'
+      });
+
+      const failed = buildClonedConfig(source, { source: 'shop-a', shopId: 'shop-b' }, defaultProtection);
+      const explicit = buildClonedConfig(
+        source,
+        { source: 'shop-a', shopId: 'shop-b', domains: { staging: 'preview-b.myshopify.com' } },
+        defaultProtection
+      );
+
+      expect(failed.error).toBe(
+        'Cannot derive the staging domain from preview.myshopify.com; pass --domain staging=<domain>'
+      );
+      expect(explicit.data?.shopify.stores.staging?.domain).toBe('preview-b.myshopify.com');
+    });
+  });
+
+  describe('cloneShop', () => {
+    let tempDir: string;
+    let shopsDir: string;
+    let gitOps: GitOperations;
+    let context: CLIContext;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      ({ shopsDir } = setupTestProject(tempDir));
+      writeShopConfig(shopsDir, 'shop-a', createMockShopConfig('shop-a'));
+
+      // Source branches exist on origin, the new shop's branches don't
+      gitOps = createMockGitOperations({
+        branchExists: vi.fn(async (branch: string) => ({ success: true, data: branch.startsWith('shop-a/') }))
+      });
+      context = { ...createMultiShopCLI(tempDir), gitOps };
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    test('saves the config and creates branches from the source branches', async () => {
+      // Act
+      const result = await cloneShop(context, { source: 'shop-a', shopId: 'shop-b' });
+
+      // Assert
+      expect(result.data?.branches.map(branch => branch.status)).toEqual(['created', 'created']);
+      expect(gitOps.createBranch).toHaveBeenCalledWith('shop-b/main', 'origin/shop-a/main');
+      expect(gitOps.createBranch).toHaveBeenCalledWith('shop-b/staging', 'origin/shop-a/staging');
+      expect(gitOps.pushBranch).toHaveBeenCalledWith('shop-b/staging', { setUpstream: true });
+      expect(gitOps.checkout).toHaveBeenLastCalledWith('main');
+      expect(readShopConfig(shopsDir, 'shop-b')?.shopify.stores.production?.branch).toBe('shop-b/main');
+    });
+
+    test('resets content files to main unless seeding content', async () => {
+      // Arrange
+      vi.mocked(gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [
+          { status: 'modified', path: 'config/settings_data.json' },
+          { status: 'added', path: 'templates/page.promo.json' },
+          { status: 'modified', path: 'sections/header.liquid' }
+        ]
+      });
+
+      // Act
+      const result = await cloneShop(context, { source: 'shop-a', shopId: 'shop-b' });
+
+      // Assert
+      expect(gitOps.removeFiles).toHaveBeenCalledWith(['templates/page.promo.json']);
+      expect(gitOps.restoreFiles).toHaveBeenCalledWith('origin/main', ['config/settings_data.json']);
+      expect(gitOps.commit).toHaveBeenCalledWith('Reset content for shop-b to main');
+      expect(result.data?.branches[0]?.resetContent).toEqual(['config/settings_data.json', 'templates/page.promo.json']);
+    });
+
+    test('keeps source content with seedContent', async () => {
+      vi.mocked(gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [{ status: 'modified', path: 'config/settings_data.json' }]
+      });
+
+      await cloneShop(context, { source: 'shop-a', shopId: 'shop-b', seedContent: true });
+
+      expect(gitOps.commit).not.toHaveBeenCalled();
+    });
+
+    test('names the new branches with the configured branch naming', async () => {
+      fs.writeFileSync(
+        path.join(shopsDir, 'settings.json'),
+        JSON.stringify({ branchNaming: { pattern: 'stores/{shop}/{environment}', environments: { production: 'live' } } })
+      );
+
+      const result = await cloneShop(context, { source: 'shop-a', shopId: 'shop-b', createBranches: false });
+
+      expect(result.data?.config.shopify.stores.production?.branch).toBe('stores/shop-b/live');
+      expect(result.data?.config.shopify.stores.staging?.branch).toBe('stores/shop-b/staging');
+    });
+
+    test('rejects existing shops and dirty working trees without writing a config', async () => {
+      vi.mocked(gitOps.isWorkingTreeClean).mockResolvedValue({ success: true, data: false });
+
+      const existing = await cloneShop(context, { source: 'shop-a', shopId: 'shop-a' });
+      const dirty = await cloneShop(context, { source: 'shop-a', shopId: 'shop-b' });
+
+      expect(existing.error).toBe('Shop shop-a already exists');
+      expect(dirty.error).toBe('Working tree has uncommitted changes. Commit or stash them first.');
+      expect(readShopConfig(shopsDir, 'shop-b')).toBeNull();
+    });
+  });
+});
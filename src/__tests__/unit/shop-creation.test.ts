@@ -2,14 +2,20 @@
  * Unit tests for shop-creation module
  */
 
-import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
 import type { CLIContext, Result } from '../../lib/core/types.js';
-import type { ShopConfig } from '../../types/shop.js';
+import type { ShopConfig, ShopTemplate } from '../../types/shop.js';
+import { createTempDir, cleanupTempDir, readShopConfig, setupTestProject } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
 
 // Mock @clack/prompts
 vi.mock('@clack/prompts', () => ({
   intro: vi.fn(),
-  note: vi.fn()
+  note: vi.fn(),
+  select: vi.fn(),
+  isCancel: vi.fn()
 }));
 
 // Mock shop-input module
@@ -40,7 +46,8 @@ describe('shop-creation', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -56,8 +63,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test-shop.myshopify.com',
-        stagingDomain: 'staging-test-shop.myshopify.com',
+        domains: { production: 'test-shop.myshopify.com', staging: 'staging-test-shop.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -79,7 +85,7 @@ describe('shop-creation', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(collectShopData).toHaveBeenCalledWith(mockContext);
+      expect(collectShopData).toHaveBeenCalledWith(mockContext, undefined);
       expect(mockContext.shopOps.saveConfig).toHaveBeenCalled();
     });
 
@@ -142,8 +148,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'my-shop',
         shopName: 'My Shop',
-        productionDomain: 'my-shop.myshopify.com',
-        stagingDomain: 'staging-my-shop.myshopify.com',
+        domains: { production: 'my-shop.myshopify.com', staging: 'staging-my-shop.myshopify.com' },
         authMethod: 'manual-tokens' as const
       };
 
@@ -183,8 +188,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'shop-a',
         shopName: 'Shop A',
-        productionDomain: 'shop-a.myshopify.com',
-        stagingDomain: 'staging-shop-a.myshopify.com',
+        domains: { production: 'shop-a.myshopify.com', staging: 'staging-shop-a.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -217,8 +221,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'shop-b',
         shopName: 'Shop B',
-        productionDomain: 'shop-b.myshopify.com',
-        stagingDomain: 'staging-shop-b.myshopify.com',
+        domains: { production: 'shop-b.myshopify.com', staging: 'staging-shop-b.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -251,8 +254,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -282,8 +284,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -316,8 +317,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -350,8 +350,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'my-shop',
         shopName: 'My Shop',
-        productionDomain: 'my.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'my.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'manual-tokens' as const
       };
 
@@ -392,8 +391,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -428,8 +426,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -466,8 +463,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -501,8 +497,7 @@ describe('shop-creation', () => {
       const shopData = {
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app' as const
       };
 
@@ -531,4 +526,114 @@ describe('shop-creation', () => {
       expect(savedConfig?.shopify.stores.staging).toHaveProperty('branch');
     });
   });
+
+  describe('templates', () => {
+    const regionalStore: ShopTemplate = {
+      description: 'Regional storefront',
+      environments: ['production', 'staging', 'qa'],
+      tags: ['region:eu'],
+      contentProtection: { mode: 'warn' },
+      authMethod: 'manual-tokens',
+      branchPattern: '{shop}/{environment}'
+    };
+
+    let tempDir: string;
+    let shopsDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      ({ shopsDir } = setupTestProject(tempDir));
+      fs.mkdirSync(path.join(shopsDir, 'templates'));
+      fs.writeFileSync(path.join(shopsDir, 'templates', 'regional-store.template.json'), JSON.stringify(regionalStore));
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    test('createNewShop offers templates and applies the chosen one', async () => {
+      // Arrange
+      const context = createMultiShopCLI(tempDir);
+      const { select, isCancel } = await import('@clack/prompts');
+      vi.mocked(select).mockResolvedValue('regional-store');
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      const { collectShopData } = await import('../../lib/core/shop-input.js');
+      vi.mocked(collectShopData).mockResolvedValue({
+        success: true,
+        data: {
+          shopId: 'fashion-nl',
+          shopName: 'Fashion NL',
+          domains: {
+            production: 'fashion-nl.myshopify.com',
+            staging: 'staging-fashion-nl.myshopify.com',
+            qa: 'qa-fashion-nl.myshopify.com'
+          },
+          authMethod: 'manual-tokens'
+        }
+      });
+
+      const { createNewShop } = await import('../../lib/core/shop-creation.js');
+
+      // Act
+      const result = await createNewShop(context);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(select).toHaveBeenCalledWith(expect.objectContaining({
+        options: [
+          { value: '', label: 'No template', hint: 'Defaults from shops/settings.json' },
+          { value: 'regional-store', label: 'regional-store', hint: 'Regional storefront' }
+        ]
+      }));
+      expect(collectShopData).toHaveBeenCalledWith(context, regionalStore);
+
+      const saved = readShopConfig(shopsDir, 'fashion-nl');
+      expect(saved?.shopify.stores.qa?.branch).toBe('fashion-nl/qa');
+      expect(saved?.metadata).toEqual({ description: 'Regional storefront', tags: ['region:eu'] });
+      expect(saved?.contentProtection).toEqual({ enabled: true, mode: 'warn', verbosity: 'verbose' });
+    });
+
+    test('createShop builds a shop from a template without prompts', async () => {
+      // Arrange
+      const context = createMultiShopCLI(tempDir);
+      const { createShop } = await import('../../lib/core/shop-creation.js');
+
+      // Act
+      const result = await createShop(context, {
+        shopId: 'fashion-nl',
+        template: 'regional-store',
+        domains: {
+          production: 'fashion-nl.myshopify.com',
+          staging: 'staging-fashion-nl.myshopify.com',
+          qa: 'qa-fashion-nl.myshopify.com'
+        }
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe('fashion-nl');
+      expect(result.data?.shopify.authentication.method).toBe('manual-tokens');
+      expect(Object.keys(readShopConfig(shopsDir, 'fashion-nl')?.shopify.stores ?? {})).toEqual(['production', 'staging', 'qa']);
+    });
+
+    test('createShop requires a domain for every template environment', async () => {
+      const context = createMultiShopCLI(tempDir);
+      const { createShop } = await import('../../lib/core/shop-creation.js');
+
+      const missing = await createShop(context, {
+        shopId: 'fashion-nl',
+        template: 'regional-store',
+        domains: { production: 'fashion-nl.myshopify.com' }
+      });
+      const unknown = await createShop(context, {
+        shopId: 'fashion-nl',
+        domains: { production: 'fashion-nl.myshopify.com', staging: 'fashion-nl.myshopify.com', qa: 'qa.myshopify.com' }
+      });
+
+      expect(missing.error).toBe('Missing domain for staging, qa (--domain <environment>=<domain>)');
+      expect(unknown.error).toBe('Unknown environment: qa');
+      expect(readShopConfig(shopsDir, 'fashion-nl')).toBeNull();
+    });
+  });
 });
@@ -33,7 +33,8 @@ describe('shop-editing', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -103,8 +104,8 @@ describe('shop-editing', () => {
         expect.objectContaining({
           message: 'Select shop to edit:',
           options: [
-            { value: 'shop-a', label: 'shop-a' },
-            { value: 'shop-b', label: 'shop-b' }
+            expect.objectContaining({ value: 'shop-a', label: 'shop-a' }),
+            expect.objectContaining({ value: 'shop-b', label: 'shop-b' })
           ]
         })
       );
@@ -36,7 +36,8 @@ describe('shop-input', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -80,12 +81,45 @@ describe('shop-input', () => {
       expect(result.data).toEqual({
         shopId: 'test-shop',
         shopName: 'Test Shop',
-        productionDomain: 'test.myshopify.com',
-        stagingDomain: 'staging.myshopify.com',
+        domains: { production: 'test.myshopify.com', staging: 'staging.myshopify.com' },
         authMethod: 'theme-access-app'
       });
     });
 
+    test('asks for a domain per template environment and uses its auth method', async () => {
+      // Arrange
+      const { text, select, isCancel } = await import('@clack/prompts');
+      const { validateShopId, validateDomain } = await import('../../lib/core/validation.js');
+
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({ success: true, data: [] });
+      vi.mocked(isCancel).mockReturnValue(false);
+      vi.mocked(text)
+        .mockResolvedValueOnce('fashion-nl')
+        .mockResolvedValueOnce('Fashion NL')
+        .mockResolvedValueOnce('fashion-nl.myshopify.com')
+        .mockResolvedValueOnce('qa-fashion-nl.myshopify.com');
+      vi.mocked(validateShopId).mockReturnValue({ success: true });
+      vi.mocked(validateDomain).mockReturnValue({ success: true });
+
+      const { collectShopData } = await import('../../lib/core/shop-input.js');
+
+      // Act
+      const result = await collectShopData(mockContext, {
+        environments: ['production', 'holiday-preview'],
+        authMethod: 'manual-tokens'
+      });
+
+      // Assert
+      expect(result.data).toEqual({
+        shopId: 'fashion-nl',
+        shopName: 'Fashion NL',
+        domains: { production: 'fashion-nl.myshopify.com', 'holiday-preview': 'qa-fashion-nl.myshopify.com' },
+        authMethod: 'manual-tokens'
+      });
+      expect(text).toHaveBeenCalledWith(expect.objectContaining({ message: 'Holiday Preview domain:' }));
+      expect(select).not.toHaveBeenCalled();
+    });
+
     test('returns error when shopId input is cancelled', async () => {
       // Arrange
       const { text, isCancel } = await import('@clack/prompts');
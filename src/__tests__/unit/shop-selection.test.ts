@@ -0,0 +1,171 @@
+/**
+ * Unit tests for shop-selection module
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, createMockShopConfig, setupTestProject, writeShopConfig } from '../helpers.js';
+import { createMultiShopCLI } from '../../lib/core/index.js';
+import {
+  hasShopTargeting,
+  loadShopCatalog,
+  parseShopSelectors,
+  pickShop,
+  pickShops,
+  resolveRequestedShops,
+  resolveShopSelectors,
+  selectShopsByTag,
+  type ShopCatalog
+} from '../../lib/core/shop-selection.js';
+import type { CLIContext } from '../../lib/core/types.js';
+
+vi.mock('@clack/prompts', () => ({
+  select: vi.fn(),
+  multiselect: vi.fn(),
+  groupMultiselect: vi.fn(),
+  text: vi.fn(),
+  note: vi.fn(),
+  isCancel: vi.fn()
+}));
+
+vi.mock('../../lib/core/shop-status.js', () => ({
+  getShopStatusHint: vi.fn(async (_context: CLIContext, shop: string) => `status of ${shop}`)
+}));
+
+const catalog: ShopCatalog = {
+  shops: ['shop-a', 'shop-b', 'shop-c', 'shop-d'],
+  tags: new Map([
+    ['shop-a', ['region:eu', 'tier:plus']],
+    ['shop-b', ['region:us']],
+    ['shop-c', ['region:eu']],
+    ['shop-d', []]
+  ]),
+  groups: {
+    emea: ['tag:region:eu', 'shop-d'],
+    nested: ['group:emea']
+  }
+};
+
+describe('shop-selection', () => {
+  describe('parseShopSelectors', () => {
+    test('splits and trims comma-separated selectors', () => {
+      expect(parseShopSelectors(' shop-a, tag:region:eu ,,group:emea')).toEqual(['shop-a', 'tag:region:eu', 'group:emea']);
+      expect(parseShopSelectors(undefined)).toEqual([]);
+    });
+  });
+
+  describe('resolveShopSelectors', () => {
+    test('expands tags and groups in configured order without duplicates', () => {
+      expect(resolveShopSelectors(catalog, ['tag:region:eu']).data).toEqual(['shop-a', 'shop-c']);
+      expect(resolveShopSelectors(catalog, ['shop-d', 'group:emea', 'shop-a']).data).toEqual(['shop-a', 'shop-c', 'shop-d']);
+    });
+
+    test('rejects unknown shops, unknown groups and unmatched tags', () => {
+      expect(resolveShopSelectors(catalog, ['shop-a', 'shop-x']).error).toBe('Unknown shop: shop-x');
+      expect(resolveShopSelectors(catalog, ['group:apac']).error).toBe('Unknown shop group: apac');
+      expect(resolveShopSelectors(catalog, ['tag:region:apac']).error).toBe('No shops tagged region:apac');
+    });
+
+    test('rejects groups that include other groups', () => {
+      expect(resolveShopSelectors(catalog, ['group:nested']).error).toBe(
+        'Shop group nested cannot include another group (group:emea)'
+      );
+    });
+  });
+
+  describe('selectShopsByTag', () => {
+    test('offers a section per group and tag plus untagged shops', async () => {
+      // Arrange
+      const { groupMultiselect, isCancel } = await import('@clack/prompts');
+      vi.mocked(groupMultiselect).mockResolvedValue(['shop-c', 'shop-a']);
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      // Act
+      const selected = await selectShopsByTag({ ...catalog, groups: { emea: catalog.groups.emea ?? [] } }, 'Select shops:');
+
+      // Assert
+      expect(selected).toEqual(['shop-a', 'shop-c']);
+      const options = vi.mocked(groupMultiselect).mock.calls[0]?.[0].options ?? {};
+      expect(Object.keys(options)).toEqual([
+        'Group: emea',
+        'Tag: region:eu',
+        'Tag: region:us',
+        'Tag: tier:plus',
+        'Untagged'
+      ]);
+      expect(options['Group: emea']?.map(option => option.value)).toEqual(['shop-a', 'shop-c', 'shop-d']);
+    });
+  });
+
+  describe('pickers', () => {
+    const context = {} as CLIContext;
+
+    test('pickShop asks for a filter on large fleets and shows status hints', async () => {
+      // Arrange - twelve shops, the first filter matches nothing
+      const { select, text, note, isCancel } = await import('@clack/prompts');
+      const shops = Array.from({ length: 12 }, (_, index) => `shop-${String(index + 1).padStart(2, '0')}`);
+      vi.mocked(text).mockResolvedValueOnce('zzz').mockResolvedValueOnce('-1');
+      vi.mocked(select).mockResolvedValue('shop-11');
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      // Act
+      const shop = await pickShop(context, shops, 'Select shop:');
+
+      // Assert
+      expect(shop).toBe('shop-11');
+      expect(note).toHaveBeenCalledWith('No shops match "zzz"', '🔍 Filter');
+      expect(select).toHaveBeenCalledWith({
+        message: 'Select shop:',
+        options: ['shop-10', 'shop-11', 'shop-12'].map(value => ({ value, label: value, hint: `status of ${value}` }))
+      });
+    });
+
+    test('pickShops uses a plain multiselect when shops have no tags or groups', async () => {
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(['shop-b', 'shop-a']);
+      vi.mocked(isCancel).mockReturnValue(false);
+
+      const selected = await pickShops(context, { shops: ['shop-a', 'shop-b'], tags: new Map(), groups: {} }, 'Select shops:');
+
+      expect(selected).toEqual(['shop-a', 'shop-b']);
+      expect(text).not.toHaveBeenCalled();
+      expect(multiselect).toHaveBeenCalledWith(expect.objectContaining({ required: true }));
+    });
+  });
+
+  describe('with a project on disk', () => {
+    let tempDir: string;
+    let context: CLIContext;
+
+    beforeEach(() => {
+      tempDir = createTempDir();
+      const { shopsDir } = setupTestProject(tempDir);
+      writeShopConfig(shopsDir, 'shop-a', { ...createMockShopConfig('shop-a'), metadata: { tags: ['region:eu'] } });
+      writeShopConfig(shopsDir, 'shop-b', createMockShopConfig('shop-b'));
+      context = createMultiShopCLI(tempDir);
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    test('loads tags from shop configs and groups from settings', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'shops', 'settings.json'),
+        JSON.stringify({ shopGroups: { launch: ['shop-b', 'tag:region:eu'] } })
+      );
+
+      const result = await loadShopCatalog(context);
+
+      expect(result.data?.tags.get('shop-a')).toEqual(['region:eu']);
+      expect(result.data?.groups).toEqual({ launch: ['shop-b', 'tag:region:eu'] });
+      expect(hasShopTargeting(result.data as ShopCatalog)).toBe(true);
+      expect((await resolveRequestedShops(context, ['group:launch'])).data?.sort()).toEqual(['shop-a', 'shop-b']);
+    });
+
+    test('returns every shop when nothing is requested', async () => {
+      expect((await resolveRequestedShops(context)).data?.sort()).toEqual(['shop-a', 'shop-b']);
+    });
+  });
+});
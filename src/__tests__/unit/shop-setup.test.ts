@@ -5,7 +5,7 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import type { CLIContext } from '../../lib/core/types.js';
 import type { ShopData } from '../../lib/core/shop-input.js';
-import { createMockShopConfig } from '../helpers.js';
+import { createMockShopConfig, createMockGitOperations } from '../helpers.js';
 
 // Mock @clack/prompts
 vi.mock('@clack/prompts', () => ({
@@ -19,11 +19,6 @@ vi.mock('@clack/prompts', () => ({
   }))
 }));
 
-// Mock child_process
-vi.mock('child_process', () => ({
-  execSync: vi.fn()
-}));
-
 describe('shop-setup', () => {
   let mockContext: CLIContext;
   let mockShopData: ShopData;
@@ -43,18 +38,19 @@ describe('shop-setup', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
-      }
+      },
+      gitOps: createMockGitOperations()
     };
 
     mockShopData = {
       shopId: 'test-shop',
       shopName: 'Test Shop',
-      productionDomain: 'test-shop.myshopify.com',
-      stagingDomain: 'staging-test-shop.myshopify.com',
+      domains: { production: 'test-shop.myshopify.com', staging: 'staging-test-shop.myshopify.com' },
       authMethod: 'theme-access-app'
     };
 
@@ -65,7 +61,6 @@ describe('shop-setup', () => {
     test('sets up shop resources successfully', async () => {
       // Arrange
       const mockConfig = createMockShopConfig('test-shop');
-      const { execSync } = await import('child_process');
       const { select, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(select).mockResolvedValue('no'); // Don't create branches
@@ -128,21 +123,11 @@ describe('shop-setup', () => {
     test('creates GitHub branches when user selects yes', async () => {
       // Arrange
       const mockConfig = createMockShopConfig('test-shop');
-      const { execSync } = await import('child_process');
       const { select, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(select).mockResolvedValue('yes');
       vi.mocked(text).mockResolvedValue('token');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('')) // git rev-parse --git-dir
-        .mockReturnValueOnce(Buffer.from('main\n')) // get current branch
-        .mockReturnValueOnce(Buffer.from('')) // checkout test-shop/main
-        .mockReturnValueOnce(Buffer.from('')) // push test-shop/main
-        .mockReturnValueOnce(Buffer.from('')) // checkout back to main
-        .mockReturnValueOnce(Buffer.from('')) // checkout test-shop/staging
-        .mockReturnValueOnce(Buffer.from('')) // push test-shop/staging
-        .mockReturnValueOnce(Buffer.from('')); // checkout back to main
       vi.mocked(mockContext.credOps.saveCredentials).mockResolvedValue({
         success: true
       });
@@ -153,21 +138,26 @@ describe('shop-setup', () => {
       await setupShopResources(mockShopData, mockConfig, mockContext);
 
       // Assert
-      expect(execSync).toHaveBeenCalledWith('git rev-parse --git-dir', expect.any(Object));
-      expect(execSync).toHaveBeenCalledWith('git rev-parse --abbrev-ref HEAD', expect.any(Object));
+      const git = mockContext.gitOps;
+      expect(git.createBranch).toHaveBeenCalledWith('test-shop/main');
+      expect(git.createBranch).toHaveBeenCalledWith('test-shop/staging');
+      expect(git.pushBranch).toHaveBeenCalledWith('test-shop/main', { setUpstream: true });
+      expect(git.pushBranch).toHaveBeenCalledWith('test-shop/staging', { setUpstream: true });
+      expect(git.checkout).toHaveBeenCalledTimes(2);
+      expect(git.checkout).toHaveBeenCalledWith('main');
     });
 
     test('handles branch creation failure gracefully', async () => {
       // Arrange
       const mockConfig = createMockShopConfig('test-shop');
-      const { execSync } = await import('child_process');
       const { select, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(select).mockResolvedValue('yes');
       vi.mocked(text).mockResolvedValue('token');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync).mockImplementation(() => {
-        throw new Error('Not a git repository');
+      vi.mocked(mockContext.gitOps.getCurrentBranch).mockResolvedValue({
+        success: false,
+        error: 'fatal: not a git repository'
       });
       vi.mocked(mockContext.credOps.saveCredentials).mockResolvedValue({
         success: true
@@ -177,12 +167,38 @@ describe('shop-setup', () => {
 
       // Act & Assert - should not throw
       await expect(setupShopResources(mockShopData, mockConfig, mockContext)).resolves.not.toThrow();
+      expect(mockContext.gitOps.createBranch).not.toHaveBeenCalled();
+    });
+
+    test('skips pushing branches that already exist', async () => {
+      // Arrange
+      const mockConfig = createMockShopConfig('test-shop');
+      const { select, text, isCancel } = await import('@clack/prompts');
+
+      vi.mocked(select).mockResolvedValue('yes');
+      vi.mocked(text).mockResolvedValue('token');
+      vi.mocked(isCancel).mockReturnValue(false);
+      vi.mocked(mockContext.gitOps.createBranch).mockImplementation(async (branch) =>
+        branch === 'test-shop/main'
+          ? { success: false, error: "fatal: a branch named 'test-shop/main' already exists" }
+          : { success: true });
+      vi.mocked(mockContext.credOps.saveCredentials).mockResolvedValue({
+        success: true
+      });
+
+      const { setupShopResources } = await import('../../lib/core/shop-setup.js');
+
+      // Act
+      await setupShopResources(mockShopData, mockConfig, mockContext);
+
+      // Assert
+      expect(mockContext.gitOps.pushBranch).toHaveBeenCalledTimes(1);
+      expect(mockContext.gitOps.pushBranch).toHaveBeenCalledWith('test-shop/staging', { setUpstream: true });
     });
 
     test('skips branch creation when user selects no', async () => {
       // Arrange
       const mockConfig = createMockShopConfig('test-shop');
-      const { execSync } = await import('child_process');
       const { select, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(select).mockResolvedValue('no');
@@ -198,13 +214,12 @@ describe('shop-setup', () => {
       await setupShopResources(mockShopData, mockConfig, mockContext);
 
       // Assert
-      expect(execSync).not.toHaveBeenCalled();
+      expect(mockContext.gitOps.createBranch).not.toHaveBeenCalled();
     });
 
     test('skips branch creation when selection is cancelled', async () => {
       // Arrange
       const mockConfig = createMockShopConfig('test-shop');
-      const { execSync } = await import('child_process');
       const { select, text, isCancel } = await import('@clack/prompts');
 
       vi.mocked(select).mockResolvedValue(Symbol('cancel'));
@@ -222,7 +237,7 @@ describe('shop-setup', () => {
       await setupShopResources(mockShopData, mockConfig, mockContext);
 
       // Assert
-      expect(execSync).not.toHaveBeenCalled();
+      expect(mockContext.gitOps.createBranch).not.toHaveBeenCalled();
     });
 
     test('prompts for production theme access password', async () => {
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for shop-status module
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { CLIContext } from '../../lib/core/types.js';
+import { createMockCredentials, createMockGitOperations, createMockShopConfig } from '../helpers.js';
+import { checkContentProtection, getShopStatusHint } from '../../lib/core/shop-status.js';
+
+describe('shop-status', () => {
+  let mockContext: CLIContext;
+
+  beforeEach(() => {
+    mockContext = {
+      deps: {
+        cwd: '/test/project',
+        shopsDir: '/test/project/shops',
+        credentialsDir: '/test/project/shops/credentials'
+      },
+      shopOps: {
+        loadConfig: vi.fn(async (shopId: string) => ({
+          success: true,
+          data: {
+            ...createMockShopConfig(shopId),
+            contentProtection: { enabled: true, mode: 'strict' as const, verbosity: 'verbose' as const }
+          }
+        })),
+        saveConfig: vi.fn(),
+        listShops: vi.fn(),
+        deleteShop: vi.fn()
+      },
+      credOps: {
+        loadCredentials: vi.fn(),
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn(async (shopId: string) => ({
+          success: true,
+          data: {
+            credentials: createMockCredentials(shopId),
+            sources: {
+              production: { kind: 'env' as const, name: 'MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN' },
+              staging: { kind: 'env' as const, name: 'MULTI_SHOP_SHOP_A_STAGING_TOKEN' }
+            }
+          }
+        }))
+      },
+      devOps: {
+        startDev: vi.fn()
+      },
+      gitOps: createMockGitOperations()
+    };
+  });
+
+  describe('getShopStatusHint', () => {
+    test('reports a ready shop with its protection mode', async () => {
+      expect(await getShopStatusHint(mockContext, 'shop-a')).toBe('✅ Ready · strict protection');
+    });
+
+    test('lists missing tokens and branches behind main', async () => {
+      // Arrange
+      vi.mocked(mockContext.credOps.resolveCredentials).mockResolvedValue({
+        success: true,
+        data: {
+          credentials: createMockCredentials('shop-a'),
+          sources: {
+            production: { kind: 'env', name: 'MULTI_SHOP_SHOP_A_PRODUCTION_TOKEN' },
+            staging: { kind: 'none', name: '' }
+          }
+        }
+      });
+      vi.mocked(mockContext.gitOps.revListCount).mockResolvedValue({ success: true, data: 3 });
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({ success: true, data: createMockShopConfig('shop-a') });
+
+      // Act
+      const hint = await getShopStatusHint(mockContext, 'shop-a');
+
+      // Assert
+      expect(hint).toBe('⚠️ Some tokens missing · ⚠️ Branches out of sync (3 commits behind) · unprotected');
+    });
+  });
+
+  describe('checkContentProtection', () => {
+    test('lists the content globs the shop is protected with', async () => {
+      // Arrange
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({
+        success: true,
+        data: createMockShopConfig('shop-a', {
+          contentProtection: {
+            enabled: true,
+            mode: 'warn',
+            verbosity: 'quiet',
+            include: ['sections/*.json'],
+            exclude: ['sections/footer-group.json']
+          }
+        })
+      });
+
+      // Act
+      const check = await checkContentProtection(mockContext, 'shop-a');
+
+      // Assert
+      expect(check.status).toBe('pass');
+      expect(check.details).toContain('Content files (shop config): sections/*.json');
+      expect(check.details).toContain('Excluded: sections/footer-group.json');
+    });
+  });
+});
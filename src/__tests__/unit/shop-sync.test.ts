@@ -4,10 +4,12 @@
 
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import type { CLIContext } from '../../lib/core/types.js';
+import { cleanupTempDir, createMockGitOperations, createMockShopConfig, createTempDir } from '../helpers.js';
 
 // Mock @clack/prompts
 vi.mock('@clack/prompts', () => ({
   select: vi.fn(),
+  multiselect: vi.fn(),
   text: vi.fn(),
   isCancel: vi.fn(),
   note: vi.fn(),
@@ -17,11 +19,52 @@ vi.mock('@clack/prompts', () => ({
   }))
 }));
 
-// Mock child_process
-vi.mock('child_process', () => ({
-  execSync: vi.fn()
+// Mock command-runner (gh is invoked through it)
+vi.mock('../../lib/core/command-runner.js', () => ({
+  runCommand: vi.fn(),
+  COMMAND_NOT_FOUND: 127
 }));
 
+const DEFAULT_BODY = 'Automated deployment of latest changes from main branch';
+
+interface GhBehaviour {
+  missing?: boolean;
+  failFor?: string[];
+  stderr?: string;
+  openPullRequests?: Record<string, { number: number; url: string }>;
+}
+
+const mockGh = async ({
+  missing = false,
+  failFor = [],
+  stderr = 'pull request create failed',
+  openPullRequests = {}
+}: GhBehaviour = {}) => {
+  const { runCommand } = await import('../../lib/core/command-runner.js');
+  vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+    if (missing) return { exitCode: 127, stdout: '', stderr: 'spawn gh ENOENT' };
+
+    const base = args[args.indexOf('--base') + 1] ?? '';
+
+    switch (args[1]) {
+      case 'list': {
+        const existing = openPullRequests[base];
+        return { exitCode: 0, stdout: JSON.stringify(existing ? [existing] : []), stderr: '' };
+      }
+      case 'create':
+        return failFor.some(shop => base.startsWith(`${shop}/`))
+          ? { exitCode: 1, stdout: '', stderr }
+          : { exitCode: 0, stdout: 'https://github.com/org/repo/pull/1\n', stderr: '' };
+      default:
+        return { exitCode: 0, stdout: '', stderr: '' };
+    }
+  });
+  return runCommand;
+};
+
+const prCreateArgs = (base: string, title: string, body = DEFAULT_BODY) =>
+  ['pr', 'create', '--base', base, '--head', 'main', '--title', title, '--body', body];
+
 describe('shop-sync', () => {
   let mockContext: CLIContext;
 
@@ -33,32 +76,34 @@ describe('shop-sync', () => {
         credentialsDir: '/test/project/shops/credentials'
       },
       shopOps: {
-        loadConfig: vi.fn().mockResolvedValue({
+        loadConfig: vi.fn().mockImplementation(async (shopId: string) => ({
           success: true,
           data: {
-            shopId: 'shop-a',
-            name: 'Shop A',
+            shopId,
+            name: `Shop ${shopId}`,
             shopify: {
               stores: {
-                production: { domain: 'shop-a.myshopify.com', branch: 'shop-a/main' },
-                staging: { domain: 'staging-shop-a.myshopify.com', branch: 'shop-a/staging' }
+                production: { domain: `${shopId}.myshopify.com`, branch: `${shopId}/main` },
+                staging: { domain: `staging-${shopId}.myshopify.com`, branch: `${shopId}/staging` }
               },
               authentication: { method: 'theme-access-app' }
             }
             // No contentProtection by default (protection disabled)
           }
-        }),
+        })),
         saveConfig: vi.fn(),
         listShops: vi.fn(),
         deleteShop: vi.fn()
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
-      }
+      },
+      gitOps: createMockGitOperations()
     };
 
     vi.clearAllMocks();
@@ -114,8 +159,8 @@ describe('shop-sync', () => {
         data: ['shop-a', 'shop-b']
       });
 
-      const { select, isCancel, note } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue(Symbol('cancel'));
+      const { multiselect, isCancel, note } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(Symbol('cancel'));
       vi.mocked(isCancel).mockReturnValue(true);
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
@@ -130,15 +175,15 @@ describe('shop-sync', () => {
       );
     });
 
-    test('displays shop selection with all shops option', async () => {
+    test('displays a shop multiselect with status hints', async () => {
       // Arrange
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
         success: true,
         data: ['shop-a', 'shop-b', 'shop-c']
       });
 
-      const { select, isCancel } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue(Symbol('cancel'));
+      const { multiselect, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(Symbol('cancel'));
       vi.mocked(isCancel).mockReturnValue(true);
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
@@ -147,15 +192,13 @@ describe('shop-sync', () => {
       await syncShops(mockContext);
 
       // Assert
-      expect(select).toHaveBeenCalledWith(
+      expect(multiselect).toHaveBeenCalledWith(
         expect.objectContaining({
           message: 'Select shops to sync:',
-          options: [
-            { value: 'all', label: 'All Shops', hint: 'Deploy to all 3 shops' },
-            { value: 'shop-a', label: 'shop-a', hint: 'Deploy to shop-a only' },
-            { value: 'shop-b', label: 'shop-b', hint: 'Deploy to shop-b only' },
-            { value: 'shop-c', label: 'shop-c', hint: 'Deploy to shop-c only' }
-          ]
+          options: ['shop-a', 'shop-b', 'shop-c'].map(shop =>
+            expect.objectContaining({ value: shop, label: shop, hint: expect.stringContaining('unprotected') })
+          ),
+          required: true
         })
       );
     });
@@ -167,8 +210,8 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { select, isCancel } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue(Symbol('cancel'));
+      const { multiselect, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(Symbol('cancel'));
       vi.mocked(isCancel).mockReturnValue(true);
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
@@ -188,8 +231,8 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { select, text, isCancel } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue('shop-a');
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
       vi.mocked(text).mockResolvedValue(Symbol('cancel'));
       vi.mocked(isCancel)
         .mockReturnValueOnce(false) // Shop selection
@@ -216,8 +259,8 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { select, text, isCancel } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue('shop-a');
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
       vi.mocked(text).mockResolvedValue(Symbol('cancel'));
       vi.mocked(isCancel)
         .mockReturnValueOnce(false)
@@ -240,15 +283,12 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select).mockResolvedValue('shop-a');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
       vi.mocked(text).mockResolvedValue('Deploy latest changes');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version 2.0.0')) // gh --version
-        .mockReturnValueOnce(Buffer.from('PR created')); // gh pr create
+      const runCommand = await mockGh();
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -257,8 +297,9 @@ describe('shop-sync', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(execSync).toHaveBeenCalledWith(
-        'gh pr create --base shop-a/staging --head main --title "Deploy latest changes" --body "Automated deployment of latest changes from main branch"',
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        prCreateArgs('shop-a/staging', 'Deploy latest changes'),
         expect.any(Object)
       );
     });
@@ -270,16 +311,12 @@ describe('shop-sync', () => {
         data: ['shop-a', 'shop-b']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select).mockResolvedValue('all');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a', 'shop-b']);
       vi.mocked(text).mockResolvedValue('Deploy latest changes');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version 2.0.0')) // gh --version
-        .mockReturnValueOnce(Buffer.from('PR created')) // shop-a
-        .mockReturnValueOnce(Buffer.from('PR created')); // shop-b
+      const runCommand = await mockGh();
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -288,16 +325,81 @@ describe('shop-sync', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(execSync).toHaveBeenCalledWith(
-        'gh pr create --base shop-a/staging --head main --title "Deploy latest changes" --body "Automated deployment of latest changes from main branch"',
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        prCreateArgs('shop-a/staging', 'Deploy latest changes'),
         expect.any(Object)
       );
-      expect(execSync).toHaveBeenCalledWith(
-        'gh pr create --base shop-b/staging --head main --title "Deploy latest changes" --body "Automated deployment of latest changes from main branch"',
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        prCreateArgs('shop-b/staging', 'Deploy latest changes'),
         expect.any(Object)
       );
     });
 
+    test('skips strict shops without OVERRIDE and syncs confirmed warn-mode shops', async () => {
+      // Arrange
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({ success: true, data: ['shop-a', 'shop-b'] });
+      vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) => ({
+        success: true,
+        data: createMockShopConfig(shopId, {
+          contentProtection: { enabled: true, mode: shopId === 'shop-a' ? 'strict' : 'warn', verbosity: 'quiet' }
+        })
+      }));
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [{ status: 'modified', path: 'config/settings_data.json' }]
+      });
+
+      const { multiselect, select, text, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a', 'shop-b']);
+      vi.mocked(text).mockResolvedValueOnce('Deploy latest changes').mockResolvedValueOnce('no');
+      vi.mocked(select).mockResolvedValue('yes');
+      vi.mocked(isCancel).mockReturnValue(false);
+      const runCommand = await mockGh();
+
+      const { syncShops } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      const result = await syncShops(mockContext);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(select).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('shop-b') }));
+      expect(runCommand).toHaveBeenCalledWith('gh', prCreateArgs('shop-b/staging', 'Deploy latest changes'), expect.any(Object));
+      expect(runCommand).not.toHaveBeenCalledWith('gh', prCreateArgs('shop-a/staging', 'Deploy latest changes'), expect.anything());
+    });
+
+    test('lists the settings keys a sync would change in the content warning', async () => {
+      // Arrange
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({ success: true, data: ['shop-a'] });
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [{ status: 'modified', path: 'config/settings_data.json' }]
+      });
+      vi.mocked(mockContext.gitOps.readFile).mockImplementation(async (ref: string) => ({
+        success: true,
+        data: JSON.stringify({ current: { colors_accent_1: ref === 'main' ? '#000000' : '#ff0000' } })
+      }));
+
+      const { multiselect, select, text, isCancel } = await import('@clack/prompts');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(text).mockResolvedValue('Deploy latest changes');
+      vi.mocked(select).mockResolvedValue('no');
+      vi.mocked(isCancel).mockReturnValue(false);
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const { syncShops } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      await syncShops(mockContext);
+
+      // Assert
+      expect(mockContext.gitOps.readFile).toHaveBeenCalledWith('origin/shop-a/staging', 'config/settings_data.json');
+      expect(log).toHaveBeenCalledWith('        ~ current.colors_accent_1: "#ff0000" → "#000000"');
+      log.mockRestore();
+    });
+
     test('displays success message when all PRs created', async () => {
       // Arrange
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
@@ -305,16 +407,12 @@ describe('shop-sync', () => {
         data: ['shop-a', 'shop-b']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel, note } = await import('@clack/prompts');
+      const { multiselect, text, isCancel, note } = await import('@clack/prompts');
 
-      vi.mocked(select).mockResolvedValue('all');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a', 'shop-b']);
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version'))
-        .mockReturnValueOnce(Buffer.from('PR created'))
-        .mockReturnValueOnce(Buffer.from('PR created'));
+      await mockGh();
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -335,40 +433,14 @@ describe('shop-sync', () => {
         data: ['shop-a', 'shop-b']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel, note } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel, note } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('all')
-        .mockResolvedValueOnce('no'); // Don't show error logs
+      vi.mocked(multiselect).mockResolvedValue(['shop-a', 'shop-b']);
+      vi.mocked(select).mockResolvedValueOnce('no'); // Don't show error logs
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-
-        // Mock git diff (content detection)
-        if (command.includes('git diff')) {
-          return Buffer.from(''); // No content files in diff
-        }
-
-        // Mock gh --version check
-        if (command.includes('gh --version')) {
-          return Buffer.from('gh version 2.0.0');
-        }
-
-        // Mock PR creation - fail for shop-b
-        if (command.includes('gh pr create')) {
-          if (command.includes('shop-b')) {
-            const error: any = new Error('Branch not found');
-            error.stderr = 'Branch shop-b/staging not found';
-            throw error;
-          }
-          return Buffer.from('https://github.com/repo/pull/123');
-        }
-
-        return Buffer.from('');
-      });
+      await mockGh({ failFor: ['shop-b'], stderr: 'Branch shop-b/staging not found' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -393,37 +465,14 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('shop-a')
-        .mockResolvedValueOnce('yes'); // Show error logs
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(select).mockResolvedValueOnce('yes'); // Show error logs
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-
-        // Mock git diff (content detection)
-        if (command.includes('git diff')) {
-          return Buffer.from(''); // No content files in diff
-        }
-
-        // Mock gh --version check
-        if (command.includes('gh --version')) {
-          return Buffer.from('gh version 2.0.0');
-        }
-
-        // Mock PR creation - fail
-        if (command.includes('gh pr create')) {
-          const error: any = new Error('PR creation failed');
-          error.stderr = 'Branch not found';
-          throw error;
-        }
-
-        return Buffer.from('');
-      });
+      await mockGh({ failFor: ['shop-a'], stderr: 'Branch not found' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -449,15 +498,12 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel, note } = await import('@clack/prompts');
+      const { multiselect, text, isCancel, note } = await import('@clack/prompts');
 
-      vi.mocked(select).mockResolvedValue('shop-a');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync).mockImplementation(() => {
-        throw new Error('gh: command not found');
-      });
+      await mockGh({ missing: true });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -467,7 +513,7 @@ describe('shop-sync', () => {
       // Assert
       expect(result.success).toBe(true);
       expect(note).toHaveBeenCalledWith(
-        'Install GitHub CLI to automate PR creation',
+        'Install GitHub CLI or configure pullRequests in shops/settings.json to automate PR creation',
         'Manual Setup Required'
       );
     });
@@ -479,37 +525,18 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('shop-a')
-        .mockResolvedValueOnce('yes'); // Show logs
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(select).mockResolvedValueOnce('yes'); // Show logs
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-
-        // Mock git diff (content detection)
-        if (command.includes('git diff')) {
-          return Buffer.from(''); // No content files in diff
-        }
-
-        // Mock gh --version check
-        if (command.includes('gh --version')) {
-          return Buffer.from('gh version 2.0.0');
-        }
-
-        // Mock PR creation - fail with detailed error
-        if (command.includes('gh pr create')) {
-          const error: any = new Error('PR creation failed');
-          error.stderr = 'pull request create failed: GraphQL: Branch not found';
-          throw error;
-        }
-
-        return Buffer.from('');
+      const runCommand = await mockGh({
+        failFor: ['shop-a'],
+        stderr: 'pull request create failed: GraphQL: Branch not found'
       });
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -517,10 +544,8 @@ describe('shop-sync', () => {
       await syncShops(mockContext);
 
       // Assert - error should be captured and available for display
-      expect(execSync).toHaveBeenCalledWith(
-        expect.stringContaining('gh pr create'),
-        expect.any(Object)
-      );
+      expect(runCommand).toHaveBeenCalledWith('gh', expect.arrayContaining(['pr', 'create']), expect.any(Object));
+      expect(log).toHaveBeenCalledWith('  Error: pull request create failed: GraphQL: Branch not found');
     });
 
     test('handles all PRs failing', async () => {
@@ -530,35 +555,14 @@ describe('shop-sync', () => {
         data: ['shop-a', 'shop-b']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel, note } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel, note } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('all')
-        .mockResolvedValueOnce('no'); // Don't show logs
+      vi.mocked(multiselect).mockResolvedValue(['shop-a', 'shop-b']);
+      vi.mocked(select).mockResolvedValueOnce('no'); // Don't show logs
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-
-        // Mock git diff (content detection)
-        if (command.includes('git diff')) {
-          return Buffer.from(''); // No content files in diff
-        }
-
-        // Mock gh --version check
-        if (command.includes('gh --version')) {
-          return Buffer.from('gh version 2.0.0');
-        }
-
-        // Mock PR creation - fail for all shops
-        if (command.includes('gh pr create')) {
-          throw new Error('Branch not found');
-        }
-
-        return Buffer.from('');
-      });
+      await mockGh({ failFor: ['shop-a', 'shop-b'], stderr: 'Branch not found' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -579,15 +583,12 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select).mockResolvedValue('shop-a');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
       vi.mocked(text).mockResolvedValue('Test PR Title');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version'))
-        .mockReturnValueOnce(Buffer.from('PR created'));
+      const runCommand = await mockGh();
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -595,39 +596,33 @@ describe('shop-sync', () => {
       await syncShops(mockContext);
 
       // Assert
-      expect(execSync).toHaveBeenCalledWith('gh --version', expect.any(Object));
-      expect(execSync).toHaveBeenCalledWith(
-        'gh pr create --base shop-a/staging --head main --title "Test PR Title" --body "Automated deployment of latest changes from main branch"',
-        expect.objectContaining({
-          stdio: ['ignore', 'pipe', 'pipe'],
-          encoding: 'utf8'
-        })
+      expect(runCommand).toHaveBeenCalledWith('gh', ['--version'], { cwd: '/test/project' });
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        ['pr', 'list', '--head', 'main', '--base', 'shop-a/staging', '--state', 'open', '--json', 'number,url', '--limit', '1'],
+        { cwd: '/test/project' }
+      );
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        prCreateArgs('shop-a/staging', 'Test PR Title'),
+        { cwd: '/test/project' }
       );
     });
 
-    test('handles execSync with proper error handling', async () => {
+    test('handles gh failures gracefully', async () => {
       // Arrange
       vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
         success: true,
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('shop-a')
-        .mockResolvedValueOnce('no');
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(select).mockResolvedValueOnce('no');
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version'))
-        .mockImplementationOnce(() => {
-          const error: any = new Error('Command failed');
-          error.stdout = 'Some stdout';
-          error.stderr = 'Some stderr';
-          throw error;
-        });
+      await mockGh({ failFor: ['shop-a'], stderr: 'Some stderr' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -645,35 +640,14 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('shop-a')
-        .mockResolvedValueOnce('no'); // Don't show logs
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(select).mockResolvedValueOnce('no'); // Don't show logs
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel).mockReturnValue(false);
 
-      vi.mocked(execSync).mockImplementation((cmd) => {
-        const command = typeof cmd === 'string' ? cmd : '';
-
-        // Mock git diff (content detection)
-        if (command.includes('git diff')) {
-          return Buffer.from(''); // No content files in diff
-        }
-
-        // Mock gh --version check
-        if (command.includes('gh --version')) {
-          return Buffer.from('gh version 2.0.0');
-        }
-
-        // Mock PR creation - fail
-        if (command.includes('gh pr create')) {
-          throw new Error('Branch not found');
-        }
-
-        return Buffer.from('');
-      });
+      await mockGh({ failFor: ['shop-a'], stderr: 'Branch not found' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -695,22 +669,16 @@ describe('shop-sync', () => {
         data: ['shop-a']
       });
 
-      const { execSync } = await import('child_process');
-      const { select, text, isCancel } = await import('@clack/prompts');
+      const { select, multiselect, text, isCancel } = await import('@clack/prompts');
 
-      vi.mocked(select)
-        .mockResolvedValueOnce('shop-a')
-        .mockResolvedValueOnce(Symbol('cancel')); // Cancel log selection
+      vi.mocked(multiselect).mockResolvedValue(['shop-a']);
+      vi.mocked(select).mockResolvedValueOnce(Symbol('cancel')); // Cancel log selection
       vi.mocked(text).mockResolvedValue('Deploy');
       vi.mocked(isCancel)
         .mockReturnValueOnce(false) // Shop selection
         .mockReturnValueOnce(false) // PR title
         .mockReturnValueOnce(true); // Log selection
-      vi.mocked(execSync)
-        .mockReturnValueOnce(Buffer.from('gh version'))
-        .mockImplementationOnce(() => {
-          throw new Error('Branch not found');
-        });
+      await mockGh({ failFor: ['shop-a'], stderr: 'Branch not found' });
 
       const { syncShops } = await import('../../lib/core/shop-sync.js');
 
@@ -721,4 +689,329 @@ describe('shop-sync', () => {
       expect(isCancel).toHaveBeenCalled();
     });
   });
+  describe('runShopSync', () => {
+    beforeEach(() => {
+      vi.mocked(mockContext.shopOps.listShops).mockResolvedValue({
+        success: true,
+        data: ['shop-a', 'shop-b']
+      });
+    });
+
+    test('requires either --shops or --all', async () => {
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Specify shops with --shops <ids> or --all');
+    });
+
+    test('rejects combining --shops and --all', async () => {
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', all: true, shops: ['shop-a'] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Use either --all or --shops, not both');
+    });
+
+    test('rejects unknown shop IDs', async () => {
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a', 'shop-x'] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown shop: shop-x');
+    });
+
+    test('creates PRs for all shops without prompting', async () => {
+      await mockGh();
+      const { select, text } = await import('@clack/prompts');
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', all: true });
+
+      expect(select).not.toHaveBeenCalled();
+      expect(text).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.data?.succeeded).toBe(2);
+      expect(result.data?.failed).toBe(0);
+      expect(result.data?.results[0]).toEqual({
+        shop: 'shop-a',
+        base: 'shop-a/staging',
+        success: true,
+        url: 'https://github.com/org/repo/pull/1'
+      });
+    });
+
+    test('uses custom body and base suffix', async () => {
+      const runCommand = await mockGh();
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      await runShopSync(mockContext, {
+        title: 'Release',
+        body: 'Release notes',
+        baseSuffix: 'main',
+        shops: ['shop-b']
+      });
+
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        prCreateArgs('shop-b/main', 'Release', 'Release notes'),
+        expect.any(Object)
+      );
+    });
+
+    test('targets the configured branch of a named environment', async () => {
+      // Arrange - shop-a has a qa environment, shop-b does not
+      const runCommand = await mockGh();
+      vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) => {
+        const config = createMockShopConfig(shopId);
+        if (shopId !== 'shop-a') return { success: true, data: config };
+        return {
+          success: true,
+          data: {
+            ...config,
+            shopify: {
+              ...config.shopify,
+              stores: { ...config.shopify.stores, qa: { domain: 'qa-shop-a.myshopify.com', branch: 'shop-a/quality' } }
+            }
+          }
+        };
+      });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      const result = await runShopSync(mockContext, { title: 'Deploy', all: true, environment: 'qa' });
+
+      // Assert
+      expect(runCommand).toHaveBeenCalledWith('gh', prCreateArgs('shop-a/quality', 'Deploy'), expect.any(Object));
+      expect(result.data?.results[1]).toEqual({
+        shop: 'shop-b',
+        base: 'shop-b/qa',
+        success: false,
+        error: 'shop-b has no qa environment'
+      });
+    });
+
+    test('expands tag selectors from shop metadata', async () => {
+      // Arrange - only shop-b is tagged region:eu
+      await mockGh();
+      vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) => ({
+        success: true,
+        data: { ...createMockShopConfig(shopId), metadata: { tags: shopId === 'shop-b' ? ['region:eu'] : [] } }
+      }));
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['tag:region:eu'] });
+
+      // Assert
+      expect(result.data?.results.map(r => r.shop)).toEqual(['shop-b']);
+    });
+
+    test('reports per-shop failures', async () => {
+      await mockGh({ failFor: ['shop-b'] });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', all: true });
+
+      expect(result.data?.succeeded).toBe(1);
+      expect(result.data?.failed).toBe(1);
+      expect(result.data?.results[1]).toEqual({
+        shop: 'shop-b',
+        base: 'shop-b/staging',
+        success: false,
+        error: 'pull request create failed'
+      });
+    });
+
+    test('updates the body of an already open PR instead of creating another', async () => {
+      const runCommand = await mockGh({
+        openPullRequests: { 'shop-a/staging': { number: 42, url: 'https://github.com/org/repo/pull/42' } }
+      });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'] });
+
+      expect(result.data?.results[0]).toEqual({
+        shop: 'shop-a',
+        base: 'shop-a/staging',
+        success: true,
+        url: 'https://github.com/org/repo/pull/42',
+        updated: true
+      });
+      expect(runCommand).toHaveBeenCalledWith('gh', ['pr', 'edit', '42', '--body', DEFAULT_BODY], expect.any(Object));
+      expect(runCommand).not.toHaveBeenCalledWith('gh', expect.arrayContaining(['create']), expect.anything());
+    });
+
+    test('reports every shop as failed when GitHub CLI is missing', async () => {
+      await mockGh({ missing: true });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'] });
+
+      expect(result.data?.failed).toBe(1);
+      expect(result.data?.results[0]?.error).toBe('GitHub CLI not available');
+    });
+
+    test('blocks strict-mode content changes without creating PRs', async () => {
+      const runCommand = await mockGh();
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [
+          { status: 'modified', path: 'config/settings_data.json' },
+          { status: 'modified', path: 'sections/header.liquid' }
+        ]
+      });
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({
+        success: true,
+        data: {
+          shopId: 'shop-a',
+          name: 'Shop A',
+          shopify: {
+            stores: {
+              production: { domain: 'shop-a.myshopify.com', branch: 'shop-a/main' },
+              staging: { domain: 'staging-shop-a.myshopify.com', branch: 'shop-a/staging' }
+            },
+            authentication: { method: 'theme-access-app' }
+          },
+          contentProtection: { enabled: true, mode: 'strict', verbosity: 'verbose' }
+        }
+      });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'], allowContentChanges: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.contentProtection).toEqual({
+        blocked: true,
+        contentFiles: ['config/settings_data.json'],
+        shops: [
+          {
+            shop: 'shop-a',
+            targetBranch: 'shop-a/staging',
+            syncType: 'cross-shop',
+            contentFiles: ['config/settings_data.json'],
+            protectionMode: 'strict',
+            blocked: true
+          }
+        ]
+      });
+      expect(result.data?.results).toEqual([]);
+      expect(mockContext.gitOps.diffNameStatus).toHaveBeenCalledWith('main', 'origin/shop-a/staging');
+      expect(runCommand).not.toHaveBeenCalledWith('gh', expect.arrayContaining(['create']), expect.anything());
+    });
+
+    test('checks each shop against its own branch and blocks strict shops individually', async () => {
+      // Arrange - only shop-a's staging branch differs in content
+      const runCommand = await mockGh();
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockImplementation(async (_from: string, to: string) => ({
+        success: true,
+        data: to === 'origin/shop-a/staging' ? [{ status: 'modified' as const, path: 'templates/index.json' }] : []
+      }));
+      vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) => ({
+        success: true,
+        data: createMockShopConfig(shopId, {
+          contentProtection: { enabled: true, mode: 'strict', verbosity: 'verbose' }
+        })
+      }));
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a', 'shop-b'] });
+
+      // Assert
+      expect(result.data?.contentProtection.blocked).toBe(true);
+      expect(result.data?.contentProtection.shops.map(check => [check.shop, check.blocked])).toEqual([
+        ['shop-a', true],
+        ['shop-b', false]
+      ]);
+      expect(result.data?.results.map(r => r.shop)).toEqual(['shop-b']);
+      expect(mockContext.gitOps.diffNameStatus).toHaveBeenCalledWith('main', 'origin/shop-b/staging');
+      expect(runCommand).not.toHaveBeenCalledWith('gh', prCreateArgs('shop-a/staging', 'Deploy'), expect.anything());
+    });
+
+    test('smart merges content for shops protection would block', async () => {
+      // Arrange - shop-a's template gained a section on main
+      const tempDir = createTempDir();
+      const runCommand = await mockGh();
+      mockContext = { ...mockContext, deps: { ...mockContext.deps, cwd: tempDir } };
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockImplementation(async (from: string, to: string) => ({
+        success: true,
+        data: [from, to].includes('origin/shop-a/staging') ? [{ status: 'modified' as const, path: 'templates/index.json' }] : []
+      }));
+      vi.mocked(mockContext.gitOps.readFile).mockImplementation(async (ref: string) => ({
+        success: true,
+        data: JSON.stringify({ sections: ref === 'origin/main' ? { hero: {}, reviews: {} } : { hero: {} }, order: ['hero'] })
+      }));
+      vi.mocked(mockContext.shopOps.loadConfig).mockImplementation(async (shopId: string) => ({
+        success: true,
+        data: createMockShopConfig(shopId, {
+          contentProtection: { enabled: true, mode: 'strict', verbosity: 'verbose' }
+        })
+      }));
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      // Act
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a', 'shop-b'], smartMerge: true });
+
+      // Assert
+      expect(result.data?.contentProtection.blocked).toBe(false);
+      expect(result.data?.contentProtection.shops[0]).toEqual(expect.objectContaining({ shop: 'shop-a', smartMerge: true }));
+      expect(result.data?.results[0]?.contentMerge?.files[0]?.added).toEqual(['sections.reviews']);
+      expect(runCommand).toHaveBeenCalledWith(
+        'gh',
+        expect.arrayContaining(['--base', 'shop-a/staging', '--head', 'content-merge/shop-a/staging']),
+        expect.any(Object)
+      );
+      expect(runCommand).toHaveBeenCalledWith('gh', prCreateArgs('shop-b/staging', 'Deploy'), expect.any(Object));
+      cleanupTempDir(tempDir);
+    });
+
+    test('uses the content globs from the shop config', async () => {
+      await mockGh();
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [
+          { status: 'modified', path: 'sections/header-group.json' },
+          { status: 'modified', path: 'templates/index.json' },
+          { status: 'modified', path: 'templates/gift_card.json' }
+        ]
+      });
+      vi.mocked(mockContext.shopOps.loadConfig).mockResolvedValue({
+        success: true,
+        data: createMockShopConfig('shop-a', {
+          contentProtection: {
+            enabled: true,
+            mode: 'strict',
+            verbosity: 'verbose',
+            include: ['sections/*.json', 'templates/*.json'],
+            exclude: ['templates/gift_card.json']
+          }
+        })
+      });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const result = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'] });
+
+      expect(result.data?.contentProtection.contentFiles).toEqual(['sections/header-group.json', 'templates/index.json']);
+    });
+
+    test('allows unprotected content changes only when requested', async () => {
+      await mockGh();
+      vi.mocked(mockContext.gitOps.diffNameStatus).mockResolvedValue({
+        success: true,
+        data: [{ status: 'modified', path: 'templates/index.json' }]
+      });
+      const { runShopSync } = await import('../../lib/core/shop-sync.js');
+
+      const blocked = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'] });
+      const allowed = await runShopSync(mockContext, { title: 'Deploy', shops: ['shop-a'], allowContentChanges: true });
+
+      expect(blocked.data?.contentProtection.blocked).toBe(true);
+      expect(allowed.data?.contentProtection.blocked).toBe(false);
+      expect(allowed.data?.succeeded).toBe(1);
+    });
+  });
 });
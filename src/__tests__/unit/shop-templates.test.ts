@@ -0,0 +1,63 @@
+/**
+ * Unit tests for shop-templates module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { createTempDir, cleanupTempDir, setupTestProject } from '../helpers.js';
+import { listShopTemplates, loadShopTemplate, validateShopTemplate } from '../../lib/core/shop-templates.js';
+import type { Dependencies } from '../../lib/core/types.js';
+
+describe('shop-templates', () => {
+  let tempDir: string;
+  let deps: Dependencies;
+
+  const writeTemplate = (name: string, content: unknown): void => {
+    fs.mkdirSync(path.join(deps.shopsDir, 'templates'), { recursive: true });
+    fs.writeFileSync(path.join(deps.shopsDir, 'templates', `${name}.template.json`), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { shopsDir, credentialsDir } = setupTestProject(tempDir);
+    deps = { cwd: tempDir, shopsDir, credentialsDir };
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  test('lists templates by name', async () => {
+    expect((await listShopTemplates(deps)).data).toEqual([]);
+
+    writeTemplate('regional-store', {});
+    writeTemplate('outlet', {});
+
+    expect((await listShopTemplates(deps)).data).toEqual(['outlet', 'regional-store']);
+  });
+
+  test('loads and validates a template', async () => {
+    writeTemplate('regional-store', { environments: ['production', 'qa'], authMethod: 'manual-tokens' });
+    writeTemplate('broken', { environments: ['staging'] });
+
+    expect((await loadShopTemplate(deps, 'regional-store')).data?.environments).toEqual(['production', 'qa']);
+    expect((await loadShopTemplate(deps, 'broken')).error).toBe('Template broken: environments must include production');
+    expect((await loadShopTemplate(deps, 'missing')).error).toBe('Shop template not found: missing');
+    expect((await loadShopTemplate(deps, '../secrets')).error).toBe('Invalid template name: ../secrets');
+  });
+
+  test('rejects invalid fields', () => {
+    expect(validateShopTemplate([]).error).toBe('Template must be a JSON object');
+    expect(validateShopTemplate({ contentProtection: { mode: 'loose' } }).error).toBe(
+      'contentProtection.mode must be one of strict, warn, off'
+    );
+    expect(validateShopTemplate({ authMethod: 'password' }).error).toBe(
+      'authMethod must be one of theme-access-app, manual-tokens'
+    );
+    expect(validateShopTemplate({ branchPattern: 'stores/{environment}' }).error).toBe(
+      'branchPattern: Branch pattern must contain {shop} and {environment} once each'
+    );
+    expect(validateShopTemplate({ tags: ['region:eu', 1] }).error).toBe('tags must be a list of strings');
+  });
+});
@@ -31,7 +31,8 @@ describe('theme-linking', () => {
       },
       credOps: {
         loadCredentials: vi.fn(),
-        saveCredentials: vi.fn()
+        saveCredentials: vi.fn(),
+        resolveCredentials: vi.fn()
       },
       devOps: {
         startDev: vi.fn()
@@ -105,9 +106,9 @@ describe('theme-linking', () => {
         expect.objectContaining({
           message: 'Select shop to link themes:',
           options: [
-            { value: 'shop-a', label: 'shop-a', hint: 'Set up theme linking for shop-a' },
-            { value: 'shop-b', label: 'shop-b', hint: 'Set up theme linking for shop-b' },
-            { value: 'shop-c', label: 'shop-c', hint: 'Set up theme linking for shop-c' }
+            expect.objectContaining({ value: 'shop-a', label: 'shop-a', hint: expect.any(String) }),
+            expect.objectContaining({ value: 'shop-b', label: 'shop-b', hint: expect.any(String) }),
+            expect.objectContaining({ value: 'shop-c', label: 'shop-c', hint: expect.any(String) })
           ]
         })
       );
@@ -526,7 +527,10 @@ describe('theme-linking', () => {
       });
 
       const { select, isCancel } = await import('@clack/prompts');
-      vi.mocked(select).mockResolvedValue('shop-a');
+      vi.mocked(select).mockImplementation(async () => {
+        loadOrder.length = 0; // status hints read the config before the picker opens
+        return 'shop-a';
+      });
       vi.mocked(isCancel).mockReturnValue(false);
 
       const { linkThemes } = await import('../../lib/core/theme-linking.js');
@@ -570,7 +574,7 @@ describe('theme-linking', () => {
       expect(select).toHaveBeenCalledWith(
         expect.objectContaining({
           options: [
-            { value: 'only-shop', label: 'only-shop', hint: 'Set up theme linking for only-shop' }
+            expect.objectContaining({ value: 'only-shop', label: 'only-shop', hint: expect.any(String) })
           ]
         })
       );
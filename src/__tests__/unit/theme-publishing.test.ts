@@ -0,0 +1,69 @@
+/**
+ * Unit tests for theme-publishing module
+ * Requests go to a local server standing in for the Shopify Admin API
+ */
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { startMockApiServer, type MockApiServer } from '../helpers.js';
+import { getLiveTheme, publishTheme, themeGid } from '../../lib/core/theme-publishing.js';
+
+describe('theme-publishing', () => {
+  let server: MockApiServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const respondWith = async (status: number, body: unknown): Promise<MockApiServer> => {
+    server = await startMockApiServer(() => ({ status, body }));
+    return server;
+  };
+
+  test('reads the live theme', async () => {
+    const api = await respondWith(200, { data: { themes: { nodes: [{ id: 'gid://shopify/OnlineStoreTheme/1', name: 'Dawn' }] } } });
+
+    const result = await getLiveTheme('shop-a.myshopify.com', 'shpat_token', { adminUrl: api.url });
+
+    expect(result.data).toEqual({ id: 'gid://shopify/OnlineStoreTheme/1', name: 'Dawn' });
+    expect(api.requests[0]?.body).toEqual({ query: expect.stringContaining('roles: [MAIN]') });
+  });
+
+  test('publishes a theme by numeric ID', async () => {
+    const api = await respondWith(200, {
+      data: { themePublish: { theme: { id: 'gid://shopify/OnlineStoreTheme/2', name: 'Promo' }, userErrors: [] } }
+    });
+
+    const result = await publishTheme('shop-a.myshopify.com', 'shpat_token', '2', { adminUrl: api.url });
+
+    expect(result.success).toBe(true);
+    expect(api.requests[0]?.body).toMatchObject({ variables: { id: 'gid://shopify/OnlineStoreTheme/2' } });
+  });
+
+  test('publishes with a Theme Access password through the proxy', async () => {
+    const api = await respondWith(200, {
+      data: { themePublish: { theme: { id: 'gid://shopify/OnlineStoreTheme/2', name: 'Promo' }, userErrors: [] } }
+    });
+
+    const result = await publishTheme('shop-a.myshopify.com', 'shptka_token', '2', { themeAccessUrl: `${api.url}/cli` });
+
+    expect(result.success).toBe(true);
+    expect(api.requests[0]?.url).toMatch(/^\/cli\/admin\/api\//);
+    expect(api.requests[0]?.headers['x-shopify-shop']).toBe('shop-a.myshopify.com');
+  });
+
+  test('reports user errors and rejected tokens', async () => {
+    const api = await respondWith(200, { data: { themePublish: { theme: null, userErrors: [{ message: 'Theme not found' }] } } });
+
+    const failed = await publishTheme('shop-a.myshopify.com', 'shpat_token', '3', { adminUrl: api.url });
+    expect(failed.error).toBe('Publishing theme 3 on shop-a.myshopify.com failed: Theme not found');
+
+    await api.close();
+    const rejected = await respondWith(401, { errors: 'Invalid API key or access token' });
+    expect((await getLiveTheme('shop-a.myshopify.com', 'shpat_old', { adminUrl: rejected.url })).error).toContain('rejected');
+  });
+
+  test('leaves GraphQL IDs unchanged', () => {
+    expect(themeGid('gid://shopify/OnlineStoreTheme/4')).toBe('gid://shopify/OnlineStoreTheme/4');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for theme-token-verification module
+ * Requests go to a local server standing in for the Shopify Admin API
+ */
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { startMockApiServer, type MockApiServer } from '../helpers.js';
+import {
+  verifyThemeToken,
+  adminGraphqlEndpoint,
+  SHOPIFY_ADMIN_API_VERSION
+} from '../../lib/core/theme-token-verification.js';
+
+describe('theme-token-verification', () => {
+  let server: MockApiServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const respondWith = async (status: number, body: unknown): Promise<MockApiServer> => {
+    server = await startMockApiServer(() => ({ status, body }));
+    return server;
+  };
+
+  test('accepts a token that can list themes', async () => {
+    // Arrange
+    const api = await respondWith(200, {
+      data: { themes: { nodes: [{ id: '1', name: 'Live', role: 'MAIN' }, { id: '2', name: 'Draft', role: 'UNPUBLISHED' }] } }
+    });
+
+    // Act
+    const result = await verifyThemeToken('production', 'shop-a.myshopify.com', 'shpat_good', { adminUrl: api.url });
+
+    // Assert
+    expect(result).toEqual({
+      environment: 'production',
+      domain: 'shop-a.myshopify.com',
+      status: 'valid',
+      message: 'Token accepted (2 themes visible, including the live theme)'
+    });
+    expect(api.requests[0]?.url).toBe(`/admin/api/${SHOPIFY_ADMIN_API_VERSION}/graphql.json`);
+    expect(api.requests[0]?.method).toBe('POST');
+    expect(api.requests[0]?.headers['x-shopify-access-token']).toBe('shpat_good');
+    expect(api.requests[0]?.body).toEqual({ query: expect.stringContaining('themes') });
+  });
+
+  test('sends Theme Access passwords through the proxy with the store in a header', async () => {
+    // Arrange
+    const api = await respondWith(200, { data: { themes: { nodes: [{ id: '1', name: 'Live', role: 'MAIN' }] } } });
+
+    // Act
+    const result = await verifyThemeToken('production', 'shop-a.myshopify.com', 'shptka_good', {
+      adminUrl: api.url,
+      themeAccessUrl: `${api.url}/cli`
+    });
+
+    // Assert
+    expect(result.status).toBe('valid');
+    expect(api.requests[0]?.url).toBe(`/cli/admin/api/${SHOPIFY_ADMIN_API_VERSION}/graphql.json`);
+    expect(api.requests[0]?.headers['x-shopify-shop']).toBe('shop-a.myshopify.com');
+    expect(api.requests[0]?.headers['x-shopify-access-token']).toBe('shptka_good');
+  });
+
+  test('only routes shptka_ tokens to the Theme Access proxy by default', () => {
+    expect(adminGraphqlEndpoint('shop-a.myshopify.com', 'shptka_abc').url)
+      .toBe(`https://theme-kit-access.shopifyapps.com/cli/admin/api/${SHOPIFY_ADMIN_API_VERSION}/graphql.json`);
+    expect(adminGraphqlEndpoint('shop-a.myshopify.com', 'shpat_abc')).toEqual({
+      url: `https://shop-a.myshopify.com/admin/api/${SHOPIFY_ADMIN_API_VERSION}/graphql.json`,
+      headers: { 'X-Shopify-Access-Token': 'shpat_abc' }
+    });
+  });
+
+  test('reports revoked or wrong-store tokens as expired', async () => {
+    const api = await respondWith(401, { errors: '[API] Invalid API key or access token' });
+
+    const result = await verifyThemeToken('staging', 'shop-a.myshopify.com', 'shpat_old', { adminUrl: api.url });
+
+    expect(result.status).toBe('expired');
+  });
+
+  test('reports a forbidden response as insufficient scope', async () => {
+    const api = await respondWith(403, { errors: 'This action requires merchant approval for read_themes scope.' });
+
+    const result = await verifyThemeToken('staging', 'shop-a.myshopify.com', 'shpat_narrow', { adminUrl: api.url });
+
+    expect(result.status).toBe('insufficient-scope');
+    expect(result.message).toContain('read_themes');
+  });
+
+  test('reports GraphQL access denied errors as insufficient scope', async () => {
+    const api = await respondWith(200, {
+      data: { themes: null },
+      errors: [{ message: 'Access denied for themes field.', extensions: { code: 'ACCESS_DENIED' } }]
+    });
+
+    const result = await verifyThemeToken('production', 'shop-a.myshopify.com', 'shpat_narrow', { adminUrl: api.url });
+
+    expect(result).toMatchObject({
+      status: 'insufficient-scope',
+      message: 'Token lacks the read_themes scope: Access denied for themes field.'
+    });
+  });
+
+  test('reports unknown stores and unreachable hosts as errors', async () => {
+    const api = await respondWith(404, {});
+    const notFound = await verifyThemeToken('production', 'typo.myshopify.com', 'shpat_x', { adminUrl: api.url });
+    await api.close();
+    server = undefined;
+
+    const unreachable = await verifyThemeToken('production', 'shop-a.myshopify.com', 'shpat_x', { adminUrl: api.url });
+
+    expect(notFound).toMatchObject({ status: 'error', message: 'Store not found at typo.myshopify.com' });
+    expect(unreachable.status).toBe('error');
+    expect(unreachable.message).toContain('failed');
+  });
+});
@@ -136,6 +136,78 @@ describe('Validation Functions', () => {
       expect(result.error).toContain('Production');
     });
 
+    test('should accept additional named environments', async () => {
+      const config: ShopConfig = {
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: {
+            production: { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' },
+            qa: { domain: 'qa-test-shop.myshopify.com', branch: 'test-shop/qa' },
+            'holiday-preview': { domain: 'test-shop.myshopify.com', branch: 'test-shop/holiday-preview', themeId: '123456' }
+          },
+          authentication: { method: 'theme-access-app' }
+        }
+      };
+
+      const result = await validateShopConfig(config, 'test-shop');
+      expect(result.success).toBe(true);
+    });
+
+    test('should reject configuration without a production environment', async () => {
+      const config: ShopConfig = {
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: {
+            staging: { domain: 'staging-test-shop.myshopify.com', branch: 'test-shop/staging' }
+          },
+          authentication: { method: 'theme-access-app' }
+        }
+      };
+
+      const result = await validateShopConfig(config, 'test-shop');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('A production environment is required');
+    });
+
+    test('should reject invalid environment names and per-environment errors', async () => {
+      const withStores = (stores: ShopConfig['shopify']['stores']): ShopConfig => ({
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: { stores, authentication: { method: 'theme-access-app' } }
+      });
+      const production = { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' };
+
+      const badName = await validateShopConfig(withStores({ production, 'Holiday Preview': production }), 'test-shop');
+      const badDomain = await validateShopConfig(withStores({ production, 'holiday-preview': { domain: 'holiday.com', branch: 'test-shop/holiday' } }), 'test-shop');
+      const noBranch = await validateShopConfig(withStores({ production, qa: { domain: 'qa.myshopify.com', branch: '' } }), 'test-shop');
+
+      expect(badName.error).toBe('Environment names must be lowercase alphanumeric with hyphens: Holiday Preview');
+      expect(badDomain.error).toContain('Holiday Preview Domain');
+      expect(noBranch.error).toBe('Qa: Branch name is required');
+    });
+
+    test('should reject invalid content protection globs', async () => {
+      const withGlobs = (include: unknown): ShopConfig => ({
+        shopId: 'test-shop',
+        name: 'Test Shop',
+        shopify: {
+          stores: { production: { domain: 'test-shop.myshopify.com', branch: 'test-shop/main' } },
+          authentication: { method: 'theme-access-app' }
+        },
+        contentProtection: { enabled: true, mode: 'strict', verbosity: 'verbose', include: include as string[] }
+      });
+
+      expect((await validateShopConfig(withGlobs(['sections/*.json', 'templates/**/*.json']), 'test-shop')).success).toBe(true);
+      expect((await validateShopConfig(withGlobs('sections/*.json'), 'test-shop')).error).toBe(
+        'contentProtection.include must be a list of globs'
+      );
+      expect((await validateShopConfig(withGlobs(['../settings_data.json']), 'test-shop')).error).toBe(
+        'contentProtection.include must be theme-relative path globs using *, ** and ?: ../settings_data.json'
+      );
+    });
+
     test('should reject non-object input', async () => {
       const result = await validateShopConfig("invalid", 'test-shop');
       expect(result.success).toBe(false);
@@ -20,6 +20,24 @@ const VERSION = packageJson.version;
 
 const program = new Command();
 
+/** Repeatable option values */
+const collect = (value: string, previous: string[]): string[] => [...previous, value];
+
+/** --domain <environment>=<domain> values by environment; exits on a malformed entry */
+const parseDomainOptions = (entries: string[], endOperation: (result: string, meta?: Record<string, unknown>) => void): Record<string, string> => {
+  const domains: Record<string, string> = {};
+  for (const entry of entries) {
+    const [environment = '', domain = ''] = entry.split('=');
+    if (environment === '' || domain === '') {
+      console.error(`Invalid --domain ${entry}; expected <environment>=<domain>`);
+      endOperation('error', { error: 'Invalid --domain' });
+      process.exit(1);
+    }
+    domains[environment] = domain;
+  }
+  return domains;
+};
+
 program
   .name("multi-shop")
   .description("CLI tool for contextual development and automated shop management for multi-shop Shopify themes")
@@ -64,7 +82,7 @@ program
   });
 
 // Shop management UI
-program
+const shopCommand = program
   .command("shop")
   .description("Launch interactive shop management")
   .action(async () => {
@@ -82,6 +100,131 @@ program
     }
   });
 
+shopCommand
+  .command("create")
+  .description("Create a shop without prompts, optionally from a template in shops/templates")
+  .requiredOption("--id <shopId>", "Shop ID (lowercase, hyphens only)")
+  .option("--name <name>", "Display name (default: the shop ID)")
+  .option("--template <name>", "Template from shops/templates/<name>.template.json")
+  .option("--domain <environment=domain>", "Domain for each environment of the template (repeatable)", collect, [] as string[])
+  .option("--auth <method>", "theme-access-app or manual-tokens (default: the template's, else theme-access-app)")
+  .action(async (options) => {
+    const endOperation = logger.startOperation('shop_create_command', options);
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { createShop } = await import("../lib/core/shop-creation.js");
+      const { listEnvironments } = await import("../lib/core/environments.js");
+
+      if (options.auth !== undefined && !['theme-access-app', 'manual-tokens'].includes(options.auth)) {
+        console.error(`Invalid --auth ${options.auth}; expected theme-access-app or manual-tokens`);
+        endOperation('error', { error: 'Invalid --auth' });
+        process.exit(1);
+      }
+
+      const result = await createShop(createMultiShopCLI(), {
+        shopId: options.id,
+        domains: parseDomainOptions(options.domain as string[], endOperation),
+        ...(options.name !== undefined ? { name: options.name } : {}),
+        ...(options.template !== undefined ? { template: options.template } : {}),
+        ...(options.auth !== undefined ? { authMethod: options.auth } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Shop creation failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      const environments = listEnvironments(result.data);
+      console.log(`✅ shops/${options.id}.config.json created${options.template !== undefined ? ` from template ${options.template}` : ''}`);
+      environments.forEach(environment => console.log(`   ${environment.name}: ${environment.domain} (${environment.branch})`));
+      console.log('💡 Create the branches:');
+      [...new Set(environments.map(environment => environment.branch))].forEach(branch =>
+        console.log(`   git checkout -b ${branch} && git push -u origin ${branch}`)
+      );
+      console.log(`💡 Add theme access tokens with Edit Shop → Edit Credentials for ${options.id}`);
+
+      endOperation('success', { environments: environments.length });
+    } catch (error) {
+      logger.error('Shop creation failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+shopCommand
+  .command("clone <source> <newId>")
+  .description("Create a shop from an existing one: config, branches and (optionally) settings and content")
+  .option("--name <name>", "Display name for the new shop (default: the new shop ID)")
+  .option("--domain <environment=domain>", "Domain for an environment (repeatable; default: source domain with the shop ID replaced)",
+    collect, [] as string[])
+  .option("--copy-protection", "Copy the source shop's content protection settings")
+  .option("--copy-metadata", "Copy the source shop's metadata (description, tags)")
+  .option("--seed-content", "Keep the source shop's content JSON on the new branches instead of main's")
+  .option("--no-branches", "Only write the config; don't create branches")
+  .action(async (source: string, newId: string, options) => {
+    const endOperation = logger.startOperation('shop_clone_command', { source, newId, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { cloneShop } = await import("../lib/core/shop-cloning.js");
+
+      const domains = parseDomainOptions(options.domain as string[], endOperation);
+
+      const context = createMultiShopCLI();
+      const result = await cloneShop(context, {
+        source,
+        shopId: newId,
+        ...(options.name !== undefined ? { name: options.name } : {}),
+        domains,
+        copyContentProtection: Boolean(options.copyProtection),
+        copyMetadata: Boolean(options.copyMetadata),
+        seedContent: Boolean(options.seedContent),
+        createBranches: options.branches !== false
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Shop clone failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      const { config, branches } = result.data;
+      console.log(`✅ shops/${newId}.config.json created from ${source}`);
+      Object.entries(config.shopify.stores).forEach(([environment, store]) =>
+        console.log(`   ${environment}: ${store.domain} (${store.branch})`)
+      );
+      branches.forEach(branch => {
+        if (branch.status === 'created') {
+          const reset = branch.resetContent !== undefined ? `, ${branch.resetContent.length} content files reset to main` : '';
+          console.log(`✅ ${branch.branch} ← ${branch.from}${reset}`);
+        } else if (branch.status === 'exists') {
+          console.log(`ℹ️  ${branch.branch} already exists`);
+        } else {
+          console.log(`❌ ${branch.branch}: ${branch.error}`);
+        }
+      });
+      console.log(`💡 Add theme access tokens with Edit Shop → Edit Credentials for ${newId}`);
+
+      const failed = branches.filter(branch => branch.status === 'failed').length;
+      if (failed > 0) {
+        endOperation('error', { failed });
+        process.exit(1);
+      }
+
+      endOperation('success', { branches: branches.length });
+    } catch (error) {
+      logger.error('Shop clone failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
 // Contextual development server
 program
   .command("dev")
@@ -118,7 +261,7 @@ program
       const result = await runSecurityAudit(context.deps);
 
       if (result.success && result.data) {
-        if (options.json) {
+        if (options.json === true) {
           console.log(JSON.stringify(result.data, null, 2));
         } else {
           console.log(formatAuditReport(result.data));
@@ -148,6 +291,714 @@ program
     }
   });
 
+// Non-interactive shop sync (CI and scripts)
+program
+  .command("sync")
+  .description("Create PRs from main to shop branches without prompts")
+  .option("--shops <ids>", "Comma-separated shop IDs, tag:<tag> or group:<name> selectors to sync")
+  .option("--all", "Sync all configured shops")
+  .requiredOption("--title <title>", "Pull request title")
+  .option("--body <text>", "Pull request body")
+  .option("--body-file <path>", "Read pull request body from a file")
+  .option("--base-suffix <suffix>", "Target branch suffix (<shop>/<suffix>; default: each shop's staging branch)")
+  .option("--environment <name>", "Target each shop's branch for this environment (overrides --base-suffix)")
+  .option("--allow-content", "Proceed when content files change (warn mode and unprotected shops)")
+  .option("--smart-merge", "Smart merge content for shops protection would block: keep shop values, add new keys from main")
+  .action(async (options) => {
+    const endOperation = logger.startOperation('sync_command', options);
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { runShopSync } = await import("../lib/core/shop-sync.js");
+      const { parseShopSelectors } = await import("../lib/core/shop-selection.js");
+
+      const body = options.bodyFile !== undefined
+        ? readFileSync(options.bodyFile, 'utf8').trim()
+        : options.body;
+
+      const context = createMultiShopCLI();
+      const result = await runShopSync(context, {
+        shops: parseShopSelectors(options.shops),
+        all: Boolean(options.all),
+        title: options.title,
+        body,
+        ...(options.baseSuffix !== undefined ? { baseSuffix: options.baseSuffix } : {}),
+        ...(options.environment !== undefined ? { environment: options.environment } : {}),
+        allowContentChanges: Boolean(options.allowContent),
+        smartMerge: Boolean(options.smartMerge)
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Shop sync failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(JSON.stringify(result.data, null, 2));
+
+      if (result.data.contentProtection.blocked || result.data.failed > 0) {
+        endOperation('error', { failed: result.data.failed, blocked: result.data.contentProtection.blocked });
+        process.exit(1);
+      }
+
+      endOperation('success');
+    } catch (error) {
+      logger.error('Shop sync failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Merge main into shop branches (wired into package.json as "sync-main")
+program
+  .command("sync-main")
+  .description("Merge main into every shop's main and staging branches")
+  .option("--shops <ids>", "Comma-separated shop IDs, tag:<tag> or group:<name> selectors (default: all shops)")
+  .option("--rebase", "Rebase shop branches onto main instead of merging")
+  .option("--push", "Push updated branches to origin")
+  .action(async (options) => {
+    const endOperation = logger.startOperation('sync_main_command', options);
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { syncMainToShopBranches, formatBranchSyncReport } = await import("../lib/core/branch-sync.js");
+      const { parseShopSelectors } = await import("../lib/core/shop-selection.js");
+
+      const context = createMultiShopCLI();
+      const result = await syncMainToShopBranches(context, {
+        shops: parseShopSelectors(options.shops),
+        rebase: Boolean(options.rebase),
+        push: Boolean(options.push)
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Sync main failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(formatBranchSyncReport(result.data));
+
+      const problems = result.data.filter(r => r.status === 'conflict' || r.status === 'failed');
+      if (problems.length > 0) {
+        endOperation('error', { problems: problems.length });
+        process.exit(1);
+      }
+
+      endOperation('success');
+    } catch (error) {
+      logger.error('Sync main failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Test a PR against each shop (wired into package.json as "test:pr")
+program
+  .command("test-pr [pr]")
+  .description("Check out a PR (number, URL or branch) and test it against each shop's staging or other pre-production store")
+  .option("--shops <ids>", "Comma-separated shop IDs, tag:<tag> or group:<name> selectors (default: all shops)")
+  .option("--theme-editor-sync", "Sync theme editor changes during each session")
+  .action(async (pr, options) => {
+    const endOperation = logger.startOperation('test_pr_command', { pr, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { testPullRequest } = await import("../lib/core/pr-testing.js");
+      const { parseShopSelectors } = await import("../lib/core/shop-selection.js");
+
+      intro("🧪 Test PR Across Shops");
+
+      const context = createMultiShopCLI();
+      const result = await testPullRequest(context, {
+        pr,
+        shops: parseShopSelectors(options.shops),
+        themeEditorSync: Boolean(options.themeEditorSync)
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('PR testing failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      outro("✨ PR testing complete");
+      endOperation('success', { tested: result.data.tested.length });
+    } catch (error) {
+      logger.error('PR testing failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Credential storage management
+const credentialsCommand = program
+  .command("credentials")
+  .description("Manage where shop credentials are stored");
+
+credentialsCommand
+  .command("migrate")
+  .description("Move shops/credentials/*.credentials.json into another credential backend")
+  .option("--to <backend>", "Target backend: encrypted-file or command (default: credentials.backend in shops/settings.json)")
+  .option("--keep-plaintext", "Keep the plaintext credential files after migrating")
+  .action(async (options) => {
+    const endOperation = logger.startOperation('credentials_migrate_command', options);
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { migrateCredentials } = await import("../lib/core/credential-migration.js");
+
+      const context = createMultiShopCLI();
+      const result = await migrateCredentials(context.deps, {
+        ...(options.to !== undefined ? { to: options.to } : {}),
+        keepPlaintext: Boolean(options.keepPlaintext)
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Credential migration failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      const { backend, migrated, failed, removedPlaintext } = result.data;
+      migrated.forEach(shop => console.log(`✅ ${shop} → ${backend}`));
+      failed.forEach(({ shop, error }) => console.log(`❌ ${shop}: ${error}`));
+      if (migrated.length === 0 && failed.length === 0) console.log('No plaintext credential files found');
+      if (removedPlaintext) console.log('🗑️  Removed migrated plaintext credential files');
+
+      if (failed.length > 0) {
+        endOperation('error', { failed: failed.length });
+        process.exit(1);
+      }
+
+      endOperation('success', { migrated: migrated.length });
+    } catch (error) {
+      logger.error('Credential migration failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Shop config file management
+const configCommand = program
+  .command("config")
+  .description("Manage shop configuration files");
+
+configCommand
+  .command("migrate")
+  .description("Upgrade shops/*.config.json to the current format (named environments)")
+  .action(async () => {
+    const endOperation = logger.startOperation('config_migrate_command', {});
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { migrateShopConfigs, CURRENT_CONFIG_VERSION } = await import("../lib/core/config-migration.js");
+
+      const context = createMultiShopCLI();
+      const result = await migrateShopConfigs(context.deps);
+
+      if (!result.success || !result.data) {
+        logger.error('Config migration failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      const { migrated, unchanged, failed } = result.data;
+      migrated.forEach(shop => console.log(`✅ ${shop} → version ${CURRENT_CONFIG_VERSION}`));
+      failed.forEach(({ shop, error }) => console.log(`❌ ${shop}: ${error}`));
+      if (migrated.length === 0 && failed.length === 0) {
+        console.log(unchanged.length > 0 ? 'All shop configs are up to date' : 'No shop configs found');
+      }
+
+      if (failed.length > 0) {
+        endOperation('error', { failed: failed.length });
+        process.exit(1);
+      }
+
+      endOperation('success', { migrated: migrated.length });
+    } catch (error) {
+      logger.error('Config migration failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Scheduled campaigns (shops/campaigns.json)
+const campaignCommand = program
+  .command("campaign")
+  .description("Promo campaigns across shops, run by hand or on a schedule");
+
+campaignCommand
+  .command("run-due")
+  .description("Launch campaigns whose start has passed and roll back those that ended (for cron or CI schedules)")
+  .option("--dry-run", "Show what would run without changing anything")
+  .option("--now <time>", "Evaluate the schedule at this ISO 8601 time instead of now")
+  .option("--json", "Output the run report as JSON")
+  .action(async (_options, command: Command) => {
+    // The root program also defines --dry-run and claims the flag wherever it appears
+    const options = command.optsWithGlobals();
+    const endOperation = logger.startOperation('campaign_run_due_command', options);
+
+    try {
+      const now = options.now !== undefined ? new Date(options.now) : new Date();
+      if (Number.isNaN(now.getTime())) {
+        logger.error('Invalid --now time', { now: options.now });
+        endOperation('error', { error: 'Invalid --now time' });
+        process.exit(1);
+      }
+
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { runDueCampaigns, formatCampaignRun } = await import("../lib/core/campaign-schedule.js");
+
+      const context = createMultiShopCLI();
+      const result = await runDueCampaigns(context, { now, dryRun: Boolean(options.dryRun) });
+
+      if (!result.success || !result.data) {
+        logger.error('Campaign run failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatCampaignRun(result.data));
+
+      const failed = result.data.results.filter(action => !action.success).length;
+      endOperation(failed > 0 ? 'error' : 'success', { actions: result.data.results.length, failed });
+      if (failed > 0) process.exit(1);
+    } catch (error) {
+      logger.error('Campaign run failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("create <name>")
+  .description("Create and push the promo branch of a campaign on several shops")
+  .option("--shops <ids>", "Comma-separated shop IDs, tag:<tag> or group:<name> selectors (default: all shops)")
+  .option("--owner <owner>", "Who runs the campaign")
+  .action(async (name, options) => {
+    const endOperation = logger.startOperation('campaign_create_command', { name, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { createCampaign, formatCampaignResults } = await import("../lib/core/campaigns.js");
+      const { parseShopSelectors, resolveRequestedShops } = await import("../lib/core/shop-selection.js");
+
+      const context = createMultiShopCLI();
+      const shops = await resolveRequestedShops(context, parseShopSelectors(options.shops));
+      if (!shops.success || !shops.data) {
+        logger.error('Campaign create failed', { error: shops.error });
+        endOperation('error', { error: shops.error });
+        process.exit(1);
+      }
+
+      const result = await createCampaign(context, {
+        name,
+        shops: shops.data,
+        ...(options.owner !== undefined ? { owner: options.owner } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Campaign create failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(formatCampaignResults('created', result.data));
+
+      const failed = result.data.filter(shop => !shop.success).length;
+      endOperation(failed > 0 ? 'error' : 'success', { shops: result.data.length, failed });
+      if (failed > 0) process.exit(1);
+    } catch (error) {
+      logger.error('Campaign create failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("push <name>")
+  .description("Open every shop's promo → production PR of a campaign")
+  .action(async (name, options) => {
+    const endOperation = logger.startOperation('campaign_push_command', { name, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { pushCampaign, formatCampaignResults } = await import("../lib/core/campaigns.js");
+
+      const result = await pushCampaign(createMultiShopCLI(), name);
+
+      if (!result.success || !result.data) {
+        logger.error('Campaign push failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(formatCampaignResults('PR', result.data));
+
+      const failed = result.data.filter(shop => !shop.success).length;
+      endOperation(failed > 0 ? 'error' : 'success', { shops: result.data.length, failed });
+      if (failed > 0) process.exit(1);
+    } catch (error) {
+      logger.error('Campaign push failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("end <name>")
+  .description("Archive and delete a campaign's promo branches on every shop, locally and on origin")
+  .option("--force", "End shops whose promo has changes not merged into production (kept in the archive tag)")
+  .action(async (name, options) => {
+    const endOperation = logger.startOperation('campaign_end_command', { name, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { endCampaign, formatCampaignResults } = await import("../lib/core/campaigns.js");
+
+      const result = await endCampaign(createMultiShopCLI(), name, { force: Boolean(options.force) });
+
+      if (!result.success || !result.data) {
+        logger.error('Campaign end failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(formatCampaignResults('deleted', result.data));
+
+      const failed = result.data.filter(shop => !shop.success).length;
+      endOperation(failed > 0 ? 'error' : 'success', { shops: result.data.length, failed });
+      if (failed > 0) process.exit(1);
+    } catch (error) {
+      logger.error('Campaign end failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("status [name]")
+  .description("Show per-shop progress of every campaign, or of one")
+  .option("--json", "Output the status as JSON")
+  .action(async (name, options) => {
+    const endOperation = logger.startOperation('campaign_status_command', { name, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { getCampaignStatus, formatCampaignStatus } = await import("../lib/core/campaigns.js");
+
+      const result = await getCampaignStatus(createMultiShopCLI(), name);
+      if (!result.success || !result.data) {
+        logger.error('Campaign status failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatCampaignStatus(result.data));
+      endOperation('success', { campaigns: result.data.length });
+    } catch (error) {
+      logger.error('Campaign status failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("promos")
+  .description("Show every promo branch with its age, drift from production, PR state, theme and last author")
+  .option("--stale-days <days>", "Flag promos older than this many days (default: campaigns.staleAfterDays or 30)")
+  .option("--json", "Output the overview as JSON")
+  .action(async (options) => {
+    const endOperation = logger.startOperation('campaign_promos_command', options);
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { getPromoDashboard, formatPromoDashboard } = await import("../lib/core/promo-dashboard.js");
+
+      const result = await getPromoDashboard(createMultiShopCLI(), {
+        ...(options.staleDays !== undefined ? { staleAfterDays: Number(options.staleDays) } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Promo overview failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatPromoDashboard(result.data));
+
+      const stale = result.data.promos.filter(promo => promo.stale).length;
+      endOperation('success', { promos: result.data.promos.length, stale });
+    } catch (error) {
+      logger.error('Promo overview failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+campaignCommand
+  .command("refresh <branch>")
+  .description("Merge or rebase the shop's production branch into a promo branch (<shop>/<promo>)")
+  .option("--rebase", "Rebase the promo instead of merging (push then force-pushes with lease)")
+  .option("--push", "Push the refreshed promo branch to origin")
+  .option("--json", "Output the result as JSON")
+  .action(async (branch, options) => {
+    const endOperation = logger.startOperation('campaign_refresh_command', { branch, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { loadBranchNaming } = await import("../lib/core/branch-naming.js");
+      const { refreshPromo, formatPromoRefresh } = await import("../lib/core/promo-refresh.js");
+
+      const context = createMultiShopCLI();
+      const naming = await loadBranchNaming(context.deps.cwd);
+      if (!naming.success || !naming.data) {
+        logger.error('Promo refresh failed', { error: naming.error });
+        endOperation('error', { error: naming.error });
+        process.exit(1);
+      }
+
+      const result = await refreshPromo(context, naming.data, branch, {
+        rebase: Boolean(options.rebase),
+        push: Boolean(options.push),
+        interactive: false
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Promo refresh failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatPromoRefresh(result.data));
+
+      const conflicted = result.data.status === 'conflict';
+      endOperation(conflicted ? 'error' : 'success', { status: result.data.status, conflicts: result.data.conflicts.length });
+      if (conflicted) process.exit(1);
+    } catch (error) {
+      logger.error('Promo refresh failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+// Shop content (theme editor JSON)
+const contentCommand = program
+  .command("content")
+  .description("Inspect, snapshot and restore shop content (settings_data, templates, locales)");
+
+contentCommand
+  .command("diff <shop>")
+  .description("Show which content settings a sync would change on a shop's branch")
+  .option("--from <ref>", "Branch or ref the sync would bring in", "main")
+  .option("--environment <name>", "Compare against this environment's branch (default: staging)")
+  .option("--json", "Output the diff as JSON")
+  .action(async (shop, options) => {
+    const endOperation = logger.startOperation('content_diff_command', { shop, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { diffShopContent, formatContentDiff } = await import("../lib/core/content-diff.js");
+
+      const context = createMultiShopCLI();
+      const result = await diffShopContent(context, shop, {
+        from: options.from,
+        ...(options.environment !== undefined ? { environment: options.environment } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Content diff failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatContentDiff(result.data));
+      endOperation('success', { files: result.data.files.length });
+    } catch (error) {
+      logger.error('Content diff failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+const snapshotCommand = contentCommand
+  .command("snapshot")
+  .description("Archive a shop's content files and restore them later");
+
+snapshotCommand
+  .command("create <shop>", { isDefault: true })
+  .description("Capture a shop's content files into shops/snapshots/<shop>/")
+  .option("--environment <name>", "Environment whose branch or live theme is captured (default: production)")
+  .option("--branch <name>", "Capture this branch instead of the environment's")
+  .option("--from-theme", "Pull the live theme with the Shopify CLI instead of reading the branch")
+  .option("--message <text>", "Note stored with the snapshot")
+  .action(async (shop, options) => {
+    const endOperation = logger.startOperation('content_snapshot_command', { shop, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { createContentSnapshot, formatSnapshotSource } = await import("../lib/core/content-snapshots.js");
+
+      const context = createMultiShopCLI();
+      const result = await createContentSnapshot(context, shop, {
+        ...(options.environment !== undefined ? { environment: options.environment } : {}),
+        ...(options.branch !== undefined ? { branch: options.branch } : {}),
+        ...(options.fromTheme === true ? { fromTheme: true } : {}),
+        ...(options.message !== undefined ? { message: options.message } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Content snapshot failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      const files = Object.keys(result.data.files).length;
+      console.log(`📸 Snapshot ${result.data.id}: ${files} files from ${formatSnapshotSource(result.data.source)}`);
+      endOperation('success', { id: result.data.id, files });
+    } catch (error) {
+      logger.error('Content snapshot failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command("list <shop>")
+  .description("List a shop's content snapshots, newest first")
+  .option("--json", "Output the list as JSON")
+  .action(async (shop, options) => {
+    const endOperation = logger.startOperation('content_snapshot_list_command', { shop, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { listContentSnapshots, formatSnapshotList } = await import("../lib/core/content-snapshots.js");
+
+      const context = createMultiShopCLI();
+      const result = await listContentSnapshots(context.deps, shop);
+
+      if (!result.success || !result.data) {
+        logger.error('Listing snapshots failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatSnapshotList(shop, result.data));
+      endOperation('success', { snapshots: result.data.length });
+    } catch (error) {
+      logger.error('Listing snapshots failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command("diff <shop> <id>")
+  .description("Show what restoring a snapshot would change on a branch")
+  .option("--branch <name>", "Compare against this branch (default: the production branch)")
+  .option("--json", "Output the diff as JSON")
+  .action(async (shop, id, options) => {
+    const endOperation = logger.startOperation('content_snapshot_diff_command', { shop, id, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { diffContentSnapshot } = await import("../lib/core/content-snapshots.js");
+      const { formatContentDiff } = await import("../lib/core/content-diff.js");
+
+      const context = createMultiShopCLI();
+      const result = await diffContentSnapshot(context, shop, id, options.branch !== undefined ? { branch: options.branch } : {});
+
+      if (!result.success || !result.data) {
+        logger.error('Snapshot diff failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      console.log(options.json === true ? JSON.stringify(result.data, null, 2) : formatContentDiff(result.data));
+      endOperation('success', { files: result.data.files.length });
+    } catch (error) {
+      logger.error('Snapshot diff failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command("restore <shop> <id>")
+  .description("Commit a snapshot's files onto a branch")
+  .option("--files <paths>", "Comma-separated files to restore (default: all)")
+  .option("--branch <name>", "Branch to commit onto (default: the production branch)")
+  .option("--push", "Push the branch after committing")
+  .action(async (shop, id, options) => {
+    const endOperation = logger.startOperation('content_snapshot_restore_command', { shop, id, ...options });
+
+    try {
+      const { createMultiShopCLI } = await import("../lib/core/index.js");
+      const { restoreContentSnapshot } = await import("../lib/core/content-snapshots.js");
+
+      const context = createMultiShopCLI();
+      const files = options.files !== undefined ? String(options.files).split(',').map(file => file.trim()).filter(Boolean) : undefined;
+      const result = await restoreContentSnapshot(context, shop, id, {
+        ...(files ? { files } : {}),
+        ...(options.branch !== undefined ? { branch: options.branch } : {}),
+        ...(options.push === true ? { push: true } : {})
+      });
+
+      if (!result.success || !result.data) {
+        logger.error('Snapshot restore failed', { error: result.error });
+        endOperation('error', { error: result.error });
+        process.exit(1);
+      }
+
+      if (result.data.status === 'unchanged') {
+        console.log(`✅ ${result.data.branch} already matches snapshot ${id}; nothing to commit`);
+      } else {
+        const pushed = result.data.pushed ? ' and pushed' : '';
+        console.log(`✅ Restored ${result.data.files.length} files onto ${result.data.branch}${pushed}`);
+      }
+      endOperation('success', { branch: result.data.branch, status: result.data.status, files: result.data.files.length });
+    } catch (error) {
+      logger.error('Snapshot restore failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      endOperation('error', { error: error instanceof Error ? error.message : String(error) });
+      process.exit(1);
+    }
+  });
+
 // Global error handler
 process.on('uncaughtException', (error) => {
   logger.error('Uncaught exception', { 
@@ -168,6 +1019,9 @@ process.on('unhandledRejection', (reason) => {
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
+  // A running dev server owns Ctrl+C: it stops the server and the command continues
+  if (process.listenerCount('SIGINT') > 1) return;
+
   console.log('\n👋 Shutting down gracefully...');
   await logger.flush();
   process.exit(0);
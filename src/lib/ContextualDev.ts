@@ -1,4 +1,3 @@
-import { execSync } from "child_process";
 import { logger } from "./core/logger.js";
 
 /**
@@ -12,25 +11,35 @@ export class ContextualDev {
     const endOperation = this.logger.startOperation('contextual_development');
     
     try {
-      const currentBranch = execSync("git branch --show-current", { 
-        encoding: "utf8" 
-      }).trim();
+      const { createMultiShopCLI, runMultiShopManager } = await import("./core/index.js");
+      const { loadBranchNaming, parseShopBranch } = await import("./core/branch-naming.js");
+      const context = createMultiShopCLI();
+
+      const namingResult = await loadBranchNaming(context.deps.cwd);
+      if (!namingResult.success || !namingResult.data) {
+        throw new Error(namingResult.error ?? "Failed to load branch naming");
+      }
+
+      const branchResult = await context.gitOps.getCurrentBranch();
+      if (!branchResult.success) {
+        throw new Error(branchResult.error ?? "Failed to detect current branch");
+      }
+      const currentBranch = (branchResult.data ?? "").trim();
 
       console.log(`🔍 Detected branch: ${currentBranch}`);
 
-      // Check if this is a shop-specific branch (contains slash like "shop-a/feature")
-      const shopMatch = currentBranch.match(/^([^/]+)\//);
+      // Check if this is a shop-specific branch (follows the branch naming, like "shop-a/feature")
+      const shopMatch = parseShopBranch(namingResult.data, currentBranch);
       
       if (shopMatch) {
         // Shop-specific branch - delegate to shop manager
-        console.log(`📋 Shop-specific branch detected: ${shopMatch[1]}`);
+        console.log(`📋 Shop-specific branch detected: ${shopMatch.shopId}`);
         console.log(`🚀 Delegating to shop development workflow...`);
         console.log();
 
         // Call the shop manager with auto-dev mode
         process.env['AUTO_SELECT_DEV'] = "true";
 
-        const { runMultiShopManager } = await import("./core/index.js");
         await runMultiShopManager();
 
       } else {
@@ -40,10 +49,8 @@ export class ContextualDev {
         console.log();
         
         // Use functional contextual development
-        const { createMultiShopCLI } = await import("./core/index.js");
         const { startDevelopmentWorkflow } = await import("./core/dev-operations.js");
         
-        const context = createMultiShopCLI();
         const result = await startDevelopmentWorkflow(context);
         
         if (!result.success && result.error) {
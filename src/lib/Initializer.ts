@@ -209,6 +209,9 @@ export class Initializer {
       "shops/credentials/",
       "*.credentials.json",
       "",
+      "# Content snapshots (local archive of shop content)",
+      "shops/snapshots/",
+      "",
       "# Testing artifacts",
       "playwright-report/",
       "test-results/", 
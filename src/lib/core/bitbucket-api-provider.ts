@@ -0,0 +1,121 @@
+import type { PullRequestInfo, PullRequestProvider, PullRequestRequest, PullRequestStatus, Result } from "./types.js";
+import { requestJson, joinUrl, type HttpRequest } from "./http-client.js";
+
+/**
+ * Pull requests through the Bitbucket Cloud REST API (2.0)
+ * Authenticates with an access token, or a username and app password
+ */
+
+export const DEFAULT_BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+export type BitbucketAuth =
+  | { readonly token: string }
+  | { readonly username: string; readonly appPassword: string };
+
+export interface BitbucketApiOptions {
+  readonly auth: BitbucketAuth;
+  readonly workspace: string;
+  readonly repo: string;
+  readonly apiUrl?: string;
+}
+
+interface BitbucketPullRequest {
+  readonly id: number;
+  readonly links: { readonly html: { readonly href: string } };
+  readonly state?: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  readonly source?: { readonly branch: { readonly name: string } };
+}
+
+interface BitbucketPage<T> {
+  readonly values: T[];
+}
+
+export const createBitbucketApiProvider = (options: BitbucketApiOptions): PullRequestProvider => {
+  const repoPath = `repositories/${encodeURIComponent(options.workspace)}/${encodeURIComponent(options.repo)}`;
+  const authorization = 'token' in options.auth
+    ? `Bearer ${options.auth.token}`
+    : `Basic ${Buffer.from(`${options.auth.username}:${options.auth.appPassword}`).toString('base64')}`;
+
+  const call = <T>(pathname: string, request: HttpRequest = {}): Promise<Result<T>> =>
+    requestJson<T>(joinUrl(options.apiUrl ?? DEFAULT_BITBUCKET_API_URL, pathname), {
+      ...request,
+      headers: { 'Authorization': authorization }
+    });
+
+  return {
+    name: 'bitbucket-api',
+
+    create: async (request: PullRequestRequest): Promise<Result<PullRequestInfo>> => {
+      const result = await call<BitbucketPullRequest>(`${repoPath}/pullrequests`, {
+        method: 'POST',
+        body: {
+          title: request.title,
+          description: request.body,
+          source: { branch: { name: request.head } },
+          destination: { branch: { name: request.base } }
+        }
+      });
+      return mapPullRequest(result);
+    },
+
+    findOpen: async (head: string, base: string): Promise<Result<PullRequestInfo | null>> => {
+      const query = new URLSearchParams({
+        state: 'OPEN',
+        q: `source.branch.name="${head}" AND destination.branch.name="${base}"`
+      });
+      const result = await call<BitbucketPage<BitbucketPullRequest>>(`${repoPath}/pullrequests?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+      const [existing] = result.data?.values ?? [];
+      return { success: true, data: existing ? { number: existing.id, url: existing.links.html.href } : null };
+    },
+
+    findLatest: async (head: string, base: string): Promise<Result<PullRequestStatus | null>> => {
+      const query = new URLSearchParams({
+        q: `source.branch.name="${head}" AND destination.branch.name="${base}"`,
+        sort: '-created_on',
+        pagelen: '1'
+      });
+      // Bitbucket only lists open pull requests unless every state is asked for
+      for (const state of ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED']) query.append('state', state);
+
+      const result = await call<BitbucketPage<BitbucketPullRequest>>(`${repoPath}/pullrequests?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+      const [latest] = result.data?.values ?? [];
+      if (!latest) return { success: true, data: null };
+
+      const state = latest.state === 'OPEN' ? 'open' : latest.state === 'MERGED' ? 'merged' : 'closed';
+      return { success: true, data: { number: latest.id, url: latest.links.html.href, state } };
+    },
+
+    getHeadBranch: async (id: number): Promise<Result<string>> => {
+      const result = await call<BitbucketPullRequest>(`${repoPath}/pullrequests/${id}`);
+      if (!result.success) return { success: false, error: result.error ?? `Failed to load pull request #${id}` };
+
+      const branch = result.data?.source?.branch.name;
+      return branch ? { success: true, data: branch } : { success: false, error: `Pull request #${id} has no source branch` };
+    },
+
+    updateBody: async (id: number, body: string): Promise<Result<void>> =>
+      toVoid(await call(`${repoPath}/pullrequests/${id}`, { method: 'PUT', body: { description: body } })),
+
+    addLabels: async (): Promise<Result<void>> =>
+      ({ success: false, error: 'Bitbucket pull requests do not support labels' }),
+
+    // Reviewers are Bitbucket account IDs or {uuid} values; this replaces the current reviewer list
+    addReviewers: async (id: number, reviewers: string[]): Promise<Result<void>> =>
+      toVoid(await call(`${repoPath}/pullrequests/${id}`, {
+        method: 'PUT',
+        body: { reviewers: reviewers.map(reviewer => reviewer.startsWith('{') ? { uuid: reviewer } : { account_id: reviewer }) }
+      }))
+  };
+};
+
+const mapPullRequest = (result: Result<BitbucketPullRequest>): Result<PullRequestInfo> => {
+  if (!result.success || !result.data) return { success: false, error: result.error ?? 'Empty response from Bitbucket' };
+  return { success: true, data: { number: result.data.id, url: result.data.links.html.href } };
+};
+
+const toVoid = (result: Result<unknown>): Result<void> =>
+  result.success ? { success: true } : { success: false, error: result.error ?? 'Bitbucket API request failed' };
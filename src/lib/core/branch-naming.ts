@@ -0,0 +1,113 @@
+import type { BranchNamingSettings, Environment } from "../../types/shop.js";
+import type { CLIContext, Result } from "./types.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { validateBranchNaming } from "./validation.js";
+import { BRANCH_NAME_RULES } from "./validation-schemas.js";
+
+/**
+ * Shop branch naming from `branchNaming` in shops/settings.json
+ * Default: <shop>/main, <shop>/staging, <shop>/<environment> and <shop>/promo-<promo>
+ */
+
+export interface BranchNaming {
+  readonly pattern: string;
+  readonly environments: Readonly<Record<Environment, string>>;
+  readonly promoPattern: string;
+}
+
+export interface ShopBranch {
+  readonly shopId: string;
+  /** The environment the branch is named after; feature branches (shop-a/new-header) name none that exists */
+  readonly environment: Environment;
+}
+
+export interface PromoBranch {
+  readonly shopId: string;
+  readonly promo: string;
+}
+
+const { shop: SHOP, environment: ENVIRONMENT, promo: PROMO } = BRANCH_NAME_RULES.namingPlaceholders;
+
+/** SHOP_ID_RULES.pattern without anchors */
+const SHOP_ID_SOURCE = '[a-z0-9]+(?:-[a-z0-9]+)*';
+
+export const DEFAULT_BRANCH_NAMING: BranchNaming = {
+  pattern: BRANCH_NAME_RULES.defaultNaming.pattern,
+  environments: { [PRODUCTION_ENVIRONMENT]: 'main' },
+  promoPattern: BRANCH_NAME_RULES.defaultNaming.promoPattern
+};
+
+/** Settings over the defaults; environment names not listed keep their own name */
+export const resolveBranchNaming = (settings?: BranchNamingSettings): BranchNaming => ({
+  pattern: settings?.pattern ?? DEFAULT_BRANCH_NAMING.pattern,
+  environments: { ...DEFAULT_BRANCH_NAMING.environments, ...settings?.environments },
+  promoPattern: settings?.promoPattern ?? DEFAULT_BRANCH_NAMING.promoPattern
+});
+
+export const loadBranchNaming = async (cwd: string): Promise<Result<BranchNaming>> => {
+  const settingsResult = await loadGlobalSettings(cwd);
+  if (!settingsResult.success) return { success: false, error: settingsResult.error ?? "Failed to load settings" };
+
+  const naming = resolveBranchNaming(settingsResult.data?.branchNaming);
+  const validation = validateBranchNaming(naming);
+  if (!validation.success) return { success: false, error: `Invalid branchNaming in shops/settings.json: ${validation.error}` };
+
+  return { success: true, data: naming };
+};
+
+/** What `{environment}` becomes: main for production under the default naming */
+export const environmentSegment = (naming: BranchNaming, environment: Environment): string =>
+  naming.environments[environment] ?? environment;
+
+export const environmentBranchName = (naming: BranchNaming, shopId: string, environment: Environment): string =>
+  shopBranchName(naming, shopId, environmentSegment(naming, environment));
+
+/** The pattern with a literal `{environment}` segment, e.g. `multi-shop sync --base-suffix` */
+export const shopBranchName = (naming: BranchNaming, shopId: string, segment: string): string =>
+  naming.pattern.replace(SHOP, shopId).replace(ENVIRONMENT, segment);
+
+export const promoBranchName = (naming: BranchNaming, shopId: string, promo: string): string =>
+  naming.promoPattern.replace(SHOP, shopId).replace(PROMO, promo);
+
+/** A shop's promo branch for the campaign and the production branch it starts from and merges into */
+export const campaignBranches = async (
+  context: CLIContext,
+  naming: BranchNaming,
+  campaign: string,
+  shop: string
+): Promise<{ promo: string; production: string }> => {
+  const config = await context.shopOps.loadConfig(shop);
+  return {
+    promo: promoBranchName(naming, shop, campaign),
+    production: config.data?.shopify.stores[PRODUCTION_ENVIRONMENT]?.branch
+      ?? environmentBranchName(naming, shop, PRODUCTION_ENVIRONMENT)
+  };
+};
+
+/** Shop and environment of a branch that follows the naming pattern; null for main and other branches */
+export const parseShopBranch = (naming: BranchNaming, branch: string): ShopBranch | null => {
+  const match = matchPattern(naming.pattern, ENVIRONMENT, branch);
+  if (!match) return null;
+
+  const environment = Object.entries(naming.environments).find(([, segment]) => segment === match.rest)?.[0] ?? match.rest;
+  return { shopId: match.shopId, environment };
+};
+
+export const parsePromoBranch = (naming: BranchNaming, branch: string): PromoBranch | null => {
+  const match = matchPattern(naming.promoPattern, PROMO, branch);
+  return match ? { shopId: match.shopId, promo: match.rest } : null;
+};
+
+const matchPattern = (pattern: string, restPlaceholder: string, branch: string): { shopId: string; rest: string } | null => {
+  const escape = (literal: string): string => literal.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const source = pattern
+    .split(SHOP)
+    .map(part => part.split(restPlaceholder).map(escape).join('(?<rest>.+)'))
+    .join(`(?<shop>${SHOP_ID_SOURCE})`);
+
+  // Built from the validated naming settings, not user input
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  const groups = new RegExp(`^${source}$`).exec(branch)?.groups;
+  return groups?.['shop'] && groups['rest'] ? { shopId: groups['shop'], rest: groups['rest'] } : null;
+};
@@ -0,0 +1,141 @@
+import type { CLIContext, GitOperations, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { DEFAULT_ENVIRONMENTS, listEnvironments } from "./environments.js";
+import { DEFAULT_BRANCH_NAMING, environmentBranchName, loadBranchNaming } from "./branch-naming.js";
+import { resolveRequestedShops } from "./shop-selection.js";
+
+/**
+ * Bring shop branches up to date with main
+ * Backs the `sync-main` script that `multi-shop init` adds to package.json
+ */
+
+export interface BranchSyncOptions {
+  readonly shops?: string[];
+  readonly rebase?: boolean;
+  readonly push?: boolean;
+}
+
+export type BranchSyncStatus = 'updated' | 'up-to-date' | 'conflict' | 'missing' | 'failed';
+
+export interface BranchSyncResult {
+  readonly shop: string;
+  readonly branch: string;
+  readonly status: BranchSyncStatus;
+  readonly conflicts?: string[];
+  readonly error?: string;
+}
+
+export const syncMainToShopBranches = async (
+  context: CLIContext,
+  options: BranchSyncOptions = {}
+): Promise<Result<BranchSyncResult[]>> => {
+  const shopsResult = await resolveRequestedShops(context, options.shops);
+  if (!shopsResult.success || !shopsResult.data) {
+    return { success: false, error: shopsResult.error ?? "No shops configured" };
+  }
+
+  const git = context.gitOps;
+
+  try {
+    const clean = await unwrapGitResult(git.isWorkingTreeClean());
+    if (!clean) {
+      return { success: false, error: "Working tree has uncommitted changes. Commit or stash them first." };
+    }
+
+    // Detached HEAD (common in CI) falls back to the commit SHA
+    const originalRef = (await unwrapGitResult(git.getCurrentBranch())) || (await unwrapGitResult(git.getHeadCommit()));
+    await unwrapGitResult(git.fetch());
+
+    const results: BranchSyncResult[] = [];
+
+    try {
+      for (const shop of shopsResult.data) {
+        for (const branch of await resolveShopBranches(context, shop)) {
+          results.push(await syncBranch(git, shop, branch, options));
+        }
+      }
+    } finally {
+      if (originalRef) await git.checkout(originalRef);
+    }
+
+    return { success: true, data: results };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to sync shop branches: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+/** Every environment branch from the shop config, each once; the named default branches when it can't be loaded */
+const resolveShopBranches = async (context: CLIContext, shop: string): Promise<string[]> => {
+  const configResult = await context.shopOps.loadConfig(shop);
+  if (!configResult.success || !configResult.data) {
+    const naming = (await loadBranchNaming(context.deps.cwd)).data ?? DEFAULT_BRANCH_NAMING;
+    return DEFAULT_ENVIRONMENTS.map(environment => environmentBranchName(naming, shop, environment));
+  }
+
+  return [...new Set(listEnvironments(configResult.data).map(environment => environment.branch))];
+};
+
+const syncBranch = async (
+  git: GitOperations,
+  shop: string,
+  branch: string,
+  options: BranchSyncOptions
+): Promise<BranchSyncResult> => {
+  const exists = await git.branchExists(branch, { remote: true });
+  if (!exists.data) {
+    return { shop, branch, status: 'missing', error: `origin/${branch} not found` };
+  }
+
+  try {
+    await unwrapGitResult(git.checkout(branch));
+    await unwrapGitResult(git.merge(`origin/${branch}`, { fastForwardOnly: true }));
+
+    const behind = await unwrapGitResult(git.revListCount(branch, 'origin/main'));
+    if (!behind) {
+      return { shop, branch, status: 'up-to-date' };
+    }
+
+    const integrated = await unwrapGitResult(git.merge('origin/main', { rebase: options.rebase ?? false }));
+    if (!integrated?.merged) {
+      return { shop, branch, status: 'conflict', conflicts: integrated?.conflicts ?? [] };
+    }
+
+    if (options.push) {
+      await unwrapGitResult(git.pushBranch(branch, { forceWithLease: options.rebase ?? false }));
+    }
+
+    return { shop, branch, status: 'updated' };
+  } catch (error) {
+    return { shop, branch, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const formatBranchSyncReport = (results: readonly BranchSyncResult[]): string => {
+  const icons: Record<BranchSyncStatus, string> = {
+    'updated': '✅',
+    'up-to-date': '✔️ ',
+    'conflict': '⚠️ ',
+    'missing': '❌',
+    'failed': '❌'
+  };
+
+  const lines: string[] = ['\n🔄 Sync main → shop branches', ''];
+
+  results.forEach(result => {
+    lines.push(`  ${icons[result.status]} ${result.branch}: ${result.status}`);
+    result.conflicts?.forEach(file => lines.push(`      ↳ conflict: ${file}`));
+    if (result.error) lines.push(`      ↳ ${result.error}`);
+  });
+
+  const conflicted = [...new Set(results.filter(r => r.status === 'conflict').map(r => r.shop))];
+  if (conflicted.length > 0) {
+    lines.push('');
+    lines.push(`💡 Resolve conflicts manually for: ${conflicted.join(', ')}`);
+    lines.push(`   git checkout <shop>/main && git merge origin/main`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,453 @@
+import fs from "fs";
+import path from "path";
+import { select, text, isCancel, note } from "@clack/prompts";
+import type { Campaign, CampaignLaunch, CampaignManifest, CampaignRun } from "../../types/shop.js";
+import type { CLIContext, Dependencies, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { campaignBranches, loadBranchNaming, type BranchNaming } from "./branch-naming.js";
+import { PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { createContentSnapshot, restoreContentSnapshot } from "./content-snapshots.js";
+import { getLiveTheme, publishTheme, type ThemeApiOptions } from "./theme-publishing.js";
+import { endPromoBranch } from "./promo-teardown.js";
+import { loadShopCatalog, pickShops } from "./shop-selection.js";
+import { validateCampaignManifest } from "./validation.js";
+import { CAMPAIGN_RULES } from "./validation-schemas.js";
+import {
+  createPullRequestProvider,
+  loadPullRequestSettings,
+  openOrUpdatePullRequest,
+  type PullRequestTarget
+} from "./pull-requests.js";
+
+/**
+ * Scheduled campaigns from shops/campaigns.json
+ * `multi-shop campaign run-due` (cron, CI schedule) launches campaigns whose start has passed
+ * and rolls back and cleans up those whose end has passed, recording each step in the manifest
+ */
+
+export type CampaignPhase = 'start' | 'end';
+
+export interface CampaignAction {
+  readonly campaign: string;
+  readonly shop: string;
+  readonly phase: CampaignPhase;
+  /** What the action does (or would do in a dry run) */
+  readonly steps: string[];
+}
+
+export interface CampaignActionResult extends CampaignAction {
+  readonly success: boolean;
+  readonly error?: string;
+}
+
+export interface CampaignRunReport {
+  readonly now: string;
+  readonly dryRun: boolean;
+  readonly results: CampaignActionResult[];
+}
+
+export interface RunDueOptions {
+  /** Default: the current time */
+  readonly now?: Date;
+  readonly dryRun?: boolean;
+  readonly themeApi?: ThemeApiOptions;
+}
+
+const MANIFEST_FILE = 'campaigns.json';
+const MANIFEST_VERSION = 1;
+
+const manifestPath = (deps: Dependencies): string => path.join(deps.shopsDir, MANIFEST_FILE);
+
+export const loadCampaignManifest = async (deps: Dependencies): Promise<Result<CampaignManifest>> => {
+  const filePath = manifestPath(deps);
+  if (!fs.existsSync(filePath)) return { success: true, data: { version: MANIFEST_VERSION, campaigns: [] } };
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CampaignManifest;
+    const validation = validateCampaignManifest(manifest);
+    if (!validation.success) return { success: false, error: `Invalid shops/${MANIFEST_FILE}: ${validation.error}` };
+
+    return { success: true, data: manifest };
+  } catch (error) {
+    return { success: false, error: `Failed to load shops/${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+export const saveCampaignManifest = async (deps: Dependencies, manifest: CampaignManifest): Promise<Result<void>> => {
+  const validation = validateCampaignManifest(manifest);
+  if (!validation.success) return { success: false, error: validation.error ?? "Invalid campaign manifest" };
+
+  try {
+    fs.mkdirSync(deps.shopsDir, { recursive: true });
+    fs.writeFileSync(manifestPath(deps), `${JSON.stringify(manifest, null, 2)}\n`);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: `Failed to save shops/${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+export interface DueCampaign {
+  readonly campaign: Campaign;
+  readonly shop: string;
+  readonly phase: CampaignPhase;
+}
+
+/** Shops whose start or end has passed and that haven't had that step recorded yet */
+export const findDueCampaigns = (manifest: CampaignManifest, now: Date): DueCampaign[] =>
+  manifest.campaigns.flatMap(campaign => campaign.shops.flatMap((shop): DueCampaign[] => {
+    const run = campaign.runs?.[shop];
+    if (campaign.startsAt === undefined || campaign.endsAt === undefined || run?.endedAt !== undefined) return [];
+    if (now.getTime() >= Date.parse(campaign.endsAt)) return [{ campaign, shop, phase: 'end' }];
+    if (now.getTime() >= Date.parse(campaign.startsAt) && run?.startedAt === undefined) return [{ campaign, shop, phase: 'start' }];
+    return [];
+  }));
+
+export const runDueCampaigns = async (context: CLIContext, options: RunDueOptions = {}): Promise<Result<CampaignRunReport>> => {
+  const now = options.now ?? new Date();
+  const dryRun = Boolean(options.dryRun);
+
+  const manifestResult = await loadCampaignManifest(context.deps);
+  if (!manifestResult.success || !manifestResult.data) return { success: false, error: manifestResult.error ?? "Failed to load campaigns" };
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  let manifest = manifestResult.data;
+  const due = findDueCampaigns(manifest, now);
+  const runner: CampaignRunner = { context, naming: namingResult.data, themeApi: options.themeApi ?? {}, now };
+  const results: CampaignActionResult[] = [];
+
+  if (dryRun || due.length === 0) {
+    for (const { campaign, shop, phase } of due) {
+      results.push({ ...(await planAction(runner, campaign, shop, phase)), success: true });
+    }
+    return { success: true, data: { now: now.toISOString(), dryRun, results } };
+  }
+
+  // Snapshots, rollbacks and teardown checks read origin's branches
+  const git = context.gitOps;
+  const fetched = await git.fetch();
+  if (!fetched.success) return { success: false, error: fetched.error ?? "Failed to fetch from origin" };
+
+  // Rollbacks check out branches; whatever was checked out is restored afterwards
+  const currentBranch = (await git.getCurrentBranch()).data ?? '';
+  const originalRef = currentBranch !== '' ? currentBranch : (await git.getHeadCommit()).data ?? '';
+
+  try {
+    for (const { campaign, shop, phase } of due) {
+      const action = await planAction(runner, campaign, shop, phase);
+      const outcome = phase === 'start' ? await startCampaign(runner, campaign, shop) : await endCampaign(runner, campaign, shop);
+
+      if (outcome.run) {
+        manifest = recordCampaignRun(manifest, campaign.name, shop, outcome.run);
+        const saved = await saveCampaignManifest(context.deps, manifest);
+        if (!saved.success) return { success: false, error: saved.error ?? "Failed to save campaigns" };
+      }
+
+      results.push({ ...action, success: outcome.error === undefined, ...(outcome.error !== undefined ? { error: outcome.error } : {}) });
+    }
+  } finally {
+    if (originalRef !== '' && (await git.getCurrentBranch()).data !== originalRef) await git.checkout(originalRef);
+  }
+
+  return { success: true, data: { now: now.toISOString(), dryRun, results } };
+};
+
+interface CampaignRunner {
+  readonly context: CLIContext;
+  readonly naming: BranchNaming;
+  readonly themeApi: ThemeApiOptions;
+  readonly now: Date;
+  /** Created on first use, so theme-only runs don't need a PR provider */
+  pullRequests?: Result<PullRequestTarget>;
+}
+
+/** The run record to save (also after a partial failure) and the error, if any */
+interface ActionOutcome {
+  readonly run?: CampaignRun;
+  readonly error?: string;
+}
+
+const planAction = async (runner: CampaignRunner, campaign: Campaign, shop: string, phase: CampaignPhase): Promise<CampaignAction> => {
+  const { promo, production } = await campaignBranches(runner.context, runner.naming, campaign.name, shop);
+  const run = campaign.runs?.[shop] ?? {};
+  const steps: string[] = [];
+
+  if (phase === 'start') {
+    if (campaign.launch === 'pull-request') {
+      steps.push(`Snapshot content of ${production}`, `Open PR ${promo} → ${production}`);
+    } else {
+      steps.push(`Record the live theme`, `Publish theme ${campaign.themes?.[shop] ?? '?'}`);
+    }
+  } else if (run.startedAt === undefined) {
+    steps.push(`Mark ended (never started; ${promo} kept)`);
+  } else {
+    if (campaign.launch === 'pull-request') {
+      steps.push(run.snapshotId !== undefined
+        ? `Open PR ${rollbackBranchName(promo)} → ${production} restoring snapshot ${run.snapshotId} (none if it already matches)`
+        : `No snapshot recorded; restore ${production} content manually`);
+    } else {
+      steps.push(run.previousThemeId !== undefined ? `Republish theme ${run.previousThemeId}` : `No previous theme recorded; publish one manually`);
+    }
+    steps.push(`Archive and delete ${promo} (kept if not merged into ${production})`);
+  }
+
+  return { campaign: campaign.name, shop, phase, steps };
+};
+
+const startCampaign = async (runner: CampaignRunner, campaign: Campaign, shop: string): Promise<ActionOutcome> => {
+  const startedAt = runner.now.toISOString();
+
+  if (campaign.launch === 'publish-theme') {
+    const store = await productionStore(runner.context, shop);
+    if (!store.success || !store.data) return { error: store.error ?? `No production store for ${shop}` };
+
+    const { domain, token } = store.data;
+    const live = await getLiveTheme(domain, token, runner.themeApi);
+    if (!live.success || !live.data) return { error: live.error ?? `Failed to read the live theme of ${domain}` };
+
+    const published = await publishTheme(domain, token, campaign.themes?.[shop] ?? '', runner.themeApi);
+    if (!published.success) return { error: published.error ?? "Publishing failed" };
+
+    return { run: { startedAt, previousThemeId: live.data.id } };
+  }
+
+  const { promo, production } = await campaignBranches(runner.context, runner.naming, campaign.name, shop);
+  const snapshot = await createContentSnapshot(runner.context, shop, {
+    branch: production,
+    message: `Before campaign ${campaign.name}`
+  });
+  if (!snapshot.success || !snapshot.data) return { error: `No rollback snapshot: ${snapshot.error ?? 'snapshot failed'}` };
+
+  const run: CampaignRun = { startedAt, snapshotId: snapshot.data.id };
+  const pullRequest = await openPullRequest(runner, {
+    head: promo,
+    base: production,
+    title: `Launch campaign: ${campaign.name}`,
+    body: campaignBody(campaign, `Launches the ${campaign.name} campaign on ${shop}.`)
+  });
+  if (!pullRequest.success || pullRequest.data === undefined) return { error: pullRequest.error ?? "Failed to open the promo PR" };
+
+  return { run: { ...run, pullRequests: [pullRequest.data] } };
+};
+
+const endCampaign = async (runner: CampaignRunner, campaign: Campaign, shop: string): Promise<ActionOutcome> => {
+  const run = campaign.runs?.[shop] ?? {};
+  let ended: CampaignRun = { ...run, endedAt: runner.now.toISOString() };
+  if (run.startedAt === undefined) return { run: ended };
+
+  const { promo, production } = await campaignBranches(runner.context, runner.naming, campaign.name, shop);
+
+  if (campaign.launch === 'publish-theme') {
+    if (run.previousThemeId === undefined) return { error: `No previous theme recorded for ${shop}; publish one manually` };
+
+    const store = await productionStore(runner.context, shop);
+    if (!store.success || !store.data) return { error: store.error ?? `No production store for ${shop}` };
+
+    const republished = await publishTheme(store.data.domain, store.data.token, run.previousThemeId, runner.themeApi);
+    if (!republished.success) return { error: republished.error ?? "Republishing failed" };
+  } else {
+    if (run.snapshotId === undefined) return { error: `No snapshot recorded for ${shop}; restore ${production} content manually` };
+
+    const rollback = await openRollbackPullRequest(runner, campaign, shop, run.snapshotId, { promo, production });
+    if (!rollback.success) return { error: rollback.error ?? "Failed to open the rollback PR" };
+    if (typeof rollback.data === 'string') ended = { ...ended, pullRequests: [...(run.pullRequests ?? []), rollback.data] };
+  }
+
+  // Same teardown as `campaign end`: archived under archive/, kept when it has unmerged work
+  const teardown = await endPromoBranch(runner.context, runner.naming, promo, {}, runner.now);
+  if (!teardown.success) return { run: ended, error: `Rolled back, but ${promo} was kept: ${teardown.error}` };
+
+  return { run: ended };
+};
+
+/**
+ * Content of the production branch as snapshotted at launch, as a PR from <promo>-rollback
+ * PR URL, or null when production already matches the snapshot and there is nothing to roll back
+ */
+const openRollbackPullRequest = async (
+  runner: CampaignRunner,
+  campaign: Campaign,
+  shop: string,
+  snapshotId: string,
+  branches: { promo: string; production: string }
+): Promise<Result<string | null>> => {
+  const git = runner.context.gitOps;
+  const branch = rollbackBranchName(branches.promo);
+
+  try {
+    const returnTo = await unwrapGitResult(git.getCurrentBranch());
+    await git.deleteBranch(branch, { force: true });
+    await unwrapGitResult(git.createBranch(branch, `origin/${branches.production}`));
+    if (returnTo !== undefined && returnTo !== '') await unwrapGitResult(git.checkout(returnTo));
+  } catch (error) {
+    return { success: false, error: `Failed to create ${branch}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const restored = await restoreContentSnapshot(runner.context, shop, snapshotId, { branch, push: true });
+  if (!restored.success || !restored.data) return { success: false, error: restored.error ?? "Restore failed" };
+  if (restored.data.status === 'unchanged') {
+    await git.deleteBranch(branch, { force: true });
+    return { success: true, data: null };
+  }
+
+  return openPullRequest(runner, {
+    head: branch,
+    base: branches.production,
+    title: `End campaign: ${campaign.name}`,
+    body: campaignBody(campaign, `Restores the ${shop} content from before the ${campaign.name} campaign (snapshot ${snapshotId}).`)
+  });
+};
+
+/** PR URL */
+const openPullRequest = async (
+  runner: CampaignRunner,
+  request: { head: string; base: string; title: string; body: string }
+): Promise<Result<string>> => {
+  if (!runner.pullRequests) {
+    const settings = await loadPullRequestSettings(runner.context);
+    const provider = await createPullRequestProvider(runner.context, settings);
+    runner.pullRequests = provider.success && provider.data
+      ? { success: true, data: { provider: provider.data, settings } }
+      : { success: false, error: provider.error ?? "Pull request provider unavailable" };
+  }
+
+  const target = runner.pullRequests;
+  if (!target.success || !target.data) return { success: false, error: target.error ?? "Pull request provider unavailable" };
+
+  const outcome = await openOrUpdatePullRequest(target.data, request);
+  return outcome.success && outcome.data
+    ? { success: true, data: outcome.data.url }
+    : { success: false, error: outcome.error ?? `Failed to open PR ${request.head} → ${request.base}` };
+};
+
+const campaignBody = (campaign: Campaign, summary: string): string => [
+  summary,
+  '',
+  `- Starts: ${campaign.startsAt}`,
+  `- Ends: ${campaign.endsAt}`,
+  ...(campaign.owner !== undefined ? [`- Owner: ${campaign.owner}`] : []),
+  '',
+  'Opened by `multi-shop campaign run-due`.'
+].join('\n');
+
+export const rollbackBranchName = (promoBranch: string): string => `${promoBranch}-rollback`;
+
+const productionStore = async (context: CLIContext, shop: string): Promise<Result<{ domain: string; token: string }>> => {
+  const config = await context.shopOps.loadConfig(shop);
+  const domain = config.data?.shopify.stores[PRODUCTION_ENVIRONMENT]?.domain;
+  if (domain === undefined) return { success: false, error: config.error ?? `${shop} has no production store` };
+
+  const credentials = await context.credOps.resolveCredentials(shop);
+  const token = credentials.data?.credentials?.shopify.stores[PRODUCTION_ENVIRONMENT]?.themeToken;
+  if (token === undefined || token === '') return { success: false, error: `No production theme token for ${shop}` };
+
+  return { success: true, data: { domain, token } };
+};
+
+export const recordCampaignRun = (manifest: CampaignManifest, name: string, shop: string, run: CampaignRun): CampaignManifest => ({
+  ...manifest,
+  campaigns: manifest.campaigns.map(campaign =>
+    campaign.name === name ? { ...campaign, runs: { ...campaign.runs, [shop]: run } } : campaign
+  )
+});
+
+export const formatCampaignRun = (report: CampaignRunReport): string => {
+  if (report.results.length === 0) return `No campaigns due at ${report.now}`;
+
+  const heading = report.dryRun ? `Campaigns due at ${report.now} (dry run, nothing changed):` : `Campaigns run at ${report.now}:`;
+  const lines = report.results.flatMap(result => [
+    `${report.dryRun ? '•' : result.success ? '✅' : '❌'} ${result.campaign} ${result.phase} on ${result.shop}`,
+    ...result.steps.map(step => `    ${step}`),
+    ...(result.error !== undefined ? [`    Error: ${result.error}`] : [])
+  ]);
+
+  return [heading, ...lines].join('\n');
+};
+
+/**
+ * Campaign Tools → Schedule Campaign: adds a campaign to shops/campaigns.json
+ */
+export const scheduleCampaign = async (context: CLIContext): Promise<Result<void>> => {
+  const manifestResult = await loadCampaignManifest(context.deps);
+  if (!manifestResult.success || !manifestResult.data) return { success: false, error: manifestResult.error ?? "Failed to load campaigns" };
+  const manifest = manifestResult.data;
+
+  const catalogResult = await loadShopCatalog(context);
+  if (!catalogResult.success || !catalogResult.data || catalogResult.data.shops.length === 0) {
+    note("No shops configured yet. Create shops first.", "⚠️ Error");
+    return { success: false, error: "No shops configured" };
+  }
+
+  const name = await text({
+    message: "Promo campaign name (the promo branch name):",
+    placeholder: "summer-sale, black-friday, holiday-2025",
+    validate: (value) => {
+      if (!CAMPAIGN_RULES.namePattern.test(value)) return `Use ${CAMPAIGN_RULES.nameDescription}`;
+      if (manifest.campaigns.some(campaign => campaign.name === value && campaign.startsAt)) return "A campaign with this name is already scheduled";
+      return undefined;
+    }
+  });
+  if (isCancel(name)) return { success: false, error: "Cancelled" };
+
+  // A campaign created with Create Campaign keeps its shops
+  const existing = manifest.campaigns.find(campaign => campaign.name === name);
+  const shops = existing?.shops ?? await pickShops(context, catalogResult.data, "Select shops for the campaign:");
+  if (shops === null || shops.length === 0) return { success: false, error: "No shop selected" };
+
+  const validateTime = (value: string): string | undefined =>
+    CAMPAIGN_RULES.timestampPattern.test(value) && !Number.isNaN(Date.parse(value)) ? undefined : "Use ISO 8601 with a time zone";
+
+  const startsAt = await text({ message: "Starts at:", placeholder: CAMPAIGN_RULES.examples.startsAt, validate: validateTime });
+  if (isCancel(startsAt)) return { success: false, error: "Cancelled" };
+
+  const endsAt = await text({
+    message: "Ends at:",
+    placeholder: CAMPAIGN_RULES.examples.endsAt,
+    validate: (value) => validateTime(value) ?? (Date.parse(value) > Date.parse(startsAt) ? undefined : "Must be after the start")
+  });
+  if (isCancel(endsAt)) return { success: false, error: "Cancelled" };
+
+  const launch = await select({
+    message: "At start:",
+    options: [
+      { value: "pull-request", label: "Open promo PR", hint: "Promo branch → production branch; rollback PR at end" },
+      { value: "publish-theme", label: "Publish promo theme", hint: "Republish the previous live theme at end" }
+    ]
+  });
+  if (isCancel(launch)) return { success: false, error: "Cancelled" };
+
+  const themes: Record<string, string> = {};
+  if (launch === "publish-theme") {
+    for (const shop of shops) {
+      const themeId = await text({
+        message: `Promo theme ID for ${shop}:`,
+        placeholder: "123456789012",
+        validate: (value) => CAMPAIGN_RULES.themeIdPattern.test(value) ? undefined : "Theme ID from the theme editor URL"
+      });
+      if (isCancel(themeId)) return { success: false, error: "Cancelled" };
+      themes[shop] = themeId;
+    }
+  }
+
+  const owner = await text({ message: "Owner (optional):", placeholder: "name or email" });
+  if (isCancel(owner)) return { success: false, error: "Cancelled" };
+
+  const campaign: Campaign = {
+    ...existing,
+    name,
+    shops,
+    startsAt,
+    endsAt,
+    launch: launch as CampaignLaunch,
+    ...(launch === "publish-theme" ? { themes } : {}),
+    ...(owner ? { owner } : {})
+  };
+
+  const others = manifest.campaigns.filter(other => other.name !== name);
+  const saved = await saveCampaignManifest(context.deps, { ...manifest, campaigns: [...others, campaign] });
+  if (!saved.success) return saved;
+
+  note(`Saved to shops/${MANIFEST_FILE}. Run \`multi-shop campaign run-due\` on a schedule to launch and end it.`, "✅ Campaign scheduled");
+  return { success: true };
+};
@@ -1,6 +1,20 @@
-import { select, isCancel, text, note, confirm, spinner } from "@clack/prompts";
-import { execSync } from "child_process";
-import type { CLIContext, Result } from "./types.js";
+import { select, multiselect, isCancel, text, note, confirm, spinner } from "@clack/prompts";
+import type { CLIContext, GitOperations, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { loadShopCatalog, pickShops } from "./shop-selection.js";
+import { environmentBranchName, loadBranchNaming, parsePromoBranch, promoBranchName, type BranchNaming } from "./branch-naming.js";
+import { PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { scheduleCampaign } from "./campaign-schedule.js";
+import { formatPromoDashboard, getPromoDashboard } from "./promo-dashboard.js";
+import { filesLostByTeardown, planPromoTeardown, teardownPromo } from "./promo-teardown.js";
+import { formatPromoRefresh, refreshPromo } from "./promo-refresh.js";
+import { createCampaignInteractive, endCampaignInteractive, pushCampaignInteractive, showCampaignStatus } from "./campaigns.js";
+import {
+  createPullRequestProvider,
+  getManualPullRequestGuide,
+  loadPullRequestSettings,
+  openOrUpdatePullRequest
+} from "./pull-requests.js";
 
 /**
  * Campaign tools for managing promotional campaigns and time-based theme variations
@@ -13,8 +27,14 @@ export const handleCampaignTools = async (context: CLIContext): Promise<Result<v
     options: [
       { value: "create", label: "Create Promo Branch", hint: "Start new campaign" },
       { value: "push", label: "Push Promo to Main", hint: "Merge campaign content back" },
+      { value: "refresh", label: "Refresh Promo", hint: "Bring in the latest from the shop's main branch" },
       { value: "end", label: "End Promo", hint: "Cleanup after campaign" },
-      { value: "list", label: "List Active Promos", hint: "Show all promo branches" }
+      { value: "campaign-create", label: "Create Campaign", hint: "Promo branches on several shops at once" },
+      { value: "campaign-push", label: "Open Campaign PRs", hint: "Every shop's promo PR in one go" },
+      { value: "campaign-end", label: "End Campaign", hint: "Remove the promo branches everywhere" },
+      { value: "campaign-status", label: "Campaign Status", hint: "Per-shop progress of every campaign" },
+      { value: "schedule", label: "Schedule Campaign", hint: "Launch and end a promo automatically" },
+      { value: "list", label: "List Active Promos", hint: "Age, drift, PR state and stale promos" }
     ]
   });
 
@@ -27,8 +47,20 @@ export const handleCampaignTools = async (context: CLIContext): Promise<Result<v
       return createPromoBranch(context);
     case "push":
       return pushPromoToMain(context);
+    case "refresh":
+      return refreshCurrentPromo(context);
     case "end":
       return endPromo(context);
+    case "campaign-create":
+      return createCampaignInteractive(context);
+    case "campaign-push":
+      return pushCampaignInteractive(context);
+    case "campaign-end":
+      return endCampaignInteractive(context);
+    case "campaign-status":
+      return showCampaignStatus(context);
+    case "schedule":
+      return scheduleCampaign(context);
     case "list":
       return listActivePromos(context);
     default:
@@ -39,15 +71,15 @@ export const handleCampaignTools = async (context: CLIContext): Promise<Result<v
 const createPromoBranch = async (context: CLIContext): Promise<Result<void>> => {
   note("Create a promo branch for a campaign or seasonal promotion", "🎯 Create Promo Branch");
 
-  // Select shop
-  const shopsResult = await context.shopOps.listShops();
-  if (!shopsResult.success || !shopsResult.data?.length) {
+  // Select shops (grouped by tag and group once shops are tagged or grouped)
+  const catalogResult = await loadShopCatalog(context);
+  if (!catalogResult.success || !catalogResult.data?.shops.length) {
     note("No shops configured yet. Create shops first.", "⚠️ Error");
     return { success: false, error: "No shops configured" };
   }
 
-  const shopId = await selectShop(shopsResult.data);
-  if (!shopId) return { success: false, error: "No shop selected" };
+  const shopIds = await pickShops(context, catalogResult.data, "Select shops for the promo:");
+  if (!shopIds?.length) return { success: false, error: "No shop selected" };
 
   // Get promo name
   const promoName = await text({
@@ -62,16 +94,31 @@ const createPromoBranch = async (context: CLIContext): Promise<Result<void>> =>
 
   if (isCancel(promoName)) return { success: false, error: "Cancelled" };
 
-  const branchName = `${shopId}/promo-${promoName}`;
-  const baseBranch = `${shopId}/main`;
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+  const naming = namingResult.data;
 
-  return createAndPushPromoBranch(branchName, baseBranch, shopId, promoName as string);
+  const failed: string[] = [];
+  for (const shopId of shopIds) {
+    const branchName = promoBranchName(naming, shopId, promoName as string);
+    const baseBranch = await resolveProductionBranch(context, naming, shopId);
+
+    const result = await createAndPushPromoBranch(context.gitOps, branchName, baseBranch, promoName as string);
+    if (!result.success) {
+      if (shopIds.length === 1) return result;
+      failed.push(shopId);
+    }
+  }
+
+  return failed.length > 0
+    ? { success: false, error: `Promo branch not created for: ${failed.join(', ')}` }
+    : { success: true };
 };
 
 const createAndPushPromoBranch = async (
+  git: GitOperations,
   branchName: string,
   baseBranch: string,
-  shopId: string,
   promoName: string
 ): Promise<Result<void>> => {
   const s = spinner();
@@ -80,23 +127,22 @@ const createAndPushPromoBranch = async (
     s.start("Creating promo branch...");
 
     // Check if base branch exists
-    try {
-      execSync(`git rev-parse --verify origin/${baseBranch}`, { stdio: 'ignore' });
-    } catch {
+    const baseExists = await git.branchExists(baseBranch, { remote: true });
+    if (!baseExists.data) {
       s.stop("❌ Base branch not found");
       note(`Branch ${baseBranch} doesn't exist. Create the shop first.`, "⚠️ Error");
       return { success: false, error: `Base branch ${baseBranch} not found` };
     }
 
-    // Create branch from shop/main
-    execSync(`git checkout -b ${branchName} origin/${baseBranch}`);
+    // Create branch from the shop's production branch
+    await unwrapGitResult(git.createBranch(branchName, `origin/${baseBranch}`));
     s.message("Branch created locally");
 
     // Push to GitHub
-    execSync(`git push -u origin ${branchName}`);
+    await unwrapGitResult(git.pushBranch(branchName, { setUpstream: true }));
     s.stop("✅ Promo branch created and pushed");
 
-    displayPromoNextSteps(shopId, branchName, promoName);
+    displayPromoNextSteps(baseBranch, branchName, promoName);
 
     return { success: true };
   } catch (error) {
@@ -108,38 +154,120 @@ const createAndPushPromoBranch = async (
   }
 };
 
-const pushPromoToMain = async (_context: CLIContext): Promise<Result<void>> => {
+const pushPromoToMain = async (context: CLIContext): Promise<Result<void>> => {
   note("Push promo campaign content back to shop main branch", "🔄 Push Promo to Main");
 
-  const currentBranch = getCurrentBranch();
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const currentBranch = await getCurrentBranch(context.gitOps);
 
   // Validate we're on a promo branch
-  if (!currentBranch.includes('/promo-')) {
+  const promo = parsePromoBranch(namingResult.data, currentBranch);
+  if (!promo) {
     note(`You're not on a promo branch. Current: ${currentBranch}`, "⚠️ Error");
     return { success: false, error: "Not on promo branch" };
   }
 
-  const shopId = currentBranch.split('/')[0];
-  const targetBranch = `${shopId}/main`;
+  const targetBranch = await resolveProductionBranch(context, namingResult.data, promo.shopId);
 
   const confirm = await confirmPushPromo(currentBranch, targetBranch);
   if (!confirm) return { success: false, error: "Cancelled" };
 
-  return createPromoToMainPR(currentBranch, targetBranch);
+  return createPromoToMainPR(context, currentBranch, targetBranch, promo.promo);
 };
 
-const endPromo = async (_context: CLIContext): Promise<Result<void>> => {
+const refreshCurrentPromo = async (context: CLIContext): Promise<Result<void>> => {
+  note("Bring the shop's main branch changes into the promo branch", "🔄 Refresh Promo");
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const currentBranch = await getCurrentBranch(context.gitOps);
+
+  const promo = parsePromoBranch(namingResult.data, currentBranch);
+  if (!promo) {
+    note(`You're not on a promo branch. Current: ${currentBranch}`, "⚠️ Error");
+    return { success: false, error: "Not on promo branch" };
+  }
+
+  const strategy = await select({
+    message: "How should the promo be updated?",
+    options: [
+      { value: "merge", label: "Merge", hint: "Adds a merge commit, safe for shared branches" },
+      { value: "rebase", label: "Rebase", hint: "Linear history, force-pushes the promo" }
+    ]
+  });
+  if (isCancel(strategy)) return { success: false, error: "Cancelled" };
+
+  const push = await confirm({ message: `Push ${currentBranch} to origin afterwards?`, initialValue: true });
+  if (isCancel(push)) return { success: false, error: "Cancelled" };
+
+  const result = await refreshPromo(context, namingResult.data, currentBranch, { rebase: strategy === "rebase", push });
+  if (!result.success || !result.data) return { success: false, error: result.error ?? "Failed to refresh promo" };
+
+  console.log(`${formatPromoRefresh(result.data)}\n`);
+
+  return result.data.status === 'conflict'
+    ? { success: false, error: `Conflicts refreshing ${currentBranch}: ${result.data.conflicts.join(', ')}` }
+    : { success: true };
+};
+
+const endPromo = async (context: CLIContext): Promise<Result<void>> => {
   note("End a promo campaign and cleanup", "🧹 End Promo");
 
-  const currentBranch = getCurrentBranch();
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
 
-  if (!currentBranch.includes('/promo-')) {
+  const git = context.gitOps;
+  const currentBranch = await getCurrentBranch(git);
+
+  const promo = parsePromoBranch(namingResult.data, currentBranch);
+  if (!promo) {
     note("Not on a promo branch. Switch to promo branch first.", "⚠️ Error");
     return { success: false, error: "Not on promo branch" };
   }
 
+  const planResult = await planPromoTeardown(context, namingResult.data, currentBranch);
+  if (!planResult.success || !planResult.data) return { success: false, error: planResult.error ?? "Failed to check promo branch" };
+  const plan = planResult.data;
+
+  let rescue: string[] = [];
+  let force = false;
+
+  if (plan.unmergedFiles.length > 0) {
+    note(
+      `${plan.unmergedCommits} commit${plan.unmergedCommits === 1 ? '' : 's'} not merged into ${plan.base}:\n` +
+        plan.unmergedFiles.map(file => `  • ${file}`).join('\n'),
+      "⚠️ Unmerged Changes"
+    );
+
+    if (plan.contentFiles.length > 0) {
+      const selected = await multiselect({
+        message: `Carry content files back to ${plan.base}?`,
+        options: plan.contentFiles.map(file => ({ value: file, label: file })),
+        required: false
+      });
+      if (isCancel(selected)) return { success: false, error: "Cancelled" };
+      rescue = selected;
+    }
+
+    const lost = filesLostByTeardown(plan, rescue);
+    if (lost.length > 0) {
+      const forceDelete = await confirm({
+        message: `${lost.length} unmerged file${lost.length === 1 ? '' : 's'} will only survive in tag ${plan.archiveTag}. Delete anyway?`,
+        initialValue: false
+      });
+      if (isCancel(forceDelete) || !forceDelete) {
+        note(`Merge ${currentBranch} into ${plan.base} first (Push Promo to Main), or rescue the content files.`, "🛑 Teardown Refused");
+        return { success: false, error: "Promo has unmerged changes" };
+      }
+      force = true;
+    }
+  }
+
   const confirmDelete = await confirm({
-    message: `Delete branch ${currentBranch}? This can't be undone.`,
+    message: `Delete branch ${currentBranch}? It will be archived as tag ${plan.archiveTag}.`,
     initialValue: false
   });
 
@@ -150,76 +278,62 @@ const endPromo = async (_context: CLIContext): Promise<Result<void>> => {
   const s = spinner();
   s.start("Cleaning up promo branch...");
 
-  try {
-    const shopMain = `${currentBranch.split('/')[0]}/main`;
-
-    execSync(`git checkout ${shopMain}`);
-    s.message("Switched to shop main");
-
-    execSync(`git branch -D ${currentBranch}`);
-    s.message("Deleted local branch");
-
-    execSync(`git push origin --delete ${currentBranch}`);
-    s.stop("✅ Promo branch deleted");
-
-    note(`Branch ${currentBranch} has been deleted locally and on GitHub`, "✅ Cleanup Complete");
-
-    return { success: true };
-  } catch (error) {
+  const result = await teardownPromo(context, plan, { force, rescue });
+  if (!result.success || !result.data) {
     s.stop("❌ Cleanup failed");
-    return {
-      success: false,
-      error: `Failed to cleanup: ${error instanceof Error ? error.message : String(error)}`
-    };
+    return { success: false, error: result.error ?? "Failed to cleanup" };
   }
+  s.stop("✅ Promo branch deleted");
+
+  const rescued = result.data.rescued.length > 0
+    ? `\nRescued onto ${plan.base} (not pushed): ${result.data.rescued.join(', ')}`
+    : '';
+  note(
+    `Branch ${currentBranch} has been deleted locally and on origin.\n` +
+      `Archived as tag ${result.data.archiveTag} (git checkout ${result.data.archiveTag} to look back).${rescued}`,
+    "✅ Cleanup Complete"
+  );
+
+  return { success: true };
 };
 
-const listActivePromos = async (_context: CLIContext): Promise<Result<void>> => {
-  try {
-    const branches = execSync('git branch -r', { encoding: 'utf8' })
-      .split('\n')
-      .map(b => b.trim())
-      .filter(b => b.includes('/promo-'))
-      .map(b => b.replace('origin/', ''));
-
-    if (branches.length === 0) {
-      note("No active promo branches found", "📋 Active Promos");
-      return { success: true };
-    }
-
-    note(`Found ${branches.length} active promo branch${branches.length === 1 ? '' : 'es'}:`, "📋 Active Promos");
-
-    branches.forEach(branch => {
-      const [shop, promo] = branch.split('/promo-');
-      console.log(`\n🎯 ${shop}/${promo}`);
-      console.log(`   Branch: ${branch}`);
-    });
+const listActivePromos = async (context: CLIContext): Promise<Result<void>> => {
+  const s = spinner();
+  s.start("Checking promo branches...");
 
-    console.log();
+  const result = await getPromoDashboard(context);
+  if (!result.success || !result.data) {
+    s.stop("❌ Failed to list promos");
+    return { success: false, error: `Failed to list promos: ${result.error}` };
+  }
+  s.stop("✅ Promo branches checked");
 
+  const { promos } = result.data;
+  if (promos.length === 0) {
+    note("No active promo branches found", "📋 Active Promos");
     return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to list promos: ${error instanceof Error ? error.message : String(error)}`
-    };
   }
+
+  note(`Found ${promos.length} active promo branch${promos.length === 1 ? '' : 'es'}:`, "📋 Active Promos");
+  console.log(`\n${formatPromoDashboard(result.data)}\n`);
+
+  return { success: true };
 };
 
 // Helper functions
-const selectShop = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop for promo:",
-    options: shops.map(shop => ({ value: shop, label: shop }))
-  });
-
-  return isCancel(shopChoice) ? null : String(shopChoice);
+const getCurrentBranch = async (git: GitOperations): Promise<string> => {
+  const result = await git.getCurrentBranch();
+  return result.data ?? '';
 };
 
-const getCurrentBranch = (): string => {
-  return execSync('git branch --show-current', { encoding: 'utf8' }).trim();
+/** Promos start from and merge back into the production branch from the shop config */
+const resolveProductionBranch = async (context: CLIContext, naming: BranchNaming, shopId: string): Promise<string> => {
+  const configResult = await context.shopOps.loadConfig(shopId);
+  return configResult.data?.shopify.stores[PRODUCTION_ENVIRONMENT]?.branch
+    ?? environmentBranchName(naming, shopId, PRODUCTION_ENVIRONMENT);
 };
 
+
 const confirmPushPromo = async (from: string, to: string): Promise<boolean> => {
   const confirmPush = await confirm({
     message: `Create PR: ${from} → ${to}?`,
@@ -229,51 +343,58 @@ const confirmPushPromo = async (from: string, to: string): Promise<boolean> => {
   return !isCancel(confirmPush) && Boolean(confirmPush);
 };
 
-const createPromoToMainPR = async (fromBranch: string, toBranch: string): Promise<Result<void>> => {
+const createPromoToMainPR = async (
+  context: CLIContext,
+  fromBranch: string,
+  toBranch: string,
+  promoName: string
+): Promise<Result<void>> => {
   const s = spinner();
+  s.start("Creating PR...");
 
-  try {
-    s.start("Creating PR...");
-
-    const prTitle = `Deploy promo campaign: ${fromBranch.split('/promo-')[1]}`;
-    const prBody = `Merge promo campaign content from ${fromBranch} to ${toBranch}.
+  const prTitle = `Deploy promo campaign: ${promoName}`;
+  const prBody = `Merge promo campaign content from ${fromBranch} to ${toBranch}.
 
 This includes all customizations made during the campaign.
 
 **Review carefully:** This PR contains campaign-specific content that should be merged to keep ${toBranch} current.`;
 
-    execSync(
-      `gh pr create --base ${toBranch} --head ${fromBranch} --title "${prTitle}" --body "${prBody}"`,
-      { stdio: 'pipe' }
-    );
-
-    s.stop("✅ PR created");
-    note(`PR created: ${fromBranch} → ${toBranch}`, "✅ Success");
-
+  const request = { head: fromBranch, base: toBranch, title: prTitle, body: prBody };
+  const settings = await loadPullRequestSettings(context);
+  const provider = await createPullRequestProvider(context, settings);
+  const outcome = provider.success && provider.data
+    ? await openOrUpdatePullRequest({ provider: provider.data, settings }, request)
+    : { success: false as const, error: provider.error };
+
+  if (outcome.success && outcome.data) {
+    s.stop(outcome.data.updated ? "✅ PR updated" : "✅ PR created");
+    note(`PR ${outcome.data.updated ? 'updated' : 'created'}: ${fromBranch} → ${toBranch}`, "✅ Success");
+    if (outcome.data.warnings.length > 0) note(outcome.data.warnings.join('\n'), "⚠️ Warnings");
     return { success: true };
-  } catch (error) {
-    s.stop("❌ PR creation failed");
-
-    const manualInstructions = `
-Manual PR creation:
+  }
 
-GitHub CLI:
-  gh pr create --base ${toBranch} --head ${fromBranch}
+  s.stop("❌ PR creation failed");
 
-GitHub Web:
+  const guide = getManualPullRequestGuide(settings.provider);
+  const manualInstructions = `
+Manual PR creation:
+${guide.command ? `
+${guide.hostName} CLI:
+  ${guide.command({ head: fromBranch, base: toBranch, title: prTitle })}
+` : ''}
+${guide.hostName} Web:
   1. Go to your repository
-  2. Click "Pull requests" → "New pull request"
+  2. ${guide.webSteps.join(' ')}
   3. Set base: ${toBranch}, compare: ${fromBranch}
-  4. Create pull request
+  4. Create the request
 `;
 
-    console.log(manualInstructions);
+  console.log(manualInstructions);
 
-    return { success: true }; // Don't fail, just show manual instructions
-  }
+  return { success: true }; // Don't fail, just show manual instructions
 };
 
-const displayPromoNextSteps = (shopId: string, branchName: string, promoName: string): void => {
+const displayPromoNextSteps = (baseBranch: string, branchName: string, promoName: string): void => {
   note(`Promo branch created: ${promoName}`, "✅ Success");
 
   console.log(`\n📋 Next Steps for ${promoName} campaign:\n`);
@@ -289,7 +410,7 @@ const displayPromoNextSteps = (shopId: string, branchName: string, promoName: st
   console.log();
   console.log(`4. After campaign ends:`);
   console.log(`   - Run: pnpm run shop → Campaign Tools → Push Promo to Main`);
-  console.log(`   - This merges content back to ${shopId}/main`);
+  console.log(`   - This merges content back to ${baseBranch}`);
   console.log();
   console.log(`5. Cleanup:`);
   console.log(`   - Run: pnpm run shop → Campaign Tools → End Promo`);
@@ -0,0 +1,390 @@
+import { select, text, confirm, isCancel, note } from "@clack/prompts";
+import type { Campaign, CampaignManifest, CampaignRun } from "../../types/shop.js";
+import type { CLIContext, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { campaignBranches, loadBranchNaming, type BranchNaming } from "./branch-naming.js";
+import { loadCampaignManifest, recordCampaignRun, saveCampaignManifest } from "./campaign-schedule.js";
+import { loadShopCatalog, pickShops } from "./shop-selection.js";
+import { createPullRequestProvider, loadPullRequestSettings, openOrUpdatePullRequest } from "./pull-requests.js";
+import { endPromoBranch } from "./promo-teardown.js";
+import { CAMPAIGN_RULES, VALIDATION_ERRORS } from "./validation-schemas.js";
+
+/**
+ * Campaigns spanning several shops (shops/campaigns.json)
+ * Create every shop's promo branch, open every promo → production PR and end the campaign
+ * everywhere in one action each, with progress recorded per shop in the manifest
+ */
+
+/** no-branch → branch → pr-open → ended; live once run-due launched a scheduled campaign */
+export type CampaignShopState = 'no-branch' | 'branch' | 'pr-open' | 'live' | 'ended';
+
+export interface CampaignShopResult {
+  readonly shop: string;
+  readonly branch: string;
+  readonly success: boolean;
+  readonly error?: string;
+  /** Promo PR (push) */
+  readonly url?: string;
+  /** Tag the promo branch was archived as (end) */
+  readonly archiveTag?: string;
+}
+
+export interface CampaignShopStatus {
+  readonly shop: string;
+  readonly branch: string;
+  readonly state: CampaignShopState;
+  readonly pullRequest?: string;
+}
+
+export interface CampaignStatus {
+  readonly name: string;
+  readonly owner?: string;
+  readonly startsAt?: string;
+  readonly endsAt?: string;
+  readonly shops: CampaignShopStatus[];
+}
+
+export interface CreateCampaignRequest {
+  readonly name: string;
+  readonly shops: readonly string[];
+  readonly owner?: string;
+}
+
+/** Loaded manifest, branch naming and the named campaign */
+interface CampaignScope {
+  readonly manifest: CampaignManifest;
+  readonly naming: BranchNaming;
+  readonly campaign: Campaign;
+}
+
+/** Adds the campaign (or new shops to it) and creates and pushes each shop's promo branch */
+export const createCampaign = async (context: CLIContext, request: CreateCampaignRequest): Promise<Result<CampaignShopResult[]>> => {
+  if (!CAMPAIGN_RULES.namePattern.test(request.name)) return { success: false, error: VALIDATION_ERRORS.campaign.name };
+  if (request.shops.length === 0) return { success: false, error: VALIDATION_ERRORS.campaign.shops };
+
+  const manifestResult = await loadCampaignManifest(context.deps);
+  if (!manifestResult.success || !manifestResult.data) return { success: false, error: manifestResult.error ?? "Failed to load campaigns" };
+
+  const existing = manifestResult.data.campaigns.find(campaign => campaign.name === request.name);
+  const owner = request.owner ?? existing?.owner;
+  const campaign: Campaign = {
+    ...existing,
+    name: request.name,
+    shops: [...new Set([...(existing?.shops ?? []), ...request.shops])],
+    ...(owner !== undefined ? { owner } : {})
+  };
+  const manifest: CampaignManifest = {
+    ...manifestResult.data,
+    campaigns: existing
+      ? manifestResult.data.campaigns.map(other => other.name === campaign.name ? campaign : other)
+      : [...manifestResult.data.campaigns, campaign]
+  };
+
+  const scope = await loadScope(context, manifest, campaign.name);
+  if (!scope.success || !scope.data) return { success: false, error: scope.error ?? "Failed to load campaign" };
+
+  return fanOut(context, scope.data, request.shops, async (shop, branches, run) => {
+    const git = context.gitOps;
+
+    const exists = await unwrapGitResult(git.branchExists(branches.promo, { remote: true }));
+    if (exists !== true) {
+      const baseExists = await unwrapGitResult(git.branchExists(branches.production, { remote: true }));
+      if (baseExists !== true) throw new Error(`Base branch ${branches.production} not found`);
+
+      await unwrapGitResult(git.createBranch(branches.promo, `origin/${branches.production}`));
+      await unwrapGitResult(git.pushBranch(branches.promo, { setUpstream: true }));
+    }
+
+    return { run: { ...run, branchCreatedAt: run.branchCreatedAt ?? new Date().toISOString() } };
+  });
+};
+
+/** Opens (or updates) the promo → production PR of every shop still running the campaign */
+export const pushCampaign = async (context: CLIContext, name: string): Promise<Result<CampaignShopResult[]>> => {
+  const scope = await loadScope(context, undefined, name);
+  if (!scope.success || !scope.data) return { success: false, error: scope.error ?? "Failed to load campaign" };
+
+  const settings = await loadPullRequestSettings(context);
+  const provider = await createPullRequestProvider(context, settings);
+  if (!provider.success || !provider.data) return { success: false, error: provider.error ?? "Pull request provider unavailable" };
+  const target = { provider: provider.data, settings };
+
+  return fanOut(context, scope.data, activeShops(scope.data.campaign), async (shop, branches, run) => {
+    const outcome = await openOrUpdatePullRequest(target, {
+      head: branches.promo,
+      base: branches.production,
+      title: `Deploy promo campaign: ${name}`,
+      body: `Merge ${name} campaign content from ${branches.promo} to ${branches.production}.\n\n` +
+        `Part of the ${name} campaign on ${scope.data?.campaign.shops.join(', ')}.`
+    });
+    if (!outcome.success || !outcome.data) throw new Error(outcome.error ?? `Failed to open PR for ${shop}`);
+
+    const url = outcome.data.url;
+    return { run: { ...run, pullRequests: [...new Set([...(run.pullRequests ?? []), url])] }, url };
+  });
+};
+
+/**
+ * Archives and deletes every shop's promo branch, locally and on origin, and marks the campaign ended
+ * Shops whose promo has changes not merged into production are refused unless forced
+ */
+export const endCampaign = async (context: CLIContext, name: string, options: { force?: boolean } = {}): Promise<Result<CampaignShopResult[]>> => {
+  const scope = await loadScope(context, undefined, name);
+  if (!scope.success || !scope.data) return { success: false, error: scope.error ?? "Failed to load campaign" };
+  const { naming } = scope.data;
+
+  return fanOut(context, scope.data, activeShops(scope.data.campaign), async (_shop, branches, run) => {
+    const git = context.gitOps;
+    const ended = { run: { ...run, endedAt: new Date().toISOString() } };
+
+    const exists = (await unwrapGitResult(git.branchExists(branches.promo, { remote: true }))) === true
+      || (await unwrapGitResult(git.branchExists(branches.promo))) === true;
+    if (!exists) return ended;
+
+    const teardown = await endPromoBranch(context, naming, branches.promo, { force: Boolean(options.force) });
+    if (!teardown.success || !teardown.data) throw new Error(teardown.error ?? `Failed to end ${branches.promo}`);
+
+    return { ...ended, archiveTag: teardown.data.archiveTag };
+  });
+};
+
+/** Every campaign, or the named one, with each shop's state */
+export const getCampaignStatus = async (context: CLIContext, name?: string): Promise<Result<CampaignStatus[]>> => {
+  const manifestResult = await loadCampaignManifest(context.deps);
+  if (!manifestResult.success || !manifestResult.data) return { success: false, error: manifestResult.error ?? "Failed to load campaigns" };
+
+  const campaigns = manifestResult.data.campaigns.filter(campaign => name === undefined || campaign.name === name);
+  if (name !== undefined && campaigns.length === 0) return { success: false, error: `Campaign ${name} not found in shops/campaigns.json` };
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const remoteBranches = await context.gitOps.listBranches({ remote: true });
+  if (!remoteBranches.success) return { success: false, error: remoteBranches.error ?? "Failed to list branches" };
+  const onOrigin = new Set(remoteBranches.data ?? []);
+
+  const statuses: CampaignStatus[] = [];
+  for (const campaign of campaigns) {
+    const shops: CampaignShopStatus[] = [];
+    for (const shop of campaign.shops) {
+      const { promo } = await campaignBranches(context, namingResult.data, campaign.name, shop);
+      const run = campaign.runs?.[shop] ?? {};
+      const pullRequest = run.pullRequests?.at(-1);
+      shops.push({ shop, branch: promo, state: shopState(run, onOrigin.has(promo)), ...(pullRequest !== undefined ? { pullRequest } : {}) });
+    }
+
+    statuses.push({
+      name: campaign.name,
+      ...(campaign.owner !== undefined ? { owner: campaign.owner } : {}),
+      ...(campaign.startsAt !== undefined ? { startsAt: campaign.startsAt } : {}),
+      ...(campaign.endsAt !== undefined ? { endsAt: campaign.endsAt } : {}),
+      shops
+    });
+  }
+
+  return { success: true, data: statuses };
+};
+
+const shopState = (run: CampaignRun, branchOnOrigin: boolean): CampaignShopState => {
+  if (run.endedAt !== undefined) return 'ended';
+  if (run.startedAt !== undefined) return 'live';
+  if ((run.pullRequests?.length ?? 0) > 0) return 'pr-open';
+  return branchOnOrigin ? 'branch' : 'no-branch';
+};
+
+const activeShops = (campaign: Campaign): string[] => campaign.shops.filter(shop => campaign.runs?.[shop]?.endedAt === undefined);
+
+const loadScope = async (context: CLIContext, manifest: CampaignManifest | undefined, name: string): Promise<Result<CampaignScope>> => {
+  let loaded = manifest;
+  if (!loaded) {
+    const manifestResult = await loadCampaignManifest(context.deps);
+    if (!manifestResult.success || !manifestResult.data) return { success: false, error: manifestResult.error ?? "Failed to load campaigns" };
+    loaded = manifestResult.data;
+  }
+
+  const campaign = loaded.campaigns.find(candidate => candidate.name === name);
+  if (!campaign) return { success: false, error: `Campaign ${name} not found in shops/campaigns.json` };
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  return { success: true, data: { manifest: loaded, naming: namingResult.data, campaign } };
+};
+
+type ShopStep = (
+  shop: string,
+  branches: { promo: string; production: string },
+  run: CampaignRun
+) => Promise<{ run: CampaignRun; url?: string; archiveTag?: string }>;
+
+/**
+ * Runs one step per shop; a failing shop doesn't stop the others
+ * Successful steps are saved to the manifest and the original branch is checked out again
+ */
+const fanOut = async (context: CLIContext, scope: CampaignScope, shops: readonly string[], step: ShopStep): Promise<Result<CampaignShopResult[]>> => {
+  const git = context.gitOps;
+  const currentBranch = (await git.getCurrentBranch()).data ?? '';
+  const originalRef = currentBranch !== '' ? currentBranch : (await git.getHeadCommit()).data ?? '';
+  const { naming, campaign } = scope;
+
+  let manifest = scope.manifest;
+  const results: CampaignShopResult[] = [];
+
+  try {
+    for (const shop of shops) {
+      const branches = await campaignBranches(context, naming, campaign.name, shop);
+      try {
+        const outcome = await step(shop, branches, campaign.runs?.[shop] ?? {});
+        manifest = recordCampaignRun(manifest, campaign.name, shop, outcome.run);
+        results.push({
+          shop,
+          branch: branches.promo,
+          success: true,
+          ...(outcome.url !== undefined ? { url: outcome.url } : {}),
+          ...(outcome.archiveTag !== undefined ? { archiveTag: outcome.archiveTag } : {})
+        });
+      } catch (error) {
+        results.push({ shop, branch: branches.promo, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    // Fails harmlessly when the original branch was a promo branch that just got deleted
+    if (originalRef !== '' && (await git.getCurrentBranch()).data !== originalRef) await git.checkout(originalRef);
+  }
+
+  const saved = await saveCampaignManifest(context.deps, manifest);
+  if (!saved.success) return { success: false, error: saved.error ?? "Failed to save campaigns" };
+
+  return { success: true, data: results };
+};
+
+const STATE_LABELS: Record<CampaignShopState, string> = {
+  'no-branch': '⚪ no branch',
+  branch: '🌿 branch ready',
+  'pr-open': '🔀 PR open',
+  live: '🚀 live',
+  ended: '🏁 ended'
+};
+
+export const formatCampaignStatus = (statuses: readonly CampaignStatus[]): string => {
+  if (statuses.length === 0) return "No campaigns in shops/campaigns.json";
+
+  return statuses.map(status => {
+    const details = [
+      ...(status.owner !== undefined ? [`owner ${status.owner}`] : []),
+      ...(status.startsAt !== undefined && status.endsAt !== undefined ? [`${status.startsAt} → ${status.endsAt}`] : [])
+    ];
+    const header = ['Shop', 'Branch', 'Status', 'PR'];
+    const rows = [header, ...status.shops.map(shop =>
+      [shop.shop, shop.branch, STATE_LABELS[shop.state], shop.pullRequest ?? '']
+    )];
+    const widths = header.map((_, column) => Math.max(...rows.map(row => row[column]?.length ?? 0)));
+
+    return [
+      `🎯 ${status.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+      ...rows.map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd()}`)
+    ].join('\n');
+  }).join('\n\n');
+};
+
+export const formatCampaignResults = (action: string, results: readonly CampaignShopResult[]): string =>
+  results.map(result => result.success
+    ? `✅ ${result.shop}: ${action} ${result.url ?? result.branch}${result.archiveTag !== undefined ? ` (archived as ${result.archiveTag})` : ''}`
+    : `❌ ${result.shop}: ${result.error}`
+  ).join('\n');
+
+/**
+ * Campaign Tools → Create Campaign: promo branches on several shops at once
+ */
+export const createCampaignInteractive = async (context: CLIContext): Promise<Result<void>> => {
+  const catalogResult = await loadShopCatalog(context);
+  if (!catalogResult.success || !catalogResult.data || catalogResult.data.shops.length === 0) {
+    note("No shops configured yet. Create shops first.", "⚠️ Error");
+    return { success: false, error: "No shops configured" };
+  }
+
+  const name = await text({
+    message: "Campaign name:",
+    placeholder: "black-friday, summer-sale, holiday-2025",
+    validate: (value) => CAMPAIGN_RULES.namePattern.test(value) ? undefined : `Use ${CAMPAIGN_RULES.nameDescription}`
+  });
+  if (isCancel(name)) return { success: false, error: "Cancelled" };
+
+  const shops = await pickShops(context, catalogResult.data, "Select shops for the campaign:");
+  if (shops === null || shops.length === 0) return { success: false, error: "No shop selected" };
+
+  const owner = await text({ message: "Owner (optional):", placeholder: "name or email" });
+  if (isCancel(owner)) return { success: false, error: "Cancelled" };
+
+  const result = await createCampaign(context, { name, shops, ...(owner ? { owner } : {}) });
+  return reportResults(result, "created", `🎯 Campaign ${name}`);
+};
+
+/** Campaign Tools → Push Campaign to Main */
+export const pushCampaignInteractive = async (context: CLIContext): Promise<Result<void>> => {
+  const name = await pickCampaign(context, "Open promo PRs for which campaign?");
+  if (name === null) return { success: false, error: "No campaign selected" };
+
+  return reportResults(await pushCampaign(context, name), "PR", "🔄 Campaign PRs");
+};
+
+/** Campaign Tools → End Campaign */
+export const endCampaignInteractive = async (context: CLIContext): Promise<Result<void>> => {
+  const name = await pickCampaign(context, "End which campaign?");
+  if (name === null) return { success: false, error: "No campaign selected" };
+
+  const confirmed = await confirm({
+    message: `Archive and delete every ${name} promo branch, locally and on origin?`,
+    initialValue: false
+  });
+  if (isCancel(confirmed) || !confirmed) return { success: false, error: "Cancelled" };
+
+  const result = await endCampaign(context, name);
+  const failed = result.data?.filter(shop => !shop.success) ?? [];
+  if (failed.length === 0) return reportResults(result, "deleted", "🧹 Campaign ended");
+
+  note(formatCampaignResults("deleted", result.data ?? []), "⚠️ Not Ended Everywhere");
+  const force = await confirm({
+    message: `Force-end ${failed.map(shop => shop.shop).join(', ')}? Unmerged changes will only survive in the archive tags.`,
+    initialValue: false
+  });
+  if (isCancel(force) || !force) return { success: false, error: `Failed for: ${failed.map(shop => shop.shop).join(', ')}` };
+
+  return reportResults(await endCampaign(context, name, { force: true }), "deleted", "🧹 Campaign ended");
+};
+
+/** Campaign Tools → Campaign Status */
+export const showCampaignStatus = async (context: CLIContext): Promise<Result<void>> => {
+  const result = await getCampaignStatus(context);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? "Failed to load campaigns" };
+
+  console.log(`\n${formatCampaignStatus(result.data)}\n`);
+  return { success: true };
+};
+
+const pickCampaign = async (context: CLIContext, message: string): Promise<string | null> => {
+  const manifestResult = await loadCampaignManifest(context.deps);
+  const campaigns = (manifestResult.data?.campaigns ?? []).filter(campaign => activeShops(campaign).length > 0);
+  if (campaigns.length === 0) {
+    note(manifestResult.error ?? "No running campaigns. Create one first.", "⚠️ No Campaigns");
+    return null;
+  }
+
+  const choice = await select({
+    message,
+    options: campaigns.map(campaign => ({ value: campaign.name, label: campaign.name, hint: campaign.shops.join(', ') }))
+  });
+  return isCancel(choice) ? null : String(choice);
+};
+
+const reportResults = (result: Result<CampaignShopResult[]>, action: string, title: string): Result<void> => {
+  if (!result.success || !result.data) {
+    note(result.error ?? "Campaign action failed", "❌ Error");
+    return { success: false, error: result.error ?? "Campaign action failed" };
+  }
+
+  note(formatCampaignResults(action, result.data), title);
+
+  const failed = result.data.filter(shop => !shop.success).map(shop => shop.shop);
+  return failed.length > 0 ? { success: false, error: `Failed for: ${failed.join(', ')}` } : { success: true };
+};
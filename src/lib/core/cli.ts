@@ -5,6 +5,7 @@ import { startDevelopmentWorkflow } from "./dev-operations.js";
 import { editShop } from "./shop-editing.js";
 import { handleTools } from "./tools.js";
 import { handleCampaignTools } from "./campaign-tools.js";
+import { listEnvironments, environmentLabel, PRODUCTION_ENVIRONMENT } from "./environments.js";
 
 /**
  * CLI interface for shop management using state machine pattern
@@ -134,9 +135,10 @@ const displayShopInfo = async (context: CLIContext, shopId: string): Promise<voi
   if (configResult.success && configResult.data) {
     const config = configResult.data;
     console.log(`\n📦 ${config.name} (${shopId})`);
-    console.log(`   Production: ${config.shopify.stores.production.domain}`);
-    console.log(`   Staging: ${config.shopify.stores.staging.domain}`);
-    console.log(`   Branch: ${config.shopify.stores.production.branch}`);
+    listEnvironments(config).forEach(environment => {
+      console.log(`   ${environmentLabel(environment.name)}: ${environment.domain}`);
+    });
+    console.log(`   Branch: ${config.shopify.stores[PRODUCTION_ENVIRONMENT]?.branch ?? 'none'}`);
     console.log(`   Auth: ${config.shopify.authentication.method}`);
   } else {
     console.log(`\n❌ ${shopId} (Configuration error)`);
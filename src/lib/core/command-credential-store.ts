@@ -0,0 +1,81 @@
+import type { CredentialSettings, ShopCredentials } from "../../types/shop.js";
+import type { CredentialStore, Dependencies, Result } from "./types.js";
+import { runCommand } from "./command-runner.js";
+import { parseCredentials, withMetadata } from "./file-credential-store.js";
+import { validateShopId } from "./validation.js";
+
+/**
+ * Credentials kept in an external secret manager (`pass`, `op read`, ...)
+ * readCommand prints the credentials JSON; writeCommand receives it on stdin.
+ * `{shop}` in any argument is replaced with the shop ID.
+ */
+
+export const createCommandCredentialStore = (
+  deps: Dependencies,
+  settings: Pick<CredentialSettings, 'readCommand' | 'writeCommand' | 'onChecksumMismatch'>
+): CredentialStore => ({
+  name: 'command',
+
+  load: async (shopId: string): Promise<Result<ShopCredentials | null>> => {
+    const command = expandCommand(settings.readCommand, shopId, 'readCommand');
+    if (!command.success || !command.data) return { success: false, error: command.error ?? 'Invalid read command' };
+
+    const [executable, ...args] = command.data;
+    const result = await runCommand(executable ?? '', args, { cwd: deps.cwd });
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: `Failed to load credentials: ${result.stderr.trim() || `${executable} exited with code ${result.exitCode}`}`
+      };
+    }
+
+    if (!result.stdout.trim()) return { success: true, data: null };
+
+    try {
+      return parseCredentials(result.stdout, shopId, settings.onChecksumMismatch);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to load credentials: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  },
+
+  save: async (shopId: string, credentials: ShopCredentials): Promise<Result<void>> => {
+    if (!settings.writeCommand) {
+      return { success: false, error: 'No credentials.writeCommand configured; store credentials with your secret manager' };
+    }
+
+    const command = expandCommand(settings.writeCommand, shopId, 'writeCommand');
+    if (!command.success || !command.data) return { success: false, error: command.error ?? 'Invalid write command' };
+
+    const [executable, ...args] = command.data;
+    const result = await runCommand(executable ?? '', args, {
+      cwd: deps.cwd,
+      input: JSON.stringify(withMetadata(credentials), null, 2)
+    });
+
+    return result.exitCode === 0
+      ? { success: true }
+      : {
+        success: false,
+        error: `Failed to save credentials: ${result.stderr.trim() || `${executable} exited with code ${result.exitCode}`}`
+      };
+  }
+});
+
+const expandCommand = (
+  command: string[] | undefined,
+  shopId: string,
+  settingName: 'readCommand' | 'writeCommand'
+): Result<string[]> => {
+  if (!command || command.length === 0) {
+    return { success: false, error: `No credentials.${settingName} configured` };
+  }
+
+  // The shop ID ends up in a secret manager path, so only well-formed IDs are substituted
+  const validation = validateShopId(shopId);
+  if (!validation.success) return { success: false, error: validation.error ?? 'Invalid shop ID' };
+
+  return { success: true, data: command.map(arg => arg.replace(/\{shop\}/g, shopId)) };
+};
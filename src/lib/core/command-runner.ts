@@ -0,0 +1,55 @@
+import { spawn } from "child_process";
+
+/**
+ * Run external commands with argv arrays (no shell)
+ * Arguments are passed verbatim, so branch names and titles never need quoting
+ */
+
+export interface CommandOptions {
+  readonly cwd?: string;
+  readonly env?: NodeJS.ProcessEnv;
+  readonly input?: string;
+}
+
+export interface CommandResult {
+  readonly exitCode: number;
+  readonly stdout: string;
+  readonly stderr: string;
+}
+
+/** Exit code reported when the executable cannot be started (matches the shell's "command not found") */
+export const COMMAND_NOT_FOUND = 127;
+
+export const runCommand = (
+  command: string,
+  args: readonly string[],
+  options: CommandOptions = {}
+): Promise<CommandResult> => {
+  return new Promise((resolve) => {
+    const child = spawn(command, [...args], {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout?.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+    child.on('error', (error) => {
+      resolve({ exitCode: COMMAND_NOT_FOUND, stdout, stderr: stderr || error.message });
+    });
+
+    child.on('close', (code) => {
+      resolve({ exitCode: code ?? 1, stdout, stderr });
+    });
+
+    if (child.stdin) {
+      // The command may exit before reading its input; the exit code reports that
+      child.stdin.on('error', () => {});
+      child.stdin.end(options.input);
+    }
+  });
+};
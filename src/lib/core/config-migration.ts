@@ -0,0 +1,102 @@
+import fs from "fs";
+import path from "path";
+import type { ShopConfig, ShopifyStore } from "../../types/shop.js";
+import type { Dependencies, Result } from "./types.js";
+import { DEFAULT_BRANCH_NAMING, environmentBranchName } from "./branch-naming.js";
+import { validateShopConfig } from "./validation.js";
+
+/**
+ * Upgrade shop config files to the current format
+ * Version 2 introduced named environments: shopify.stores may hold any number of environments,
+ * each with its own branch. Older files are upgraded in memory on load and rewritten by `multi-shop config migrate`
+ */
+
+export const CURRENT_CONFIG_VERSION = 2;
+
+export interface ConfigMigrationReport {
+  readonly migrated: string[];
+  readonly unchanged: string[];
+  readonly failed: { shop: string; error: string }[];
+}
+
+interface RawShopConfig {
+  readonly version?: number;
+  readonly shopId?: string;
+  readonly shopify?: { readonly stores?: Record<string, Partial<ShopifyStore>> };
+  readonly [key: string]: unknown;
+}
+
+/**
+ * Brings a parsed config up to CURRENT_CONFIG_VERSION; `changed` is false when it already was
+ * Environments without a branch get the default naming, which predates branchNaming: <shop>/main or <shop>/<environment>
+ */
+export const migrateShopConfig = (raw: unknown, shopId: string): { config: ShopConfig; changed: boolean } => {
+  const config = (raw ?? {}) as RawShopConfig;
+  if ((config.version ?? 1) >= CURRENT_CONFIG_VERSION) {
+    return { config: config as unknown as ShopConfig, changed: false };
+  }
+
+  const prefix = config.shopId ?? shopId;
+  const stores = Object.fromEntries(
+    Object.entries(config.shopify?.stores ?? {}).map(([environment, store]) => [
+      environment,
+      {
+        ...store,
+        branch: store.branch || environmentBranchName(DEFAULT_BRANCH_NAMING, prefix, environment)
+      }
+    ])
+  );
+
+  return {
+    config: {
+      version: CURRENT_CONFIG_VERSION,
+      ...config,
+      ...(config.shopify ? { shopify: { ...config.shopify, stores } } : {})
+    } as unknown as ShopConfig,
+    changed: true
+  };
+};
+
+/**
+ * Rewrites every shops/<id>.config.json that predates the current version
+ * Files are validated after migrating and left untouched when they fail
+ */
+export const migrateShopConfigs = async (deps: Dependencies): Promise<Result<ConfigMigrationReport>> => {
+  if (!fs.existsSync(deps.shopsDir)) {
+    return { success: true, data: { migrated: [], unchanged: [], failed: [] } };
+  }
+
+  const migrated: string[] = [];
+  const unchanged: string[] = [];
+  const failed: { shop: string; error: string }[] = [];
+
+  const shops = fs.readdirSync(deps.shopsDir)
+    .filter(file => file.endsWith(".config.json") && !file.includes("example"))
+    .map(file => file.replace(".config.json", ""))
+    .sort();
+
+  for (const shop of shops) {
+    const configPath = path.join(deps.shopsDir, `${shop}.config.json`);
+
+    try {
+      const { config, changed } = migrateShopConfig(JSON.parse(fs.readFileSync(configPath, "utf8")), shop);
+      if (!changed) {
+        unchanged.push(shop);
+        continue;
+      }
+
+      const validation = await validateShopConfig(config, shop);
+      if (!validation.success) {
+        failed.push({ shop, error: validation.error ?? 'Validation failed' });
+        continue;
+      }
+
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+      migrated.push(shop);
+    } catch (error) {
+      failed.push({ shop, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { success: true, data: { migrated, unchanged, failed } };
+};
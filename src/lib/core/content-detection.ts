@@ -1,225 +1,267 @@
-import { execSync } from "child_process";
 import { select, isCancel, note, text } from "@clack/prompts";
-import type { ShopConfig } from "../../types/shop.js";
+import type { ContentProtectionMode, ShopConfig } from "../../types/shop.js";
+import type { GitOperations } from "./types.js";
+import { DEFAULT_BRANCH_NAMING, environmentBranchName, parseShopBranch, type BranchNaming } from "./branch-naming.js";
+import { isContentFile, resolveContentRules, type ContentRules } from "./content-rules.js";
+import { diffContentFile, formatContentFileDiff } from "./content-diff.js";
 
 /**
  * Content file detection and protection enforcement
  * Prevents accidental overwriting of shop-specific content
  */
 
-interface ContentCheckResult {
+export type SyncType = 'cross-shop' | 'within-shop';
+
+/** One shop's diff and protection decision */
+export interface ShopContentCheck {
+  readonly shop: string;
+  /** Branch the current branch was diffed against */
+  readonly targetBranch: string;
+  readonly syncType: SyncType;
+  readonly contentFiles: string[];
+  readonly protectionMode?: ContentProtectionMode;
+  /** The shop is left out of the sync */
+  readonly blocked: boolean;
+  /** Content is merged key by key (shop values kept) instead of taken from the current branch */
+  readonly smartMerge?: boolean;
+}
+
+export interface ContentCheckResult {
   readonly hasContentFiles: boolean;
+  /** Every shop is blocked: nothing left to sync */
   readonly shouldBlock: boolean;
-  readonly syncType: 'cross-shop' | 'within-shop';
-  readonly protectionMode?: 'strict' | 'warn' | 'off';
+  readonly shops: ShopContentCheck[];
+  readonly allowedShops: string[];
+  readonly blockedShops: string[];
+}
+
+export interface ContentCheckOptions {
+  /** Prompt for confirmation (default). When false, decide without output or prompts. */
+  readonly interactive?: boolean;
+  /** Non-interactive only: accept content changes for warn-mode and unprotected shops */
+  readonly allowContentChanges?: boolean;
+  /** Tells shop branches apart from main and feature branches (default: <shop>/<environment>) */
+  readonly branchNaming?: BranchNaming;
+  /** Branch each shop's diff is taken against (default: the shop's staging branch) */
+  readonly targetBranches?: Readonly<Record<string, string>>;
+  /** Content globs for shops whose config sets none (default: the built-in globs) */
+  readonly contentRules?: ContentRules;
+  /** Offer a smart merge (interactive) or use one for shops that would be blocked (non-interactive) */
+  readonly smartMerge?: boolean;
+  /** Use this sync type instead of telling it from the current branch (a promo refresh is always within-shop) */
+  readonly syncType?: SyncType;
 }
 
 /**
- * Check if diff contains content files and enforce protection
+ * Check each shop's diff for content files and enforce its protection
+ * Blocked shops are reported individually; the others can still be synced
+ * @param git Git operations used to read the current branch and diff
  * @param shops List of shops being synced
  * @param shopConfigs Shop configurations (for protection settings)
+ * @param options Interactive or headless (CI) behaviour
  */
 export const checkContentFiles = async (
+  git: GitOperations,
   shops: string[],
-  shopConfigs?: Map<string, ShopConfig>
+  shopConfigs?: Map<string, ShopConfig>,
+  options: ContentCheckOptions = {}
 ): Promise<ContentCheckResult> => {
   try {
-    const currentBranch = getCurrentBranch();
-    const shop = shops[0];
+    const currentBranch = await getCurrentBranch(git);
+    const naming = options.branchNaming ?? DEFAULT_BRANCH_NAMING;
 
-    if (!shop) {
-      return { hasContentFiles: false, shouldBlock: false, syncType: 'cross-shop' };
+    const findings: ShopFinding[] = [];
+    for (const shop of shops) {
+      findings.push(await findContentFiles(git, currentBranch, shop, shopConfigs?.get(shop), naming, options));
     }
 
-    const syncType = determineSyncType(currentBranch, shop);
-    const contentFiles = getContentFilesInDiff(currentBranch, shop);
-
-    if (contentFiles.length === 0) {
-      return { hasContentFiles: false, shouldBlock: false, syncType };
+    if (!findings.some(finding => finding.contentFiles.length > 0)) {
+      return buildResult(findings.map(finding => toCheck(finding, false)));
     }
 
-    // Get shop configuration for protection settings
-    const shopConfig = shopConfigs?.get(shop);
-    const protection = shopConfig?.contentProtection;
-
-    const allFiles = getAllFilesInDiff(currentBranch, shop);
-
-    // Cross-shop sync: Enforce protection
-    if (syncType === 'cross-shop') {
-      if (protection?.enabled) {
-        return enforceContentProtection(contentFiles, allFiles, protection.mode, protection.verbosity);
-      } else {
-        // No protection configured: Show warning and ask for confirmation
-        displayContentWarning(contentFiles, allFiles, syncType);
-        const confirmed = await confirmSyncWithContentFiles();
-        return { hasContentFiles: true, shouldBlock: !confirmed, syncType };
-      }
+    if (options.interactive === false) {
+      const allowContentChanges = options.allowContentChanges ?? false;
+      return buildResult(findings.map(finding => {
+        const blocked = blockWithoutPrompts(finding, allowContentChanges);
+        return blocked && options.smartMerge ? toCheck(finding, false, true) : toCheck(finding, blocked);
+      }));
     }
 
-    // Within-shop sync: Just inform (no blocking)
-    displayContentWarning(contentFiles, allFiles, syncType);
-    return { hasContentFiles: true, shouldBlock: false, syncType };
+    return buildResult(await decideWithPrompts(git, currentBranch, findings, options.smartMerge ?? false));
   } catch {
-    return { hasContentFiles: false, shouldBlock: false, syncType: 'cross-shop' };
+    return buildResult(shops.map(shop => ({ shop, targetBranch: '', syncType: 'cross-shop', contentFiles: [], blocked: false })));
   }
 };
 
-const getCurrentBranch = (): string => {
-  return execSync('git branch --show-current 2>/dev/null || echo "main"', {
-    encoding: 'utf8',
-    stdio: ['ignore', 'pipe', 'ignore']
-  }).trim();
-};
-
-const determineSyncType = (currentBranch: string, targetShop: string): 'cross-shop' | 'within-shop' => {
-  const currentShopPrefix = currentBranch.includes('/') ? currentBranch.split('/')[0] : null;
-
-  const isCrossShop =
-    currentBranch === 'main' ||
-    !currentShopPrefix ||
-    currentShopPrefix !== targetShop;
+interface ShopFinding {
+  readonly shop: string;
+  readonly targetBranch: string;
+  readonly syncType: SyncType;
+  readonly contentFiles: string[];
+  readonly codeFiles: string[];
+  readonly protection: ShopConfig['contentProtection'];
+}
 
-  return isCrossShop ? 'cross-shop' : 'within-shop';
+const findContentFiles = async (
+  git: GitOperations,
+  currentBranch: string,
+  shop: string,
+  config: ShopConfig | undefined,
+  naming: BranchNaming,
+  options: ContentCheckOptions
+): Promise<ShopFinding> => {
+  const targetBranch = options.targetBranches?.[shop] ?? environmentBranchName(naming, shop, 'staging');
+  const allFiles = await getAllFilesInDiff(git, currentBranch, targetBranch);
+
+  const protection = config?.contentProtection;
+  const rules = resolveContentRules(protection, options.contentRules);
+  const contentFiles = allFiles.filter(file => isContentFile(file, rules));
+
+  return {
+    shop,
+    targetBranch,
+    syncType: options.syncType ?? determineSyncType(currentBranch, shop, naming),
+    contentFiles,
+    codeFiles: allFiles.filter(file => !contentFiles.includes(file)),
+    protection
+  };
 };
 
-const getContentFilesInDiff = (currentBranch: string, shop: string): string[] => {
-  const diff = execSync(`git diff ${currentBranch}..origin/${shop}/staging --name-only 2>/dev/null || echo ""`, {
-    encoding: 'utf8',
-    stdio: ['ignore', 'pipe', 'ignore']
-  }).trim();
+const toCheck = (finding: ShopFinding, blocked: boolean, smartMerge = false): ShopContentCheck => ({
+  shop: finding.shop,
+  targetBranch: finding.targetBranch,
+  syncType: finding.syncType,
+  contentFiles: finding.contentFiles,
+  ...(finding.protection?.enabled ? { protectionMode: finding.protection.mode } : {}),
+  blocked,
+  ...(smartMerge ? { smartMerge } : {})
+});
+
+const buildResult = (checks: ShopContentCheck[]): ContentCheckResult => {
+  const allowedShops = checks.filter(check => !check.blocked).map(check => check.shop);
+
+  return {
+    hasContentFiles: checks.some(check => check.contentFiles.length > 0),
+    shouldBlock: checks.length > 0 && allowedShops.length === 0,
+    shops: checks,
+    allowedShops,
+    blockedShops: checks.filter(check => check.blocked).map(check => check.shop)
+  };
+};
 
-  if (!diff) return [];
+/** Protection enabled in off mode: content syncs freely (disabled protection still asks) */
+const isProtectionOff = (finding: ShopFinding): boolean =>
+  Boolean(finding.protection?.enabled) && finding.protection?.mode === 'off';
 
-  const changedFiles = diff.split('\n').filter(Boolean);
+/** Content changes that protection has a say in: cross-shop, with protection not in off mode */
+const needsDecision = (finding: ShopFinding): boolean =>
+  finding.syncType === 'cross-shop' && finding.contentFiles.length > 0 && !isProtectionOff(finding);
 
-  const contentPatterns = [
-    /^config\/settings_data\.json$/,
-    /^templates\/.*\.json$/,
-    /^locales\/.*\.json$/,
-    /^config\/markets\.json$/
-  ];
+const isStrict = (finding: ShopFinding): boolean =>
+  Boolean(finding.protection?.enabled) && finding.protection?.mode === 'strict';
 
-  return changedFiles.filter(file =>
-    contentPatterns.some(pattern => pattern.test(file))
-  );
+/**
+ * Headless protection decision: strict always blocks, warn and unprotected
+ * shops block unless content changes were explicitly allowed
+ */
+const blockWithoutPrompts = (finding: ShopFinding, allowContentChanges: boolean): boolean => {
+  if (!needsDecision(finding)) return false;
+  return isStrict(finding) || !allowContentChanges;
 };
 
-const getAllFilesInDiff = (currentBranch: string, shop: string): string[] => {
-  const diff = execSync(`git diff ${currentBranch}..origin/${shop}/staging --name-only 2>/dev/null || echo ""`, {
-    encoding: 'utf8',
-    stdio: ['ignore', 'pipe', 'ignore']
-  }).trim();
+type ContentDecision = 'include' | 'merge' | 'skip';
 
-  return diff ? diff.split('\n').filter(Boolean) : [];
+/**
+ * Shows one report for all shops, then asks once for strict-mode shops (OVERRIDE)
+ * and once for warn-mode and unprotected shops; shops not confirmed are blocked
+ */
+const decideWithPrompts = async (
+  git: GitOperations,
+  currentBranch: string,
+  findings: ShopFinding[],
+  offerSmartMerge: boolean
+): Promise<ShopContentCheck[]> => {
+  await displayContentReport(git, currentBranch, findings);
+
+  const strict = findings.filter(finding => needsDecision(finding) && isStrict(finding));
+  const confirmable = findings.filter(finding => needsDecision(finding) && !isStrict(finding));
+
+  const strictDecision = strict.length > 0 ? await requireOverrideConfirmation(strict.map(finding => finding.shop), offerSmartMerge) : 'skip';
+  const decision = confirmable.length > 0 ? await confirmSyncWithContentFiles(confirmable.map(finding => finding.shop), offerSmartMerge) : 'skip';
+
+  const decide = (finding: ShopFinding, choice: ContentDecision): ShopContentCheck =>
+    toCheck(finding, choice === 'skip', choice === 'merge');
+
+  return findings.map(finding => {
+    if (strict.includes(finding)) return decide(finding, strictDecision);
+    if (confirmable.includes(finding)) return decide(finding, decision);
+    return toCheck(finding, false);
+  });
 };
 
-const displayContentWarning = (
-  contentFiles: string[],
-  allFiles: string[],
-  syncType: 'cross-shop' | 'within-shop'
-): void => {
-  console.log('\n');
-
-  if (syncType === 'cross-shop') {
-    displayCrossShopWarning(contentFiles, allFiles);
-  } else {
-    displayWithinShopInfo(contentFiles);
-  }
+const getCurrentBranch = async (git: GitOperations): Promise<string> => {
+  const result = await git.getCurrentBranch();
+  return result.success && result.data ? result.data : 'main';
 };
 
-const displayCrossShopWarning = (contentFiles: string[], allFiles: string[]): void => {
-  note('⚠️  CRITICAL: Content files detected in cross-shop sync!', '🚨 WARNING');
-
-  console.log(`\nYou're syncing from main/feature branch to shop-specific branches.`);
-  console.log(`The following files contain SHOP-SPECIFIC CONTENT and will OVERWRITE`);
-  console.log(`shop customizations made in the Shopify Theme Editor:\n`);
+const determineSyncType = (currentBranch: string, targetShop: string, naming: BranchNaming): SyncType => {
+  const currentShop = parseShopBranch(naming, currentBranch)?.shopId;
 
-  contentFiles.forEach(file => console.log(`  ⚠️  ${file}`));
-
-  const codeFiles = allFiles.filter(f => !contentFiles.includes(f));
-  if (codeFiles.length > 0) {
-    console.log(`\n✅ Safe to merge (code files):\n`);
-    codeFiles.slice(0, 5).forEach(file => console.log(`  ✅ ${file}`));
-    if (codeFiles.length > 5) {
-      console.log(`  ... and ${codeFiles.length - 5} more code files`);
-    }
-  }
+  const isCrossShop =
+    currentBranch === 'main' ||
+    !currentShop ||
+    currentShop !== targetShop;
 
-  console.log(`\n🚨 CRITICAL RECOMMENDATIONS:`);
-  console.log(`  1. Review PR carefully before merging`);
-  console.log(`  2. DO NOT merge changes to content files`);
-  console.log(`  3. ONLY merge code files (.liquid, .css, .js)`);
-  console.log(`  4. Use .gitattributes merge=ours strategy (see CONTENT-PHILOSOPHY.md)`);
-  console.log();
+  return isCrossShop ? 'cross-shop' : 'within-shop';
 };
 
-const displayWithinShopInfo = (contentFiles: string[]): void => {
-  note('ℹ️  Content files detected (normal for within-shop sync)', 'ℹ️  INFO');
-
-  console.log(`\nYou're syncing within the same shop. Content file changes are expected:\n`);
-  contentFiles.forEach(file => console.log(`  📝 ${file}`));
-
-  console.log(`\n💡 This is normal workflow for:`);
-  console.log(`  - Deploying shop-specific features to staging`);
-  console.log(`  - Testing shop customizations`);
-  console.log(`  - Promoting shop-a/main changes to shop-a/staging`);
-  console.log(`\nNo action needed - proceed with PR creation.`);
-  console.log();
+const getAllFilesInDiff = async (git: GitOperations, currentBranch: string, targetBranch: string): Promise<string[]> => {
+  const diff = await git.diffNameStatus(currentBranch, `origin/${targetBranch}`);
+  return diff.success && diff.data ? diff.data.map(change => change.path) : [];
 };
 
-const enforceContentProtection = async (
-  contentFiles: string[],
-  allFiles: string[],
-  mode: 'strict' | 'warn' | 'off',
-  verbosity: 'verbose' | 'quiet'
-): Promise<ContentCheckResult> => {
-  if (mode === 'off') {
-    return { hasContentFiles: true, shouldBlock: false, syncType: 'cross-shop', protectionMode: 'off' };
-  }
+const protectionLabel = (finding: ShopFinding): string => {
+  if (finding.syncType === 'within-shop') return 'same shop, expected';
+  if (!finding.protection?.enabled) return 'unprotected';
+  return `${finding.protection.mode} mode`;
+};
 
-  // Display warning based on verbosity
-  if (verbosity === 'verbose') {
-    displayProtectionWarning(contentFiles, allFiles, mode);
-  }
+/** Settings keys listed per content file in the warning; `multi-shop content diff` shows them all */
+const MAX_KEYS_PER_FILE = 10;
 
-  if (mode === 'strict') {
-    // STRICT mode: Block unless override confirmed
-    const override = await requireOverrideConfirmation();
-    return {
-      hasContentFiles: true,
-      shouldBlock: !override,
-      syncType: 'cross-shop',
-      protectionMode: 'strict'
-    };
-  }
+const displayContentReport = async (git: GitOperations, currentBranch: string, findings: ShopFinding[]): Promise<void> => {
+  const withContent = findings.filter(finding => finding.contentFiles.length > 0);
+  const crossShop = withContent.some(finding => finding.syncType === 'cross-shop');
 
-  if (mode === 'warn') {
-    // WARN mode: Show warning, require yes/no confirmation
-    const confirmed = await confirmSyncWithContentFiles();
-    return {
-      hasContentFiles: true,
-      shouldBlock: !confirmed,
-      syncType: 'cross-shop',
-      protectionMode: 'warn'
-    };
+  console.log('\n');
+  if (crossShop) {
+    note('⚠️  CRITICAL: Content files detected in cross-shop sync!', '🚨 WARNING');
+    console.log(`\nThese files contain SHOP-SPECIFIC CONTENT and will OVERWRITE`);
+    console.log(`shop customizations made in the Shopify Theme Editor:`);
+  } else {
+    note('ℹ️  Content files detected (normal for within-shop sync)', 'ℹ️  INFO');
   }
 
-  return { hasContentFiles: true, shouldBlock: false, syncType: 'cross-shop', protectionMode: mode };
-};
+  for (const finding of withContent) {
+    const icon = finding.syncType === 'within-shop' || isProtectionOff(finding) ? '📝' : '⚠️ ';
+    console.log(`\n  ${icon} ${finding.shop} → ${finding.targetBranch} (${protectionLabel(finding)})`);
 
-const displayProtectionWarning = (contentFiles: string[], allFiles: string[], mode: 'strict' | 'warn'): void => {
-  console.log('\n');
-
-  if (mode === 'strict') {
-    note('❌ BLOCKED: Content Protection Enabled (STRICT mode)', '🛡️ PROTECTION');
-  } else {
-    note('⚠️  WARNING: Content Protection Enabled (WARN mode)', '🛡️ PROTECTION');
+    if (finding.protection?.verbosity === 'quiet') {
+      console.log(`      ${finding.contentFiles.length} content file(s)`);
+    } else {
+      for (const file of finding.contentFiles) {
+        const diff = await diffContentFile(git, currentBranch, `origin/${finding.targetBranch}`, file);
+        formatContentFileDiff(diff, MAX_KEYS_PER_FILE).forEach(line => console.log(`      ${line}`));
+      }
+    }
   }
 
-  console.log(`\nThis would overwrite shop-specific customizations:\n`);
-  contentFiles.forEach(file => console.log(`  ⚠️  ${file}`));
+  const clean = findings.filter(finding => finding.contentFiles.length === 0);
+  if (clean.length > 0) {
+    console.log(`\n  ✅ No content changes: ${clean.map(finding => finding.shop).join(', ')}`);
+  }
 
-  const codeFiles = allFiles.filter(f => !contentFiles.includes(f));
+  const codeFiles = [...new Set(findings.flatMap(finding => finding.codeFiles))];
   if (codeFiles.length > 0) {
     console.log(`\n✅ Safe to merge (code files):\n`);
     codeFiles.slice(0, 5).forEach(file => console.log(`  ✅ ${file}`));
@@ -228,47 +270,50 @@ const displayProtectionWarning = (contentFiles: string[], allFiles: string[], mo
     }
   }
 
-  if (mode === 'strict') {
-    console.log(`\n🛡️ Content Protection is WORKING:`);
-    console.log(`  • Your shop customizations are protected from being overwritten`);
-    console.log(`  • This sync would replace shop-specific content with generic content`);
-    console.log(`  • This is usually NOT what you want`);
-    console.log();
-    console.log(`💡 What this means:`);
-    console.log(`  - Code files (.liquid, .css, .js) will sync normally`);
-    console.log(`  - Content files (settings, templates) will be BLOCKED`);
-    console.log(`  - Your shop's branding and customizations stay safe`);
-    console.log();
-    console.log(`⚠️  Only override if you're CERTAIN:`);
-    console.log(`  - You want to replace shop content with main branch content`);
-    console.log(`  - You understand shop customizations will be lost`);
-    console.log(`  - This is an intentional content reset`);
+  if (crossShop) {
+    console.log(`\n🚨 CRITICAL RECOMMENDATIONS:`);
+    console.log(`  1. Review PR carefully before merging`);
+    console.log(`  2. DO NOT merge changes to content files`);
+    console.log(`  3. ONLY merge code files (.liquid, .css, .js)`);
+    console.log(`  4. Use .gitattributes merge=ours strategy (see CONTENT-PHILOSOPHY.md)`);
+    console.log(`\n🛡️ Strict-mode shops are skipped unless you type OVERRIDE; other shops sync as usual.`);
   }
 
   console.log();
 };
 
-const requireOverrideConfirmation = async (): Promise<boolean> => {
+/** Strict shops are included with OVERRIDE, or smart merged with MERGE when offered */
+const requireOverrideConfirmation = async (shops: string[], offerSmartMerge: boolean): Promise<ContentDecision> => {
+  const accepted = offerSmartMerge ? ['OVERRIDE', 'MERGE'] : ['OVERRIDE'];
+  const merge = offerSmartMerge ? `, 'MERGE' to keep their content and add only new keys,` : '';
+
   const override = await text({
-    message: "Type 'OVERRIDE' to confirm (or cancel to abort):",
+    message: `Type 'OVERRIDE' to include strict-mode shops ${shops.join(', ')}${merge} (or cancel to skip them):`,
     validate: (value) => {
-      if (!value) return "Type OVERRIDE or cancel";
-      if (value !== 'OVERRIDE') return "Must type exactly: OVERRIDE";
+      if (!value) return `Type ${accepted.join(' or ')}, or cancel`;
+      if (!accepted.includes(value)) return `Must type exactly: ${accepted.join(' or ')}`;
       return undefined;
     }
   });
 
-  return !isCancel(override) && override === 'OVERRIDE';
+  if (isCancel(override)) return 'skip';
+  if (override === 'OVERRIDE') return 'include';
+  return offerSmartMerge && override === 'MERGE' ? 'merge' : 'skip';
 };
 
-const confirmSyncWithContentFiles = async (): Promise<boolean> => {
+const confirmSyncWithContentFiles = async (shops: string[], offerSmartMerge: boolean): Promise<ContentDecision> => {
   const confirm = await select({
-    message: "Continue creating PRs? (Review carefully before merging!)",
+    message: `Create PRs for ${shops.join(', ')}? (Review carefully before merging!)`,
     options: [
       { value: "yes", label: "Yes, create PRs", hint: "I'll review content files before merging" },
-      { value: "no", label: "No, cancel sync", hint: "Let me handle this manually" }
+      ...(offerSmartMerge
+        ? [{ value: "merge", label: "Smart merge content", hint: "Keep shop values, add new sections, blocks and settings from main" }]
+        : []),
+      { value: "no", label: "No, skip these shops", hint: "Let me handle this manually" }
     ]
   });
 
-  return !isCancel(confirm) && confirm === "yes";
+  if (isCancel(confirm)) return 'skip';
+  if (confirm === "yes") return 'include';
+  return confirm === "merge" ? 'merge' : 'skip';
 };
@@ -0,0 +1,192 @@
+import { isDeepStrictEqual } from "util";
+import type { Environment } from "../../types/shop.js";
+import type { CLIContext, GitOperations, Result } from "./types.js";
+import { environmentBranchName, loadBranchNaming } from "./branch-naming.js";
+import { isContentFile, loadContentRules, resolveContentRules } from "./content-rules.js";
+
+/**
+ * Semantic diff of Shopify content JSON (settings_data, templates, locales, section groups)
+ * Lists the keys, sections and blocks a sync would change, with the shop's value and the incoming one
+ * Backs `multi-shop content diff <shop>` and the content protection warning
+ */
+
+export type ContentChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ContentChange {
+  /** Key path, e.g. current.colors_accent_1 or sections.header.blocks.logo.settings.width */
+  readonly path: string;
+  readonly kind: ContentChangeKind;
+  /** Value on the shop branch */
+  readonly before?: unknown;
+  /** Value the sync would bring in */
+  readonly after?: unknown;
+}
+
+export interface ContentFileDiff {
+  readonly file: string;
+  /** added: the sync brings a new file; removed: it deletes the shop's file */
+  readonly status: 'added' | 'removed' | 'modified';
+  readonly changes: ContentChange[];
+  /** Not valid JSON on one side; only the file name is known to differ */
+  readonly error?: string;
+}
+
+export interface ContentDiffReport {
+  readonly shop: string;
+  /** Ref the sync would bring in */
+  readonly from: string;
+  /** Shop branch whose content would change */
+  readonly to: string;
+  readonly files: ContentFileDiff[];
+}
+
+export interface ContentDiffOptions {
+  /** Default: main */
+  readonly from?: string;
+  /** Environment whose branch is compared (default: staging) */
+  readonly environment?: Environment;
+}
+
+const DEFAULT_FROM = 'main';
+const DEFAULT_ENVIRONMENT = 'staging';
+const MAX_VALUE_LENGTH = 60;
+
+/** Shopify prefixes generated JSON with a comment block, which JSON.parse rejects */
+const GENERATED_HEADER = /^\s*\/\*[\s\S]*?\*\//;
+
+export const diffShopContent = async (
+  context: CLIContext,
+  shop: string,
+  options: ContentDiffOptions = {}
+): Promise<Result<ContentDiffReport>> => {
+  const configResult = await context.shopOps.loadConfig(shop);
+  if (!configResult.success || !configResult.data) return { success: false, error: configResult.error ?? `Shop ${shop} not found` };
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load content rules" };
+
+  const config = configResult.data;
+  const environment = options.environment ?? DEFAULT_ENVIRONMENT;
+  const configured = config.shopify.stores[environment]?.branch;
+  if (!configured && options.environment) return { success: false, error: `${shop} has no ${environment} environment` };
+
+  const branch = configured ?? environmentBranchName(namingResult.data, shop, environment);
+  const from = options.from ?? DEFAULT_FROM;
+  const to = `origin/${branch}`;
+
+  const changed = await context.gitOps.diffNameStatus(from, to);
+  if (!changed.success || !changed.data) return { success: false, error: changed.error ?? `Failed to diff ${from} and ${to}` };
+
+  const rules = resolveContentRules(config.contentProtection, rulesResult.data);
+  const files = [...new Set(changed.data.flatMap(change => [change.path, ...(change.previousPath ? [change.previousPath] : [])]))]
+    .filter(file => isContentFile(file, rules));
+
+  const diffs: ContentFileDiff[] = [];
+  for (const file of files) {
+    diffs.push(await diffContentFile(context.gitOps, from, to, file));
+  }
+
+  return { success: true, data: { shop, from, to, files: diffs } };
+};
+
+/** What merging `from` into `to` would do to one content file */
+export const diffContentFile = async (git: GitOperations, from: string, to: string, file: string): Promise<ContentFileDiff> => {
+  const [incoming, current] = await Promise.all([git.readFile(from, file), git.readFile(to, file)]);
+  if (!incoming.success || !current.success) {
+    return { file, status: 'modified', changes: [], error: incoming.error ?? current.error ?? `Failed to read ${file}` };
+  }
+
+  if (current.data === null || current.data === undefined) return { file, status: 'added', changes: [] };
+  if (incoming.data === null || incoming.data === undefined) return { file, status: 'removed', changes: [] };
+
+  try {
+    return { file, status: 'modified', changes: diffContentJson(parseContentJson(current.data), parseContentJson(incoming.data)) };
+  } catch (error) {
+    return { file, status: 'modified', changes: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const parseContentJson = (text: string): unknown => JSON.parse(text.replace(GENERATED_HEADER, ''));
+
+/** The generated-file comment, kept when a file is rewritten */
+export const contentHeader = (text: string): string => GENERATED_HEADER.exec(text)?.[0].trim() ?? '';
+
+/** Changes from `before` to `after`; objects are compared key by key, arrays and values as a whole */
+export const diffContentJson = (before: unknown, after: unknown): ContentChange[] => collectChanges(before, after, []);
+
+const collectChanges = (before: unknown, after: unknown, path: string[]): ContentChange[] => {
+  if (isContentObject(before) && isContentObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return keys.flatMap(key => {
+      const keyPath = [...path, key];
+      if (!Object.hasOwn(before, key)) return [{ path: formatContentPath(keyPath), kind: 'added' as const, after: after[key] }];
+      if (!Object.hasOwn(after, key)) return [{ path: formatContentPath(keyPath), kind: 'removed' as const, before: before[key] }];
+      return collectChanges(before[key], after[key], keyPath);
+    });
+  }
+
+  return isDeepStrictEqual(before, after) ? [] : [{ path: formatContentPath(path), kind: 'changed', before, after }];
+};
+
+export const isContentObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Dotted path; keys that aren't plain identifiers are quoted, e.g. sections["hero-banner 2"] */
+export const formatContentPath = (path: readonly string[]): string => {
+  if (path.length === 0) return '(root)';
+
+  return path
+    .map((key, index) => {
+      if (!/^[A-Za-z0-9_-]+$/.test(key)) return `[${JSON.stringify(key)}]`;
+      return index === 0 ? key : `.${key}`;
+    })
+    .join('');
+};
+
+export const formatContentValue = (value: unknown): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+};
+
+export const formatContentChange = (change: ContentChange): string => {
+  switch (change.kind) {
+    case 'added':
+      return `+ ${change.path}: ${formatContentValue(change.after)}`;
+    case 'removed':
+      return `- ${change.path} (was ${formatContentValue(change.before)})`;
+    default:
+      return `~ ${change.path}: ${formatContentValue(change.before)} → ${formatContentValue(change.after)}`;
+  }
+};
+
+/** Lines for one file; `limit` caps the listed changes */
+export const formatContentFileDiff = (diff: ContentFileDiff, limit = Infinity): string[] => {
+  if (diff.error) return [`${diff.file}: ${diff.error}`];
+  if (diff.status === 'added') return [`${diff.file}: new file`];
+  if (diff.status === 'removed') return [`${diff.file}: file would be deleted`];
+  if (diff.changes.length === 0) return [`${diff.file}: formatting only`];
+
+  const shown = diff.changes.slice(0, limit).map(change => `  ${formatContentChange(change)}`);
+  const hidden = diff.changes.length - shown.length;
+  return [diff.file, ...shown, ...(hidden > 0 ? [`  … and ${hidden} more`] : [])];
+};
+
+export const formatContentDiff = (report: ContentDiffReport): string => {
+  const lines = [`\n📝 Content changes for ${report.shop}: ${report.from} → ${report.to}`, ''];
+
+  if (report.files.length === 0) {
+    lines.push('  No content files would change');
+  } else {
+    report.files.forEach(diff => {
+      formatContentFileDiff(diff).forEach(line => lines.push(`  ${line}`));
+      lines.push('');
+    });
+    lines.push(`  ~ changed   + added by the sync   - removed by the sync`);
+  }
+
+  return lines.join('\n');
+};
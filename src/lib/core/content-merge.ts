@@ -0,0 +1,341 @@
+import fs from "fs";
+import path from "path";
+import { isDeepStrictEqual } from "util";
+import type { CLIContext, GitOperations, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { isContentFile, type ContentRules } from "./content-rules.js";
+import { contentHeader, formatContentPath, formatContentValue, isContentObject, parseContentJson } from "./content-diff.js";
+
+/**
+ * Smart merge of Shopify content JSON: the shop's values stay, sections, blocks and
+ * settings that are new on main are added with main's defaults, and real conflicts are flagged
+ * Lets a sync PR carry code changes plus safe content additions instead of being blocked
+ */
+
+export type ContentConflictReason = 'changed-on-both' | 'removed-on-main' | 'type-changed';
+
+export interface ContentConflict {
+  readonly path: string;
+  readonly reason: ContentConflictReason;
+  /** The value that was kept */
+  readonly shop?: unknown;
+  readonly incoming?: unknown;
+}
+
+export interface ContentMergeResult {
+  readonly merged: unknown;
+  /** Keys new on main, added with main's value */
+  readonly added: string[];
+  /** Keys main changed where the shop's value was kept */
+  readonly kept: string[];
+  /** Shop value kept, but worth a look before merging */
+  readonly conflicts: ContentConflict[];
+}
+
+export interface ContentFileMerge {
+  readonly file: string;
+  /** merged: key by key; added: new file from main; kept: the shop's file as is */
+  readonly status: 'merged' | 'added' | 'kept';
+  readonly added: string[];
+  readonly kept: string[];
+  readonly conflicts: ContentConflict[];
+  /** Not valid JSON on one side; the shop's file was kept */
+  readonly error?: string;
+}
+
+export interface ContentMergeRefs {
+  readonly shop: string;
+  readonly incoming: string;
+  /** Common ancestor; without it, changes can't be told from shop customizations */
+  readonly base?: string;
+}
+
+export interface SmartMergeRequest {
+  readonly shop: string;
+  /** Shop branch the sync targets */
+  readonly base: string;
+  /** Default: main */
+  readonly from?: string;
+  readonly contentRules: ContentRules;
+}
+
+export interface SmartMergeResult {
+  /** Branch holding the merge, used as the PR head */
+  readonly branch: string;
+  readonly files: ContentFileMerge[];
+}
+
+const DEFAULT_FROM = 'main';
+
+/** Section and block id lists that go with their containers in templates and section groups */
+const ORDER_KEYS: Readonly<Record<string, string>> = { order: 'sections', block_order: 'blocks' };
+
+export const smartMergeBranchName = (base: string): string => `content-merge/${base}`;
+
+/**
+ * Three-way merge keeping the shop's values: keys new on `incoming` are added,
+ * keys the shop removed since `base` stay removed, everything else is the shop's
+ */
+export const mergeContentJson = (shop: unknown, incoming: unknown, base?: unknown): ContentMergeResult => {
+  const log: MergeLog = { added: [], kept: [], conflicts: [] };
+  const merged = mergeValue(shop, incoming, base, [], log);
+  return { merged, ...log };
+};
+
+interface MergeLog {
+  added: string[];
+  kept: string[];
+  conflicts: ContentConflict[];
+}
+
+const mergeValue = (shop: unknown, incoming: unknown, base: unknown, keyPath: string[], log: MergeLog): unknown => {
+  if (isContentObject(shop) && isContentObject(incoming)) {
+    return mergeObject(shop, incoming, isContentObject(base) ? base : undefined, keyPath, log);
+  }
+
+  if (isDeepStrictEqual(shop, incoming)) return shop;
+
+  const contentPath = formatContentPath(keyPath);
+  if (valueKind(shop) !== valueKind(incoming)) {
+    log.conflicts.push({ path: contentPath, reason: 'type-changed', shop, incoming });
+  } else if (base === undefined) {
+    log.kept.push(contentPath);
+  } else if (!isDeepStrictEqual(base, incoming)) {
+    // Main changed it: a conflict when the shop did too
+    if (isDeepStrictEqual(base, shop)) log.kept.push(contentPath);
+    else log.conflicts.push({ path: contentPath, reason: 'changed-on-both', shop, incoming });
+  }
+
+  return shop;
+};
+
+const mergeObject = (
+  shop: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  base: Record<string, unknown> | undefined,
+  keyPath: string[],
+  log: MergeLog
+): Record<string, unknown> => {
+  const merged: Record<string, unknown> = {};
+  const orderKeys = Object.keys(shop).filter(key => isOrderList(shop, incoming, key));
+
+  for (const key of Object.keys(shop)) {
+    if (orderKeys.includes(key)) continue;
+
+    if (Object.hasOwn(incoming, key)) {
+      merged[key] = mergeValue(shop[key], incoming[key], base?.[key], [...keyPath, key], log);
+      continue;
+    }
+
+    merged[key] = shop[key];
+    if (base && Object.hasOwn(base, key)) {
+      log.conflicts.push({ path: formatContentPath([...keyPath, key]), reason: 'removed-on-main', shop: shop[key] });
+    }
+  }
+
+  for (const key of Object.keys(incoming)) {
+    // Keys the shop removed since the merge base stay removed
+    if (Object.hasOwn(shop, key) || (base && Object.hasOwn(base, key))) continue;
+
+    merged[key] = incoming[key];
+    log.added.push(formatContentPath([...keyPath, key]));
+  }
+
+  for (const key of orderKeys) {
+    merged[key] = mergeOrder(shop, incoming, base, key, keyPath, log);
+  }
+
+  return merged;
+};
+
+const isOrderList = (shop: Record<string, unknown>, incoming: Record<string, unknown>, key: string): boolean => {
+  const container = ORDER_KEYS[key];
+  return container !== undefined && Array.isArray(shop[key]) && Array.isArray(incoming[key]) && isContentObject(shop[container]);
+};
+
+/** The shop's order with sections or blocks that are new on main appended, in main's order */
+const mergeOrder = (
+  shop: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  base: Record<string, unknown> | undefined,
+  key: string,
+  keyPath: string[],
+  log: MergeLog
+): unknown[] => {
+  const container = shop[ORDER_KEYS[key] ?? ''] as Record<string, unknown>;
+  const baseIds = new Set(Array.isArray(base?.[key]) ? (base[key] as unknown[]) : []);
+  const incomingIds = incoming[key] as unknown[];
+
+  const newIds = incomingIds.filter(id => typeof id === 'string' && !Object.hasOwn(container, id) && !baseIds.has(id));
+  const shopIds = shop[key] as unknown[];
+  mergeValue(shopIds, incomingIds.filter(id => !newIds.includes(id)), base?.[key], [...keyPath, key], log);
+
+  return [...shopIds, ...newIds];
+};
+
+const valueKind = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  return value === null ? 'null' : typeof value;
+};
+
+/** Merge one content file; `contents` is what the merged branch should hold */
+export const mergeContentFile = async (
+  git: GitOperations,
+  refs: ContentMergeRefs,
+  file: string
+): Promise<{ merge: ContentFileMerge; contents: string | null }> => {
+  const [shopText, incomingText, baseText] = await Promise.all([
+    unwrapGitResult(git.readFile(refs.shop, file)),
+    unwrapGitResult(git.readFile(refs.incoming, file)),
+    refs.base ? unwrapGitResult(git.readFile(refs.base, file)) : Promise.resolve(undefined)
+  ]);
+
+  const kept = (fields: Partial<ContentFileMerge> = {}): ContentFileMerge =>
+    ({ file, status: 'kept', added: [], kept: [], conflicts: [], ...fields });
+
+  if (shopText === null || shopText === undefined) {
+    return {
+      merge: { file, status: 'added', added: [], kept: [], conflicts: [] },
+      contents: incomingText ?? null
+    };
+  }
+
+  if (incomingText === null || incomingText === undefined) {
+    // Deleted on main; only a conflict when main had it, not when the shop added it
+    const conflicts: ContentConflict[] = baseText ? [{ path: '(file)', reason: 'removed-on-main' }] : [];
+    return { merge: kept({ conflicts }), contents: shopText };
+  }
+
+  let shopJson: unknown;
+  let incomingJson: unknown;
+  try {
+    shopJson = parseContentJson(shopText);
+    incomingJson = parseContentJson(incomingText);
+  } catch (error) {
+    return { merge: kept({ error: error instanceof Error ? error.message : String(error) }), contents: shopText };
+  }
+
+  const result = mergeContentJson(shopJson, incomingJson, parseBase(baseText));
+  const merge: ContentFileMerge = { file, status: 'merged', added: result.added, kept: result.kept, conflicts: result.conflicts };
+
+  // Nothing added: leave the shop's file byte for byte
+  if (isDeepStrictEqual(result.merged, shopJson)) return { merge, contents: shopText };
+
+  const header = contentHeader(shopText);
+  return { merge, contents: `${header ? `${header}\n` : ''}${JSON.stringify(result.merged, null, 2)}\n` };
+};
+
+const parseBase = (text: string | null | undefined): unknown => {
+  if (!text) return undefined;
+  try {
+    return parseContentJson(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Merge origin/<from> into a fresh branch off origin/<base>, with content files merged key by key,
+ * and push it. Code conflicts abort the merge; the original branch is checked out again.
+ */
+export const createSmartMergeBranch = async (
+  context: CLIContext,
+  request: SmartMergeRequest
+): Promise<Result<SmartMergeResult>> => {
+  const git = context.gitOps;
+
+  try {
+    const clean = await unwrapGitResult(git.isWorkingTreeClean());
+    if (!clean) {
+      return { success: false, error: "Working tree has uncommitted changes. Commit or stash them first." };
+    }
+
+    // Detached HEAD (common in CI) falls back to the commit SHA
+    const originalRef = (await unwrapGitResult(git.getCurrentBranch())) || (await unwrapGitResult(git.getHeadCommit()));
+    await unwrapGitResult(git.fetch());
+
+    try {
+      return { success: true, data: await mergeIntoBranch(context, request) };
+    } finally {
+      if (originalRef) await git.checkout(originalRef);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Smart merge for ${request.shop} failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const mergeIntoBranch = async (context: CLIContext, request: SmartMergeRequest): Promise<SmartMergeResult> => {
+  const git = context.gitOps;
+  const from = request.from ?? DEFAULT_FROM;
+  // What the plain sync PR merges, not a possibly stale local copy
+  const incoming = `origin/${from}`;
+  const target = `origin/${request.base}`;
+  const branch = smartMergeBranchName(request.base);
+
+  // A branch left by an earlier sync is rebuilt from scratch
+  await git.deleteBranch(branch, { force: true });
+  await unwrapGitResult(git.createBranch(branch, target));
+
+  const mergeBase = (await git.mergeBase(incoming, target)).data;
+  const changes = (await unwrapGitResult(git.diffNameStatus(target, incoming))) ?? [];
+  const contentFiles = changes.map(change => change.path).filter(file => isContentFile(file, request.contentRules));
+
+  const outcome = await unwrapGitResult(git.merge(incoming, { noCommit: true }));
+
+  const files: ContentFileMerge[] = [];
+  for (const file of contentFiles) {
+    const { merge, contents } = await mergeContentFile(git, { shop: target, incoming, ...(mergeBase ? { base: mergeBase } : {}) }, file);
+    if (contents !== null) writeWorkingFile(context.deps.cwd, file, contents);
+    files.push(merge);
+  }
+
+  const unresolved = (outcome?.conflicts ?? []).filter(file => !contentFiles.includes(file));
+  if (unresolved.length > 0) {
+    await git.abortMerge();
+    throw new Error(`Merge conflicts outside content files: ${unresolved.join(', ')}`);
+  }
+
+  await unwrapGitResult(git.addFiles(contentFiles));
+  await unwrapGitResult(git.commit(`Merge ${from} into ${request.base}, keeping ${request.shop} content`));
+  await unwrapGitResult(git.pushBranch(branch, { setUpstream: true, forceWithLease: true }));
+
+  return { branch, files };
+};
+
+const writeWorkingFile = (cwd: string, file: string, contents: string): void => {
+  const filePath = path.join(cwd, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+};
+
+const CONFLICT_LABELS: Record<ContentConflictReason, string> = {
+  'changed-on-both': 'changed on main and in the shop',
+  'removed-on-main': 'removed on main',
+  'type-changed': 'different type on main'
+};
+
+/** Markdown for the sync PR body */
+export const formatContentMergeNotes = (files: readonly ContentFileMerge[]): string => {
+  const lines = ['### Content merge', '', "Shop values were kept; sections, blocks and settings new on main were added.", ''];
+
+  files.forEach(merge => {
+    const counts = [
+      merge.status === 'added' ? 'new file' : `${merge.added.length} added`,
+      ...(merge.kept.length > 0 ? [`${merge.kept.length} kept`] : []),
+      ...(merge.conflicts.length > 0 ? [`${merge.conflicts.length} to review`] : [])
+    ];
+    lines.push(`- \`${merge.file}\`: ${counts.join(', ')}${merge.error ? ` (not merged: ${merge.error})` : ''}`);
+    merge.conflicts.forEach(conflict => {
+      const values = [
+        ...(conflict.shop === undefined ? [] : [`kept ${formatContentValue(conflict.shop)}`]),
+        ...(conflict.incoming === undefined ? [] : [`main has ${formatContentValue(conflict.incoming)}`])
+      ];
+      lines.push(`  - ⚠️ \`${conflict.path}\` ${CONFLICT_LABELS[conflict.reason]}${values.length > 0 ? `: ${values.join(', ')}` : ''}`);
+    });
+  });
+
+  return lines.join('\n');
+};
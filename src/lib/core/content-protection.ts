@@ -2,6 +2,7 @@ import { select, isCancel, note, confirm } from "@clack/prompts";
 import type { CLIContext, Result } from "./types.js";
 import type { ContentProtectionMode, ContentProtectionVerbosity, GlobalSettings } from "../../types/shop.js";
 import { loadGlobalSettings, saveGlobalSettings } from "./global-settings.js";
+import { hasShopTargeting, loadShopCatalog, pickShop, pickShops } from "./shop-selection.js";
 
 /**
  * Content protection configuration and management
@@ -75,7 +76,7 @@ const configureShopProtection = async (context: CLIContext): Promise<Result<void
     return { success: false, error: "No shops configured" };
   }
 
-  const shopId = await selectShop(shopsResult.data);
+  const shopId = await pickShop(context, shopsResult.data, "Select shop to configure:");
   if (!shopId) return { success: false, error: "No shop selected" };
 
   const configResult = await context.shopOps.loadConfig(shopId);
@@ -104,6 +105,7 @@ const configureShopProtection = async (context: CLIContext): Promise<Result<void
     const updatedConfig = {
       ...config,
       contentProtection: {
+        ...currentProtection,
         enabled: false,
         mode: 'off' as ContentProtectionMode,
         verbosity: 'verbose' as ContentProtectionVerbosity
@@ -125,6 +127,7 @@ const configureShopProtection = async (context: CLIContext): Promise<Result<void
   const updatedConfig = {
     ...config,
     contentProtection: {
+      ...currentProtection,
       enabled: true,
       mode,
       verbosity
@@ -139,15 +142,11 @@ const configureShopProtection = async (context: CLIContext): Promise<Result<void
 };
 
 const enableAllShops = async (context: CLIContext): Promise<Result<void>> => {
-  const shopsResult = await context.shopOps.listShops();
-
-  if (!shopsResult.success || !shopsResult.data?.length) {
-    note("No shops configured yet", "⚠️ Error");
-    return { success: false, error: "No shops configured" };
-  }
+  const target = await selectBulkTarget(context);
+  if (!target.success || !target.data) return { success: false, error: target.error ?? "No shops selected" };
 
   const confirmed = await confirm({
-    message: `Enable strict content protection for all ${shopsResult.data.length} shops?`,
+    message: `Enable strict content protection for ${target.data.label}?`,
     initialValue: true
   });
 
@@ -157,13 +156,14 @@ const enableAllShops = async (context: CLIContext): Promise<Result<void>> => {
 
   let updated = 0;
 
-  for (const shopId of shopsResult.data) {
+  for (const shopId of target.data.shops) {
     const configResult = await context.shopOps.loadConfig(shopId);
 
     if (configResult.success && configResult.data) {
       const updatedConfig = {
         ...configResult.data,
         contentProtection: {
+          ...configResult.data.contentProtection,
           enabled: true,
           mode: 'strict' as ContentProtectionMode,
           verbosity: 'verbose' as ContentProtectionVerbosity
@@ -181,15 +181,11 @@ const enableAllShops = async (context: CLIContext): Promise<Result<void>> => {
 };
 
 const disableAllShops = async (context: CLIContext): Promise<Result<void>> => {
-  const shopsResult = await context.shopOps.listShops();
-
-  if (!shopsResult.success || !shopsResult.data?.length) {
-    note("No shops configured yet", "⚠️ Error");
-    return { success: false, error: "No shops configured" };
-  }
+  const target = await selectBulkTarget(context);
+  if (!target.success || !target.data) return { success: false, error: target.error ?? "No shops selected" };
 
   const confirmed = await confirm({
-    message: `Disable content protection for all ${shopsResult.data.length} shops? This removes safety checks.`,
+    message: `Disable content protection for ${target.data.label}? This removes safety checks.`,
     initialValue: false
   });
 
@@ -199,13 +195,14 @@ const disableAllShops = async (context: CLIContext): Promise<Result<void>> => {
 
   let updated = 0;
 
-  for (const shopId of shopsResult.data) {
+  for (const shopId of target.data.shops) {
     const configResult = await context.shopOps.loadConfig(shopId);
 
     if (configResult.success && configResult.data) {
       const updatedConfig = {
         ...configResult.data,
         contentProtection: {
+          ...configResult.data.contentProtection,
           enabled: false,
           mode: 'off' as ContentProtectionMode,
           verbosity: 'verbose' as ContentProtectionVerbosity
@@ -222,6 +219,39 @@ const disableAllShops = async (context: CLIContext): Promise<Result<void>> => {
   return { success: true };
 };
 
+/**
+ * Shops for the bulk toggles: every shop, or a tag/group pick once shops are tagged or grouped
+ * The label finishes the confirm prompt ("all 3 shops", "2 selected shops")
+ */
+const selectBulkTarget = async (context: CLIContext): Promise<Result<{ shops: string[]; label: string }>> => {
+  const catalogResult = await loadShopCatalog(context);
+
+  if (!catalogResult.success || !catalogResult.data?.shops.length) {
+    note("No shops configured yet", "⚠️ Error");
+    return { success: false, error: "No shops configured" };
+  }
+
+  const catalog = catalogResult.data;
+  const all = { shops: catalog.shops, label: `all ${catalog.shops.length} shops` };
+  if (!hasShopTargeting(catalog)) return { success: true, data: all };
+
+  const scope = await select({
+    message: "Apply to:",
+    options: [
+      { value: "all", label: "All Shops", hint: `${catalog.shops.length} shops` },
+      { value: "pick", label: "Shops by Tag or Group", hint: "Choose from tags and shop groups" }
+    ]
+  });
+
+  if (isCancel(scope)) return { success: false, error: "Cancelled" };
+  if (scope === "all") return { success: true, data: all };
+
+  const shops = await pickShops(context, catalog, "Select shops:");
+  if (!shops) return { success: false, error: "Cancelled" };
+
+  return { success: true, data: { shops, label: `${shops.length} selected shop${shops.length === 1 ? '' : 's'}` } };
+};
+
 const configureGlobalSettings = async (context: CLIContext): Promise<Result<void>> => {
   const settingsResult = await loadGlobalSettings(context.deps.cwd);
   const currentSettings = settingsResult.data || {
@@ -250,7 +280,9 @@ const configureGlobalSettings = async (context: CLIContext): Promise<Result<void
   if (isCancel(applyToNew)) return { success: false, error: "Cancelled" };
 
   const newSettings: GlobalSettings = {
+    ...currentSettings,
     contentProtection: {
+      ...current,
       defaultMode: mode,
       defaultVerbosity: verbosity,
       applyToNewShops: Boolean(applyToNew)
@@ -266,15 +298,6 @@ const configureGlobalSettings = async (context: CLIContext): Promise<Result<void
 };
 
 // Helper functions
-const selectShop = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop to configure:",
-    options: shops.map(shop => ({ value: shop, label: shop }))
-  });
-
-  return isCancel(shopChoice) ? null : String(shopChoice);
-};
-
 const selectMode = async (): Promise<ContentProtectionMode | null> => {
   const modeChoice = await select({
     message: "Protection mode:",
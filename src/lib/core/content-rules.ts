@@ -0,0 +1,74 @@
+import type { ContentFileGlobs } from "../../types/shop.js";
+import type { Result } from "./types.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { validateContentFileGlobs } from "./validation.js";
+import { CONTENT_GLOB_RULES } from "./validation-schemas.js";
+
+/**
+ * Which theme files are shop content, from contentProtection.include / exclude globs
+ * A shop config's lists replace those in shops/settings.json, which replace the defaults
+ */
+
+export interface ContentRules {
+  readonly include: readonly string[];
+  readonly exclude: readonly string[];
+}
+
+export const DEFAULT_CONTENT_RULES: ContentRules = {
+  include: CONTENT_GLOB_RULES.defaultInclude,
+  exclude: []
+};
+
+export const resolveContentRules = (globs?: ContentFileGlobs, defaults: ContentRules = DEFAULT_CONTENT_RULES): ContentRules => ({
+  include: globs?.include ?? defaults.include,
+  exclude: globs?.exclude ?? defaults.exclude
+});
+
+/** Rules for shops without their own globs */
+export const loadContentRules = async (cwd: string): Promise<Result<ContentRules>> => {
+  const settingsResult = await loadGlobalSettings(cwd);
+  if (!settingsResult.success) return { success: false, error: settingsResult.error ?? "Failed to load settings" };
+
+  // settings.json may not have a contentProtection section at all
+  const globs: ContentFileGlobs | undefined = settingsResult.data?.contentProtection;
+  const validation = validateContentFileGlobs(globs, 'contentProtection');
+  if (!validation.success) return { success: false, error: `Invalid shops/settings.json: ${validation.error}` };
+
+  return { success: true, data: resolveContentRules(globs) };
+};
+
+export const isContentFile = (file: string, rules: ContentRules = DEFAULT_CONTENT_RULES): boolean =>
+  rules.include.some(glob => matchesGlob(file, glob)) && !rules.exclude.some(glob => matchesGlob(file, glob));
+
+/** `*` and `?` stay within one path segment; `**` spans any number of them */
+export const matchesGlob = (file: string, glob: string): boolean => globToRegExp(glob).test(file);
+
+const compiledGlobs = new Map<string, RegExp>();
+
+const globToRegExp = (glob: string): RegExp => {
+  const cached = compiledGlobs.get(glob);
+  if (cached) return cached;
+
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob.charAt(index);
+    if (char === '*' && glob.charAt(index + 1) === '*') {
+      // `**/` also matches no directory at all: templates/**/*.json covers templates/index.json
+      const slash = glob.charAt(index + 2) === '/';
+      source += slash ? '(?:[^/]+/)*' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // Built from validated globs, not arbitrary user input
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  const pattern = new RegExp(`^${source}$`);
+  compiledGlobs.set(glob, pattern);
+  return pattern;
+};
@@ -0,0 +1,486 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { select, multiselect, text, isCancel, note } from "@clack/prompts";
+import type { ContentSnapshot, ContentSnapshotSource, Environment, ShopConfig } from "../../types/shop.js";
+import type { CLIContext, Dependencies, Result } from "./types.js";
+import { COMMAND_NOT_FOUND, runCommand } from "./command-runner.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { environmentBranchName, loadBranchNaming } from "./branch-naming.js";
+import { isContentFile, loadContentRules, resolveContentRules, type ContentRules } from "./content-rules.js";
+import { diffContentJson, formatContentDiff, parseContentJson, type ContentDiffReport, type ContentFileDiff } from "./content-diff.js";
+import { pickShop } from "./shop-selection.js";
+import { isValidContentGlob, isValidSnapshotId, VALIDATION_ERRORS } from "./validation-schemas.js";
+
+/**
+ * Content snapshots: a shop's protected content files archived under shops/snapshots/<shop>/<id>.json
+ * Taken from a shop branch or the live theme; compared with and restored onto a branch as a commit
+ */
+
+export interface SnapshotOptions {
+  /** Environment whose branch or live theme is captured (default: production) */
+  readonly environment?: Environment;
+  /** Capture this branch instead of the environment's */
+  readonly branch?: string;
+  /** Pull the environment's live theme with the Shopify CLI instead of reading the branch */
+  readonly fromTheme?: boolean;
+  readonly message?: string;
+}
+
+export interface SnapshotSummary {
+  readonly id: string;
+  readonly createdAt: string;
+  readonly source: ContentSnapshotSource;
+  readonly message?: string;
+  readonly fileCount: number;
+}
+
+export interface RestoreOptions {
+  /** Files to restore (default: every file in the snapshot) */
+  readonly files?: readonly string[];
+  /** Branch to commit onto (default: the production branch) */
+  readonly branch?: string;
+  readonly push?: boolean;
+}
+
+export interface RestoreResult {
+  /** unchanged: the branch already matches the snapshot, so nothing was committed */
+  readonly status: 'restored' | 'unchanged';
+  readonly branch: string;
+  readonly files: string[];
+  readonly pushed: boolean;
+}
+
+const SNAPSHOT_FORMAT_VERSION = 1;
+const DEFAULT_ENVIRONMENT = 'production';
+
+export const snapshotDir = (deps: Dependencies, shop: string): string => path.join(deps.shopsDir, 'snapshots', shop);
+
+/**
+ * Keeps shops/snapshots/ out of git status in projects initialized before init added it to .gitignore;
+ * restore, refresh and clone refuse to run on a dirty working tree
+ */
+const ignoreSnapshots = (deps: Dependencies): void => {
+  const ignorePath = path.join(deps.shopsDir, 'snapshots', '.gitignore');
+  if (!fs.existsSync(ignorePath)) fs.writeFileSync(ignorePath, '*\n');
+};
+
+export const createContentSnapshot = async (
+  context: CLIContext,
+  shop: string,
+  options: SnapshotOptions = {}
+): Promise<Result<ContentSnapshot>> => {
+  const configResult = await context.shopOps.loadConfig(shop);
+  if (!configResult.success || !configResult.data) return { success: false, error: configResult.error ?? `Shop ${shop} not found` };
+
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load content rules" };
+
+  const config = configResult.data;
+  const rules = resolveContentRules(config.contentProtection, rulesResult.data);
+  const environment = options.environment ?? DEFAULT_ENVIRONMENT;
+
+  let captured: Result<{ source: ContentSnapshotSource; files: Record<string, string> }>;
+  if (options.fromTheme === true) {
+    captured = await pullThemeContent(context, config, environment, rules.include);
+  } else {
+    const branchResult = await resolveBranch(context, config, options.branch, environment);
+    if (!branchResult.success || branchResult.data === undefined) return { success: false, error: branchResult.error ?? "Failed to resolve branch" };
+    captured = await readBranchContent(context, branchResult.data, rules);
+  }
+  if (!captured.success || !captured.data) return { success: false, error: captured.error ?? "Failed to capture content" };
+
+  // theme pull --only is a hint; exclude globs still apply
+  const files = Object.fromEntries(
+    Object.entries(captured.data.files).filter(([file]) => isContentFile(file, rules)).sort(([a], [b]) => a.localeCompare(b))
+  );
+  if (Object.keys(files).length === 0) return { success: false, error: `No content files found for ${shop}` };
+
+  const createdAt = new Date();
+  const snapshot: ContentSnapshot = {
+    version: SNAPSHOT_FORMAT_VERSION,
+    id: nextSnapshotId(context.deps, shop, createdAt),
+    shopId: shop,
+    createdAt: createdAt.toISOString(),
+    source: captured.data.source,
+    ...(options.message !== undefined ? { message: options.message } : {}),
+    files
+  };
+
+  try {
+    const dir = snapshotDir(context.deps, shop);
+    fs.mkdirSync(dir, { recursive: true });
+    ignoreSnapshots(context.deps);
+    fs.writeFileSync(path.join(dir, `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2));
+    return { success: true, data: snapshot };
+  } catch (error) {
+    return { success: false, error: `Failed to save snapshot: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+const resolveBranch = async (
+  context: CLIContext,
+  config: ShopConfig,
+  branch: string | undefined,
+  environment: Environment
+): Promise<Result<string>> => {
+  if (branch !== undefined) return { success: true, data: branch };
+
+  const configured = config.shopify.stores[environment]?.branch;
+  if (configured !== undefined) return { success: true, data: configured };
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  return { success: true, data: environmentBranchName(namingResult.data, config.shopId, environment) };
+};
+
+const readBranchContent = async (
+  context: CLIContext,
+  branch: string,
+  rules: ContentRules
+): Promise<Result<{ source: ContentSnapshotSource; files: Record<string, string> }>> => {
+  const ref = `origin/${branch}`;
+  const listed = await context.gitOps.listFiles(ref);
+  if (!listed.success || !listed.data) return { success: false, error: listed.error ?? `Failed to list files on ${ref}` };
+
+  const files: Record<string, string> = {};
+  for (const file of listed.data.filter(file => isContentFile(file, rules))) {
+    const contents = await context.gitOps.readFile(ref, file);
+    if (!contents.success) return { success: false, error: contents.error ?? `Failed to read ${file}` };
+    if (typeof contents.data === 'string') files[file] = contents.data;
+  }
+
+  return { success: true, data: { source: { kind: 'branch', branch }, files } };
+};
+
+const pullThemeContent = async (
+  context: CLIContext,
+  config: ShopConfig,
+  environment: Environment,
+  include: readonly string[]
+): Promise<Result<{ source: ContentSnapshotSource; files: Record<string, string> }>> => {
+  const domain = config.shopify.stores[environment]?.domain;
+  if (domain === undefined) return { success: false, error: `${config.shopId} has no ${environment} environment` };
+
+  const credentials = await context.credOps.resolveCredentials(config.shopId);
+  const token = credentials.data?.credentials?.shopify.stores[environment]?.themeToken;
+  if (token === undefined || token === '') return { success: false, error: `No ${environment} theme token for ${config.shopId}` };
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-shop-snapshot-'));
+  try {
+    const result = await runCommand(
+      'shopify',
+      ['theme', 'pull', '--live', '--path', tempDir, '--store', domain, ...include.flatMap(glob => ['--only', glob])],
+      { cwd: context.deps.cwd, env: { ...process.env, SHOPIFY_CLI_THEME_TOKEN: token } }
+    );
+    if (result.exitCode === COMMAND_NOT_FOUND) {
+      return { success: false, error: "Shopify CLI not found. Install: pnpm add -g @shopify/cli" };
+    }
+    if (result.exitCode !== 0) {
+      return { success: false, error: `shopify theme pull failed: ${result.stderr.trim() || result.stdout.trim()}` };
+    }
+
+    const files = Object.fromEntries(listThemeFiles(tempDir).map(file => [file, fs.readFileSync(path.join(tempDir, file), 'utf8')]));
+    return { success: true, data: { source: { kind: 'theme', environment, domain }, files } };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+/** Theme-relative paths with / separators, whatever the platform */
+const listThemeFiles = (root: string, dir = ''): string[] =>
+  fs.readdirSync(path.join(root, dir), { withFileTypes: true }).flatMap(entry => {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) return listThemeFiles(root, relative);
+    return entry.isFile() ? [relative] : [];
+  });
+
+/** YYYYMMDD-HHMMSS (UTC), suffixed -2, -3, ... when that second is taken */
+const nextSnapshotId = (deps: Dependencies, shop: string, date: Date): string => {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const taken = (id: string): boolean => fs.existsSync(path.join(snapshotDir(deps, shop), `${id}.json`));
+
+  let id = stamp;
+  for (let suffix = 2; taken(id); suffix++) id = `${stamp}-${suffix}`;
+  return id;
+};
+
+/** Newest first */
+export const listContentSnapshots = async (deps: Dependencies, shop: string): Promise<Result<SnapshotSummary[]>> => {
+  const dir = snapshotDir(deps, shop);
+  if (!fs.existsSync(dir)) return { success: true, data: [] };
+
+  const ids = fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .filter(isValidSnapshotId);
+
+  const summaries: SnapshotSummary[] = [];
+  for (const id of ids) {
+    const loaded = await loadContentSnapshot(deps, shop, id);
+    if (!loaded.success || !loaded.data) return { success: false, error: loaded.error ?? `Failed to load snapshot ${id}` };
+
+    const { createdAt, source, message, files } = loaded.data;
+    summaries.push({ id, createdAt, source, ...(message !== undefined ? { message } : {}), fileCount: Object.keys(files).length });
+  }
+
+  return { success: true, data: summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)) };
+};
+
+export const loadContentSnapshot = async (deps: Dependencies, shop: string, id: string): Promise<Result<ContentSnapshot>> => {
+  if (!isValidSnapshotId(id)) return { success: false, error: VALIDATION_ERRORS.snapshot.invalidId };
+
+  const snapshotPath = path.join(snapshotDir(deps, shop), `${id}.json`);
+  if (!fs.existsSync(snapshotPath)) return { success: false, error: `Snapshot ${id} not found for ${shop}` };
+
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf8')) as ContentSnapshot;
+    if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+      return { success: false, error: `Snapshot ${id} has unsupported format version ${String(snapshot.version)}` };
+    }
+    // Restore writes these paths into the working tree
+    if (!Object.keys(snapshot.files).every(isValidContentGlob)) {
+      return { success: false, error: VALIDATION_ERRORS.snapshot.unsafePath };
+    }
+
+    return { success: true, data: snapshot };
+  } catch (error) {
+    return { success: false, error: `Failed to load snapshot ${id}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/** What restoring the snapshot would change on the branch (files the snapshot lacks are left alone) */
+export const diffContentSnapshot = async (
+  context: CLIContext,
+  shop: string,
+  id: string,
+  options: { branch?: string } = {}
+): Promise<Result<ContentDiffReport>> => {
+  const loaded = await loadContentSnapshot(context.deps, shop, id);
+  if (!loaded.success || !loaded.data) return { success: false, error: loaded.error ?? `Failed to load snapshot ${id}` };
+
+  const branchResult = await resolveSnapshotTarget(context, shop, options.branch);
+  if (!branchResult.success || branchResult.data === undefined) return { success: false, error: branchResult.error ?? "Failed to resolve branch" };
+
+  const to = `origin/${branchResult.data}`;
+  const files: ContentFileDiff[] = [];
+  for (const [file, contents] of Object.entries(loaded.data.files)) {
+    const current = await context.gitOps.readFile(to, file);
+    if (!current.success) return { success: false, error: current.error ?? `Failed to read ${file}` };
+
+    const diff = diffSnapshotFile(file, current.data ?? null, contents);
+    if (diff) files.push(diff);
+  }
+
+  return { success: true, data: { shop, from: `snapshot ${id}`, to, files } };
+};
+
+const diffSnapshotFile = (file: string, current: string | null, snapshot: string): ContentFileDiff | null => {
+  if (current === null) return { file, status: 'added', changes: [] };
+  if (current === snapshot) return null;
+
+  try {
+    const changes = diffContentJson(parseContentJson(current), parseContentJson(snapshot));
+    return changes.length > 0 ? { file, status: 'modified', changes } : null;
+  } catch (error) {
+    return { file, status: 'modified', changes: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/** The snapshot's own branch, unless one is given */
+const resolveSnapshotTarget = async (context: CLIContext, shop: string, branch?: string): Promise<Result<string>> => {
+  if (branch !== undefined) return { success: true, data: branch };
+
+  const configResult = await context.shopOps.loadConfig(shop);
+  if (!configResult.success || !configResult.data) return { success: false, error: configResult.error ?? `Shop ${shop} not found` };
+
+  return resolveBranch(context, configResult.data, undefined, DEFAULT_ENVIRONMENT);
+};
+
+export const restoreContentSnapshot = async (
+  context: CLIContext,
+  shop: string,
+  id: string,
+  options: RestoreOptions = {}
+): Promise<Result<RestoreResult>> => {
+  const loaded = await loadContentSnapshot(context.deps, shop, id);
+  if (!loaded.success || !loaded.data) return { success: false, error: loaded.error ?? `Failed to load snapshot ${id}` };
+
+  const snapshot = loaded.data;
+  const files = options.files ?? Object.keys(snapshot.files);
+  const missing = files.filter(file => !Object.hasOwn(snapshot.files, file));
+  if (missing.length > 0) return { success: false, error: `Not in snapshot ${id}: ${missing.join(', ')}` };
+  if (files.length === 0) return { success: false, error: "No files selected to restore" };
+
+  const branchResult = await resolveSnapshotTarget(context, shop, options.branch);
+  if (!branchResult.success || branchResult.data === undefined) return { success: false, error: branchResult.error ?? "Failed to resolve branch" };
+
+  const git = context.gitOps;
+  const branch = branchResult.data;
+
+  try {
+    const clean = await unwrapGitResult(git.isWorkingTreeClean());
+    if (clean !== true) {
+      return { success: false, error: "Working tree has uncommitted changes. Commit or stash them first." };
+    }
+
+    // Detached HEAD (common in CI) falls back to the commit SHA
+    const currentBranch = (await unwrapGitResult(git.getCurrentBranch())) ?? '';
+    const originalRef = currentBranch !== '' ? currentBranch : (await unwrapGitResult(git.getHeadCommit())) ?? '';
+    await unwrapGitResult(git.fetch());
+
+    try {
+      await unwrapGitResult(git.checkout(branch));
+      // Restore on top of what origin has, not a stale local copy
+      if ((await unwrapGitResult(git.branchExists(branch, { remote: true }))) === true) {
+        await unwrapGitResult(git.merge(`origin/${branch}`, { fastForwardOnly: true }));
+      }
+
+      const changed = files.filter(file => readWorkingFile(context.deps.cwd, file) !== snapshot.files[file]);
+      if (changed.length === 0) return { success: true, data: { status: 'unchanged', branch, files: [...files], pushed: false } };
+
+      for (const file of changed) {
+        const filePath = path.join(context.deps.cwd, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, snapshot.files[file] ?? '');
+      }
+
+      await unwrapGitResult(git.addFiles(changed));
+      await unwrapGitResult(git.commit(`Restore content for ${shop} from snapshot ${id}`));
+      if (options.push === true) await unwrapGitResult(git.pushBranch(branch));
+
+      return { success: true, data: { status: 'restored', branch, files: changed, pushed: Boolean(options.push) } };
+    } finally {
+      if (originalRef !== '') await git.checkout(originalRef);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Restoring snapshot ${id} for ${shop} failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const readWorkingFile = (cwd: string, file: string): string | null => {
+  const filePath = path.join(cwd, file);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+};
+
+export const formatSnapshotSource = (source: ContentSnapshotSource): string =>
+  source.kind === 'branch' ? `branch ${source.branch}` : `live theme (${source.environment}, ${source.domain})`;
+
+export const formatSnapshotList = (shop: string, snapshots: readonly SnapshotSummary[]): string => {
+  if (snapshots.length === 0) return `No content snapshots for ${shop}`;
+
+  return snapshots
+    .map(snapshot => {
+      const message = snapshot.message !== undefined ? ` — ${snapshot.message}` : '';
+      return `${snapshot.id}  ${snapshot.fileCount} files from ${formatSnapshotSource(snapshot.source)}${message}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Tools menu: take, list, compare and restore snapshots of one shop
+ */
+export const handleContentSnapshots = async (context: CLIContext): Promise<Result<void>> => {
+  const shopsResult = await context.shopOps.listShops();
+  if (!shopsResult.success || !shopsResult.data || shopsResult.data.length === 0) {
+    note("No shops configured yet", "⚠️ Error");
+    return { success: false, error: "No shops configured" };
+  }
+
+  const shop = await pickShop(context, shopsResult.data, "Select shop:");
+  if (shop === null) return { success: false, error: "No shop selected" };
+
+  const action = await select({
+    message: `Content snapshots for ${shop}:`,
+    options: [
+      { value: "create", label: "Take snapshot", hint: "Archive the production branch's content files" },
+      { value: "list", label: "List snapshots" },
+      { value: "diff", label: "Compare snapshot", hint: "What a restore would change" },
+      { value: "restore", label: "Restore snapshot", hint: "Commit selected files onto the production branch" }
+    ]
+  });
+  if (isCancel(action)) return { success: false, error: "Cancelled" };
+
+  if (action === "create") return takeSnapshotInteractive(context, shop);
+
+  const listed = await listContentSnapshots(context.deps, shop);
+  if (!listed.success || !listed.data) return { success: false, error: listed.error ?? "Failed to list snapshots" };
+
+  if (action === "list" || listed.data.length === 0) {
+    note(formatSnapshotList(shop, listed.data), "📸 Snapshots");
+    return { success: true };
+  }
+
+  const id = await select({
+    message: "Select snapshot:",
+    options: listed.data.map(snapshot => ({
+      value: snapshot.id,
+      label: snapshot.id,
+      hint: snapshot.message ?? formatSnapshotSource(snapshot.source)
+    }))
+  });
+  if (isCancel(id)) return { success: false, error: "Cancelled" };
+
+  return action === "diff" ? compareSnapshotInteractive(context, shop, String(id)) : restoreSnapshotInteractive(context, shop, String(id));
+};
+
+const takeSnapshotInteractive = async (context: CLIContext, shop: string): Promise<Result<void>> => {
+  const message = await text({ message: "Note for this snapshot (optional):", placeholder: "Before holiday theme" });
+  if (isCancel(message)) return { success: false, error: "Cancelled" };
+
+  const result = await createContentSnapshot(context, shop, message ? { message: String(message) } : {});
+  if (!result.success || !result.data) {
+    note(result.error ?? "Snapshot failed", "❌ Error");
+    return { success: false, error: result.error ?? "Snapshot failed" };
+  }
+
+  note(`${Object.keys(result.data.files).length} files from ${formatSnapshotSource(result.data.source)}`, `📸 Snapshot ${result.data.id}`);
+  return { success: true };
+};
+
+const compareSnapshotInteractive = async (context: CLIContext, shop: string, id: string): Promise<Result<void>> => {
+  const result = await diffContentSnapshot(context, shop, id);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? "Compare failed" };
+
+  console.log(formatContentDiff(result.data));
+  return { success: true };
+};
+
+const restoreSnapshotInteractive = async (context: CLIContext, shop: string, id: string): Promise<Result<void>> => {
+  const loaded = await loadContentSnapshot(context.deps, shop, id);
+  if (!loaded.success || !loaded.data) return { success: false, error: loaded.error ?? "Failed to load snapshot" };
+
+  const files = await multiselect({
+    message: "Files to restore:",
+    options: Object.keys(loaded.data.files).map(file => ({ value: file, label: file })),
+    required: true
+  });
+  if (isCancel(files)) return { success: false, error: "Cancelled" };
+
+  const push = await select({
+    message: "After committing:",
+    options: [
+      { value: false, label: "Keep the commit local" },
+      { value: true, label: "Push the branch" }
+    ]
+  });
+  if (isCancel(push)) return { success: false, error: "Cancelled" };
+
+  const result = await restoreContentSnapshot(context, shop, id, { files: files.map(String), push: Boolean(push) });
+  if (!result.success || !result.data) {
+    note(result.error ?? "Restore failed", "❌ Error");
+    return { success: false, error: result.error ?? "Restore failed" };
+  }
+
+  if (result.data.status === 'unchanged') {
+    note(`${result.data.branch} already matches snapshot ${id}; nothing to commit`, "✅ Up to date");
+    return { success: true };
+  }
+
+  note(`${result.data.files.length} files committed to ${result.data.branch}${result.data.pushed ? ' and pushed' : ''}`, "✅ Restored");
+  return { success: true };
+};
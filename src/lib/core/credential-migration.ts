@@ -0,0 +1,109 @@
+import fs from "fs";
+import path from "path";
+import type { CredentialBackendName, ShopCredentials } from "../../types/shop.js";
+import type { Dependencies, Result } from "./types.js";
+import { loadGlobalSettings, saveGlobalSettings } from "./global-settings.js";
+import { createCredentialStore, DEFAULT_CREDENTIAL_SETTINGS } from "./credential-operations.js";
+import { createFileCredentialStore, CREDENTIAL_FILE_SUFFIX } from "./file-credential-store.js";
+
+/**
+ * Move plaintext *.credentials.json files into another credential backend
+ * Each shop is written, read back and compared; plaintext files are removed only once every shop
+ * migrated and the new backend is saved in shops/settings.json
+ */
+
+export interface CredentialMigrationOptions {
+  /** Target backend; defaults to `credentials.backend` from shops/settings.json */
+  readonly to?: CredentialBackendName;
+  /** Leave the plaintext files in place after migrating */
+  readonly keepPlaintext?: boolean;
+}
+
+export interface CredentialMigrationReport {
+  readonly backend: CredentialBackendName;
+  readonly migrated: string[];
+  readonly failed: { shop: string; error: string }[];
+  readonly removedPlaintext: boolean;
+}
+
+export const migrateCredentials = async (
+  deps: Dependencies,
+  options: CredentialMigrationOptions = {}
+): Promise<Result<CredentialMigrationReport>> => {
+  const settingsResult = await loadGlobalSettings(deps.cwd);
+  if (!settingsResult.success || !settingsResult.data) {
+    return { success: false, error: settingsResult.error ?? 'Failed to load global settings' };
+  }
+
+  const settings = settingsResult.data;
+  const currentCredentials = settings.credentials ?? DEFAULT_CREDENTIAL_SETTINGS;
+  const backend = options.to ?? currentCredentials.backend;
+
+  if (backend === 'file') {
+    return { success: false, error: 'Choose a target backend: --to encrypted-file or --to command' };
+  }
+  if (backend === 'env') {
+    return { success: false, error: 'The env backend is read-only; set MULTI_SHOP_<SHOPID>_<ENV>_TOKEN variables instead' };
+  }
+
+  const targetSettings = { ...currentCredentials, backend };
+  const target = createCredentialStore(deps, targetSettings);
+  if (!target.success || !target.data) {
+    return { success: false, error: target.error ?? `Credential backend ${backend} unavailable` };
+  }
+
+  const source = createFileCredentialStore(deps, currentCredentials.onChecksumMismatch);
+  const migrated: string[] = [];
+  const failed: { shop: string; error: string }[] = [];
+
+  for (const shop of listPlaintextCredentials(deps)) {
+    const loaded = await source.load(shop);
+    if (!loaded.success || !loaded.data) {
+      failed.push({ shop, error: loaded.error ?? 'No credentials found' });
+      continue;
+    }
+
+    const saved = await target.data.save(shop, loaded.data);
+    if (!saved.success) {
+      failed.push({ shop, error: saved.error ?? 'Failed to save credentials' });
+      continue;
+    }
+
+    const verified = await target.data.load(shop);
+    if (!verified.success || !verified.data || !sameTokens(verified.data, loaded.data)) {
+      failed.push({ shop, error: verified.error ?? 'Stored credentials did not read back correctly' });
+      continue;
+    }
+
+    migrated.push(shop);
+  }
+
+  // Only switch backends once every shop is readable from the new one
+  if (failed.length === 0 && currentCredentials.backend !== backend) {
+    const saveResult = await saveGlobalSettings(deps.cwd, { ...settings, credentials: targetSettings });
+    if (!saveResult.success) return { success: false, error: saveResult.error ?? 'Failed to save global settings' };
+  }
+
+  // Until the switch is saved the file backend is still active and still needs every plaintext file
+  const removePlaintext = !options.keepPlaintext && failed.length === 0;
+  if (removePlaintext) {
+    migrated.forEach(shop => fs.unlinkSync(path.join(deps.credentialsDir, `${shop}${CREDENTIAL_FILE_SUFFIX}`)));
+  }
+
+  return { success: true, data: { backend, migrated, failed, removedPlaintext: removePlaintext && migrated.length > 0 } };
+};
+
+const listPlaintextCredentials = (deps: Dependencies): string[] => {
+  if (!fs.existsSync(deps.credentialsDir)) return [];
+
+  return fs.readdirSync(deps.credentialsDir)
+    .filter(file => file.endsWith(CREDENTIAL_FILE_SUFFIX))
+    .map(file => file.slice(0, -CREDENTIAL_FILE_SUFFIX.length))
+    .sort();
+};
+
+const sameTokens = (a: ShopCredentials, b: ShopCredentials): boolean => {
+  const environments = new Set([...Object.keys(a.shopify.stores), ...Object.keys(b.shopify.stores)]);
+  return [...environments].every(environment =>
+    a.shopify.stores[environment]?.themeToken === b.shopify.stores[environment]?.themeToken);
+};
@@ -1,102 +1,160 @@
-import fs from "fs";
-import path from "path";
-import type { ShopCredentials } from "../../types/shop.js";
-import type { Dependencies, Result, CredentialOperations } from "./types.js";
+import type {
+  CredentialEnvPrecedence,
+  CredentialSettings,
+  Environment,
+  ResolvedCredentials,
+  ShopCredentials,
+  TokenSource
+} from "../../types/shop.js";
+import type { Dependencies, Result, CredentialOperations, CredentialStore } from "./types.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { createFileCredentialStore } from "./file-credential-store.js";
+import { createEncryptedCredentialStore, PASSPHRASE_ENV_VAR } from "./encrypted-credential-store.js";
+import { createEnvCredentialStore, credentialEnvVar } from "./env-credential-store.js";
+import { createCommandCredentialStore } from "./command-credential-store.js";
+import { readConfiguredEnvironments } from "./environments.js";
 
 /**
  * Pure functional credential operations
+ * Storage is delegated to the backend chosen by `credentials.backend` in shops/settings.json;
+ * MULTI_SHOP_<SHOPID>_<ENV>_TOKEN variables are layered on top per `credentials.envPrecedence`
  */
 
-export const createCredentialOperations = (deps: Dependencies): CredentialOperations => ({
-  loadCredentials: (shopId: string) => loadCredentials(deps, shopId),
-  saveCredentials: (shopId: string, credentials: ShopCredentials) => saveCredentials(deps, shopId, credentials)
-});
-
-const loadCredentials = async (deps: Dependencies, shopId: string): Promise<Result<ShopCredentials | null>> => {
-  try {
-    const credPath = getCredentialPath(deps, shopId);
-    
-    if (!fs.existsSync(credPath)) {
-      return { success: true, data: null };
+export const DEFAULT_CREDENTIAL_SETTINGS: CredentialSettings = {
+  backend: 'file'
+};
+
+export const DEFAULT_ENV_PRECEDENCE: CredentialEnvPrecedence = 'env-first';
+
+export const createCredentialOperations = (
+  deps: Dependencies,
+  store?: CredentialStore,
+  env: NodeJS.ProcessEnv = process.env
+): CredentialOperations => {
+  const resolveCredentials = async (shopId: string): Promise<Result<ResolvedCredentials>> => {
+    const settings = await loadCredentialSettings(deps);
+    const precedence = settings.envPrecedence ?? DEFAULT_ENV_PRECEDENCE;
+    const configured = readConfiguredEnvironments(deps, shopId);
+
+    const envResult = precedence === 'store-only'
+      ? { success: true, data: null }
+      : await createEnvCredentialStore(env, () => configured).load(shopId);
+    const fromEnv = envResult.data ?? null;
+
+    // When env wins and covers every environment the backend is never touched, so CI needs no credential files
+    if (precedence === 'env-first' && configured.every(environment => fromEnv?.shopify.stores[environment]?.themeToken)) {
+      return { success: true, data: combineCredentials(shopId, configured, null, 'file', fromEnv, precedence) };
     }
 
-    const rawData = fs.readFileSync(credPath, "utf8");
-    const credentials = JSON.parse(rawData);
+    const storeResult = store ? { success: true, data: store } : createCredentialStore(deps, settings);
+    if (!storeResult.success || !storeResult.data) {
+      return { success: false, error: storeResult.error ?? 'Credential store unavailable' };
+    }
 
-    if (!credentials?.shopify?.stores) {
-      return { success: false, error: `Invalid credential format for ${shopId}` };
+    const loaded = await storeResult.data.load(shopId);
+    if (!loaded.success) {
+      return { success: false, error: loaded.error ?? `Failed to load credentials for ${shopId}` };
     }
 
-    return { success: true, data: credentials };
-  } catch (error) {
-    return { 
-      success: false, 
-      error: `Failed to load credentials: ${error instanceof Error ? error.message : String(error)}` 
+    return {
+      success: true,
+      data: combineCredentials(shopId, configured, loaded.data ?? null, storeResult.data.name, fromEnv, precedence)
     };
-  }
-};
+  };
+
+  return {
+    loadCredentials: async (shopId: string) => {
+      const resolved = await resolveCredentials(shopId);
+      return resolved.success && resolved.data
+        ? { success: true, data: resolved.data.credentials }
+        : { success: false, error: resolved.error ?? 'Failed to load credentials' };
+    },
 
-const saveCredentials = async (deps: Dependencies, shopId: string, credentials: ShopCredentials): Promise<Result<void>> => {
-  try {
-    ensureCredentialsDirectory(deps);
-
-    const credPath = getCredentialPath(deps, shopId);
-    
-    const secureCredentials = {
-      ...credentials,
-      _metadata: {
-        created: new Date().toISOString(),
-        version: "1.0.0"
+    saveCredentials: async (shopId: string, credentials: ShopCredentials) => {
+      const storeResult = store ? { success: true, data: store } : await loadCredentialStore(deps);
+      if (!storeResult.success || !storeResult.data) {
+        return { success: false, error: storeResult.error ?? 'Credential store unavailable' };
       }
-    };
+      return storeResult.data.save(shopId, credentials);
+    },
 
-    fs.writeFileSync(credPath, JSON.stringify(secureCredentials, null, 2));
-    
-    // Set secure permissions where supported
-    try {
-      fs.chmodSync(credPath, 0o600);
-    } catch {
-      // Ignored on Windows
-    }
+    resolveCredentials
+  };
+};
 
-    return { success: true };
-  } catch (error) {
-    return { 
-      success: false, 
-      error: `Failed to save credentials: ${error instanceof Error ? error.message : String(error)}` 
-    };
+const combineCredentials = (
+  shopId: string,
+  configured: readonly Environment[],
+  stored: ShopCredentials | null,
+  storeName: CredentialStore['name'],
+  fromEnv: ShopCredentials | null,
+  precedence: CredentialEnvPrecedence
+): ResolvedCredentials => {
+  const pick = (environment: Environment): { token: string; source: TokenSource } => {
+    const envSource: TokenSource = { kind: 'env', name: credentialEnvVar(shopId, environment) };
+    const storeSource: TokenSource = storeName === 'env' ? envSource : { kind: 'store', name: storeName };
+    const envToken = { token: fromEnv?.shopify.stores[environment]?.themeToken ?? '', source: envSource };
+    const storeToken = { token: stored?.shopify.stores[environment]?.themeToken ?? '', source: storeSource };
+
+    const ordered = precedence === 'env-first' ? [envToken, storeToken] : [storeToken, envToken];
+    return ordered.find(candidate => candidate.token) ?? { token: '', source: { kind: 'none', name: '' } };
+  };
+
+  // Stored tokens for environments missing from the config still resolve, so nothing silently disappears
+  const environments = [...new Set([...configured, ...Object.keys(stored?.shopify.stores ?? {})])];
+  const picked = environments.map(environment => [environment, pick(environment)] as const);
+  const sources = Object.fromEntries(picked.map(([environment, { source }]) => [environment, source]));
+
+  if (picked.every(([, { source }]) => source.kind !== 'env')) {
+    return { credentials: stored, sources };
   }
+
+  // Mixed credentials are never saved as-is, so the stored checksum no longer applies
+  const { _metadata: _stored, ...base } = stored ?? fromEnv ?? { developer: 'env', shopify: { stores: {} } };
+  return {
+    credentials: {
+      ...base,
+      shopify: {
+        ...base.shopify,
+        stores: {
+          ...base.shopify.stores,
+          ...Object.fromEntries(picked.map(([environment, { token }]) => [environment, { themeToken: token }]))
+        }
+      }
+    } as ShopCredentials,
+    sources
+  };
 };
 
-const getCredentialPath = (deps: Dependencies, shopId: string): string => {
-  // Validate and sanitize shopId
-  const sanitizedShopId = shopId.replace(/[^a-z0-9-]/gi, '');
-  if (sanitizedShopId !== shopId || sanitizedShopId.length === 0 || sanitizedShopId.length > 50) {
-    throw new Error('Shop ID contains invalid characters');
-  }
-  
-  const credentialPath = path.join(deps.credentialsDir, `${sanitizedShopId}.credentials.json`);
-  
-  // Ensure path is within credentials directory
-  const resolvedPath = path.resolve(credentialPath);
-  const resolvedCredentialsDir = path.resolve(deps.credentialsDir);
-  
-  if (!resolvedPath.startsWith(resolvedCredentialsDir)) {
-    throw new Error('Invalid credential path');
-  }
-  
-  return credentialPath;
+export const loadCredentialSettings = async (deps: Dependencies): Promise<CredentialSettings> => {
+  const settingsResult = await loadGlobalSettings(deps.cwd);
+  return settingsResult.data?.credentials ?? DEFAULT_CREDENTIAL_SETTINGS;
 };
 
-const ensureCredentialsDirectory = (deps: Dependencies): void => {
-  if (!fs.existsSync(deps.credentialsDir)) {
-    fs.mkdirSync(deps.credentialsDir, { recursive: true });
-    
-    // Set directory permissions where supported
-    try {
-      fs.chmodSync(deps.credentialsDir, 0o700);
-    } catch {
-      // Ignored on Windows
+export const loadCredentialStore = async (deps: Dependencies): Promise<Result<CredentialStore>> =>
+  createCredentialStore(deps, await loadCredentialSettings(deps));
+
+export const createCredentialStore = (deps: Dependencies, settings: CredentialSettings): Result<CredentialStore> => {
+  switch (settings.backend) {
+    case 'file':
+      return { success: true, data: createFileCredentialStore(deps, settings.onChecksumMismatch) };
+
+    case 'encrypted-file': {
+      const passphrase = process.env[PASSPHRASE_ENV_VAR];
+      return passphrase
+        ? { success: true, data: createEncryptedCredentialStore(deps, passphrase, settings.onChecksumMismatch) }
+        : { success: false, error: `${PASSPHRASE_ENV_VAR} is not set` };
     }
+
+    case 'env':
+      return { success: true, data: createEnvCredentialStore(process.env, shopId => readConfiguredEnvironments(deps, shopId)) };
+
+    case 'command':
+      return settings.readCommand?.length
+        ? { success: true, data: createCommandCredentialStore(deps, settings) }
+        : { success: false, error: 'credentials.readCommand is required for the command backend' };
+
+    default:
+      return { success: false, error: `Unknown credential backend: ${String(settings.backend)}` };
   }
-};
\ No newline at end of file
+};
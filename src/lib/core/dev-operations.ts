@@ -1,13 +1,16 @@
 import { spawn, execSync } from "child_process";
 import { select, isCancel, note, spinner } from "@clack/prompts";
+import type { Environment, ShopConfig } from "../../types/shop.js";
 import type { Dependencies, Result, DevOperations, CLIContext } from "./types.js";
+import { listEnvironments, environmentLabel, DEFAULT_ENVIRONMENTS, PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { pickShop } from "./shop-selection.js";
 
 /**
  * Development server operations
  */
 
 export const createDevOperations = (deps: Dependencies): DevOperations => ({
-  startDev: (shopId: string, environment: 'production' | 'staging') => startDevServer(deps, shopId, environment)
+  startDev: (shopId: string, environment: Environment) => startDevServer(deps, shopId, environment)
 });
 
 export const startDevelopmentWorkflow = async (context: CLIContext): Promise<Result<void>> => {
@@ -18,10 +21,11 @@ export const startDevelopmentWorkflow = async (context: CLIContext): Promise<Res
   }
 
   const shops = shopsResult.data;
-  const selectedShop = await selectShopForDevelopment(shops);
+  const selectedShop = await pickShop(context, shops, "Select shop for development:");
   if (!selectedShop) return { success: false, error: "No shop selected" };
 
-  const environment = await selectEnvironment();
+  const configResult = await context.shopOps.loadConfig(selectedShop);
+  const environment = await selectEnvironment(configResult.data);
   if (!environment) return { success: false, error: "No environment selected" };
 
   const themeEditorSync = await selectThemeEditorSync();
@@ -30,29 +34,25 @@ export const startDevelopmentWorkflow = async (context: CLIContext): Promise<Res
   return startShopifyDevelopmentServer(context, selectedShop, environment, themeEditorSync);
 };
 
-const selectShopForDevelopment = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop for development:",
-    options: shops.map(shop => ({
-      value: shop,
-      label: shop,
-      hint: `Start dev server for ${shop}`
-    }))
-  });
+const selectEnvironment = async (config: ShopConfig | undefined): Promise<Environment | null> => {
+  const environments = config ? listEnvironments(config).map(environment => environment.name) : DEFAULT_ENVIRONMENTS;
 
-  return isCancel(shopChoice) ? null : shopChoice as string;
-};
+  // Safe environments first, the live store last
+  const ordered = [
+    ...environments.filter(name => name !== PRODUCTION_ENVIRONMENT),
+    ...environments.filter(name => name === PRODUCTION_ENVIRONMENT)
+  ];
 
-const selectEnvironment = async (): Promise<'staging' | 'production' | null> => {
   const envChoice = await select({
     message: "Select environment:",
-    options: [
-      { value: "staging", label: "Staging", hint: "Safe for development" },
-      { value: "production", label: "Production", hint: "Live store - be careful!" }
-    ]
+    options: ordered.map(name => ({
+      value: name,
+      label: environmentLabel(name),
+      hint: name === PRODUCTION_ENVIRONMENT ? "Live store - be careful!" : "Safe for development"
+    }))
   });
 
-  return isCancel(envChoice) ? null : envChoice as 'staging' | 'production';
+  return isCancel(envChoice) ? null : envChoice as Environment;
 };
 
 const selectThemeEditorSync = async (): Promise<boolean | null> => {
@@ -68,7 +68,7 @@ const selectThemeEditorSync = async (): Promise<boolean | null> => {
   return syncChoice === "yes";
 };
 
-const startShopifyDevelopmentServer = async (context: CLIContext, shopId: string, environment: 'production' | 'staging', themeEditorSync: boolean): Promise<Result<void>> => {
+export const startShopifyDevelopmentServer = async (context: CLIContext, shopId: string, environment: Environment, themeEditorSync: boolean): Promise<Result<void>> => {
   // Load shop configuration
   const configResult = await context.shopOps.loadConfig(shopId);
   if (!configResult.success) {
@@ -93,7 +93,11 @@ const startShopifyDevelopmentServer = async (context: CLIContext, shopId: string
   }
 
   const store = config.shopify.stores[environment];
-  const token = credentials.shopify.stores[environment].themeToken;
+  if (!store) {
+    return { success: false, error: `Environment ${environment} is not configured for ${shopId}` };
+  }
+
+  const token = credentials.shopify.stores[environment]?.themeToken;
 
   if (!token) {
     note(`No theme token found for ${environment}`, "⚠️ Setup Required");
@@ -103,7 +107,7 @@ const startShopifyDevelopmentServer = async (context: CLIContext, shopId: string
   return executeShopifyCLI(store.domain, token, shopId, environment, themeEditorSync);
 };
 
-const executeShopifyCLI = async (storeDomain: string, themeToken: string, shopId: string, environment: 'staging' | 'production', themeEditorSync: boolean): Promise<Result<void>> => {
+const executeShopifyCLI = async (storeDomain: string, themeToken: string, shopId: string, environment: Environment, themeEditorSync: boolean): Promise<Result<void>> => {
   const s = spinner();
   s.start("Starting Shopify CLI...");
 
@@ -169,7 +173,7 @@ const executeShopifyCLI = async (storeDomain: string, themeToken: string, shopId
   }
 };
 
-const startDevServer = async (_deps: Dependencies, _shopId: string, _environment: 'production' | 'staging'): Promise<Result<void>> => {
+const startDevServer = async (_deps: Dependencies, _shopId: string, _environment: Environment): Promise<Result<void>> => {
   // This is called through the DevOperations interface but we use the workflow function instead
   return { success: true };
 };
\ No newline at end of file
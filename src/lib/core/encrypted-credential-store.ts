@@ -0,0 +1,134 @@
+import fs from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from "crypto";
+import type { ChecksumMismatchMode, ShopCredentials } from "../../types/shop.js";
+import type { CredentialStore, Dependencies, Result } from "./types.js";
+import {
+  ensureCredentialsDirectory,
+  getCredentialPath,
+  parseCredentials,
+  withMetadata,
+  writeSecureFile
+} from "./file-credential-store.js";
+
+/**
+ * Credentials encrypted at rest (shops/credentials/<id>.credentials.enc)
+ * AES-256-GCM with a key derived from a passphrase via scrypt; each file has its own salt and IV
+ */
+
+export const ENCRYPTED_CREDENTIAL_SUFFIX = '.credentials.enc';
+export const PASSPHRASE_ENV_VAR = 'MULTI_SHOP_CREDENTIALS_PASSPHRASE';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 } as const;
+
+interface EncryptedEnvelope {
+  readonly version: number;
+  readonly algorithm: string;
+  readonly kdf: { readonly name: string; readonly N: number; readonly r: number; readonly p: number; readonly salt: string };
+  readonly iv: string;
+  readonly tag: string;
+  readonly data: string;
+}
+
+export const createEncryptedCredentialStore = (
+  deps: Dependencies,
+  passphrase: string,
+  onMismatch: ChecksumMismatchMode = 'warn'
+): CredentialStore => ({
+  name: 'encrypted-file',
+  load: (shopId: string) => loadCredentials(deps, passphrase, shopId, onMismatch),
+  save: (shopId: string, credentials: ShopCredentials) => saveCredentials(deps, passphrase, shopId, credentials)
+});
+
+const loadCredentials = async (
+  deps: Dependencies,
+  passphrase: string,
+  shopId: string,
+  onMismatch: ChecksumMismatchMode
+): Promise<Result<ShopCredentials | null>> => {
+  try {
+    const credPath = getCredentialPath(deps, shopId, ENCRYPTED_CREDENTIAL_SUFFIX);
+
+    if (!fs.existsSync(credPath)) {
+      return { success: true, data: null };
+    }
+
+    const envelope = JSON.parse(fs.readFileSync(credPath, "utf8")) as EncryptedEnvelope;
+    const decrypted = await decrypt(envelope, passphrase);
+    if (!decrypted.success || decrypted.data === undefined) {
+      return { success: false, error: decrypted.error ?? `Failed to decrypt credentials for ${shopId}` };
+    }
+
+    return parseCredentials(decrypted.data, shopId, onMismatch);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to load credentials: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const saveCredentials = async (
+  deps: Dependencies,
+  passphrase: string,
+  shopId: string,
+  credentials: ShopCredentials
+): Promise<Result<void>> => {
+  try {
+    ensureCredentialsDirectory(deps);
+
+    const credPath = getCredentialPath(deps, shopId, ENCRYPTED_CREDENTIAL_SUFFIX);
+    const envelope = await encrypt(JSON.stringify(withMetadata(credentials)), passphrase);
+    writeSecureFile(credPath, JSON.stringify(envelope, null, 2));
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to save credentials: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const encrypt = async (plaintext: string, passphrase: string): Promise<EncryptedEnvelope> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    algorithm: ALGORITHM,
+    kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: salt.toString('base64') },
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+};
+
+const decrypt = async (envelope: EncryptedEnvelope, passphrase: string): Promise<Result<string>> => {
+  if (envelope.version !== 1 || envelope.algorithm !== ALGORITHM || envelope.kdf?.name !== 'scrypt') {
+    return { success: false, error: 'Unsupported encrypted credential format' };
+  }
+
+  const { N, r, p, salt } = envelope.kdf;
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'base64'), { N, r, p });
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+    return { success: true, data: plaintext.toString('utf8') };
+  } catch {
+    // GCM authentication fails for both a wrong passphrase and a modified file
+    return { success: false, error: 'Cannot decrypt credentials (wrong passphrase or modified file)' };
+  }
+};
+
+const deriveKey = (passphrase: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) => error ? reject(error) : resolve(key));
+  });
@@ -0,0 +1,48 @@
+import type { Environment, ShopCredentials, StoreCredentials } from "../../types/shop.js";
+import type { CredentialStore, Result } from "./types.js";
+import { DEFAULT_ENVIRONMENTS } from "./environments.js";
+
+/**
+ * Read-only credentials from environment variables, for CI
+ * MULTI_SHOP_<SHOPID>_<ENV>_TOKEN, where shop ID and environment are upper-cased with dashes as underscores
+ * (shop-a holiday-preview → MULTI_SHOP_SHOP_A_HOLIDAY_PREVIEW_TOKEN)
+ */
+
+const toEnvSegment = (value: string): string => value.toUpperCase().replace(/-/g, '_');
+
+export const credentialEnvVar = (shopId: string, environment: Environment): string =>
+  `MULTI_SHOP_${toEnvSegment(shopId)}_${toEnvSegment(environment)}_TOKEN`;
+
+export const createEnvCredentialStore = (
+  env: NodeJS.ProcessEnv = process.env,
+  environmentsFor: (shopId: string) => readonly Environment[] = () => DEFAULT_ENVIRONMENTS
+): CredentialStore => ({
+  name: 'env',
+
+  load: async (shopId: string): Promise<Result<ShopCredentials | null>> => {
+    const tokens = environmentsFor(shopId).map(environment => [environment, env[credentialEnvVar(shopId, environment)]] as const);
+
+    if (!tokens.some(([, token]) => token)) return { success: true, data: null };
+
+    const stores: Record<Environment, StoreCredentials> = {};
+    for (const [environment, token] of tokens) {
+      stores[environment] = { themeToken: token ?? '' };
+    }
+
+    return {
+      success: true,
+      data: {
+        developer: env['MULTI_SHOP_DEVELOPER'] || 'env',
+        shopify: { stores }
+      }
+    };
+  },
+
+  save: async (shopId: string): Promise<Result<void>> => {
+    const names = environmentsFor(shopId).map(environment => credentialEnvVar(shopId, environment));
+    return {
+      success: false,
+      error: `Environment credentials are read-only; set ${names.slice(0, -1).join(', ')}${names.length > 1 ? ' and ' : ''}${names.at(-1) ?? ''}`
+    };
+  }
+});
@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import type { Environment, ShopConfig, ShopifyStore } from "../../types/shop.js";
+import type { Dependencies } from "./types.js";
+import { isValidShopId } from "./validation-schemas.js";
+
+/**
+ * Named shop environments (production, staging, qa, holiday-preview, ...)
+ * Pickers, token prompts, branch checks and sync targets all list environments from the shop config
+ */
+
+export const PRODUCTION_ENVIRONMENT: Environment = 'production';
+
+/** Environments of a newly created shop, and of anything that can't read a config */
+export const DEFAULT_ENVIRONMENTS: readonly Environment[] = ['production', 'staging'];
+
+export interface ShopEnvironment extends ShopifyStore {
+  readonly name: Environment;
+}
+
+export const listEnvironments = (config: ShopConfig): ShopEnvironment[] =>
+  Object.entries(config.shopify.stores).map(([name, store]) => ({ ...store, name }));
+
+export const getEnvironment = (config: ShopConfig, name: Environment): ShopEnvironment | undefined => {
+  const store = config.shopify.stores[name];
+  return store ? { ...store, name } : undefined;
+};
+
+/** holiday-preview → Holiday Preview */
+export const environmentLabel = (name: Environment): string =>
+  name.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+
+/**
+ * Environment names straight from <shopId>.config.json, for callers that only have a shop ID
+ * Falls back to production/staging when the config is missing or unreadable
+ */
+export const readConfiguredEnvironments = (deps: Dependencies, shopId: string): readonly Environment[] => {
+  if (!isValidShopId(shopId)) return DEFAULT_ENVIRONMENTS;
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(path.join(deps.shopsDir, `${shopId}.config.json`), "utf8"));
+    const names = Object.keys(raw?.shopify?.stores ?? {});
+    return names.length > 0 ? names : DEFAULT_ENVIRONMENTS;
+  } catch {
+    return DEFAULT_ENVIRONMENTS;
+  }
+};
+
+/** Every non-production environment across the given shops, in first-seen order: targets for syncs from main */
+export const listSyncTargets = (configs: Iterable<ShopConfig>): Environment[] => {
+  const targets = new Set<Environment>();
+  for (const config of configs) {
+    Object.keys(config.shopify.stores)
+      .filter(name => name !== PRODUCTION_ENVIRONMENT)
+      .forEach(name => targets.add(name));
+  }
+  return [...targets];
+};
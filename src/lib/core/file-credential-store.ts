@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { ChecksumMismatchMode, CredentialIntegrity, ShopCredentials } from "../../types/shop.js";
+import type { CredentialStore, Dependencies, Result } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Plaintext JSON credential files (shops/credentials/<id>.credentials.json, chmod 600)
+ * Also holds the path and permission helpers shared by the encrypted file store
+ */
+
+export const CREDENTIAL_FILE_SUFFIX = '.credentials.json';
+
+export const createFileCredentialStore = (
+  deps: Dependencies,
+  onMismatch: ChecksumMismatchMode = 'warn'
+): CredentialStore => ({
+  name: 'file',
+  load: (shopId: string) => loadCredentials(deps, shopId, onMismatch),
+  save: (shopId: string, credentials: ShopCredentials) => saveCredentials(deps, shopId, credentials)
+});
+
+const loadCredentials = async (
+  deps: Dependencies,
+  shopId: string,
+  onMismatch: ChecksumMismatchMode
+): Promise<Result<ShopCredentials | null>> => {
+  try {
+    const credPath = getCredentialPath(deps, shopId, CREDENTIAL_FILE_SUFFIX);
+
+    if (!fs.existsSync(credPath)) {
+      return { success: true, data: null };
+    }
+
+    const rawData = fs.readFileSync(credPath, "utf8");
+    return parseCredentials(rawData, shopId, onMismatch);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to load credentials: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const saveCredentials = async (deps: Dependencies, shopId: string, credentials: ShopCredentials): Promise<Result<void>> => {
+  try {
+    ensureCredentialsDirectory(deps);
+
+    const credPath = getCredentialPath(deps, shopId, CREDENTIAL_FILE_SUFFIX);
+    writeSecureFile(credPath, JSON.stringify(withMetadata(credentials), null, 2));
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to save credentials: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+export const parseCredentials = (
+  rawData: string,
+  shopId: string,
+  onMismatch: ChecksumMismatchMode = 'warn'
+): Result<ShopCredentials> => {
+  const credentials = JSON.parse(rawData);
+
+  if (!credentials?.shopify?.stores) {
+    return { success: false, error: `Invalid credential format for ${shopId}` };
+  }
+
+  if (verifyCredentialChecksum(credentials) === 'mismatch') {
+    const message = `Credential checksum mismatch for ${shopId}: tokens changed outside multi-shop`;
+    if (onMismatch === 'fail') {
+      return { success: false, error: message };
+    }
+    logger.warn(message);
+  }
+
+  return { success: true, data: credentials };
+};
+
+/** Fresh checksum on every save; created stays what it was when the credentials were first saved */
+export const withMetadata = (credentials: ShopCredentials): ShopCredentials => ({
+  ...credentials,
+  _metadata: {
+    created: credentials._metadata?.created ?? new Date().toISOString(),
+    version: "1.0.0",
+    checksum: computeCredentialChecksum(credentials)
+  }
+});
+
+/** sha256 over every store's token, independent of key order and of the rest of the file */
+export const computeCredentialChecksum = (credentials: ShopCredentials): string => {
+  const payload = Object.entries(credentials.shopify.stores)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([store, { themeToken }]) => `${store}:${themeToken}`)
+    .join('\n');
+
+  return createHash('sha256').update(payload).digest('hex');
+};
+
+export const verifyCredentialChecksum = (
+  credentials: ShopCredentials
+): Exclude<CredentialIntegrity, 'missing' | 'unreadable'> => {
+  const checksum = credentials._metadata?.checksum;
+  if (!checksum) return 'unverified';
+  return checksum === computeCredentialChecksum(credentials) ? 'verified' : 'mismatch';
+};
+
+export const getCredentialPath = (deps: Dependencies, shopId: string, suffix: string): string => {
+  // Validate and sanitize shopId
+  const sanitizedShopId = shopId.replace(/[^a-z0-9-]/gi, '');
+  if (sanitizedShopId !== shopId || sanitizedShopId.length === 0 || sanitizedShopId.length > 50) {
+    throw new Error('Shop ID contains invalid characters');
+  }
+
+  const credentialPath = path.join(deps.credentialsDir, `${sanitizedShopId}${suffix}`);
+
+  // Ensure path is within credentials directory
+  const resolvedPath = path.resolve(credentialPath);
+  const resolvedCredentialsDir = path.resolve(deps.credentialsDir);
+
+  if (!resolvedPath.startsWith(resolvedCredentialsDir)) {
+    throw new Error('Invalid credential path');
+  }
+
+  return credentialPath;
+};
+
+export const ensureCredentialsDirectory = (deps: Dependencies): void => {
+  if (!fs.existsSync(deps.credentialsDir)) {
+    fs.mkdirSync(deps.credentialsDir, { recursive: true });
+
+    // Set directory permissions where supported
+    try {
+      fs.chmodSync(deps.credentialsDir, 0o700);
+    } catch {
+      // Ignored on Windows
+    }
+  }
+};
+
+export const writeSecureFile = (filePath: string, contents: string): void => {
+  fs.writeFileSync(filePath, contents);
+
+  // Set secure permissions where supported
+  try {
+    fs.chmodSync(filePath, 0o600);
+  } catch {
+    // Ignored on Windows
+  }
+};
@@ -0,0 +1,296 @@
+import type {
+  CommitInfo,
+  Dependencies,
+  FileChange,
+  FileChangeStatus,
+  GitOperations,
+  MergeOptions,
+  MergeOutcome,
+  PushOptions,
+  Result
+} from "./types.js";
+import { runCommand } from "./command-runner.js";
+
+/**
+ * Git operations backed by argv-array commands (no shell interpolation)
+ * Every module goes through this layer so tests can swap in a fake
+ */
+
+const REMOTE = 'origin';
+
+export const createGitOperations = (deps: Dependencies): GitOperations => ({
+  getCurrentBranch: () => getCurrentBranch(deps),
+  getHeadCommit: () => getHeadCommit(deps),
+  getRemoteUrl: () => getRemoteUrl(deps),
+  isWorkingTreeClean: () => isWorkingTreeClean(deps),
+  fetch: () => fetchRemote(deps),
+  checkout: (ref: string) => checkout(deps, ref),
+  createBranch: (branchName: string, startPoint?: string) => createBranch(deps, branchName, startPoint),
+  branchExists: (branchName: string, options = {}) => branchExists(deps, branchName, options.remote ?? false),
+  listBranches: (options = {}) => listBranches(deps, options.remote ?? false),
+  diffNameStatus: (from: string, to: string) => diffNameStatus(deps, from, to),
+  listFiles: (ref: string) => listFiles(deps, ref),
+  readFile: (ref: string, path: string) => readFile(deps, ref, path),
+  revListCount: (from: string, to: string) => revListCount(deps, from, to),
+  getCommit: (ref: string) => getCommit(deps, ref),
+  mergeBase: (a: string, b: string) => git(deps, ['merge-base', a, b]),
+  firstCommitDate: (from: string, to: string) => firstCommitDate(deps, from, to),
+  merge: (ref: string, options = {}) => merge(deps, ref, options),
+  abortMerge: async () => toVoid(await git(deps, ['merge', '--abort'])),
+  pushBranch: (branchName: string, options = {}) => pushBranch(deps, branchName, options),
+  deleteBranch: (branchName: string, options = {}) =>
+    deleteBranch(deps, branchName, options.remote ?? false, options.force ?? false),
+  tagExists: async (tagName: string) =>
+    ({ success: true, data: (await git(deps, ['rev-parse', '--verify', '--quiet', `refs/tags/${tagName}`])).success }),
+  createTag: async (tagName: string, ref: string, message: string) => toVoid(await git(deps, ['tag', '-a', tagName, ref, '-m', message])),
+  pushTag: async (tagName: string) => toVoid(await git(deps, ['push', REMOTE, `refs/tags/${tagName}`])),
+  restoreFiles: (ref: string, paths: string[]) => restoreFiles(deps, ref, paths),
+  removeFiles: (paths: string[]) => removeFiles(deps, paths),
+  addFiles: (paths: string[]) => addFiles(deps, paths),
+  commit: (message: string) => commit(deps, message)
+});
+
+/**
+ * Unwrap a git result, throwing on failure so callers can keep one
+ * try/catch around a sequence of commands
+ */
+export const unwrapGitResult = async <T>(operation: Promise<Result<T>>): Promise<T | undefined> => {
+  const result = await operation;
+  if (!result.success) throw new Error(result.error ?? 'Git command failed');
+  return result.data;
+};
+
+const git = async (deps: Dependencies, args: string[]): Promise<Result<string>> => {
+  const result = await runCommand('git', args, { cwd: deps.cwd });
+
+  if (result.exitCode !== 0) {
+    const details = result.stderr.trim() || `git ${args.join(' ')} exited with code ${result.exitCode}`;
+    return { success: false, error: details };
+  }
+
+  return { success: true, data: result.stdout.trim() };
+};
+
+const toVoid = (result: Result<string>): Result<void> =>
+  result.success ? { success: true } : { success: false, error: result.error ?? 'Git command failed' };
+
+const getCurrentBranch = async (deps: Dependencies): Promise<Result<string>> => {
+  return git(deps, ['branch', '--show-current']);
+};
+
+const getHeadCommit = async (deps: Dependencies): Promise<Result<string>> => {
+  return git(deps, ['rev-parse', 'HEAD']);
+};
+
+const getRemoteUrl = async (deps: Dependencies): Promise<Result<string>> => {
+  return git(deps, ['remote', 'get-url', REMOTE]);
+};
+
+const isWorkingTreeClean = async (deps: Dependencies): Promise<Result<boolean>> => {
+  const result = await git(deps, ['status', '--porcelain']);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to read git status' };
+  return { success: true, data: result.data === '' };
+};
+
+const fetchRemote = async (deps: Dependencies): Promise<Result<void>> => {
+  return toVoid(await git(deps, ['fetch', REMOTE]));
+};
+
+const checkout = async (deps: Dependencies, ref: string): Promise<Result<void>> => {
+  return toVoid(await git(deps, ['checkout', ref]));
+};
+
+/**
+ * Create a branch and check it out
+ */
+const createBranch = async (deps: Dependencies, branchName: string, startPoint?: string): Promise<Result<void>> => {
+  const args = ['checkout', '-b', branchName];
+  if (startPoint) args.push(startPoint);
+  return toVoid(await git(deps, args));
+};
+
+const branchExists = async (deps: Dependencies, branchName: string, remote: boolean): Promise<Result<boolean>> => {
+  const ref = remote ? `refs/remotes/${REMOTE}/${branchName}` : `refs/heads/${branchName}`;
+  const result = await git(deps, ['rev-parse', '--verify', '--quiet', ref]);
+  return { success: true, data: result.success };
+};
+
+/**
+ * List branch names; remote branches are returned without the "origin/" prefix
+ */
+const listBranches = async (deps: Dependencies, remote: boolean): Promise<Result<string[]>> => {
+  const namespace = remote ? `refs/remotes/${REMOTE}/` : 'refs/heads/';
+  const result = await git(deps, ['for-each-ref', '--format=%(refname)', namespace]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to list branches' };
+
+  const branches = (result.data ?? '')
+    .split('\n')
+    .filter(Boolean)
+    .map(ref => ref.slice(namespace.length))
+    .filter(name => name !== 'HEAD');
+
+  return { success: true, data: branches };
+};
+
+const diffNameStatus = async (deps: Dependencies, from: string, to: string): Promise<Result<FileChange[]>> => {
+  const result = await git(deps, ['diff', '--name-status', '-M', from, to]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to diff' };
+
+  return { success: true, data: parseNameStatus(result.data ?? '') };
+};
+
+const listFiles = async (deps: Dependencies, ref: string): Promise<Result<string[]>> => {
+  const result = await git(deps, ['ls-tree', '-r', '--name-only', ref]);
+  if (!result.success) return { success: false, error: result.error ?? `Failed to list files at ${ref}` };
+
+  return { success: true, data: (result.data ?? '').split('\n').filter(Boolean) };
+};
+
+/** git show says so when the path is missing at a valid ref */
+const MISSING_PATH = /does not exist in|exists on disk, but not in/;
+
+/** Contents byte for byte (git() would trim the trailing newline) */
+const readFile = async (deps: Dependencies, ref: string, path: string): Promise<Result<string | null>> => {
+  const result = await runCommand('git', ['show', `${ref}:${path}`], { cwd: deps.cwd });
+  if (result.exitCode === 0) return { success: true, data: result.stdout };
+
+  const error = result.stderr.trim();
+  return MISSING_PATH.test(error)
+    ? { success: true, data: null }
+    : { success: false, error: error || `Failed to read ${path} at ${ref}` };
+};
+
+const STATUS_CODES: Record<string, FileChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied'
+};
+
+export const parseNameStatus = (output: string): FileChange[] => {
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [code = '', first = '', second] = line.split('\t');
+      const status = STATUS_CODES[code.charAt(0)] ?? 'other';
+
+      return second
+        ? { status, path: second, previousPath: first }
+        : { status, path: first };
+    });
+};
+
+const revListCount = async (deps: Dependencies, from: string, to: string): Promise<Result<number>> => {
+  const result = await git(deps, ['rev-list', '--count', `${from}..${to}`]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to count commits' };
+
+  const count = parseInt(result.data ?? '', 10);
+  return Number.isNaN(count)
+    ? { success: false, error: `Unexpected rev-list output: ${result.data}` }
+    : { success: true, data: count };
+};
+
+const getCommit = async (deps: Dependencies, ref: string): Promise<Result<CommitInfo>> => {
+  const result = await git(deps, ['log', '-1', '--format=%H%x00%an%x00%cI', ref, '--']);
+  if (!result.success) return { success: false, error: result.error ?? `Failed to read commit ${ref}` };
+
+  const [sha, author, date] = (result.data ?? '').split('\0');
+  return sha && author !== undefined && date
+    ? { success: true, data: { sha, author, date } }
+    : { success: false, error: `Unexpected git log output: ${result.data}` };
+};
+
+/** Author dates survive rebases, and first-parent history skips commits merged in from `from` */
+const firstCommitDate = async (deps: Dependencies, from: string, to: string): Promise<Result<string | null>> => {
+  const result = await git(deps, ['log', '--first-parent', '--reverse', '--format=%aI', `${from}..${to}`, '--']);
+  if (!result.success) return { success: false, error: result.error ?? `Failed to read the history of ${to}` };
+
+  return { success: true, data: (result.data ?? '').split('\n')[0] || null };
+};
+
+/**
+ * Merge (or rebase onto) a ref. Conflicting merges are aborted so the
+ * working tree stays clean, and the conflicted paths are reported.
+ * With noCommit the merge is left in progress, conflicts included.
+ */
+const merge = async (deps: Dependencies, ref: string, options: MergeOptions): Promise<Result<MergeOutcome>> => {
+  if (options.noCommit) {
+    const result = await git(deps, ['merge', '--no-ff', '--no-commit', ref]);
+    if (result.success) return { success: true, data: { merged: true, conflicts: [] } };
+
+    const conflicts = await getConflictedFiles(deps);
+    if (conflicts.length > 0) return { success: true, data: { merged: false, conflicts } };
+
+    await git(deps, ['merge', '--abort']);
+    return { success: false, error: result.error ?? 'git merge failed' };
+  }
+
+  if (options.fastForwardOnly) {
+    const result = await git(deps, ['merge', '--ff-only', ref]);
+    return result.success
+      ? { success: true, data: { merged: true, conflicts: [] } }
+      : { success: false, error: result.error ?? `Cannot fast-forward to ${ref}` };
+  }
+
+  const command = options.rebase ? 'rebase' : 'merge';
+  const result = await git(deps, options.rebase ? ['rebase', ref] : ['merge', '--no-edit', ref]);
+  if (result.success) return { success: true, data: { merged: true, conflicts: [] } };
+
+  const conflicts = await getConflictedFiles(deps);
+  await git(deps, [command, '--abort']);
+
+  if (conflicts.length === 0) {
+    return { success: false, error: result.error ?? `git ${command} failed` };
+  }
+
+  return { success: true, data: { merged: false, conflicts } };
+};
+
+const getConflictedFiles = async (deps: Dependencies): Promise<string[]> => {
+  const result = await git(deps, ['diff', '--name-only', '--diff-filter=U']);
+  return result.success ? (result.data ?? '').split('\n').filter(Boolean) : [];
+};
+
+const pushBranch = async (deps: Dependencies, branchName: string, options: PushOptions): Promise<Result<void>> => {
+  const args = ['push'];
+  if (options.setUpstream) args.push('-u');
+  if (options.forceWithLease) args.push('--force-with-lease');
+  args.push(REMOTE, branchName);
+  return toVoid(await git(deps, args));
+};
+
+const deleteBranch = async (
+  deps: Dependencies,
+  branchName: string,
+  remote: boolean,
+  force: boolean
+): Promise<Result<void>> => {
+  const args = remote
+    ? ['push', REMOTE, '--delete', branchName]
+    : ['branch', force ? '-D' : '-d', branchName];
+  return toVoid(await git(deps, args));
+};
+
+/**
+ * Check out paths as they are on a ref (staged, ready to commit)
+ */
+const restoreFiles = async (deps: Dependencies, ref: string, paths: string[]): Promise<Result<void>> => {
+  if (paths.length === 0) return { success: true };
+  return toVoid(await git(deps, ['checkout', ref, '--', ...paths]));
+};
+
+const removeFiles = async (deps: Dependencies, paths: string[]): Promise<Result<void>> => {
+  if (paths.length === 0) return { success: true };
+  return toVoid(await git(deps, ['rm', '-q', '--', ...paths]));
+};
+
+const addFiles = async (deps: Dependencies, paths: string[]): Promise<Result<void>> => {
+  if (paths.length === 0) return { success: true };
+  return toVoid(await git(deps, ['add', '--', ...paths]));
+};
+
+const commit = async (deps: Dependencies, message: string): Promise<Result<void>> => {
+  return toVoid(await git(deps, ['commit', '-q', '-m', message]));
+};
@@ -0,0 +1,103 @@
+import type { PullRequestInfo, PullRequestProvider, PullRequestRequest, PullRequestStatus, Result } from "./types.js";
+import { requestJson, joinUrl, type HttpRequest } from "./http-client.js";
+
+/**
+ * Pull requests through the GitHub REST API
+ * Authenticates with a token (GITHUB_TOKEN) instead of the gh binary, for CI
+ */
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubApiOptions {
+  readonly token: string;
+  readonly owner: string;
+  readonly repo: string;
+  readonly apiUrl?: string;
+}
+
+interface GitHubPullRequest {
+  readonly number: number;
+  readonly html_url: string;
+  readonly state?: 'open' | 'closed';
+  readonly merged_at?: string | null;
+  readonly head?: { readonly ref: string };
+}
+
+export const createGitHubApiProvider = (options: GitHubApiOptions): PullRequestProvider => {
+  const repoPath = `repos/${encodeURIComponent(options.owner)}/${encodeURIComponent(options.repo)}`;
+
+  const call = <T>(pathname: string, request: HttpRequest = {}): Promise<Result<T>> =>
+    requestJson<T>(joinUrl(options.apiUrl ?? DEFAULT_GITHUB_API_URL, pathname), {
+      ...request,
+      headers: {
+        'Authorization': `Bearer ${options.token}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28'
+      }
+    });
+
+  return {
+    name: 'github-api',
+
+    create: async (request: PullRequestRequest): Promise<Result<PullRequestInfo>> => {
+      const result = await call<GitHubPullRequest>(`${repoPath}/pulls`, {
+        method: 'POST',
+        body: { title: request.title, body: request.body, head: request.head, base: request.base }
+      });
+      return mapPullRequest(result);
+    },
+
+    findOpen: async (head: string, base: string): Promise<Result<PullRequestInfo | null>> => {
+      const query = new URLSearchParams({ state: 'open', head: `${options.owner}:${head}`, base });
+      const result = await call<GitHubPullRequest[]>(`${repoPath}/pulls?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+      const [existing] = result.data ?? [];
+      return { success: true, data: existing ? { number: existing.number, url: existing.html_url } : null };
+    },
+
+    findLatest: async (head: string, base: string): Promise<Result<PullRequestStatus | null>> => {
+      const query = new URLSearchParams({
+        state: 'all',
+        head: `${options.owner}:${head}`,
+        base,
+        sort: 'created',
+        direction: 'desc',
+        per_page: '1'
+      });
+      const result = await call<GitHubPullRequest[]>(`${repoPath}/pulls?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+      const [latest] = result.data ?? [];
+      if (!latest) return { success: true, data: null };
+
+      const state = latest.state === 'open' ? 'open' : latest.merged_at ? 'merged' : 'closed';
+      return { success: true, data: { number: latest.number, url: latest.html_url, state } };
+    },
+
+    getHeadBranch: async (number: number): Promise<Result<string>> => {
+      const result = await call<GitHubPullRequest>(`${repoPath}/pulls/${number}`);
+      if (!result.success) return { success: false, error: result.error ?? `Failed to load pull request #${number}` };
+
+      const branch = result.data?.head?.ref;
+      return branch ? { success: true, data: branch } : { success: false, error: `Pull request #${number} has no head branch` };
+    },
+
+    updateBody: async (number: number, body: string): Promise<Result<void>> =>
+      toVoid(await call(`${repoPath}/pulls/${number}`, { method: 'PATCH', body: { body } })),
+
+    addLabels: async (number: number, labels: string[]): Promise<Result<void>> =>
+      toVoid(await call(`${repoPath}/issues/${number}/labels`, { method: 'POST', body: { labels } })),
+
+    addReviewers: async (number: number, reviewers: string[]): Promise<Result<void>> =>
+      toVoid(await call(`${repoPath}/pulls/${number}/requested_reviewers`, { method: 'POST', body: { reviewers } }))
+  };
+};
+
+const mapPullRequest = (result: Result<GitHubPullRequest>): Result<PullRequestInfo> => {
+  if (!result.success || !result.data) return { success: false, error: result.error ?? 'Empty response from GitHub' };
+  return { success: true, data: { number: result.data.number, url: result.data.html_url } };
+};
+
+const toVoid = (result: Result<unknown>): Result<void> =>
+  result.success ? { success: true } : { success: false, error: result.error ?? 'GitHub API request failed' };
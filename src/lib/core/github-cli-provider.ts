@@ -0,0 +1,118 @@
+import type { Dependencies, PullRequestInfo, PullRequestProvider, PullRequestRequest, PullRequestStatus, Result } from "./types.js";
+import { runCommand } from "./command-runner.js";
+
+/**
+ * Pull requests through the GitHub CLI (`gh`)
+ * Uses whatever account `gh auth login` is signed in with
+ */
+
+export const createGitHubCLIProvider = (deps: Dependencies): PullRequestProvider => ({
+  name: 'github-cli',
+  create: (request: PullRequestRequest) => createPullRequest(deps, request),
+  findOpen: (head: string, base: string) => findOpenPullRequest(deps, head, base),
+  findLatest: (head: string, base: string) => findLatestPullRequest(deps, head, base),
+  getHeadBranch: (number: number) => getHeadBranch(deps, number),
+  updateBody: (number: number, body: string) => editPullRequest(deps, number, ['--body', body]),
+  addLabels: (number: number, labels: string[]) => editPullRequest(deps, number, ['--add-label', labels.join(',')]),
+  addReviewers: (number: number, reviewers: string[]) =>
+    editPullRequest(deps, number, ['--add-reviewer', reviewers.join(',')])
+});
+
+export const isGitHubCLIAvailable = async (deps: Dependencies): Promise<boolean> => {
+  const result = await runCommand('gh', ['--version'], { cwd: deps.cwd });
+  return result.exitCode === 0;
+};
+
+const gh = async (deps: Dependencies, args: string[]): Promise<Result<string>> => {
+  const result = await runCommand('gh', args, { cwd: deps.cwd });
+
+  if (result.exitCode !== 0) {
+    return { success: false, error: result.stderr.trim() || result.stdout.trim() || `gh exited with code ${result.exitCode}` };
+  }
+
+  return { success: true, data: result.stdout.trim() };
+};
+
+const createPullRequest = async (deps: Dependencies, request: PullRequestRequest): Promise<Result<PullRequestInfo>> => {
+  const result = await gh(deps, [
+    'pr', 'create',
+    '--base', request.base,
+    '--head', request.head,
+    '--title', request.title,
+    '--body', request.body
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to create pull request' };
+
+  // gh prints the new PR URL as the last line of output
+  const url = (result.data ?? '').split('\n').pop() ?? '';
+  const number = parseInt(url.match(/\/pull\/(\d+)/)?.[1] ?? '', 10);
+
+  return { success: true, data: { number: Number.isNaN(number) ? 0 : number, url } };
+};
+
+const findOpenPullRequest = async (
+  deps: Dependencies,
+  head: string,
+  base: string
+): Promise<Result<PullRequestInfo | null>> => {
+  const result = await gh(deps, [
+    'pr', 'list',
+    '--head', head,
+    '--base', base,
+    '--state', 'open',
+    '--json', 'number,url',
+    '--limit', '1'
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+  try {
+    const [existing] = JSON.parse(result.data || '[]') as PullRequestInfo[];
+    return { success: true, data: existing ? { number: existing.number, url: existing.url } : null };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse gh output: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const findLatestPullRequest = async (
+  deps: Dependencies,
+  head: string,
+  base: string
+): Promise<Result<PullRequestStatus | null>> => {
+  const result = await gh(deps, [
+    'pr', 'list',
+    '--head', head,
+    '--base', base,
+    '--state', 'all',
+    '--json', 'number,url,state',
+    '--limit', '1'
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to list pull requests' };
+
+  try {
+    const [latest] = JSON.parse(result.data || '[]') as (PullRequestInfo & { state: string })[];
+    return {
+      success: true,
+      data: latest ? { number: latest.number, url: latest.url, state: latest.state.toLowerCase() as PullRequestStatus['state'] } : null
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse gh output: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const getHeadBranch = async (deps: Dependencies, number: number): Promise<Result<string>> => {
+  const result = await gh(deps, ['pr', 'view', String(number), '--json', 'headRefName', '--jq', '.headRefName']);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? `Pull request #${number} has no head branch` };
+
+  return { success: true, data: result.data };
+};
+
+const editPullRequest = async (deps: Dependencies, number: number, args: string[]): Promise<Result<void>> => {
+  const result = await gh(deps, ['pr', 'edit', String(number), ...args]);
+  return result.success ? { success: true } : { success: false, error: result.error ?? 'Failed to update pull request' };
+};
@@ -0,0 +1,114 @@
+import type { PullRequestInfo, PullRequestProvider, PullRequestRequest, PullRequestStatus, Result } from "./types.js";
+import { requestJson, joinUrl, type HttpRequest } from "./http-client.js";
+
+/**
+ * Merge requests through the GitLab REST API (v4)
+ * Authenticates with a personal, project or CI job token (GITLAB_TOKEN)
+ */
+
+export const DEFAULT_GITLAB_API_URL = 'https://gitlab.com/api/v4';
+
+export interface GitLabApiOptions {
+  readonly token: string;
+  /** Full project path, e.g. group/subgroup/theme */
+  readonly project: string;
+  readonly apiUrl?: string;
+}
+
+interface GitLabMergeRequest {
+  readonly iid: number;
+  readonly web_url: string;
+  readonly state?: 'opened' | 'merged' | 'closed' | 'locked';
+  readonly source_branch?: string;
+}
+
+interface GitLabUser {
+  readonly id: number;
+}
+
+export const createGitLabApiProvider = (options: GitLabApiOptions): PullRequestProvider => {
+  const projectPath = `projects/${encodeURIComponent(options.project)}`;
+
+  const call = <T>(pathname: string, request: HttpRequest = {}): Promise<Result<T>> =>
+    requestJson<T>(joinUrl(options.apiUrl ?? DEFAULT_GITLAB_API_URL, pathname), {
+      ...request,
+      headers: { 'PRIVATE-TOKEN': options.token }
+    });
+
+  const update = async (iid: number, body: Record<string, unknown>): Promise<Result<void>> =>
+    toVoid(await call(`${projectPath}/merge_requests/${iid}`, { method: 'PUT', body }));
+
+  return {
+    name: 'gitlab-api',
+
+    create: async (request: PullRequestRequest): Promise<Result<PullRequestInfo>> => {
+      const result = await call<GitLabMergeRequest>(`${projectPath}/merge_requests`, {
+        method: 'POST',
+        body: {
+          source_branch: request.head,
+          target_branch: request.base,
+          title: request.title,
+          description: request.body
+        }
+      });
+      return mapMergeRequest(result);
+    },
+
+    findOpen: async (head: string, base: string): Promise<Result<PullRequestInfo | null>> => {
+      const query = new URLSearchParams({ state: 'opened', source_branch: head, target_branch: base });
+      const result = await call<GitLabMergeRequest[]>(`${projectPath}/merge_requests?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list merge requests' };
+
+      const [existing] = result.data ?? [];
+      return { success: true, data: existing ? { number: existing.iid, url: existing.web_url } : null };
+    },
+
+    findLatest: async (head: string, base: string): Promise<Result<PullRequestStatus | null>> => {
+      const query = new URLSearchParams({ source_branch: head, target_branch: base, order_by: 'created_at', sort: 'desc', per_page: '1' });
+      const result = await call<GitLabMergeRequest[]>(`${projectPath}/merge_requests?${query.toString()}`);
+      if (!result.success) return { success: false, error: result.error ?? 'Failed to list merge requests' };
+
+      const [latest] = result.data ?? [];
+      return { success: true, data: latest ? { number: latest.iid, url: latest.web_url, state: mergeRequestState(latest.state) } : null };
+    },
+
+    getHeadBranch: async (iid: number): Promise<Result<string>> => {
+      const result = await call<GitLabMergeRequest>(`${projectPath}/merge_requests/${iid}`);
+      if (!result.success) return { success: false, error: result.error ?? `Failed to load merge request !${iid}` };
+
+      const branch = result.data?.source_branch;
+      return branch ? { success: true, data: branch } : { success: false, error: `Merge request !${iid} has no source branch` };
+    },
+
+    updateBody: (iid: number, body: string) => update(iid, { description: body }),
+
+    addLabels: (iid: number, labels: string[]) => update(iid, { add_labels: labels.join(',') }),
+
+    addReviewers: async (iid: number, reviewers: string[]): Promise<Result<void>> => {
+      // GitLab assigns reviewers by user ID, so usernames are looked up first
+      const reviewerIds: number[] = [];
+      for (const username of reviewers) {
+        const users = await call<GitLabUser[]>(`users?${new URLSearchParams({ username }).toString()}`);
+        const user = users.data?.[0];
+        if (!users.success || !user) return { success: false, error: users.error ?? `Unknown GitLab user: ${username}` };
+        reviewerIds.push(user.id);
+      }
+
+      return update(iid, { reviewer_ids: reviewerIds });
+    }
+  };
+};
+
+const mapMergeRequest = (result: Result<GitLabMergeRequest>): Result<PullRequestInfo> => {
+  if (!result.success || !result.data) return { success: false, error: result.error ?? 'Empty response from GitLab' };
+  return { success: true, data: { number: result.data.iid, url: result.data.web_url } };
+};
+
+const toVoid = (result: Result<unknown>): Result<void> =>
+  result.success ? { success: true } : { success: false, error: result.error ?? 'GitLab API request failed' };
+
+/** GitLab says opened; locked merge requests are about to merge */
+export const mergeRequestState = (state: string | undefined): PullRequestStatus['state'] => {
+  if (state === 'merged') return 'merged';
+  return state === 'opened' || state === 'locked' ? 'open' : 'closed';
+};
@@ -0,0 +1,133 @@
+import type { Dependencies, PullRequestInfo, PullRequestProvider, PullRequestRequest, PullRequestStatus, Result } from "./types.js";
+import { runCommand } from "./command-runner.js";
+import { mergeRequestState } from "./gitlab-api-provider.js";
+
+/**
+ * Merge requests through the GitLab CLI (`glab`)
+ * Uses whatever account `glab auth login` is signed in with
+ */
+
+interface GlabMergeRequest {
+  readonly iid: number;
+  readonly web_url: string;
+  readonly state?: string;
+  readonly source_branch?: string;
+}
+
+export const createGitLabCLIProvider = (deps: Dependencies): PullRequestProvider => ({
+  name: 'gitlab-cli',
+  create: (request: PullRequestRequest) => createMergeRequest(deps, request),
+  findOpen: (head: string, base: string) => findOpenMergeRequest(deps, head, base),
+  findLatest: (head: string, base: string) => findLatestMergeRequest(deps, head, base),
+  getHeadBranch: (iid: number) => getSourceBranch(deps, iid),
+  updateBody: (iid: number, body: string) => updateMergeRequest(deps, iid, ['--description', body]),
+  addLabels: (iid: number, labels: string[]) => updateMergeRequest(deps, iid, ['--label', labels.join(',')]),
+  addReviewers: (iid: number, reviewers: string[]) =>
+    updateMergeRequest(deps, iid, ['--reviewer', reviewers.join(',')])
+});
+
+export const isGitLabCLIAvailable = async (deps: Dependencies): Promise<boolean> => {
+  const result = await runCommand('glab', ['--version'], { cwd: deps.cwd });
+  return result.exitCode === 0;
+};
+
+const glab = async (deps: Dependencies, args: string[]): Promise<Result<string>> => {
+  const result = await runCommand('glab', args, { cwd: deps.cwd });
+
+  if (result.exitCode !== 0) {
+    return { success: false, error: result.stderr.trim() || result.stdout.trim() || `glab exited with code ${result.exitCode}` };
+  }
+
+  return { success: true, data: result.stdout.trim() };
+};
+
+const createMergeRequest = async (deps: Dependencies, request: PullRequestRequest): Promise<Result<PullRequestInfo>> => {
+  const result = await glab(deps, [
+    'mr', 'create',
+    '--source-branch', request.head,
+    '--target-branch', request.base,
+    '--title', request.title,
+    '--description', request.body,
+    '--yes'
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to create merge request' };
+
+  // glab prints the new MR URL as the last line of output
+  const url = (result.data ?? '').split('\n').pop() ?? '';
+  const iid = parseInt(url.match(/\/merge_requests\/(\d+)/)?.[1] ?? '', 10);
+
+  return { success: true, data: { number: Number.isNaN(iid) ? 0 : iid, url } };
+};
+
+const findOpenMergeRequest = async (
+  deps: Dependencies,
+  head: string,
+  base: string
+): Promise<Result<PullRequestInfo | null>> => {
+  const result = await glab(deps, [
+    'mr', 'list',
+    '--source-branch', head,
+    '--target-branch', base,
+    '--output', 'json'
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to list merge requests' };
+
+  try {
+    const [existing] = JSON.parse(result.data || '[]') as GlabMergeRequest[];
+    return { success: true, data: existing ? { number: existing.iid, url: existing.web_url } : null };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse glab output: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const findLatestMergeRequest = async (
+  deps: Dependencies,
+  head: string,
+  base: string
+): Promise<Result<PullRequestStatus | null>> => {
+  const result = await glab(deps, [
+    'mr', 'list',
+    '--source-branch', head,
+    '--target-branch', base,
+    '--all',
+    '--per-page', '1',
+    '--output', 'json'
+  ]);
+  if (!result.success) return { success: false, error: result.error ?? 'Failed to list merge requests' };
+
+  try {
+    const [latest] = JSON.parse(result.data || '[]') as GlabMergeRequest[];
+    return {
+      success: true,
+      data: latest ? { number: latest.iid, url: latest.web_url, state: mergeRequestState(latest.state) } : null
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse glab output: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const getSourceBranch = async (deps: Dependencies, iid: number): Promise<Result<string>> => {
+  const result = await glab(deps, ['mr', 'view', String(iid), '--output', 'json']);
+  if (!result.success) return { success: false, error: result.error ?? `Failed to load merge request !${iid}` };
+
+  try {
+    const branch = (JSON.parse(result.data || '{}') as GlabMergeRequest).source_branch;
+    return branch ? { success: true, data: branch } : { success: false, error: `Merge request !${iid} has no source branch` };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse glab output: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const updateMergeRequest = async (deps: Dependencies, iid: number, args: string[]): Promise<Result<void>> => {
+  const result = await glab(deps, ['mr', 'update', String(iid), ...args]);
+  return result.success ? { success: true } : { success: false, error: result.error ?? 'Failed to update merge request' };
+};
@@ -57,5 +57,6 @@ export const getDefaultContentProtection = async (cwd: string): Promise<GlobalSe
     return DEFAULT_SETTINGS.contentProtection;
   }
 
-  return settingsResult.data.contentProtection;
+  // settings.json may hold only other sections, such as branchNaming or shopGroups
+  return settingsResult.data.contentProtection ?? DEFAULT_SETTINGS.contentProtection;
 };
@@ -0,0 +1,118 @@
+import type { Result } from "./types.js";
+
+/**
+ * Minimal JSON-over-HTTP client for hosting provider APIs
+ * Callers pass absolute URLs built from a configurable base URL, so tests can
+ * point them at a local server
+ */
+
+export interface HttpRequest {
+  readonly method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  readonly headers?: Record<string, string>;
+  readonly body?: unknown;
+}
+
+export interface HttpResponse<T> {
+  readonly status: number;
+  readonly ok: boolean;
+  readonly payload: T | undefined;
+  /** Readable error from the body (or status text) for non-2xx responses */
+  readonly message: string;
+}
+
+export const requestJson = async <T>(url: string, request: HttpRequest = {}): Promise<Result<T>> => {
+  const result = await sendJson<T>(url, request);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? `Request to ${url} failed` };
+
+  const response = result.data;
+  return response.ok
+    ? { success: true, data: response.payload as T }
+    : { success: false, error: `HTTP ${response.status}: ${response.message}` };
+};
+
+/** Like requestJson, but hands back non-2xx responses so callers can branch on the status */
+export const sendJson = async <T>(url: string, request: HttpRequest = {}): Promise<Result<HttpResponse<T>>> => {
+  try {
+    const response = await fetch(url, {
+      method: request.method ?? 'GET',
+      headers: {
+        'Accept': 'application/json',
+        ...(request.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...request.headers
+      },
+      ...(request.body === undefined ? {} : { body: JSON.stringify(request.body) })
+    });
+
+    const text = await response.text();
+    const payload: unknown = text ? parseJson(text) : undefined;
+
+    return {
+      success: true,
+      data: {
+        status: response.status,
+        ok: response.ok,
+        payload: payload as T | undefined,
+        message: response.ok ? '' : describeError(payload, text || response.statusText)
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Request to ${new URL(url).host} failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+/** Joins a base URL and path without doubling or dropping slashes */
+export const joinUrl = (baseUrl: string, pathname: string): string =>
+  `${baseUrl.replace(/\/+$/, '')}/${pathname.replace(/^\/+/, '')}`;
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Pull a human-readable message out of common API error shapes:
+ * { message }, { error: { message } }, { error: "..." }, { errors: [...] },
+ * and GitLab's { message: [...] } / { message: { field: [...] } }
+ */
+const describeError = (payload: unknown, fallback: string): string => {
+  if (!payload || typeof payload !== 'object') return fallback;
+
+  const body = payload as {
+    message?: unknown;
+    error?: unknown;
+    errors?: unknown;
+  };
+
+  const details = Array.isArray(body.errors)
+    ? body.errors.map(entry => typeof entry === 'string' ? entry : (entry as { message?: string }).message).filter(Boolean)
+    : [];
+
+  const message = flattenMessage(body.message)
+    ?? (typeof body.error === 'string' ? body.error : flattenMessage((body.error as { message?: unknown } | undefined)?.message));
+
+  const parts = [message, ...details].filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : fallback;
+};
+
+const flattenMessage = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.filter(entry => typeof entry === 'string').join('; ') || undefined;
+
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .map(([field, messages]) => {
+        const text = flattenMessage(messages);
+        return text ? `${field} ${text}` : undefined;
+      })
+      .filter(Boolean);
+    return fields.length > 0 ? fields.join('; ') : undefined;
+  }
+
+  return undefined;
+};
@@ -2,6 +2,7 @@ import path from "path";
 import { createShopOperations } from "./shop-operations.js";
 import { createCredentialOperations } from "./credential-operations.js";
 import { createDevOperations } from "./dev-operations.js";
+import { createGitOperations } from "./git-operations.js";
 import { runCLI } from "./cli.js";
 import type { Dependencies, CLIContext } from "./types.js";
 
@@ -20,7 +21,8 @@ export const createMultiShopCLI = (cwd: string = process.cwd()): CLIContext => {
     deps,
     shopOps: createShopOperations(deps),
     credOps: createCredentialOperations(deps),
-    devOps: createDevOperations(deps)
+    devOps: createDevOperations(deps),
+    gitOps: createGitOperations(deps)
   };
 };
 
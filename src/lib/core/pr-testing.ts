@@ -0,0 +1,158 @@
+import { select, isCancel, note } from "@clack/prompts";
+import type { Environment } from "../../types/shop.js";
+import type { CLIContext, Result } from "./types.js";
+import { startShopifyDevelopmentServer } from "./dev-operations.js";
+import { resolveRequestedShops } from "./shop-selection.js";
+import { PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { loadPullRequestProvider } from "./pull-requests.js";
+
+/**
+ * Test a pull request against every shop's staging (or other pre-production) store in turn
+ * Backs the `test:pr` script that `multi-shop init` adds to package.json
+ */
+
+export interface PRTestOptions {
+  readonly pr?: string;
+  readonly shops?: string[];
+  readonly themeEditorSync?: boolean;
+}
+
+export interface PRTestSummary {
+  readonly branch: string;
+  readonly tested: string[];
+  readonly skipped: string[];
+  readonly failed: { readonly shop: string; readonly error: string }[];
+}
+
+export const testPullRequest = async (
+  context: CLIContext,
+  options: PRTestOptions = {}
+): Promise<Result<PRTestSummary>> => {
+  const shopsResult = await resolveRequestedShops(context, options.shops);
+  if (!shopsResult.success || !shopsResult.data) {
+    return { success: false, error: shopsResult.error ?? "No shops configured" };
+  }
+
+  const checkoutResult = await checkoutPullRequest(context, options.pr);
+  if (!checkoutResult.success || !checkoutResult.data) {
+    return { success: false, error: checkoutResult.error ?? "Failed to check out PR" };
+  }
+
+  const branch = checkoutResult.data;
+  const shops = shopsResult.data;
+  note(`Testing ${branch} against ${shops.length} shop preview store${shops.length === 1 ? '' : 's'}`, "🧪 Test PR");
+
+  const summary: PRTestSummary = { branch, tested: [], skipped: [], failed: [] };
+
+  for (const [index, shop] of shops.entries()) {
+    const environment = await resolveTestEnvironment(context, shop);
+    if (!environment) {
+      summary.failed.push({ shop, error: "No non-production environment configured" });
+      continue;
+    }
+
+    const action = await selectNextAction(shop, environment, index, shops.length);
+
+    if (action === "stop") {
+      summary.skipped.push(...shops.slice(index));
+      break;
+    }
+
+    if (action === "skip") {
+      summary.skipped.push(shop);
+      continue;
+    }
+
+    const result = await startShopifyDevelopmentServer(context, shop, environment, options.themeEditorSync ?? false);
+    if (result.success) {
+      summary.tested.push(shop);
+    } else {
+      summary.failed.push({ shop, error: result.error ?? "Development server failed" });
+    }
+  }
+
+  displaySummary(summary);
+
+  return { success: true, data: summary };
+};
+
+/**
+ * PR numbers and URLs are resolved to their source branch through the configured PR provider,
+ * anything else is treated as a branch name. Without a reference the current branch is tested.
+ */
+const checkoutPullRequest = async (context: CLIContext, pr?: string): Promise<Result<string>> => {
+  const checkout = await checkoutReference(context, pr);
+  if (!checkout.success) {
+    return { success: false, error: `Failed to check out ${pr ?? 'current branch'}: ${checkout.error ?? 'Unknown error'}` };
+  }
+
+  const branch = await context.gitOps.getCurrentBranch();
+  if (!branch.success) {
+    return { success: false, error: `Failed to check out ${pr ?? 'current branch'}: ${branch.error ?? 'Unknown error'}` };
+  }
+
+  return { success: true, data: branch.data ?? '' };
+};
+
+const checkoutReference = async (context: CLIContext, pr?: string): Promise<Result<void>> => {
+  if (!pr) return { success: true };
+
+  const number = parsePullRequestNumber(pr);
+  if (number === null) return context.gitOps.checkout(pr);
+
+  const target = await loadPullRequestProvider(context);
+  if (!target.success || !target.data) return { success: false, error: target.error ?? 'Pull request provider unavailable' };
+
+  const head = await target.data.provider.getHeadBranch(number);
+  if (!head.success || !head.data) return { success: false, error: head.error ?? `Pull request ${number} not found` };
+
+  const fetched = await context.gitOps.fetch();
+  if (!fetched.success) return fetched;
+
+  return context.gitOps.checkout(head.data);
+};
+
+/** 42, or a GitHub, GitLab or Bitbucket PR/MR URL */
+export const parsePullRequestNumber = (reference: string): number | null => {
+  const match = /^(\d+)$/.exec(reference) ?? /^https:\/\/\S+\/(?:pull|pull-requests|merge_requests)\/(\d+)\/?$/.exec(reference);
+  return match?.[1] ? Number(match[1]) : null;
+};
+
+/** staging when the shop has it, otherwise its first non-production environment */
+const resolveTestEnvironment = async (context: CLIContext, shop: string): Promise<Environment | undefined> => {
+  const configResult = await context.shopOps.loadConfig(shop);
+  if (!configResult.success || !configResult.data) return 'staging';
+
+  const names = Object.keys(configResult.data.shopify.stores).filter(name => name !== PRODUCTION_ENVIRONMENT);
+  return names.includes('staging') ? 'staging' : names[0];
+};
+
+const selectNextAction = async (
+  shop: string,
+  environment: Environment,
+  index: number,
+  total: number
+): Promise<"start" | "skip" | "stop"> => {
+  const action = await select({
+    message: `Shop ${index + 1}/${total}: ${shop} (${environment})`,
+    options: [
+      { value: "start", label: "Start dev server", hint: "Press Ctrl+C to stop and continue" },
+      { value: "skip", label: "Skip this shop" },
+      { value: "stop", label: "Stop testing", hint: "Skip remaining shops" }
+    ]
+  });
+
+  return isCancel(action) ? "stop" : action as "start" | "skip" | "stop";
+};
+
+const displaySummary = (summary: PRTestSummary): void => {
+  const lines = [
+    `Branch: ${summary.branch}`,
+    `Tested: ${summary.tested.length > 0 ? summary.tested.join(', ') : 'none'}`,
+    `Skipped: ${summary.skipped.length > 0 ? summary.skipped.join(', ') : 'none'}`
+  ];
+
+  summary.failed.forEach(failure => lines.push(`Failed: ${failure.shop} (${failure.error})`));
+
+  note(lines.join('\n'), "🧪 PR Test Summary");
+};
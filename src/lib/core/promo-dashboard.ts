@@ -0,0 +1,190 @@
+import type { CommitInfo, CLIContext, PullRequestProvider, PullRequestStatus, Result } from "./types.js";
+import type { CampaignManifest } from "../../types/shop.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { campaignBranches, loadBranchNaming, parsePromoBranch } from "./branch-naming.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { loadCampaignManifest } from "./campaign-schedule.js";
+import { createPullRequestProvider, loadPullRequestSettings } from "./pull-requests.js";
+
+/**
+ * Overview of every promo branch on origin: age, drift from the production branch,
+ * promo → production PR state, linked theme and last author
+ */
+
+export const DEFAULT_STALE_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PromoOverview {
+  readonly shop: string;
+  readonly promo: string;
+  readonly branch: string;
+  /** Production branch the promo merges back into */
+  readonly base: string;
+  /** When `campaign create` made the branch, otherwise the date of its first commit; missing when neither is known */
+  readonly createdAt?: string;
+  readonly ageDays?: number;
+  readonly ahead?: number;
+  readonly behind?: number;
+  readonly lastCommit?: CommitInfo;
+  /** Latest promo → base PR; null when there is none, missing when the provider couldn't be asked */
+  readonly pullRequest?: PullRequestStatus | null;
+  /** Promo theme of the matching campaign in shops/campaigns.json */
+  readonly themeId?: string;
+  readonly stale: boolean;
+  readonly error?: string;
+}
+
+export interface PromoDashboard {
+  readonly generatedAt: string;
+  readonly staleAfterDays: number;
+  readonly promos: PromoOverview[];
+  readonly warnings: string[];
+}
+
+export interface PromoDashboardOptions {
+  readonly now?: Date;
+  /** Overrides campaigns.staleAfterDays in shops/settings.json */
+  readonly staleAfterDays?: number;
+}
+
+export const getPromoDashboard = async (context: CLIContext, options: PromoDashboardOptions = {}): Promise<Result<PromoDashboard>> => {
+  const now = options.now ?? new Date();
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+  const naming = namingResult.data;
+
+  const settingsResult = await loadGlobalSettings(context.deps.cwd);
+  const staleAfterDays = options.staleAfterDays ?? settingsResult.data?.campaigns?.staleAfterDays ?? DEFAULT_STALE_AFTER_DAYS;
+  if (!Number.isFinite(staleAfterDays) || staleAfterDays <= 0) {
+    return { success: false, error: `Stale threshold must be a positive number of days, got ${staleAfterDays}` };
+  }
+
+  const remoteBranches = await context.gitOps.listBranches({ remote: true });
+  if (!remoteBranches.success) return { success: false, error: remoteBranches.error ?? "Failed to list branches" };
+
+  const promoBranches = (remoteBranches.data ?? []).flatMap(branch => {
+    const promo = parsePromoBranch(naming, branch);
+    return promo ? [{ branch, shop: promo.shopId, promo: promo.promo }] : [];
+  });
+
+  const warnings: string[] = [];
+  const manifestResult = await loadCampaignManifest(context.deps);
+  if (!manifestResult.success) warnings.push(`Linked themes unavailable: ${manifestResult.error}`);
+  const manifest = manifestResult.data ?? { version: 1, campaigns: [] };
+
+  const provider = promoBranches.length > 0 ? await loadProvider(context) : { success: true };
+  if (!provider.success) warnings.push(`PR state unavailable: ${provider.error}`);
+
+  const promos: PromoOverview[] = [];
+  for (const { branch, shop, promo } of promoBranches) {
+    const { production } = await campaignBranches(context, naming, promo, shop);
+    const themeId = linkedTheme(manifest, promo, shop);
+    const base = { shop, promo, branch, base: production, ...(themeId ? { themeId } : {}) };
+
+    try {
+      promos.push({ ...base, ...(await inspectPromo(context, manifest, base, provider.data, now, staleAfterDays, warnings)) });
+    } catch (error) {
+      promos.push({ ...base, stale: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const stale = promos.filter(promo => promo.stale);
+  if (stale.length > 0) {
+    warnings.push(
+      `${stale.length} promo branch${stale.length === 1 ? ' is' : 'es are'} older than ${staleAfterDays} days: ` +
+      stale.map(promo => `${promo.branch} (${promo.ageDays}d)`).join(', ')
+    );
+  }
+
+  return { success: true, data: { generatedAt: now.toISOString(), staleAfterDays, promos, warnings } };
+};
+
+type PromoDetails = Omit<PromoOverview, 'shop' | 'promo' | 'branch' | 'base' | 'themeId'>;
+
+const inspectPromo = async (
+  context: CLIContext,
+  manifest: CampaignManifest,
+  promo: { shop: string; promo: string; branch: string; base: string },
+  provider: PullRequestProvider | undefined,
+  now: Date,
+  staleAfterDays: number,
+  warnings: string[]
+): Promise<PromoDetails> => {
+  const git = context.gitOps;
+  const head = `origin/${promo.branch}`;
+  const base = `origin/${promo.base}`;
+
+  const ahead = await unwrapGitResult(git.revListCount(base, head)) ?? 0;
+  const behind = await unwrapGitResult(git.revListCount(head, base)) ?? 0;
+  const lastCommit = await unwrapGitResult(git.getCommit(head));
+
+  const recorded = manifest.campaigns.find(campaign => campaign.name === promo.promo)?.runs?.[promo.shop]?.branchCreatedAt;
+  // A branch without commits of its own has no age to go by until its first commit
+  const createdAt = recorded ?? await unwrapGitResult(git.firstCommitDate(base, head));
+  const ageDays = createdAt ? Math.max(0, Math.floor((now.getTime() - new Date(createdAt).getTime()) / DAY_MS)) : null;
+
+  let pullRequest: PullRequestStatus | null | undefined;
+  if (provider) {
+    const latest = await provider.findLatest(promo.branch, promo.base);
+    if (latest.success) pullRequest = latest.data ?? null;
+    else warnings.push(`PR state of ${promo.branch} unavailable: ${latest.error}`);
+  }
+
+  return {
+    ...(createdAt && ageDays !== null ? { createdAt, ageDays } : {}),
+    ahead,
+    behind,
+    ...(lastCommit ? { lastCommit } : {}),
+    ...(pullRequest !== undefined ? { pullRequest } : {}),
+    stale: ageDays !== null && ageDays > staleAfterDays
+  };
+};
+
+/** The dashboard still shows git state when no PR provider is set up */
+const loadProvider = async (context: CLIContext): Promise<Result<PullRequestProvider>> => {
+  try {
+    return await createPullRequestProvider(context, await loadPullRequestSettings(context));
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const linkedTheme = (manifest: CampaignManifest, promo: string, shop: string): string | undefined =>
+  manifest.campaigns.find(campaign => campaign.name === promo && campaign.shops.includes(shop))?.themes?.[shop];
+
+const PR_LABELS: Record<PullRequestStatus['state'], string> = {
+  open: '🔀 open',
+  merged: '✅ merged',
+  closed: '⛔ closed'
+};
+
+const formatPullRequest = (pullRequest: PullRequestStatus | null | undefined): string => {
+  if (pullRequest === undefined) return '?';
+  return pullRequest ? `${PR_LABELS[pullRequest.state]} #${pullRequest.number}` : 'none';
+};
+
+export const formatPromoDashboard = (dashboard: PromoDashboard): string => {
+  if (dashboard.promos.length === 0) return "No active promo branches found";
+
+  const header = ['Shop', 'Promo', 'Age', 'Ahead/Behind', 'PR', 'Theme', 'Last author'];
+  const rows = [header, ...dashboard.promos.map(promo => promo.error
+    ? [promo.shop, promo.promo, '', '', '', promo.themeId ?? '', `❌ ${promo.error}`]
+    : [
+      promo.shop,
+      promo.promo,
+      promo.ageDays === undefined ? '?' : `${promo.ageDays}d${promo.stale ? ' ⚠️' : ''}`,
+      `+${promo.ahead} / -${promo.behind}`,
+      formatPullRequest(promo.pullRequest),
+      promo.themeId ?? '',
+      promo.lastCommit?.author ?? ''
+    ]
+  )];
+  const widths = header.map((_, column) => Math.max(...rows.map(row => row[column]?.length ?? 0)));
+
+  return [
+    ...rows.map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd()}`),
+    ...dashboard.warnings.map(warning => `\n⚠️  ${warning}`)
+  ].join('\n');
+};
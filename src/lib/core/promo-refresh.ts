@@ -0,0 +1,150 @@
+import type { CLIContext, Result } from "./types.js";
+import type { ShopConfig } from "../../types/shop.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { campaignBranches, parsePromoBranch, type BranchNaming } from "./branch-naming.js";
+import { checkContentFiles } from "./content-detection.js";
+import { loadContentRules } from "./content-rules.js";
+
+/**
+ * Bring a promo branch up to date with its shop's production branch
+ * Same merge/rebase as `sync-main`, with content protection run in within-shop mode
+ */
+
+export interface PromoRefreshOptions {
+  readonly rebase?: boolean;
+  readonly push?: boolean;
+  /** Print the content report (default); false for CLI and CI runs */
+  readonly interactive?: boolean;
+}
+
+export type PromoRefreshStatus = 'updated' | 'up-to-date' | 'conflict';
+
+export interface PromoRefreshResult {
+  readonly branch: string;
+  readonly shop: string;
+  /** Production branch the promo was refreshed from */
+  readonly base: string;
+  readonly status: PromoRefreshStatus;
+  /** Commits on base the promo didn't have */
+  readonly behind: number;
+  /** Shop content files that differ between the promo and base */
+  readonly contentFiles: string[];
+  /** Files git couldn't merge; the merge or rebase is aborted */
+  readonly conflicts: string[];
+  readonly pushed: boolean;
+}
+
+export const refreshPromo = async (
+  context: CLIContext,
+  naming: BranchNaming,
+  branch: string,
+  options: PromoRefreshOptions = {}
+): Promise<Result<PromoRefreshResult>> => {
+  const promo = parsePromoBranch(naming, branch);
+  if (!promo) return { success: false, error: `${branch} is not a promo branch` };
+
+  const git = context.gitOps;
+  const rebase = options.rebase ?? false;
+
+  try {
+    const clean = await unwrapGitResult(git.isWorkingTreeClean());
+    if (!clean) {
+      return { success: false, error: "Working tree has uncommitted changes. Commit or stash them first." };
+    }
+
+    const { production } = await campaignBranches(context, naming, promo.promo, promo.shopId);
+
+    // Detached HEAD (common in CI) falls back to the commit SHA
+    const originalRef = (await unwrapGitResult(git.getCurrentBranch())) || (await unwrapGitResult(git.getHeadCommit()));
+    await unwrapGitResult(git.fetch());
+
+    if (!(await unwrapGitResult(git.branchExists(branch, { remote: true })))) {
+      return { success: false, error: `origin/${branch} not found` };
+    }
+
+    try {
+      await unwrapGitResult(git.checkout(branch));
+      await unwrapGitResult(git.merge(`origin/${branch}`, { fastForwardOnly: true }));
+
+      const result = { branch, shop: promo.shopId, base: production, contentFiles: [], conflicts: [], pushed: false };
+
+      const behind = await unwrapGitResult(git.revListCount(branch, `origin/${production}`)) ?? 0;
+      if (behind === 0) return { success: true, data: { ...result, status: 'up-to-date', behind } };
+
+      const contentFiles = await checkWithinShopContent(context, naming, promo.shopId, production, options.interactive ?? true);
+
+      const integrated = await unwrapGitResult(git.merge(`origin/${production}`, { rebase }));
+      if (!integrated?.merged) {
+        return { success: true, data: { ...result, status: 'conflict', behind, contentFiles, conflicts: integrated?.conflicts ?? [] } };
+      }
+
+      if (options.push) {
+        await unwrapGitResult(git.pushBranch(branch, { forceWithLease: rebase }));
+      }
+
+      return { success: true, data: { ...result, status: 'updated', behind, contentFiles, pushed: options.push ?? false } };
+    } finally {
+      if (originalRef) await git.checkout(originalRef);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to refresh ${branch}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+/** The promo is checked out; same shop on both sides, so content is reported but never blocks */
+const checkWithinShopContent = async (
+  context: CLIContext,
+  naming: BranchNaming,
+  shop: string,
+  base: string,
+  interactive: boolean
+): Promise<string[]> => {
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success) throw new Error(rulesResult.error ?? "Failed to load content rules");
+
+  const configResult = await context.shopOps.loadConfig(shop);
+  const shopConfigs = new Map<string, ShopConfig>(configResult.data ? [[shop, configResult.data]] : []);
+
+  const check = await checkContentFiles(context.gitOps, [shop], shopConfigs, {
+    interactive,
+    branchNaming: naming,
+    targetBranches: { [shop]: base },
+    syncType: 'within-shop',
+    ...(rulesResult.data ? { contentRules: rulesResult.data } : {})
+  });
+
+  return check.shops.find(entry => entry.shop === shop)?.contentFiles ?? [];
+};
+
+export const formatPromoRefresh = (result: PromoRefreshResult): string => {
+  const lines: string[] = [`\n🔄 Refresh ${result.branch} from ${result.base}`, ''];
+
+  if (result.status === 'up-to-date') {
+    lines.push(`  ✔️  Already up to date with ${result.base}`);
+    return lines.join('\n');
+  }
+
+  const commits = `${result.behind} commit${result.behind === 1 ? '' : 's'}`;
+  if (result.status === 'updated') {
+    lines.push(`  ✅ Brought in ${commits} from ${result.base}${result.pushed ? ' (pushed)' : ''}`);
+  } else {
+    lines.push(`  ⚠️  ${result.conflicts.length} conflict${result.conflicts.length === 1 ? '' : 's'} bringing in ${commits}, nothing was changed:`);
+    result.conflicts.forEach(file =>
+      lines.push(`      ↳ conflict: ${file}${result.contentFiles.includes(file) ? ' (content)' : ''}`));
+  }
+
+  if (result.contentFiles.length > 0) {
+    lines.push('');
+    lines.push(`  📝 Content files differing from ${result.base} (normal within a shop): ${result.contentFiles.join(', ')}`);
+  }
+
+  if (result.status === 'conflict') {
+    lines.push('');
+    lines.push(`💡 Resolve manually: git checkout ${result.branch} && git merge origin/${result.base}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,201 @@
+import type { CLIContext, Result } from "./types.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { campaignBranches, parsePromoBranch, type BranchNaming } from "./branch-naming.js";
+import { isContentFile, loadContentRules, resolveContentRules, type ContentRules } from "./content-rules.js";
+
+/**
+ * Promo branch teardown that keeps history: checks what isn't merged into the production branch,
+ * can carry content files back to it, and tags the branch under archive/ before deleting it
+ */
+
+export interface PromoTeardownPlan {
+  readonly branch: string;
+  readonly shop: string;
+  /** Production branch the promo merges back into */
+  readonly base: string;
+  /** What gets archived: origin/<branch>, or the local branch when it has unpushed commits */
+  readonly ref: string;
+  readonly local: boolean;
+  readonly remote: boolean;
+  /** Promo commits that aren't in base */
+  readonly unmergedCommits: number;
+  /** Files the promo changed that still differ from base */
+  readonly unmergedFiles: string[];
+  /** Unmerged shop content files that can be carried back to base */
+  readonly contentFiles: string[];
+  readonly archiveTag: string;
+}
+
+export interface PromoTeardownOptions {
+  /** Delete even when unmerged changes would only survive in the archive tag */
+  readonly force?: boolean;
+  /** Content files to commit onto base before the branch goes */
+  readonly rescue?: readonly string[];
+  readonly pushRescue?: boolean;
+}
+
+export interface PromoTeardownResult {
+  readonly branch: string;
+  readonly archiveTag: string;
+  readonly rescued: string[];
+  readonly rescuePushed: boolean;
+}
+
+/** archive/<promo branch>/<YYYY-MM-DD>, e.g. archive/shop-a/promo-summer-sale/2026-09-01 */
+export const archiveTagName = (branch: string, date: Date): string =>
+  `archive/${branch}/${date.toISOString().slice(0, 10)}`;
+
+export const planPromoTeardown = async (
+  context: CLIContext,
+  naming: BranchNaming,
+  branch: string,
+  now: Date = new Date()
+): Promise<Result<PromoTeardownPlan>> => {
+  const promo = parsePromoBranch(naming, branch);
+  if (!promo) return { success: false, error: `${branch} is not a promo branch` };
+
+  const git = context.gitOps;
+
+  try {
+    const local = Boolean(await unwrapGitResult(git.branchExists(branch)));
+    const remote = Boolean(await unwrapGitResult(git.branchExists(branch, { remote: true })));
+    if (!local && !remote) return { success: false, error: `Branch ${branch} not found locally or on origin` };
+
+    const unpushed = local && remote ? await unwrapGitResult(git.revListCount(`origin/${branch}`, branch)) ?? 0 : 0;
+    const ref = remote && unpushed === 0 ? `origin/${branch}` : branch;
+
+    const { production } = await campaignBranches(context, naming, promo.promo, promo.shopId);
+    const base = `origin/${production}`;
+
+    const unmergedCommits = await unwrapGitResult(git.revListCount(base, ref)) ?? 0;
+    let unmergedFiles: string[] = [];
+    let contentFiles: string[] = [];
+
+    if (unmergedCommits > 0) {
+      const forkPoint = await unwrapGitResult(git.mergeBase(base, ref));
+      const promoChanges = await unwrapGitResult(git.diffNameStatus(forkPoint ?? base, ref)) ?? [];
+      const differing = new Set((await unwrapGitResult(git.diffNameStatus(base, ref)) ?? []).map(change => change.path));
+
+      const pending = promoChanges.filter(change => differing.has(change.path));
+      unmergedFiles = pending.map(change => change.path);
+
+      const rules = await loadShopContentRules(context, promo.shopId);
+      contentFiles = pending
+        .filter(change => change.status !== 'deleted' && isContentFile(change.path, rules))
+        .map(change => change.path);
+    }
+
+    return {
+      success: true,
+      data: {
+        branch,
+        shop: promo.shopId,
+        base: production,
+        ref,
+        local,
+        remote,
+        unmergedCommits,
+        unmergedFiles,
+        contentFiles,
+        archiveTag: await uniqueTagName(context, archiveTagName(branch, now))
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to check ${branch}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+/** Files that would only survive in the archive tag */
+export const filesLostByTeardown = (plan: PromoTeardownPlan, rescue: readonly string[] = []): string[] =>
+  plan.unmergedCommits > 0 ? plan.unmergedFiles.filter(file => !rescue.includes(file)) : [];
+
+/**
+ * Rescues the chosen content files onto base, archives the branch as a tag (pushed to origin)
+ * and deletes it on origin and locally. Refuses to lose unmerged changes unless forced.
+ */
+export const teardownPromo = async (
+  context: CLIContext,
+  plan: PromoTeardownPlan,
+  options: PromoTeardownOptions = {}
+): Promise<Result<PromoTeardownResult>> => {
+  const rescue = (options.rescue ?? []).filter(file => plan.contentFiles.includes(file));
+  const lost = filesLostByTeardown(plan, rescue);
+  if (lost.length > 0 && !options.force) {
+    return {
+      success: false,
+      error: `${plan.branch} has ${plan.unmergedCommits} commit${plan.unmergedCommits === 1 ? '' : 's'} not merged into ${plan.base} ` +
+        `(${lost.join(', ')}). Merge it, rescue the content files or force the teardown.`
+    };
+  }
+
+  const git = context.gitOps;
+  let rescuePushed = false;
+
+  try {
+    // The promo branch can't be deleted while it is checked out, and the rescue lands on base
+    const current = await unwrapGitResult(git.getCurrentBranch());
+    if (current === plan.branch || rescue.length > 0) await unwrapGitResult(git.checkout(plan.base));
+
+    if (rescue.length > 0) {
+      if (!(await unwrapGitResult(git.isWorkingTreeClean()))) throw new Error("Working tree has uncommitted changes");
+      // Rescue on top of what origin has, not a stale local copy
+      await unwrapGitResult(git.merge(`origin/${plan.base}`, { fastForwardOnly: true }));
+
+      await unwrapGitResult(git.restoreFiles(plan.ref, rescue));
+      await unwrapGitResult(git.addFiles(rescue));
+      await unwrapGitResult(git.commit(`Rescue content from ${plan.branch}\n\n${rescue.join('\n')}`));
+
+      if (options.pushRescue) {
+        await unwrapGitResult(git.pushBranch(plan.base));
+        rescuePushed = true;
+      }
+    }
+
+    await unwrapGitResult(git.createTag(plan.archiveTag, plan.ref, `Archive of ${plan.branch} before teardown`));
+    await unwrapGitResult(git.pushTag(plan.archiveTag));
+
+    if (plan.remote) await unwrapGitResult(git.deleteBranch(plan.branch, { remote: true }));
+    if (plan.local) await unwrapGitResult(git.deleteBranch(plan.branch, { force: true }));
+
+    return { success: true, data: { branch: plan.branch, archiveTag: plan.archiveTag, rescued: rescue, rescuePushed } };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to tear down ${plan.branch}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+/** Plan and tear down in one go, for flows without prompts */
+export const endPromoBranch = async (
+  context: CLIContext,
+  naming: BranchNaming,
+  branch: string,
+  options: PromoTeardownOptions = {},
+  now: Date = new Date()
+): Promise<Result<PromoTeardownResult>> => {
+  const plan = await planPromoTeardown(context, naming, branch, now);
+  if (!plan.success || !plan.data) return { success: false, error: plan.error ?? `Failed to check ${branch}` };
+
+  return teardownPromo(context, plan.data, options);
+};
+
+const loadShopContentRules = async (context: CLIContext, shop: string): Promise<ContentRules> => {
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success) throw new Error(rulesResult.error ?? "Failed to load content rules");
+
+  const config = await context.shopOps.loadConfig(shop);
+  return resolveContentRules(config.data?.contentProtection, rulesResult.data);
+};
+
+/** A second teardown of the same branch on the same day gets -2, -3, ... */
+const uniqueTagName = async (context: CLIContext, name: string): Promise<string> => {
+  let candidate = name;
+  for (let suffix = 2; await unwrapGitResult(context.gitOps.tagExists(candidate)); suffix++) {
+    candidate = `${name}-${suffix}`;
+  }
+  return candidate;
+};
@@ -0,0 +1,272 @@
+import type { PullRequestProviderName, PullRequestSettings } from "../../types/shop.js";
+import type { CLIContext, PullRequestProvider, PullRequestRequest, Result } from "./types.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { createGitHubCLIProvider, isGitHubCLIAvailable } from "./github-cli-provider.js";
+import { createGitHubApiProvider } from "./github-api-provider.js";
+import { createGitLabCLIProvider, isGitLabCLIAvailable } from "./gitlab-cli-provider.js";
+import { createGitLabApiProvider } from "./gitlab-api-provider.js";
+import { createBitbucketApiProvider, type BitbucketAuth } from "./bitbucket-api-provider.js";
+
+/**
+ * Pull request provider selection and create-or-update flow
+ * The provider is chosen by `pullRequests.provider` in shops/settings.json
+ */
+
+export const DEFAULT_PULL_REQUEST_SETTINGS: PullRequestSettings = {
+  provider: 'github-cli'
+};
+
+export interface PullRequestTarget {
+  readonly provider: PullRequestProvider;
+  readonly settings: PullRequestSettings;
+}
+
+export interface PullRequestOutcome {
+  readonly number: number;
+  readonly url: string;
+  /** True when an already-open PR was updated instead of creating a new one */
+  readonly updated: boolean;
+  readonly warnings: string[];
+}
+
+export type ManualPullRequest = Pick<PullRequestRequest, 'head' | 'base' | 'title'> & { readonly body?: string };
+
+/** Manual fallback details for the hosting service behind a provider */
+export interface ManualPullRequestGuide {
+  readonly hostName: string;
+  /** Equivalent CLI command, when the host has one */
+  readonly command?: (request: ManualPullRequest) => string;
+  readonly webSteps: string[];
+  readonly authHint: string;
+}
+
+export const loadPullRequestSettings = async (context: CLIContext): Promise<PullRequestSettings> => {
+  const settingsResult = await loadGlobalSettings(context.deps.cwd);
+  return settingsResult.data?.pullRequests ?? DEFAULT_PULL_REQUEST_SETTINGS;
+};
+
+export const loadPullRequestProvider = async (context: CLIContext): Promise<Result<PullRequestTarget>> => {
+  const settings = await loadPullRequestSettings(context);
+
+  const providerResult = await createPullRequestProvider(context, settings);
+  if (!providerResult.success || !providerResult.data) {
+    return { success: false, error: providerResult.error ?? 'Pull request provider unavailable' };
+  }
+
+  return { success: true, data: { provider: providerResult.data, settings } };
+};
+
+export const createPullRequestProvider = async (
+  context: CLIContext,
+  settings: PullRequestSettings
+): Promise<Result<PullRequestProvider>> => {
+  switch (settings.provider) {
+    case 'github-cli':
+      return await isGitHubCLIAvailable(context.deps)
+        ? { success: true, data: createGitHubCLIProvider(context.deps) }
+        : { success: false, error: 'GitHub CLI not available' };
+
+    case 'github-api': {
+      const token = process.env['GITHUB_TOKEN'] || process.env['GH_TOKEN'];
+      if (!token) return { success: false, error: 'GITHUB_TOKEN is not set' };
+
+      const repository = await resolveOwnerAndRepo(context, settings);
+      if (!repository.success || !repository.data) {
+        return { success: false, error: repository.error ?? 'Cannot determine GitHub repository' };
+      }
+
+      return {
+        success: true,
+        data: createGitHubApiProvider({
+          token,
+          owner: repository.data.owner,
+          repo: repository.data.repo,
+          ...(settings.apiUrl ? { apiUrl: settings.apiUrl } : {})
+        })
+      };
+    }
+
+    case 'gitlab-cli':
+      return await isGitLabCLIAvailable(context.deps)
+        ? { success: true, data: createGitLabCLIProvider(context.deps) }
+        : { success: false, error: 'GitLab CLI not available' };
+
+    case 'gitlab-api': {
+      const token = process.env['GITLAB_TOKEN'];
+      if (!token) return { success: false, error: 'GITLAB_TOKEN is not set' };
+
+      const project = await resolveRepositoryPath(context, settings);
+      if (!project.success || !project.data) {
+        return { success: false, error: project.error ?? 'Cannot determine GitLab project' };
+      }
+
+      return {
+        success: true,
+        data: createGitLabApiProvider({
+          token,
+          project: project.data,
+          ...(settings.apiUrl ? { apiUrl: settings.apiUrl } : {})
+        })
+      };
+    }
+
+    case 'bitbucket-api': {
+      const auth = readBitbucketAuth();
+      if (!auth) return { success: false, error: 'BITBUCKET_TOKEN (or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD) is not set' };
+
+      const repository = await resolveOwnerAndRepo(context, settings);
+      if (!repository.success || !repository.data) {
+        return { success: false, error: repository.error ?? 'Cannot determine Bitbucket repository' };
+      }
+
+      return {
+        success: true,
+        data: createBitbucketApiProvider({
+          auth,
+          workspace: repository.data.owner,
+          repo: repository.data.repo,
+          ...(settings.apiUrl ? { apiUrl: settings.apiUrl } : {})
+        })
+      };
+    }
+
+    default:
+      return { success: false, error: `Unknown pull request provider: ${String(settings.provider)}` };
+  }
+};
+
+/**
+ * Create a PR, or update the body of the PR already open for the same head and base.
+ * Configured labels and reviewers are applied either way.
+ */
+export const openOrUpdatePullRequest = async (
+  target: PullRequestTarget,
+  request: PullRequestRequest
+): Promise<Result<PullRequestOutcome>> => {
+  const { provider, settings } = target;
+
+  const existing = await provider.findOpen(request.head, request.base);
+  if (!existing.success) return { success: false, error: existing.error ?? 'Failed to look up open pull requests' };
+
+  let number: number;
+  let url: string;
+
+  if (existing.data) {
+    const updated = await provider.updateBody(existing.data.number, request.body);
+    if (!updated.success) return { success: false, error: updated.error ?? 'Failed to update pull request' };
+    ({ number, url } = existing.data);
+  } else {
+    const created = await provider.create(request);
+    if (!created.success || !created.data) return { success: false, error: created.error ?? 'Failed to create pull request' };
+    ({ number, url } = created.data);
+  }
+
+  const warnings: string[] = [];
+
+  if (settings.labels?.length) {
+    const labelled = await provider.addLabels(number, settings.labels);
+    if (!labelled.success) warnings.push(`Labels not added: ${labelled.error}`);
+  }
+
+  if (settings.reviewers?.length) {
+    const requested = await provider.addReviewers(number, settings.reviewers);
+    if (!requested.success) warnings.push(`Reviewers not requested: ${requested.error}`);
+  }
+
+  return { success: true, data: { number, url, updated: Boolean(existing.data), warnings } };
+};
+
+const MANUAL_GUIDES: Record<'github' | 'gitlab' | 'bitbucket', Omit<ManualPullRequestGuide, 'authHint'>> = {
+  github: {
+    hostName: 'GitHub',
+    command: request =>
+      `gh pr create --base ${request.base} --head ${request.head} --title "${request.title}"` +
+      (request.body ? ` --body "${request.body}"` : ''),
+    webSteps: ["Click 'Pull requests' → 'New pull request'"]
+  },
+  gitlab: {
+    hostName: 'GitLab',
+    command: request =>
+      `glab mr create --target-branch ${request.base} --source-branch ${request.head} --title "${request.title}"` +
+      (request.body ? ` --description "${request.body}"` : ''),
+    webSteps: ["Click 'Merge requests' → 'New merge request'"]
+  },
+  bitbucket: {
+    hostName: 'Bitbucket',
+    webSteps: ["Click 'Pull requests' → 'Create pull request'"]
+  }
+};
+
+const AUTH_HINTS: Record<PullRequestProviderName, string> = {
+  'github-cli': 'gh auth login',
+  'github-api': 'export GITHUB_TOKEN=<token>',
+  'gitlab-cli': 'glab auth login',
+  'gitlab-api': 'export GITLAB_TOKEN=<token>',
+  'bitbucket-api': 'export BITBUCKET_TOKEN=<token>'
+};
+
+export const getManualPullRequestGuide = (provider: PullRequestProviderName): ManualPullRequestGuide => {
+  const host = provider.startsWith('gitlab') ? 'gitlab' : provider.startsWith('bitbucket') ? 'bitbucket' : 'github';
+  return { ...MANUAL_GUIDES[host], authHint: AUTH_HINTS[provider] };
+};
+
+/**
+ * Extract the repository path (owner/repo, or group/subgroup/project) from an origin URL
+ * Handles scp-style SSH (git@host:path), ssh:// and https:// remotes
+ */
+export const parseRepositoryPath = (remoteUrl: string): string | null => {
+  const trimmed = remoteUrl.trim();
+  const scpStyle = trimmed.match(/^[^@/:]+@[^:/]+:(?!\/)(.+)$/);
+
+  let pathname: string;
+  if (scpStyle?.[1]) {
+    pathname = scpStyle[1];
+  } else {
+    try {
+      pathname = new URL(trimmed).pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const repositoryPath = pathname.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  return repositoryPath.includes('/') ? repositoryPath : null;
+};
+
+const readBitbucketAuth = (): BitbucketAuth | null => {
+  const token = process.env['BITBUCKET_TOKEN'];
+  if (token) return { token };
+
+  const username = process.env['BITBUCKET_USERNAME'];
+  const appPassword = process.env['BITBUCKET_APP_PASSWORD'];
+  return username && appPassword ? { username, appPassword } : null;
+};
+
+const resolveRepositoryPath = async (
+  context: CLIContext,
+  settings: PullRequestSettings
+): Promise<Result<string>> => {
+  if (settings.repository) return { success: true, data: settings.repository };
+
+  const remote = await context.gitOps.getRemoteUrl();
+  const parsed = remote.success && remote.data ? parseRepositoryPath(remote.data) : null;
+
+  return parsed
+    ? { success: true, data: parsed }
+    : { success: false, error: 'Cannot determine repository from origin; set pullRequests.repository' };
+};
+
+const resolveOwnerAndRepo = async (
+  context: CLIContext,
+  settings: PullRequestSettings
+): Promise<Result<{ owner: string; repo: string }>> => {
+  const repositoryPath = await resolveRepositoryPath(context, settings);
+  if (!repositoryPath.success || !repositoryPath.data) {
+    return { success: false, error: repositoryPath.error ?? 'Cannot determine repository' };
+  }
+
+  const [owner, repo, ...rest] = repositoryPath.data.split('/');
+  return owner && repo && rest.length === 0
+    ? { success: true, data: { owner, repo } }
+    : { success: false, error: `Invalid repository "${repositoryPath.data}" (expected owner/repo)` };
+};
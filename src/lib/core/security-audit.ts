@@ -1,7 +1,18 @@
 import fs from 'fs';
 import path from 'path';
-import type { Dependencies, Result } from './types.js';
-import type { SecurityAuditReport, ShopSecurityAudit, SecurityIssue } from '../../types/shop.js';
+import type { CredentialStore, Dependencies, Result } from './types.js';
+import type {
+  CredentialBackendName,
+  SecurityAuditReport,
+  ShopSecurityAudit,
+  SecurityIssue,
+  TokenSource,
+  TokenSources
+} from '../../types/shop.js';
+import { CREDENTIAL_FILE_SUFFIX, verifyCredentialChecksum } from './file-credential-store.js';
+import { ENCRYPTED_CREDENTIAL_SUFFIX } from './encrypted-credential-store.js';
+import { createCredentialOperations, createCredentialStore, loadCredentialSettings } from './credential-operations.js';
+import { environmentLabel } from './environments.js';
 
 /**
  * Security audit operations for shop configurations and credentials
@@ -34,16 +45,34 @@ export const runSecurityAudit = async (deps: Dependencies): Promise<Result<Secur
   // Audit each shop's credentials
   const shopsResult = await listShops(deps);
   if (shopsResult.success && shopsResult.data) {
+    const settings = await loadCredentialSettings(deps);
+    // Warn instead of failing so a mismatch is reported per shop rather than aborting the load
+    const store = createCredentialStore(deps, { ...settings, onChecksumMismatch: 'warn' });
+
     for (const shopId of shopsResult.data) {
-      const audit = await auditShopCredentials(deps, shopId);
+      const audit = await auditShopCredentials(deps, shopId, settings.backend, store);
       shopAudits.push(audit);
 
-      if (!audit.integrityValid) {
+      if (audit.integrity === 'mismatch') {
+        issues.push({
+          level: 'error',
+          shopId,
+          message: `Credential checksum mismatch for ${shopId}: the tokens were edited or tampered with`,
+          recommendation: 'Confirm the tokens with your Shopify admin, then save them again through multi-shop to record a new checksum'
+        });
+      } else if (audit.integrity === 'unreadable') {
+        issues.push({
+          level: 'error',
+          shopId,
+          message: `Credentials for ${shopId} could not be read from the ${settings.backend} backend: ${audit.error ?? 'unknown error'}`,
+          recommendation: 'Check the credential backend settings (and passphrase, for encrypted-file) in settings.json'
+        });
+      } else if (audit.integrity === 'unverified' && CHECKSUM_BACKENDS.includes(settings.backend)) {
         issues.push({
           level: 'warning',
           shopId,
-          message: 'Credential file exists but metadata is missing',
-          recommendation: 'Credentials are valid but consider regenerating to add metadata'
+          message: 'Credential file has no integrity checksum',
+          recommendation: 'Save the credentials again through multi-shop to add a checksum'
         });
       }
 
@@ -52,7 +81,7 @@ export const runSecurityAudit = async (deps: Dependencies): Promise<Result<Secur
           level: 'warning',
           shopId,
           message: `Credential file has permissive permissions: ${audit.filePermissions}`,
-          recommendation: `Run: chmod 600 ${path.join(deps.credentialsDir, shopId + '.credentials.json')}`
+          recommendation: `Run: chmod 600 ${credentialFilePath(deps, shopId, settings.backend) ?? shopId}`
         });
       }
     }
@@ -89,42 +118,85 @@ export const runSecurityAudit = async (deps: Dependencies): Promise<Result<Secur
   };
 };
 
+/** Backends whose saves record a checksum; env and command credentials never carry one */
+const CHECKSUM_BACKENDS: readonly CredentialBackendName[] = ['file', 'encrypted-file'];
+
+/** Credential file a backend keeps on disk; env and command backends keep none */
+const credentialFilePath = (deps: Dependencies, shopId: string, backend: CredentialBackendName): string | null => {
+  if (backend === 'file') return path.join(deps.credentialsDir, `${shopId}${CREDENTIAL_FILE_SUFFIX}`);
+  if (backend === 'encrypted-file') return path.join(deps.credentialsDir, `${shopId}${ENCRYPTED_CREDENTIAL_SUFFIX}`);
+  return null;
+};
+
 const auditShopCredentials = async (
   deps: Dependencies,
-  shopId: string
+  shopId: string,
+  backend: CredentialBackendName,
+  store: Result<CredentialStore>
 ): Promise<ShopSecurityAudit> => {
-  const credPath = path.join(deps.credentialsDir, `${shopId}.credentials.json`);
+  const credPath = credentialFilePath(deps, shopId, backend);
+  const tokenSources = await resolveTokenSources(deps, shopId);
+  const stats = credPath !== null && fs.existsSync(credPath) ? fs.statSync(credPath) : null;
 
-  if (!fs.existsSync(credPath)) {
-    return {
-      shopId,
-      filePermissions: 'none',
-      lastModified: 'never',
-      hasProduction: false,
-      hasStaging: false,
-      integrityValid: false
-    };
+  const base = {
+    shopId,
+    filePermissions: stats ? (stats.mode & parseInt('777', 8)).toString(8) : 'none',
+    lastModified: stats ? stats.mtime.toISOString() : 'never',
+    hasProduction: hasSource(tokenSources, 'production'),
+    hasStaging: hasSource(tokenSources, 'staging'),
+    tokenSources
+  };
+
+  if (credPath !== null && !stats) {
+    return { ...base, integrityValid: false, integrity: 'missing' };
   }
 
-  const stats = fs.statSync(credPath);
-  const mode = (stats.mode & parseInt('777', 8)).toString(8);
+  if (!store.success || !store.data) {
+    return { ...base, integrityValid: false, integrity: 'unreadable', error: store.error ?? 'Credential backend unavailable' };
+  }
+
+  const loaded = await store.data.load(shopId);
+  if (!loaded.success) {
+    return { ...base, integrityValid: false, integrity: 'unreadable', error: loaded.error ?? 'Failed to load credentials' };
+  }
 
-  const rawData = fs.readFileSync(credPath, 'utf8');
-  const credentials = JSON.parse(rawData);
+  const credentials = loaded.data;
+  if (!credentials) {
+    return { ...base, integrityValid: false, integrity: 'missing' };
+  }
 
-  // Verify integrity if metadata exists
-  const integrityValid = credentials._metadata?.created ? true : false;
+  const integrity = verifyCredentialChecksum(credentials);
 
   return {
-    shopId,
-    filePermissions: mode,
-    lastModified: stats.mtime.toISOString(),
-    hasProduction: Boolean(credentials.shopify?.stores?.production?.themeToken),
-    hasStaging: Boolean(credentials.shopify?.stores?.staging?.themeToken),
-    integrityValid
+    ...base,
+    hasProduction: base.hasProduction || Boolean(credentials.shopify.stores.production?.themeToken),
+    hasStaging: base.hasStaging || Boolean(credentials.shopify.stores.staging?.themeToken),
+    integrityValid: integrity === 'verified',
+    integrity
   };
 };
 
+const resolveTokenSources = async (deps: Dependencies, shopId: string): Promise<TokenSources> => {
+  const resolved = await createCredentialOperations(deps).resolveCredentials(shopId);
+  const none = { kind: 'none', name: '' } as const;
+  return resolved.data?.sources ?? { production: none, staging: none };
+};
+
+const hasSource = (sources: TokenSources, environment: string): boolean =>
+  (sources[environment]?.kind ?? 'none') !== 'none';
+
+/** Production and staging also count tokens only the credential file has; other environments go by their source */
+const hasToken = (shop: ShopSecurityAudit, environment: string): boolean => {
+  if (environment === 'production') return shop.hasProduction;
+  if (environment === 'staging') return shop.hasStaging;
+  return hasSource(shop.tokenSources, environment);
+};
+
+const describeToken = (present: boolean, source: TokenSource): string => {
+  if (source.kind === 'none') return present ? '✅' : '❌';
+  return `✅ (${source.kind === 'env' ? `env ${source.name}` : source.name})`;
+};
+
 const listShops = async (deps: Dependencies): Promise<Result<string[]>> => {
   try {
     if (!fs.existsSync(deps.shopsDir)) {
@@ -212,6 +284,14 @@ const generateRecommendations = (issues: SecurityIssue[]): readonly string[] =>
   return recommendations;
 };
 
+const INTEGRITY_LABELS: Record<ShopSecurityAudit['integrity'], string> = {
+  verified: '✅',
+  unverified: '⚠️  no checksum',
+  mismatch: '🔴 checksum mismatch',
+  missing: '➖ no credentials',
+  unreadable: '🔴 unreadable'
+};
+
 export const formatAuditReport = (report: SecurityAuditReport): string => {
   const lines: string[] = [];
 
@@ -227,9 +307,10 @@ export const formatAuditReport = (report: SecurityAuditReport): string => {
     report.shops.forEach(shop => {
       lines.push(`  ${shop.shopId}:`);
       lines.push(`    Permissions: ${shop.filePermissions}`);
-      lines.push(`    Production Token: ${shop.hasProduction ? '✅' : '❌'}`);
-      lines.push(`    Staging Token: ${shop.hasStaging ? '✅' : '❌'}`);
-      lines.push(`    Integrity: ${shop.integrityValid ? '✅' : '⚠️'}`);
+      Object.entries(shop.tokenSources).forEach(([environment, source]) => {
+        lines.push(`    ${environmentLabel(environment)} Token: ${describeToken(hasToken(shop, environment), source)}`);
+      });
+      lines.push(`    Integrity: ${INTEGRITY_LABELS[shop.integrity]}`);
       lines.push('');
     });
   } else {
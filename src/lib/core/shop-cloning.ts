@@ -0,0 +1,252 @@
+import type { ContentProtectionConfig, Environment, ShopConfig, ShopifyStore } from "../../types/shop.js";
+import type { CLIContext, GitOperations, Result } from "./types.js";
+import { validateShopConfig, validateShopId } from "./validation.js";
+import { getDefaultContentProtection } from "./global-settings.js";
+import { listEnvironments } from "./environments.js";
+import { DEFAULT_BRANCH_NAMING, environmentBranchName, loadBranchNaming, parseShopBranch, type BranchNaming } from "./branch-naming.js";
+import { isContentFile, loadContentRules, resolveContentRules, type ContentRules } from "./content-rules.js";
+import { unwrapGitResult } from "./git-operations.js";
+import { CURRENT_CONFIG_VERSION } from "./config-migration.js";
+
+/**
+ * Clone a shop: config, optional protection settings and metadata, and its branches
+ * Backs `multi-shop shop clone <source> <newId>`
+ */
+
+export interface CloneShopOptions {
+  readonly source: string;
+  readonly shopId: string;
+  /** Display name (default: the new shop ID) */
+  readonly name?: string;
+  /** Domain per environment; others are derived by replacing the source shop ID in the source domain */
+  readonly domains?: Readonly<Record<Environment, string>>;
+  readonly copyContentProtection?: boolean;
+  readonly copyMetadata?: boolean;
+  /** Keep the source shop's content JSON on the new branches instead of resetting it to main */
+  readonly seedContent?: boolean;
+  /** Create and push the new shop's branches (default true) */
+  readonly createBranches?: boolean;
+}
+
+export type ClonedBranchStatus = 'created' | 'exists' | 'failed';
+
+export interface ClonedBranch {
+  readonly branch: string;
+  readonly from: string;
+  readonly status: ClonedBranchStatus;
+  /** Content files reset to main on this branch */
+  readonly resetContent?: string[];
+  readonly error?: string;
+}
+
+export interface CloneShopReport {
+  readonly config: ShopConfig;
+  readonly branches: ClonedBranch[];
+}
+
+const BASE_BRANCH = 'main';
+
+export const cloneShop = async (context: CLIContext, options: CloneShopOptions): Promise<Result<CloneShopReport>> => {
+  const idCheck = validateShopId(options.shopId);
+  if (!idCheck.success) return { success: false, error: idCheck.error ?? "Invalid shop ID" };
+
+  const shopsResult = await context.shopOps.listShops();
+  if (shopsResult.data?.includes(options.shopId)) {
+    return { success: false, error: `Shop ${options.shopId} already exists` };
+  }
+
+  const sourceResult = await context.shopOps.loadConfig(options.source);
+  if (!sourceResult.success || !sourceResult.data) {
+    return { success: false, error: sourceResult.error ?? `Shop ${options.source} not found` };
+  }
+
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const defaultProtection = await getDefaultContentProtection(context.deps.cwd);
+  const configResult = buildClonedConfig(
+    sourceResult.data,
+    options,
+    { enabled: true, mode: defaultProtection.defaultMode, verbosity: defaultProtection.defaultVerbosity },
+    namingResult.data
+  );
+  if (!configResult.success || !configResult.data) return { success: false, error: configResult.error ?? "Failed to build config" };
+
+  const config = configResult.data;
+  const validation = await validateShopConfig(config, options.shopId);
+  if (!validation.success) return { success: false, error: validation.error ?? "Cloned config is invalid" };
+
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load content rules" };
+  const contentRules = resolveContentRules(config.contentProtection, rulesResult.data);
+
+  // Branches first: they need a clean working tree, which the new config file would break
+  const branchesResult = options.createBranches === false
+    ? { success: true, data: [] }
+    : await cloneBranches(context.gitOps, sourceResult.data, config, options, contentRules);
+  if (!branchesResult.success || !branchesResult.data) {
+    return { success: false, error: branchesResult.error ?? "Failed to create branches" };
+  }
+
+  const saveResult = await context.shopOps.saveConfig(options.shopId, config);
+  if (!saveResult.success) return { success: false, error: saveResult.error ?? "Failed to save config" };
+
+  return { success: true, data: { config, branches: branchesResult.data } };
+};
+
+/**
+ * The source config with shop ID, name, domains and branches rewritten for the new shop
+ * Content protection and metadata are copied only when asked; otherwise the new shop gets `defaultProtection`
+ */
+export const buildClonedConfig = (
+  source: ShopConfig,
+  options: CloneShopOptions,
+  defaultProtection: ContentProtectionConfig,
+  naming: BranchNaming = DEFAULT_BRANCH_NAMING
+): Result<ShopConfig> => {
+  const stores: Record<Environment, ShopifyStore> = {};
+
+  for (const environment of listEnvironments(source)) {
+    const domain = options.domains?.[environment.name] ?? rewriteShopId(environment.domain, options.source, options.shopId);
+    if (!domain) {
+      return {
+        success: false,
+        error: `Cannot derive the ${environment.name} domain from ${environment.domain}; pass --domain ${environment.name}=<domain>`
+      };
+    }
+
+    // Theme IDs belong to the source store and are not copied
+    stores[environment.name] = {
+      domain,
+      branch: cloneBranchName(naming, environment.branch, environment.name, options.shopId)
+    };
+  }
+
+  const { metadata, contentProtection } = source;
+
+  return {
+    success: true,
+    data: {
+      version: CURRENT_CONFIG_VERSION,
+      shopId: options.shopId,
+      name: options.name ?? options.shopId,
+      shopify: { stores, authentication: source.shopify.authentication },
+      ...(options.copyMetadata && metadata ? { metadata: { ...metadata, created: new Date().toISOString() } } : {}),
+      contentProtection: options.copyContentProtection && contentProtection ? contentProtection : defaultProtection
+    }
+  };
+};
+
+/** Replaces the source shop ID inside a domain; undefined when it doesn't appear */
+const rewriteShopId = (domain: string, source: string, shopId: string): string | undefined =>
+  domain.includes(source) ? domain.replace(source, shopId) : undefined;
+
+/** <source>/staging → <newId>/staging; branches that don't follow the naming pattern get the environment's branch name */
+const cloneBranchName = (naming: BranchNaming, branch: string, environment: Environment, shopId: string): string => {
+  const parsed = parseShopBranch(naming, branch);
+  return environmentBranchName(naming, shopId, parsed?.environment ?? environment);
+};
+
+/**
+ * Creates every new environment branch from the matching source branch and pushes it
+ * Requires a clean working tree; the original branch is checked out again afterwards
+ */
+const cloneBranches = async (
+  git: GitOperations,
+  source: ShopConfig,
+  config: ShopConfig,
+  options: CloneShopOptions,
+  contentRules: ContentRules
+): Promise<Result<ClonedBranch[]>> => {
+  try {
+    const clean = await unwrapGitResult(git.isWorkingTreeClean());
+    if (!clean) {
+      return { success: false, error: "Working tree has uncommitted changes. Commit or stash them first." };
+    }
+
+    const originalRef = (await unwrapGitResult(git.getCurrentBranch())) || (await unwrapGitResult(git.getHeadCommit()));
+    await unwrapGitResult(git.fetch());
+
+    const pairs = new Map<string, string>();
+    for (const environment of listEnvironments(config)) {
+      const from = source.shopify.stores[environment.name]?.branch;
+      if (from && !pairs.has(environment.branch)) pairs.set(environment.branch, from);
+    }
+
+    const results: ClonedBranch[] = [];
+    try {
+      for (const [branch, from] of pairs) {
+        results.push(await cloneBranch(git, branch, from, options, contentRules));
+      }
+    } finally {
+      if (originalRef) await git.checkout(originalRef);
+    }
+
+    return { success: true, data: results };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to create branches: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const cloneBranch = async (
+  git: GitOperations,
+  branch: string,
+  from: string,
+  options: CloneShopOptions,
+  contentRules: ContentRules
+): Promise<ClonedBranch> => {
+  if ((await git.branchExists(branch, { remote: true })).data || (await git.branchExists(branch)).data) {
+    return { branch, from, status: 'exists' };
+  }
+
+  if (!(await git.branchExists(from, { remote: true })).data) {
+    return { branch, from, status: 'failed', error: `origin/${from} not found` };
+  }
+
+  try {
+    await unwrapGitResult(git.createBranch(branch, `origin/${from}`));
+    const resetContent = options.seedContent ? [] : await resetContentToBase(git, branch, options.shopId, contentRules);
+    await unwrapGitResult(git.pushBranch(branch, { setUpstream: true }));
+
+    return { branch, from, status: 'created', ...(resetContent.length > 0 ? { resetContent } : {}) };
+  } catch (error) {
+    return { branch, from, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Makes the branch's content files (per the new shop's content globs) match main, so the new shop doesn't start with another store's settings
+ * Returns the paths that changed; nothing is committed when there are none
+ */
+const resetContentToBase = async (
+  git: GitOperations,
+  branch: string,
+  shopId: string,
+  contentRules: ContentRules
+): Promise<string[]> => {
+  const changes = (await unwrapGitResult(git.diffNameStatus(`origin/${BASE_BRANCH}`, branch))) ?? [];
+
+  const restore: string[] = [];
+  const remove: string[] = [];
+  for (const change of changes) {
+    if (change.status === 'added' || change.status === 'copied' || change.status === 'renamed') {
+      if (isContentFile(change.path, contentRules)) remove.push(change.path);
+      if (change.status === 'renamed' && change.previousPath && isContentFile(change.previousPath, contentRules)) {
+        restore.push(change.previousPath);
+      }
+    } else if (isContentFile(change.path, contentRules)) {
+      restore.push(change.path);
+    }
+  }
+
+  if (restore.length === 0 && remove.length === 0) return [];
+
+  await unwrapGitResult(git.removeFiles(remove));
+  await unwrapGitResult(git.restoreFiles(`origin/${BASE_BRANCH}`, restore));
+  await unwrapGitResult(git.commit(`Reset content for ${shopId} to ${BASE_BRANCH}`));
+
+  return [...restore, ...remove].sort();
+};
@@ -1,21 +1,42 @@
-import { intro, note } from "@clack/prompts";
-import type { ShopConfig } from "../../types/shop.js";
+import { intro, note, select, isCancel } from "@clack/prompts";
+import type { AuthenticationMethod, Environment, ShopConfig, ShopifyStore, ShopTemplate } from "../../types/shop.js";
 import type { CLIContext, Result } from "./types.js";
 import { collectShopData, type ShopData } from "./shop-input.js";
 import { setupShopResources } from "./shop-setup.js";
 import { getDefaultContentProtection } from "./global-settings.js";
+import { CURRENT_CONFIG_VERSION } from "./config-migration.js";
+import { DEFAULT_ENVIRONMENTS } from "./environments.js";
+import { environmentBranchName, loadBranchNaming } from "./branch-naming.js";
+import { listShopTemplates, loadShopTemplate } from "./shop-templates.js";
+import { validateShopConfig, validateShopId } from "./validation.js";
 
 /**
  * Shop creation workflow
  */
 
+export interface CreateShopOptions {
+  readonly shopId: string;
+  /** Display name (default: the shop ID) */
+  readonly name?: string;
+  /** Name of a template in shops/templates */
+  readonly template?: string;
+  /** One domain per environment of the template (production and staging without one) */
+  readonly domains: Readonly<Record<Environment, string>>;
+  /** Overrides the template's method (default: theme-access-app) */
+  readonly authMethod?: AuthenticationMethod;
+}
+
 export const createNewShop = async (context: CLIContext): Promise<Result<void>> => {
   intro("🆕 Create New Shop");
 
-  const shopDataResult = await collectShopData(context);
+  const templateResult = await chooseTemplate(context);
+  if (!templateResult.success) return { success: false, error: templateResult.error || "Shop creation cancelled" };
+  const template = templateResult.data;
+
+  const shopDataResult = await collectShopData(context, template);
   if (!shopDataResult.success || !shopDataResult.data) return { success: false, error: shopDataResult.error || "Failed to collect shop data" };
 
-  const configResult = await buildShopConfig(shopDataResult.data, context.deps.cwd);
+  const configResult = await buildShopConfig(shopDataResult.data, context.deps.cwd, template);
   if (!configResult.success || !configResult.data) return { success: false, error: configResult.error || "Failed to build config" };
 
   const saveResult = await context.shopOps.saveConfig(shopDataResult.data.shopId, configResult.data);
@@ -28,35 +49,119 @@ export const createNewShop = async (context: CLIContext): Promise<Result<void>>
   return { success: true };
 };
 
-const buildShopConfig = async (shopData: ShopData, cwd: string): Promise<Result<ShopConfig>> => {
+/** Non-interactive creation for `multi-shop shop create`; branches and credentials are left to the caller */
+export const createShop = async (context: CLIContext, options: CreateShopOptions): Promise<Result<ShopConfig>> => {
+  const idCheck = validateShopId(options.shopId);
+  if (!idCheck.success) return { success: false, error: idCheck.error ?? "Invalid shop ID" };
+
+  const shopsResult = await context.shopOps.listShops();
+  if (shopsResult.data?.includes(options.shopId)) {
+    return { success: false, error: `Shop ${options.shopId} already exists` };
+  }
+
+  let template: ShopTemplate | undefined;
+  if (options.template) {
+    const templateResult = await loadShopTemplate(context.deps, options.template);
+    if (!templateResult.success || !templateResult.data) return { success: false, error: templateResult.error ?? "Failed to load template" };
+    template = templateResult.data;
+  }
+
+  const environments = template?.environments ?? DEFAULT_ENVIRONMENTS;
+  const missing = environments.filter(environment => !options.domains[environment]);
+  if (missing.length > 0) {
+    return { success: false, error: `Missing domain for ${missing.join(', ')} (--domain <environment>=<domain>)` };
+  }
+
+  const unknown = Object.keys(options.domains).filter(environment => !environments.includes(environment));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown environment${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}` };
+  }
+
+  const shopData: ShopData = {
+    shopId: options.shopId,
+    shopName: options.name ?? options.shopId,
+    domains: Object.fromEntries(environments.map(environment => [environment, options.domains[environment] ?? ''])),
+    authMethod: options.authMethod ?? template?.authMethod ?? 'theme-access-app'
+  };
+
+  const configResult = await buildShopConfig(shopData, context.deps.cwd, template);
+  if (!configResult.success || !configResult.data) return { success: false, error: configResult.error ?? "Failed to build config" };
+
+  const validation = await validateShopConfig(configResult.data, options.shopId);
+  if (!validation.success) return { success: false, error: validation.error ?? "Invalid shop config" };
+
+  const saveResult = await context.shopOps.saveConfig(options.shopId, configResult.data);
+  if (!saveResult.success) return { success: false, error: saveResult.error ?? "Failed to save config" };
+
+  return { success: true, data: configResult.data };
+};
+
+/** Offers the templates in shops/templates, if any; data is undefined for "No template" */
+const chooseTemplate = async (context: CLIContext): Promise<Result<ShopTemplate | undefined>> => {
+  const templatesResult = await listShopTemplates(context.deps);
+  const names = templatesResult.data ?? [];
+  if (names.length === 0) return { success: true, data: undefined };
+
+  const templates = new Map<string, ShopTemplate>();
+  const options: { value: string; label: string; hint?: string }[] = [
+    { value: "", label: "No template", hint: "Defaults from shops/settings.json" }
+  ];
+  for (const name of names) {
+    const templateResult = await loadShopTemplate(context.deps, name);
+    if (!templateResult.success || !templateResult.data) {
+      note(templateResult.error ?? `Template ${name} could not be loaded`, "⚠️ Template skipped");
+      continue;
+    }
+    templates.set(name, templateResult.data);
+    options.push(templateResult.data.description
+      ? { value: name, label: name, hint: templateResult.data.description }
+      : { value: name, label: name });
+  }
+
+  const choice = await select({ message: "Start from a template?", options });
+  if (isCancel(choice)) return { success: false, error: "Shop creation cancelled" };
+
+  return { success: true, data: templates.get(String(choice)) };
+};
+
+const buildShopConfig = async (shopData: ShopData, cwd: string, template?: ShopTemplate): Promise<Result<ShopConfig>> => {
   // Get default content protection settings from global config
   const defaultProtection = await getDefaultContentProtection(cwd);
 
+  // A template's branch pattern replaces the one from shops/settings.json
+  const namingResult = await loadBranchNaming(cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+  const naming = template?.branchPattern ? { ...namingResult.data, pattern: template.branchPattern } : namingResult.data;
+
+  const stores: Record<Environment, ShopifyStore> = {};
+  for (const [environment, domain] of Object.entries(shopData.domains)) {
+    stores[environment] = { domain, branch: environmentBranchName(naming, shopData.shopId, environment) };
+  }
+
+  const metadata = {
+    ...(template?.description ? { description: template.description } : {}),
+    ...(template?.tags?.length ? { tags: template.tags } : {})
+  };
+
   const config: ShopConfig = {
+    version: CURRENT_CONFIG_VERSION,
     shopId: shopData.shopId,
     name: shopData.shopName,
     shopify: {
-      stores: {
-        production: {
-          domain: shopData.productionDomain,
-          branch: `${shopData.shopId}/main`
-        },
-        staging: {
-          domain: shopData.stagingDomain,
-          branch: `${shopData.shopId}/staging`
-        }
-      },
+      stores,
       authentication: {
         method: shopData.authMethod
       }
     },
-    // Apply default content protection settings if configured
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    // Default content protection settings from global config, then the template's overrides
     contentProtection: {
       enabled: true,
       mode: defaultProtection.defaultMode,
-      verbosity: defaultProtection.defaultVerbosity
+      verbosity: defaultProtection.defaultVerbosity,
+      ...template?.contentProtection
     }
   };
 
   return { success: true, data: config };
-};
\ No newline at end of file
+};
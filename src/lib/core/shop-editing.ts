@@ -1,6 +1,8 @@
 import { select, isCancel, note, text } from "@clack/prompts";
 import type { CLIContext, Result } from "./types.js";
-import type { ShopCredentials } from "../../types/shop.js";
+import type { Environment, ShopCredentials, StoreCredentials } from "../../types/shop.js";
+import { listEnvironments, environmentLabel, PRODUCTION_ENVIRONMENT, type ShopEnvironment } from "./environments.js";
+import { pickShop } from "./shop-selection.js";
 
 /**
  * Shop editing operations
@@ -14,7 +16,7 @@ export const editShop = async (context: CLIContext): Promise<Result<void>> => {
   }
 
   const shops = shopsResult.data;
-  const selectedShop = await selectShopToEdit(shops);
+  const selectedShop = await pickShop(context, shops, "Select shop to edit:");
   if (!selectedShop) return { success: false, error: "No shop selected" };
 
   const editAction = await selectEditAction();
@@ -30,15 +32,6 @@ export const editShop = async (context: CLIContext): Promise<Result<void>> => {
   }
 };
 
-const selectShopToEdit = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop to edit:",
-    options: shops.map(shop => ({ value: shop, label: shop }))
-  });
-
-  return isCancel(shopChoice) ? null : shopChoice as string;
-};
-
 const selectEditAction = async (): Promise<string | null> => {
   const editChoice = await select({
     message: "What would you like to edit?",
@@ -96,23 +89,32 @@ const editCredentials = async (context: CLIContext, shopId: string): Promise<Res
   console.log(`3. Click the link to view your theme access password`);
   console.log(`4. Update the passwords below\n`);
 
+  const environments = listEnvironments(config);
+  const production = environments.find(environment => environment.name === PRODUCTION_ENVIRONMENT);
+  if (!production) return { success: false, error: "Production environment is not configured" };
+
   const productionToken = await getTokenInput(
-    `Production password (${config.shopify.stores.production.domain}):`,
-    existingCreds?.shopify.stores.production.themeToken
+    `Production password (${production.domain}):`,
+    existingCreds?.shopify.stores[PRODUCTION_ENVIRONMENT]?.themeToken
   );
   if (!productionToken) return { success: false, error: "Credential editing cancelled" };
 
-  const stagingToken = await getStagingTokenForEdit(config, existingCreds, productionToken);
+  const stores: Record<Environment, StoreCredentials> = { [PRODUCTION_ENVIRONMENT]: { themeToken: productionToken } };
+  const tokensByDomain = new Map([[production.domain, productionToken]]);
+
+  // Environments on a domain that already has a token reuse it without asking
+  for (const environment of environments.filter(candidate => candidate.name !== PRODUCTION_ENVIRONMENT)) {
+    const token = tokensByDomain.get(environment.domain)
+      ?? await getEnvironmentTokenForEdit(environment, existingCreds, productionToken);
+    tokensByDomain.set(environment.domain, token);
+    stores[environment.name] = { themeToken: token };
+  }
 
   const updatedCredentials: ShopCredentials = {
     developer: existingCreds?.developer || process.env['USER'] || process.env['USERNAME'] || 'developer',
-    shopify: {
-      stores: {
-        production: { themeToken: productionToken },
-        staging: { themeToken: stagingToken }
-      }
-    },
-    notes: existingCreds?.notes || `Theme access app credentials for ${shopId}`
+    shopify: { stores },
+    notes: existingCreds?.notes || `Theme access app credentials for ${shopId}`,
+    ...(existingCreds?._metadata ? { _metadata: existingCreds._metadata } : {})
   };
 
   const saveResult = await context.credOps.saveCredentials(shopId, updatedCredentials);
@@ -139,14 +141,10 @@ const getTokenInput = async (message: string, existingToken?: string): Promise<s
   return isCancel(token) ? null : token as string;
 };
 
-const getStagingTokenForEdit = async (config: { shopify: { stores: { staging: { domain: string }; production: { domain: string } } } }, existingCreds: ShopCredentials | null | undefined, productionToken: string): Promise<string> => {
-  if (config.shopify.stores.staging.domain === config.shopify.stores.production.domain) {
-    return productionToken;
-  }
-
-  const stagingInput = await text({
-    message: `Staging password (${config.shopify.stores.staging.domain}):`,
-    placeholder: existingCreds?.shopify.stores.staging.themeToken || "Enter staging password (or press Enter to use production)",
+const getEnvironmentTokenForEdit = async (environment: ShopEnvironment, existingCreds: ShopCredentials | null | undefined, productionToken: string): Promise<string> => {
+  const input = await text({
+    message: `${environmentLabel(environment.name)} password (${environment.domain}):`,
+    placeholder: existingCreds?.shopify.stores[environment.name]?.themeToken || `Enter ${environment.name} password (or press Enter to use production)`,
     validate: (value) => {
       if (!value) return undefined;
       if (value.length < 8) return "Password seems too short";
@@ -154,5 +152,5 @@ const getStagingTokenForEdit = async (config: { shopify: { stores: { staging: {
     }
   });
 
-  return (!isCancel(stagingInput) && stagingInput) ? stagingInput as string : productionToken;
+  return (!isCancel(input) && input) ? input as string : productionToken;
 };
\ No newline at end of file
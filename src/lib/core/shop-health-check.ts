@@ -1,9 +1,10 @@
 import { select, isCancel, note } from "@clack/prompts";
-import { execSync } from "child_process";
 import type { CLIContext, Result } from "./types.js";
-import { validateShopConfig, validateDomain } from "./validation.js";
-import fs from "fs";
-import path from "path";
+import { validateShopConfig } from "./validation.js";
+import { listEnvironments, environmentLabel } from "./environments.js";
+import { loadShopCatalog, pickShop, pickShops } from "./shop-selection.js";
+import { checkBranches, checkContentProtection, checkCredentials, type CheckStatus } from "./shop-status.js";
+import { verifyThemeToken, type TokenVerification, type TokenVerificationOptions } from "./theme-token-verification.js";
 
 /**
  * Shop health check - Diagnostic tool for verifying shop configuration
@@ -16,24 +17,25 @@ interface HealthCheckResult {
     readonly credentials: CheckStatus;
     readonly branches: CheckStatus;
     readonly contentProtection: CheckStatus;
+    /** Only present when tokens were verified online */
+    readonly tokens?: CheckStatus;
   };
   readonly warnings: string[];
   readonly errors: string[];
   readonly recommendations: string[];
 }
 
-interface CheckStatus {
-  readonly status: 'pass' | 'warn' | 'fail' | 'info';
-  readonly message: string;
-  readonly details?: string[];
-}
-
-export const handleHealthCheck = async (context: CLIContext): Promise<Result<void>> => {
+export const handleHealthCheck = async (
+  context: CLIContext,
+  verification: TokenVerificationOptions = {}
+): Promise<Result<void>> => {
   const healthChoice = await select({
     message: "Health Check:",
     options: [
       { value: "single", label: "Check Single Shop", hint: "Detailed check for one shop" },
-      { value: "all", label: "Check All Shops", hint: "Quick check for all shops" }
+      { value: "all", label: "Check All Shops", hint: "Quick check for all shops" },
+      { value: "group", label: "Check Shops by Tag or Group", hint: "Quick check for the shops you pick" },
+      { value: "verify", label: "Verify Tokens Online", hint: "Single shop check plus Shopify Admin API calls" }
     ]
   });
 
@@ -41,12 +43,19 @@ export const handleHealthCheck = async (context: CLIContext): Promise<Result<voi
 
   if (healthChoice === "single") {
     return checkSingleShop(context);
+  } else if (healthChoice === "verify") {
+    return checkSingleShop(context, verification);
+  } else if (healthChoice === "group") {
+    return checkSelectedShops(context);
   } else {
     return checkAllShops(context);
   }
 };
 
-const checkSingleShop = async (context: CLIContext): Promise<Result<void>> => {
+const checkSingleShop = async (
+  context: CLIContext,
+  verification?: TokenVerificationOptions
+): Promise<Result<void>> => {
   const shopsResult = await context.shopOps.listShops();
 
   if (!shopsResult.success || !shopsResult.data?.length) {
@@ -54,10 +63,10 @@ const checkSingleShop = async (context: CLIContext): Promise<Result<void>> => {
     return { success: false, error: "No shops configured" };
   }
 
-  const shopId = await selectShop(shopsResult.data);
+  const shopId = await pickShop(context, shopsResult.data, "Select shop to check:");
   if (!shopId) return { success: false, error: "No shop selected" };
 
-  const healthResult = await performHealthCheck(context, shopId);
+  const healthResult = await performHealthCheck(context, shopId, verification);
   displayDetailedHealth(healthResult);
 
   return { success: true };
@@ -71,9 +80,27 @@ const checkAllShops = async (context: CLIContext): Promise<Result<void>> => {
     return { success: false, error: "No shops configured" };
   }
 
-  note(`Checking health for ${shopsResult.data.length} shops...`, "🏥 Health Check");
+  return checkShops(context, shopsResult.data);
+};
+
+const checkSelectedShops = async (context: CLIContext): Promise<Result<void>> => {
+  const catalogResult = await loadShopCatalog(context);
+
+  if (!catalogResult.success || !catalogResult.data?.shops.length) {
+    note("No shops configured yet", "⚠️ Error");
+    return { success: false, error: "No shops configured" };
+  }
+
+  const shops = await pickShops(context, catalogResult.data, "Select shops to check:");
+  if (!shops) return { success: false, error: "No shops selected" };
+
+  return checkShops(context, shops);
+};
+
+const checkShops = async (context: CLIContext, shops: string[]): Promise<Result<void>> => {
+  note(`Checking health for ${shops.length} shops...`, "🏥 Health Check");
 
-  for (const shopId of shopsResult.data) {
+  for (const shopId of shops) {
     const healthResult = await performHealthCheck(context, shopId);
     displayCompactHealth(healthResult);
   }
@@ -81,30 +108,40 @@ const checkAllShops = async (context: CLIContext): Promise<Result<void>> => {
   return { success: true };
 };
 
-const performHealthCheck = async (context: CLIContext, shopId: string): Promise<HealthCheckResult> => {
+const performHealthCheck = async (
+  context: CLIContext,
+  shopId: string,
+  verification?: TokenVerificationOptions
+): Promise<HealthCheckResult> => {
   const warnings: string[] = [];
   const errors: string[] = [];
   const recommendations: string[] = [];
 
   // Check 1: Configuration
-  const configCheck = await checkConfiguration(context, shopId, errors, warnings);
+  const configCheck = await checkConfiguration(context, shopId, errors);
 
   // Check 2: Credentials
   const credentialsCheck = await checkCredentials(context, shopId, errors, warnings, recommendations);
 
   // Check 3: Git Branches
-  const branchesCheck = await checkBranches(shopId, errors, warnings, recommendations);
+  const branchesCheck = await checkBranches(context, shopId, errors, warnings, recommendations);
 
   // Check 4: Content Protection
   const protectionCheck = await checkContentProtection(context, shopId);
 
+  // Check 5: Tokens against the Admin API (opt-in, needs network)
+  const tokensCheck = verification
+    ? await checkTokensOnline(context, shopId, verification, errors, warnings, recommendations)
+    : undefined;
+
   return {
     shopId,
     checks: {
       config: configCheck,
       credentials: credentialsCheck,
       branches: branchesCheck,
-      contentProtection: protectionCheck
+      contentProtection: protectionCheck,
+      ...(tokensCheck ? { tokens: tokensCheck } : {})
     },
     warnings,
     errors,
@@ -115,8 +152,7 @@ const performHealthCheck = async (context: CLIContext, shopId: string): Promise<
 const checkConfiguration = async (
   context: CLIContext,
   shopId: string,
-  errors: string[],
-  warnings: string[]
+  errors: string[]
 ): Promise<CheckStatus> => {
   try {
     const configResult = await context.shopOps.loadConfig(shopId);
@@ -135,21 +171,12 @@ const checkConfiguration = async (
       return { status: 'fail', message: `Validation failed: ${validationResult.error}` };
     }
 
-    // Check domains
-    const prodDomainValid = validateDomain(config.shopify.stores.production.domain);
-    const stagingDomainValid = validateDomain(config.shopify.stores.staging.domain);
-
-    if (!prodDomainValid.success || !stagingDomainValid.success) {
-      warnings.push("Invalid domain format");
-      return { status: 'warn', message: 'Domain format issues detected' };
-    }
-
+    // Validation covers every environment's name and domain
     return {
       status: 'pass',
       message: 'Configuration valid',
       details: [
-        `Production: ${config.shopify.stores.production.domain}`,
-        `Staging: ${config.shopify.stores.staging.domain}`,
+        ...listEnvironments(config).map(environment => `${environmentLabel(environment.name)}: ${environment.domain}`),
         `Auth: ${config.shopify.authentication.method}`
       ]
     };
@@ -159,171 +186,63 @@ const checkConfiguration = async (
   }
 };
 
-const checkCredentials = async (
+const checkTokensOnline = async (
   context: CLIContext,
   shopId: string,
+  verification: TokenVerificationOptions,
   errors: string[],
   warnings: string[],
   recommendations: string[]
 ): Promise<CheckStatus> => {
-  try {
-    const credResult = await context.credOps.loadCredentials(shopId);
-
-    if (!credResult.success || !credResult.data) {
-      errors.push("No credentials configured");
-      recommendations.push(`Create credentials: shops/credentials/${shopId}.credentials.json`);
-      return { status: 'fail', message: 'Credentials missing' };
-    }
-
-    const creds = credResult.data;
-    const hasProd = Boolean(creds.shopify?.stores?.production?.themeToken);
-    const hasStaging = Boolean(creds.shopify?.stores?.staging?.themeToken);
-
-    if (!hasProd || !hasStaging) {
-      warnings.push("Missing tokens");
-      if (!hasProd) recommendations.push("Add production token");
-      if (!hasStaging) recommendations.push("Add staging token");
-      return { status: 'warn', message: 'Some tokens missing' };
-    }
+  const configResult = await context.shopOps.loadConfig(shopId);
+  const credResult = await context.credOps.resolveCredentials(shopId);
+  const credentials = credResult.data?.credentials;
 
-    // Check file permissions (Unix/macOS only)
-    if (process.platform !== 'win32') {
-      const credPath = path.join(context.deps.credentialsDir, `${shopId}.credentials.json`);
-      if (fs.existsSync(credPath)) {
-        const stats = fs.statSync(credPath);
-        const mode = (stats.mode & parseInt('777', 8)).toString(8);
-
-        if (mode !== '600') {
-          warnings.push(`Insecure permissions: ${mode}`);
-          recommendations.push(`Run: chmod 600 shops/credentials/${shopId}.credentials.json`);
-          return {
-            status: 'warn',
-            message: `Permissions too open (${mode})`,
-            details: ['Production token present', 'Staging token present']
-          };
-        }
-      }
-    }
-
-    return {
-      status: 'pass',
-      message: 'Credentials configured',
-      details: [
-        '✅ Production token present',
-        '✅ Staging token present',
-        process.platform !== 'win32' ? '✅ File permissions: 600' : 'ℹ️  Windows (permissions N/A)'
-      ]
-    };
-  } catch (error) {
-    errors.push(`Credentials check failed: ${error instanceof Error ? error.message : String(error)}`);
-    return { status: 'fail', message: 'Credentials check failed' };
+  if (!configResult.data || !credentials) {
+    return { status: 'info', message: 'Skipped (config or credentials unavailable)' };
   }
-};
-
-const checkBranches = async (
-  shopId: string,
-  errors: string[],
-  warnings: string[],
-  recommendations: string[]
-): Promise<CheckStatus> => {
-  try {
-    const mainBranch = `${shopId}/main`;
-    const stagingBranch = `${shopId}/staging`;
-
-    const mainExists = checkBranchExists(mainBranch);
-    const stagingExists = checkBranchExists(stagingBranch);
-
-    if (!mainExists || !stagingExists) {
-      if (!mainExists) {
-        errors.push(`Branch ${mainBranch} not found`);
-        recommendations.push(`Create and push: git checkout -b ${mainBranch} && git push -u origin ${mainBranch}`);
-      }
-      if (!stagingExists) {
-        errors.push(`Branch ${stagingBranch} not found`);
-        recommendations.push(`Create and push: git checkout -b ${stagingBranch} && git push -u origin ${stagingBranch}`);
-      }
-      return { status: 'fail', message: 'Required branches missing' };
-    }
 
-    // Check if branches are in sync
-    try {
-      const behind = execSync(`git rev-list --count ${stagingBranch}..${mainBranch} 2>/dev/null || echo "0"`, {
-        encoding: 'utf8'
-      }).trim();
-
-      if (parseInt(behind) > 0) {
-        warnings.push(`${stagingBranch} is ${behind} commits behind ${mainBranch}`);
-        recommendations.push(`Consider syncing: Create PR from ${mainBranch} to ${stagingBranch}`);
-        return {
-          status: 'warn',
-          message: `Branches out of sync (${behind} commits behind)`,
-          details: [`${mainBranch} exists`, `${stagingBranch} exists`]
-        };
-      }
-    } catch {
-      // Can't check sync status (branches might not have common ancestor)
-    }
-
-    return {
-      status: 'pass',
-      message: 'Git branches configured',
-      details: [`${mainBranch} exists`, `${stagingBranch} exists`]
-    };
-  } catch (error) {
-    errors.push(`Branch check failed: ${error instanceof Error ? error.message : String(error)}`);
-    return { status: 'fail', message: 'Branch check failed' };
+  const results: TokenVerification[] = [];
+  for (const environment of listEnvironments(configResult.data)) {
+    const token = credentials.shopify.stores[environment.name]?.themeToken;
+    if (!token) continue;
+    results.push(await verifyThemeToken(environment.name, environment.domain, token, verification));
   }
-};
 
-const checkContentProtection = async (context: CLIContext, shopId: string): Promise<CheckStatus> => {
-  try {
-    const configResult = await context.shopOps.loadConfig(shopId);
+  if (results.length === 0) {
+    return { status: 'info', message: 'Skipped (no tokens to verify)' };
+  }
 
-    if (!configResult.success || !configResult.data) {
-      return { status: 'info', message: 'Cannot check (config unavailable)' };
+  for (const result of results) {
+    if (result.status === 'expired') {
+      errors.push(`${result.environment} token rejected by ${result.domain}`);
+      recommendations.push(`Generate a new ${result.environment} token in the Theme Access app for ${result.domain}`);
+    } else if (result.status === 'insufficient-scope') {
+      errors.push(`${result.environment} token lacks theme access on ${result.domain}`);
+      recommendations.push(`Reissue the ${result.environment} token with the read_themes and write_themes scopes`);
+    } else if (result.status === 'error') {
+      warnings.push(`Could not verify ${result.environment} token: ${result.message}`);
     }
+  }
 
-    const protection = configResult.data.contentProtection;
-
-    if (!protection || !protection.enabled) {
-      return {
-        status: 'info',
-        message: 'Disabled',
-        details: ['💡 Enable in: Tools → Content Protection']
-      };
-    }
+  const details = results.map(result =>
+    `${TOKEN_STATUS_ICONS[result.status]} ${result.environment} (${result.domain}): ${result.message}`
+  );
 
-    return {
-      status: 'pass',
-      message: `Enabled (${protection.mode} mode, ${protection.verbosity})`,
-      details: [
-        `Mode: ${protection.mode}`,
-        `Verbosity: ${protection.verbosity}`,
-        '🛡️ Shop content protected from cross-shop overwrites'
-      ]
-    };
-  } catch {
-    return { status: 'info', message: 'Cannot check (error)' };
+  if (results.some(result => result.status === 'expired' || result.status === 'insufficient-scope')) {
+    return { status: 'fail', message: 'Token rejected by Shopify', details };
   }
-};
-
-// Helper functions
-const checkBranchExists = (branchName: string): boolean => {
-  try {
-    execSync(`git rev-parse --verify origin/${branchName}`, { stdio: 'ignore' });
-    return true;
-  } catch {
-    return false;
+  if (results.some(result => result.status === 'error')) {
+    return { status: 'warn', message: 'Some tokens could not be verified', details };
   }
+  return { status: 'pass', message: 'Tokens accepted by Shopify', details };
 };
 
-const selectShop = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop to check:",
-    options: shops.map(shop => ({ value: shop, label: shop }))
-  });
-
-  return isCancel(shopChoice) ? null : String(shopChoice);
+const TOKEN_STATUS_ICONS: Record<TokenVerification['status'], string> = {
+  'valid': '✅',
+  'expired': '❌',
+  'insufficient-scope': '🔒',
+  'error': '⚠️'
 };
 
 const displayDetailedHealth = (result: HealthCheckResult): void => {
@@ -342,6 +261,11 @@ const displayDetailedHealth = (result: HealthCheckResult): void => {
   console.log('\n🛡️ Content Protection:');
   displayCheck(result.checks.contentProtection);
 
+  if (result.checks.tokens) {
+    console.log('\n🌐 Shopify Admin API:');
+    displayCheck(result.checks.tokens);
+  }
+
   // Overall status
   const hasErrors = result.errors.length > 0;
   const hasWarnings = result.warnings.length > 0;
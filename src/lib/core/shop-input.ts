@@ -1,7 +1,8 @@
 import { text, select, isCancel } from "@clack/prompts";
-import type { AuthenticationMethod } from "../../types/shop.js";
+import type { AuthenticationMethod, Environment, ShopTemplate } from "../../types/shop.js";
 import type { CLIContext, Result } from "./types.js";
 import { validateShopId, validateDomain } from "./validation.js";
+import { DEFAULT_ENVIRONMENTS, environmentLabel, PRODUCTION_ENVIRONMENT } from "./environments.js";
 
 /**
  * Shop data input collection
@@ -10,12 +11,13 @@ import { validateShopId, validateDomain } from "./validation.js";
 export interface ShopData {
   readonly shopId: string;
   readonly shopName: string;
-  readonly productionDomain: string;
-  readonly stagingDomain: string;
+  /** Domain per environment, in the order they were asked for */
+  readonly domains: Readonly<Record<Environment, string>>;
   readonly authMethod: AuthenticationMethod;
 }
 
-export const collectShopData = async (context: CLIContext): Promise<Result<ShopData>> => {
+/** Asks for a domain per template environment (production and staging without one); a template auth method skips that prompt */
+export const collectShopData = async (context: CLIContext, template?: ShopTemplate): Promise<Result<ShopData>> => {
   const existingShops = await getExistingShops(context);
 
   const shopId = await getShopId(existingShops);
@@ -24,18 +26,19 @@ export const collectShopData = async (context: CLIContext): Promise<Result<ShopD
   const shopName = await getShopName();
   if (!shopName) return { success: false, error: "Shop creation cancelled" };
 
-  const productionDomain = await getDomain("Production domain:", "my-shop.myshopify.com");
-  if (!productionDomain) return { success: false, error: "Shop creation cancelled" };
+  const domains: Record<Environment, string> = {};
+  for (const environment of template?.environments ?? DEFAULT_ENVIRONMENTS) {
+    const domain = await getDomain(`${environmentLabel(environment)} domain:`, domainPlaceholder(environment));
+    if (!domain) return { success: false, error: "Shop creation cancelled" };
+    domains[environment] = domain;
+  }
 
-  const stagingDomain = await getDomain("Staging domain:", "staging-my-shop.myshopify.com (can be same as production)");
-  if (!stagingDomain) return { success: false, error: "Shop creation cancelled" };
-
-  const authMethod = await getAuthMethod();
+  const authMethod = template?.authMethod ?? await getAuthMethod();
   if (!authMethod) return { success: false, error: "Shop creation cancelled" };
 
   return {
     success: true,
-    data: { shopId, shopName, productionDomain, stagingDomain, authMethod }
+    data: { shopId, shopName, domains, authMethod }
   };
 };
 
@@ -88,6 +91,11 @@ const getDomain = async (message: string, placeholder: string): Promise<string |
   return isCancel(domain) ? null : domain as string;
 };
 
+const domainPlaceholder = (environment: Environment): string =>
+  environment === PRODUCTION_ENVIRONMENT
+    ? "my-shop.myshopify.com"
+    : `${environment}-my-shop.myshopify.com (can be same as production)`;
+
 const getAuthMethod = async (): Promise<AuthenticationMethod | null> => {
   const authMethod = await select({
     message: "Authentication method:",
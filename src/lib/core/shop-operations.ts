@@ -3,6 +3,7 @@ import path from "path";
 import type { ShopConfig } from "../../types/shop.js";
 import type { Dependencies, Result, ShopOperations } from "./types.js";
 import { validateShopConfig } from "./validation.js";
+import { migrateShopConfig } from "./config-migration.js";
 
 /**
  * Shop configuration operations
@@ -24,8 +25,9 @@ const loadShopConfig = async (deps: Dependencies, shopId: string): Promise<Resul
     }
 
     const rawConfig = fs.readFileSync(configPath, "utf8");
-    const config = JSON.parse(rawConfig);
-    
+    // Older files are upgraded in memory; `multi-shop config migrate` rewrites them
+    const { config } = migrateShopConfig(JSON.parse(rawConfig), shopId);
+
     const validationResult = await validateShopConfig(config, shopId);
     if (!validationResult.success) {
       return { success: false, error: validationResult.error || "Validation failed" };
@@ -86,15 +88,13 @@ const listShops = async (deps: Dependencies): Promise<Result<string[]>> => {
 const deleteShop = async (deps: Dependencies, shopId: string): Promise<Result<void>> => {
   try {
     const configPath = path.join(deps.shopsDir, `${shopId}.config.json`);
-    const credPath = path.join(deps.credentialsDir, `${shopId}.credentials.json`);
+    const credPaths = ['.credentials.json', '.credentials.enc'].map(suffix => path.join(deps.credentialsDir, `${shopId}${suffix}`));
     
     if (fs.existsSync(configPath)) {
       fs.unlinkSync(configPath);
     }
     
-    if (fs.existsSync(credPath)) {
-      fs.unlinkSync(credPath);
-    }
+    credPaths.filter(credPath => fs.existsSync(credPath)).forEach(credPath => fs.unlinkSync(credPath));
 
     return { success: true };
   } catch (error) {
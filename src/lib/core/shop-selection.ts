@@ -0,0 +1,220 @@
+import { groupMultiselect, multiselect, select, text, note, isCancel } from "@clack/prompts";
+import type { CLIContext, Result } from "./types.js";
+import { loadGlobalSettings } from "./global-settings.js";
+import { getShopStatusHint } from "./shop-status.js";
+
+/**
+ * Shop targeting by ID, tag and named group, and the shared shop pickers
+ * Selectors: `shop-a`, `tag:region:eu` (metadata.tags in the shop config),
+ * `group:emea` (shopGroups in shops/settings.json, whose members may be IDs or tag selectors)
+ */
+
+export const TAG_SELECTOR_PREFIX = 'tag:';
+export const GROUP_SELECTOR_PREFIX = 'group:';
+
+/** Pickers ask for a filter first when there are more shops than this */
+export const SHOP_FILTER_THRESHOLD = 10;
+
+export interface ShopCatalog {
+  /** Configured shop IDs, in listShops order */
+  readonly shops: string[];
+  readonly tags: ReadonlyMap<string, readonly string[]>;
+  readonly groups: Readonly<Record<string, readonly string[]>>;
+}
+
+/** Splits a comma-separated --shops value */
+export const parseShopSelectors = (value: unknown): string[] =>
+  value ? String(value).split(',').map(selector => selector.trim()).filter(Boolean) : [];
+
+/** With `includeTags` false no shop configs are read (enough for plain shop IDs) */
+export const loadShopCatalog = async (context: CLIContext, includeTags = true): Promise<Result<ShopCatalog>> => {
+  const shopsResult = await context.shopOps.listShops();
+  if (!shopsResult.success) return { success: false, error: shopsResult.error ?? "Failed to list shops" };
+
+  const shops = shopsResult.data ?? [];
+  const tags = new Map<string, readonly string[]>();
+  for (const shop of includeTags ? shops : []) {
+    const configResult = await context.shopOps.loadConfig(shop);
+    tags.set(shop, configResult.data?.metadata?.tags ?? []);
+  }
+
+  const settingsResult = await loadGlobalSettings(context.deps.cwd);
+  return { success: true, data: { shops, tags, groups: settingsResult.data?.shopGroups ?? {} } };
+};
+
+/** True when tags or groups exist, so a grouped picker has something to offer */
+export const hasShopTargeting = (catalog: ShopCatalog): boolean =>
+  Object.keys(catalog.groups).length > 0 || [...catalog.tags.values()].some(tags => tags.length > 0);
+
+/**
+ * Expands selectors to shop IDs in configured order, each once
+ * Unknown IDs and groups are errors, as is a tag or group that matches no shop
+ */
+export const resolveShopSelectors = (catalog: ShopCatalog, selectors: readonly string[]): Result<string[]> => {
+  const selected = new Set<string>();
+  const unknown: string[] = [];
+
+  const expand = (selector: string, inGroup?: string): string | undefined => {
+    if (selector.startsWith(GROUP_SELECTOR_PREFIX)) {
+      const name = selector.slice(GROUP_SELECTOR_PREFIX.length);
+      const members = catalog.groups[name];
+      if (!members) return `Unknown shop group: ${name}`;
+      if (inGroup) return `Shop group ${inGroup} cannot include another group (${selector})`;
+
+      for (const member of members) {
+        const error = expand(member, name);
+        if (error) return error;
+      }
+      return undefined;
+    }
+
+    if (selector.startsWith(TAG_SELECTOR_PREFIX)) {
+      const tag = selector.slice(TAG_SELECTOR_PREFIX.length);
+      const tagged = catalog.shops.filter(shop => catalog.tags.get(shop)?.includes(tag));
+      if (tagged.length === 0) return `No shops tagged ${tag}`;
+      tagged.forEach(shop => selected.add(shop));
+      return undefined;
+    }
+
+    if (catalog.shops.includes(selector)) {
+      selected.add(selector);
+    } else {
+      unknown.push(selector);
+    }
+    return undefined;
+  };
+
+  for (const selector of selectors) {
+    const error = expand(selector);
+    if (error) return { success: false, error };
+  }
+
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown shop${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}` };
+  }
+
+  return { success: true, data: catalog.shops.filter(shop => selected.has(shop)) };
+};
+
+const usesTargeting = (selectors: readonly string[] = []): boolean =>
+  selectors.some(selector => selector.startsWith(TAG_SELECTOR_PREFIX) || selector.startsWith(GROUP_SELECTOR_PREFIX));
+
+/** Every configured shop when nothing is requested, otherwise the expanded selectors */
+export const resolveRequestedShops = async (context: CLIContext, requested?: readonly string[]): Promise<Result<string[]>> => {
+  const catalogResult = await loadShopCatalog(context, usesTargeting(requested));
+  if (!catalogResult.success || !catalogResult.data) {
+    return { success: false, error: catalogResult.error ?? "Failed to list shops" };
+  }
+
+  const catalog = catalogResult.data;
+  if (catalog.shops.length === 0) return { success: false, error: "No shops configured" };
+  if (!requested?.length) return { success: true, data: catalog.shops };
+
+  return resolveShopSelectors(catalog, requested);
+};
+
+/**
+ * Multiselect with one section per named group and per tag (plus untagged shops)
+ * Selecting a section header selects every shop in it; returns null when cancelled
+ */
+export const selectShopsByTag = async (
+  catalog: ShopCatalog,
+  message: string,
+  hints: ReadonlyMap<string, string> = new Map()
+): Promise<string[] | null> => {
+  const sections: Record<string, ShopOption[]> = {};
+  const option = (shop: string): ShopOption => shopOption(shop, hints);
+
+  for (const name of Object.keys(catalog.groups)) {
+    const members = resolveShopSelectors(catalog, [`${GROUP_SELECTOR_PREFIX}${name}`]);
+    if (members.data?.length) sections[`Group: ${name}`] = members.data.map(option);
+  }
+
+  const allTags = [...new Set([...catalog.tags.values()].flat())].sort();
+  for (const tag of allTags) {
+    sections[`Tag: ${tag}`] = catalog.shops.filter(shop => catalog.tags.get(shop)?.includes(tag)).map(option);
+  }
+
+  const untagged = catalog.shops.filter(shop => !catalog.tags.get(shop)?.length);
+  if (untagged.length > 0) sections['Untagged'] = untagged.map(option);
+
+  const choice = await groupMultiselect({ message, options: sections, required: true });
+  if (isCancel(choice)) return null;
+
+  const chosen = new Set(choice);
+  return catalog.shops.filter(shop => chosen.has(shop));
+};
+
+/** Single shop, with status hints (credentials, branches, protection) on each option; null when cancelled */
+export const pickShop = async (context: CLIContext, shops: string[], message: string): Promise<string | null> => {
+  const candidates = await filterShops(shops);
+  if (!candidates) return null;
+
+  const hints = await loadShopHints(context, candidates);
+  const choice = await select({ message, options: candidates.map(shop => shopOption(shop, hints)) });
+
+  return isCancel(choice) ? null : String(choice);
+};
+
+/**
+ * Several shops, with status hints; grouped by tag and group once the catalog has any
+ * Returns null when cancelled
+ */
+export const pickShops = async (context: CLIContext, catalog: ShopCatalog, message: string): Promise<string[] | null> => {
+  const candidates = await filterShops(catalog.shops, catalog.tags);
+  if (!candidates) return null;
+
+  const hints = await loadShopHints(context, candidates);
+  if (hasShopTargeting(catalog)) {
+    return selectShopsByTag({ ...catalog, shops: candidates }, message, hints);
+  }
+
+  const choice = await multiselect({ message, options: candidates.map(shop => shopOption(shop, hints)), required: true });
+  if (isCancel(choice)) return null;
+
+  const chosen = new Set(choice);
+  return candidates.filter(shop => chosen.has(shop));
+};
+
+interface ShopOption {
+  value: string;
+  label: string;
+  hint?: string;
+}
+
+const shopOption = (shop: string, hints: ReadonlyMap<string, string>): ShopOption => {
+  const hint = hints.get(shop);
+  return hint ? { value: shop, label: shop, hint } : { value: shop, label: shop };
+};
+
+const loadShopHints = async (context: CLIContext, shops: string[]): Promise<Map<string, string>> => {
+  const hints = new Map<string, string>();
+  for (const shop of shops) {
+    hints.set(shop, await getShopStatusHint(context, shop));
+  }
+  return hints;
+};
+
+/** Narrows large fleets by a case-insensitive match on shop ID or tag; asks again when nothing matches */
+const filterShops = async (
+  shops: string[],
+  tags: ReadonlyMap<string, readonly string[]> = new Map()
+): Promise<string[] | null> => {
+  if (shops.length <= SHOP_FILTER_THRESHOLD) return shops;
+
+  for (;;) {
+    const query = await text({
+      message: `Filter ${shops.length} shops (ID or tag, empty for all):`,
+      placeholder: "eu, shop-a"
+    });
+    if (isCancel(query)) return null;
+
+    const term = String(query ?? '').trim().toLowerCase();
+    const matches = shops.filter(shop =>
+      shop.toLowerCase().includes(term) || tags.get(shop)?.some(tag => tag.toLowerCase().includes(term))
+    );
+    if (matches.length > 0) return matches;
+
+    note(`No shops match "${term}"`, "🔍 Filter");
+  }
+};
@@ -1,8 +1,8 @@
 import { note, text, select, isCancel, spinner } from "@clack/prompts";
-import { execSync } from "child_process";
-import type { ShopConfig, ShopCredentials } from "../../types/shop.js";
-import type { CLIContext } from "./types.js";
+import type { Environment, ShopConfig, ShopCredentials, StoreCredentials } from "../../types/shop.js";
+import type { CLIContext, GitOperations } from "./types.js";
 import type { ShopData } from "./shop-input.js";
+import { listEnvironments, environmentLabel, PRODUCTION_ENVIRONMENT, type ShopEnvironment } from "./environments.js";
 
 /**
  * Shop setup operations (branches and credentials)
@@ -10,18 +10,19 @@ import type { ShopData } from "./shop-input.js";
 
 export const setupShopResources = async (shopData: ShopData, config: ShopConfig, context: CLIContext): Promise<void> => {
   await Promise.all([
-    handleBranchCreation(shopData.shopId, config),
+    handleBranchCreation(context.gitOps, shopData.shopId, config),
     handleCredentialSetup(context, shopData, config)
   ]);
 };
 
-const handleBranchCreation = async (shopId: string, _config: ShopConfig): Promise<void> => {
+const handleBranchCreation = async (git: GitOperations, shopId: string, config: ShopConfig): Promise<void> => {
   const shouldCreate = await askToCreateBranches();
-  
+  const branches = [...new Set(listEnvironments(config).map(environment => environment.branch))];
+
   if (shouldCreate) {
-    await createGitHubBranches(shopId);
+    await createGitHubBranches(git, branches);
   } else {
-    showManualBranchInstructions(shopId);
+    showManualBranchInstructions(branches);
   }
 };
 
@@ -37,24 +38,24 @@ const askToCreateBranches = async (): Promise<boolean> => {
   return !isCancel(createBranches) && createBranches === "yes";
 };
 
-const createGitHubBranches = async (shopId: string): Promise<void> => {
+const createGitHubBranches = async (git: GitOperations, branches: readonly string[]): Promise<void> => {
   const s = spinner();
   s.start("Creating GitHub branches...");
 
   try {
-    execSync('git rev-parse --git-dir', { stdio: 'ignore' });
-    const currentBranch = execSync('git rev-parse --abbrev-ref HEAD', { encoding: 'utf8' }).trim();
-    
-    const branches = [`${shopId}/main`, `${shopId}/staging`];
-    
+    // Fails outside a git repository (or before the first commit)
+    const currentBranch = await git.getCurrentBranch();
+    if (!currentBranch.success || !currentBranch.data) {
+      throw new Error(currentBranch.error ?? "Not on a branch");
+    }
+
     for (const branch of branches) {
-      try {
-        execSync(`git checkout -b ${branch}`, { stdio: 'ignore' });
-        execSync(`git push -u origin ${branch}`, { stdio: 'ignore' });
-        execSync(`git checkout ${currentBranch}`, { stdio: 'ignore' });
-      } catch {
-        // Branch might already exist
-      }
+      // Branch might already exist: skip the push and stay where we are
+      const created = await git.createBranch(branch);
+      if (!created.success) continue;
+
+      await git.pushBranch(branch, { setUpstream: true });
+      await git.checkout(currentBranch.data);
     }
 
     s.stop("✅ GitHub branches created");
@@ -62,14 +63,13 @@ const createGitHubBranches = async (shopId: string): Promise<void> => {
     
   } catch {
     s.stop("❌ Failed to create branches");
-    showManualBranchInstructions(shopId);
+    showManualBranchInstructions(branches);
   }
 };
 
-const showManualBranchInstructions = (shopId: string): void => {
+const showManualBranchInstructions = (branches: readonly string[]): void => {
   note("Create branches manually:", "📝 Instructions");
-  console.log(`git checkout -b ${shopId}/main && git push -u origin ${shopId}/main`);
-  console.log(`git checkout -b ${shopId}/staging && git push -u origin ${shopId}/staging`);
+  branches.forEach(branch => console.log(`git checkout -b ${branch} && git push -u origin ${branch}`));
 };
 
 const handleCredentialSetup = async (context: CLIContext, shopData: ShopData, config: ShopConfig): Promise<void> => {
@@ -100,26 +100,33 @@ const showThemeAccessInstructions = (): void => {
 };
 
 const gatherCredentials = async (shopData: ShopData, config: ShopConfig): Promise<ShopCredentials | null> => {
-  const productionToken = await getProductionToken(config);
+  const environments = listEnvironments(config);
+  const production = environments.find(environment => environment.name === PRODUCTION_ENVIRONMENT);
+  if (!production) return null;
+
+  const productionToken = await getProductionToken(production.domain);
   if (!productionToken) return null;
 
-  const stagingToken = await getStagingToken(config, productionToken);
+  const stores: Record<Environment, StoreCredentials> = { [PRODUCTION_ENVIRONMENT]: { themeToken: productionToken } };
+  const tokensByDomain = new Map([[production.domain, productionToken]]);
+
+  // Environments on a domain that already has a token reuse it without asking
+  for (const environment of environments.filter(candidate => candidate.name !== PRODUCTION_ENVIRONMENT)) {
+    const token = tokensByDomain.get(environment.domain) ?? await getEnvironmentToken(environment, productionToken);
+    tokensByDomain.set(environment.domain, token);
+    stores[environment.name] = { themeToken: token };
+  }
 
   return {
     developer: process.env['USER'] || process.env['USERNAME'] || 'developer',
-    shopify: {
-      stores: {
-        production: { themeToken: productionToken },
-        staging: { themeToken: stagingToken }
-      }
-    },
+    shopify: { stores },
     notes: `Theme access app credentials for ${shopData.shopId}`
   };
 };
 
-const getProductionToken = async (config: ShopConfig): Promise<string | null> => {
+const getProductionToken = async (domain: string): Promise<string | null> => {
   const token = await text({
-    message: `Production theme access password (${config.shopify.stores.production.domain}):`,
+    message: `Production theme access password (${domain}):`,
     placeholder: "Enter your theme access password",
     validate: (value) => {
       if (!value) return "Production password is required";
@@ -131,14 +138,10 @@ const getProductionToken = async (config: ShopConfig): Promise<string | null> =>
   return isCancel(token) ? null : token as string;
 };
 
-const getStagingToken = async (config: ShopConfig, productionToken: string): Promise<string> => {
-  if (config.shopify.stores.staging.domain === config.shopify.stores.production.domain) {
-    return productionToken;
-  }
-
-  const stagingInput = await text({
-    message: `Staging theme access password (${config.shopify.stores.staging.domain}):`,
-    placeholder: "Enter staging password (or press Enter to use production password)",
+const getEnvironmentToken = async (environment: ShopEnvironment, productionToken: string): Promise<string> => {
+  const input = await text({
+    message: `${environmentLabel(environment.name)} theme access password (${environment.domain}):`,
+    placeholder: `Enter ${environment.name} password (or press Enter to use production password)`,
     validate: (value) => {
       if (!value) return undefined;
       if (value.length < 8) return "Password seems too short";
@@ -146,5 +149,5 @@ const getStagingToken = async (config: ShopConfig, productionToken: string): Pro
     }
   });
 
-  return (!isCancel(stagingInput) && stagingInput) ? stagingInput as string : productionToken;
+  return (!isCancel(input) && input) ? input as string : productionToken;
 };
\ No newline at end of file
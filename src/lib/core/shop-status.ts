@@ -0,0 +1,241 @@
+import fs from "fs";
+import path from "path";
+import type { CLIContext, GitOperations } from "./types.js";
+import type { TokenSource } from "../../types/shop.js";
+import { credentialEnvVar } from "./env-credential-store.js";
+import { listEnvironments, environmentLabel, readConfiguredEnvironments, PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { DEFAULT_BRANCH_NAMING, environmentBranchName, loadBranchNaming } from "./branch-naming.js";
+import { loadContentRules, resolveContentRules } from "./content-rules.js";
+
+/**
+ * Per-shop status checks shared by the health check and the shop pickers
+ * Checks append to the caller's errors/warnings/recommendations lists and never throw
+ */
+
+export interface CheckStatus {
+  readonly status: 'pass' | 'warn' | 'fail' | 'info';
+  readonly message: string;
+  readonly details?: string[];
+}
+
+export const checkCredentials = async (
+  context: CLIContext,
+  shopId: string,
+  errors: string[],
+  warnings: string[],
+  recommendations: string[]
+): Promise<CheckStatus> => {
+  try {
+    const credResult = await context.credOps.resolveCredentials(shopId);
+
+    if (!credResult.success || !credResult.data?.credentials) {
+      errors.push(credResult.error ?? "No credentials configured");
+      const envVars = readConfiguredEnvironments(context.deps, shopId).map(environment => credentialEnvVar(shopId, environment));
+      recommendations.push(
+        `Create credentials: shops/credentials/${shopId}.credentials.json, or set ${envVars.join(', ')}`
+      );
+      return { status: 'fail', message: 'Credentials missing' };
+    }
+
+    const sources = Object.entries(credResult.data.sources);
+    const missing = sources.filter(([, source]) => source.kind === 'none').map(([environment]) => environment);
+    const sourceDetails = sources.map(([environment, source]) =>
+      `${source.kind !== 'none' ? '✅' : '❌'} ${environmentLabel(environment)} token: ${describeSource(source)}`
+    );
+
+    if (missing.length > 0) {
+      warnings.push("Missing tokens");
+      missing.forEach(environment => recommendations.push(`Add ${environment} token`));
+      return { status: 'warn', message: 'Some tokens missing', details: sourceDetails };
+    }
+
+    // Check file permissions (Unix/macOS only) when a token still comes from the plaintext file
+    const usesFile = sources.some(([, source]) => source.kind === 'store' && source.name === 'file');
+    if (usesFile && process.platform !== 'win32') {
+      const credPath = path.join(context.deps.credentialsDir, `${shopId}.credentials.json`);
+      if (fs.existsSync(credPath)) {
+        const stats = fs.statSync(credPath);
+        const mode = (stats.mode & parseInt('777', 8)).toString(8);
+
+        if (mode !== '600') {
+          warnings.push(`Insecure permissions: ${mode}`);
+          recommendations.push(`Run: chmod 600 shops/credentials/${shopId}.credentials.json`);
+          return {
+            status: 'warn',
+            message: `Permissions too open (${mode})`,
+            details: sourceDetails
+          };
+        }
+      }
+    }
+
+    return {
+      status: 'pass',
+      message: 'Credentials configured',
+      details: [
+        ...sourceDetails,
+        ...(usesFile ? [process.platform !== 'win32' ? '✅ File permissions: 600' : 'ℹ️  Windows (permissions N/A)'] : [])
+      ]
+    };
+  } catch (error) {
+    errors.push(`Credentials check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return { status: 'fail', message: 'Credentials check failed' };
+  }
+};
+
+export const checkBranches = async (
+  context: CLIContext,
+  shopId: string,
+  errors: string[],
+  warnings: string[],
+  recommendations: string[]
+): Promise<CheckStatus> => {
+  try {
+    const { mainBranch, otherBranches } = await resolveShopBranches(context, shopId);
+    const git = context.gitOps;
+    const branches = [mainBranch, ...otherBranches];
+
+    const missing: string[] = [];
+    for (const branch of branches) {
+      if (!await checkBranchExists(git, branch)) missing.push(branch);
+    }
+
+    if (missing.length > 0) {
+      missing.forEach(branch => {
+        errors.push(`Branch ${branch} not found`);
+        recommendations.push(`Create and push: git checkout -b ${branch} && git push -u origin ${branch}`);
+      });
+      return { status: 'fail', message: 'Required branches missing' };
+    }
+
+    // Check if branches are in sync with production (skipped when the count can't be read)
+    let mostBehind = 0;
+    for (const branch of otherBranches) {
+      const behind = (await git.revListCount(branch, mainBranch)).data ?? 0;
+      if (behind > 0) {
+        warnings.push(`${branch} is ${behind} commits behind ${mainBranch}`);
+        recommendations.push(`Consider syncing: Create PR from ${mainBranch} to ${branch}`);
+        mostBehind = Math.max(mostBehind, behind);
+      }
+    }
+
+    const details = branches.map(branch => `${branch} exists`);
+
+    if (mostBehind > 0) {
+      return {
+        status: 'warn',
+        message: `Branches out of sync (${mostBehind} commits behind)`,
+        details
+      };
+    }
+
+    return {
+      status: 'pass',
+      message: 'Git branches configured',
+      details
+    };
+  } catch (error) {
+    errors.push(`Branch check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return { status: 'fail', message: 'Branch check failed' };
+  }
+};
+
+export const checkContentProtection = async (context: CLIContext, shopId: string): Promise<CheckStatus> => {
+  try {
+    const configResult = await context.shopOps.loadConfig(shopId);
+
+    if (!configResult.success || !configResult.data) {
+      return { status: 'info', message: 'Cannot check (config unavailable)' };
+    }
+
+    const protection = configResult.data.contentProtection;
+
+    if (!protection || !protection.enabled) {
+      return {
+        status: 'info',
+        message: 'Disabled',
+        details: ['💡 Enable in: Tools → Content Protection']
+      };
+    }
+
+    const rulesResult = await loadContentRules(context.deps.cwd);
+    if (!rulesResult.success || !rulesResult.data) {
+      return { status: 'warn', message: rulesResult.error ?? 'Cannot load content globs' };
+    }
+
+    const rules = resolveContentRules(protection, rulesResult.data);
+    const source = protection.include || protection.exclude ? 'shop config' : 'shops/settings.json or defaults';
+
+    return {
+      status: 'pass',
+      message: `Enabled (${protection.mode} mode, ${protection.verbosity})`,
+      details: [
+        `Mode: ${protection.mode}`,
+        `Verbosity: ${protection.verbosity}`,
+        `Content files (${source}): ${rules.include.join(', ')}`,
+        ...(rules.exclude.length > 0 ? [`Excluded: ${rules.exclude.join(', ')}`] : []),
+        '🛡️ Shop content protected from cross-shop overwrites'
+      ]
+    };
+  } catch {
+    return { status: 'info', message: 'Cannot check (error)' };
+  }
+};
+
+/**
+ * One-line status for picker hints, e.g. "⚠️ Some tokens missing · ❌ Required branches missing · strict protection"
+ * Runs the credential and branch checks without touching the network
+ */
+export const getShopStatusHint = async (context: CLIContext, shopId: string): Promise<string> => {
+  const ignored: string[] = [];
+  const checks = [
+    await checkCredentials(context, shopId, ignored, ignored, ignored),
+    await checkBranches(context, shopId, ignored, ignored, ignored)
+  ];
+
+  const problems = checks
+    .filter(check => check.status === 'warn' || check.status === 'fail')
+    .map(check => `${check.status === 'fail' ? '❌' : '⚠️'} ${check.message}`);
+
+  try {
+    const protection = (await context.shopOps.loadConfig(shopId)).data?.contentProtection;
+    const protectionHint = protection?.enabled ? `${protection.mode} protection` : 'unprotected';
+    return [...(problems.length > 0 ? problems : ['✅ Ready']), protectionHint].join(' · ');
+  } catch {
+    return problems.join(' · ');
+  }
+};
+
+// Helper functions
+const describeSource = (source: TokenSource): string => {
+  if (source.kind === 'env') return `environment (${source.name})`;
+  return source.kind === 'store' ? `${source.name} backend` : 'not set';
+};
+
+/** Environment branches from the config; the named production and staging branches when it can't be loaded */
+const resolveShopBranches = async (
+  context: CLIContext,
+  shopId: string
+): Promise<{ mainBranch: string; otherBranches: string[] }> => {
+  const naming = (await loadBranchNaming(context.deps.cwd)).data ?? DEFAULT_BRANCH_NAMING;
+  const productionBranch = environmentBranchName(naming, shopId, PRODUCTION_ENVIRONMENT);
+
+  const configResult = await context.shopOps.loadConfig(shopId);
+  if (!configResult.data) {
+    return { mainBranch: productionBranch, otherBranches: [environmentBranchName(naming, shopId, 'staging')] };
+  }
+
+  const environments = listEnvironments(configResult.data);
+  const mainBranch = environments.find(environment => environment.name === PRODUCTION_ENVIRONMENT)?.branch ?? productionBranch;
+  const otherBranches = environments
+    .filter(environment => environment.name !== PRODUCTION_ENVIRONMENT)
+    .map(environment => environment.branch)
+    .filter(branch => branch !== mainBranch);
+
+  return { mainBranch, otherBranches: [...new Set(otherBranches)] };
+};
+
+const checkBranchExists = async (git: GitOperations, branchName: string): Promise<boolean> => {
+  const result = await git.branchExists(branchName, { remote: true });
+  return result.data ?? false;
+};
@@ -1,23 +1,96 @@
 import { select, isCancel, note, text, spinner } from "@clack/prompts";
-import { execSync } from "child_process";
 import type { CLIContext, Result } from "./types.js";
-import { checkContentFiles } from "./content-detection.js";
+import type { Environment, ShopConfig } from "../../types/shop.js";
+import { checkContentFiles, type ContentCheckResult, type ShopContentCheck } from "./content-detection.js";
+import { listSyncTargets, environmentLabel } from "./environments.js";
+import { environmentBranchName, loadBranchNaming, shopBranchName, type BranchNaming } from "./branch-naming.js";
+import { loadContentRules, resolveContentRules, type ContentRules } from "./content-rules.js";
+import { createSmartMergeBranch, formatContentMergeNotes, type SmartMergeResult } from "./content-merge.js";
+import { loadShopCatalog, pickShops, resolveRequestedShops } from "./shop-selection.js";
+import {
+  createPullRequestProvider,
+  getManualPullRequestGuide,
+  loadPullRequestProvider,
+  loadPullRequestSettings,
+  openOrUpdatePullRequest,
+  type ManualPullRequestGuide,
+  type PullRequestTarget
+} from "./pull-requests.js";
 
 /**
  * Shop sync operations for creating PRs
  */
 
+const DEFAULT_PR_BODY = "Automated deployment of latest changes from main branch";
+const DEFAULT_SYNC_ENVIRONMENT = "staging";
+
+export interface SyncCommandOptions {
+  readonly shops?: string[];
+  readonly all?: boolean;
+  readonly title: string;
+  readonly body?: string;
+  /** Target the branch named with this `{environment}` segment instead of the staging branch */
+  readonly baseSuffix?: string;
+  /** Target each shop's configured branch for this environment */
+  readonly environment?: Environment;
+  readonly allowContentChanges?: boolean;
+  /** Smart merge content for shops protection would block, instead of skipping them */
+  readonly smartMerge?: boolean;
+}
+
+export interface ShopSyncResult {
+  readonly shop: string;
+  readonly base: string;
+  readonly success: boolean;
+  readonly url?: string;
+  /** An open PR for main → base already existed and its body was updated */
+  readonly updated?: boolean;
+  readonly warnings?: string[];
+  /** Content was smart merged on this branch, which is the PR head instead of main */
+  readonly contentMerge?: SmartMergeResult;
+  readonly error?: string;
+}
+
+export interface SyncSummary {
+  readonly title: string;
+  readonly head: string;
+  readonly contentProtection: {
+    /** At least one shop was blocked; blocked shops get no PR */
+    readonly blocked: boolean;
+    /** Content files across all shops */
+    readonly contentFiles: string[];
+    readonly shops: ShopContentCheck[];
+  };
+  readonly results: ShopSyncResult[];
+  readonly succeeded: number;
+  readonly failed: number;
+}
+
+interface SyncPullRequest {
+  readonly title: string;
+  readonly body: string;
+  readonly naming: BranchNaming;
+  readonly contentRules: ContentRules;
+  readonly baseSuffix?: string;
+  readonly environment?: Environment;
+}
+
+interface ShopBase {
+  readonly shop: string;
+  readonly base: string;
+  readonly error?: string;
+}
+
 export const syncShops = async (context: CLIContext): Promise<Result<void>> => {
-  const shopsResult = await context.shopOps.listShops();
-  if (!shopsResult.success || !shopsResult.data?.length) {
+  const catalogResult = await loadShopCatalog(context);
+  if (!catalogResult.success || !catalogResult.data?.shops.length) {
     note("No shops configured yet. Create shops first.", "📋 Sync Shops");
     return { success: true };
   }
 
-  const shops = shopsResult.data;
   note("Sync main branch changes to shops by creating PRs", "🔄 Shop Sync");
 
-  const selectedShops = await selectShopsToSync(shops);
+  const selectedShops = await pickShops(context, catalogResult.data, "Select shops to sync:");
   if (!selectedShops) return { success: false, error: "No shops selected" };
 
   const prTitle = await getPRTitle();
@@ -26,19 +99,6 @@ export const syncShops = async (context: CLIContext): Promise<Result<void>> => {
   return createShopSyncPRs(selectedShops, prTitle, context);
 };
 
-const selectShopsToSync = async (shops: string[]): Promise<string[] | null> => {
-  const allShopsOption = { value: "all", label: "All Shops", hint: `Deploy to all ${shops.length} shops` };
-  const shopOptions = shops.map(shop => ({ value: shop, label: shop, hint: `Deploy to ${shop} only` }));
-  
-  const shopChoice = await select({
-    message: "Select shops to sync:",
-    options: [allShopsOption, ...shopOptions]
-  });
-
-  if (isCancel(shopChoice)) return null;
-  return shopChoice === "all" ? shops : [String(shopChoice)];
-};
-
 const getPRTitle = async (): Promise<string | null> => {
   const prTitle = await text({
     message: "PR title for shop sync:",
@@ -54,77 +114,309 @@ const createShopSyncPRs = async (
   title: string,
   context: CLIContext
 ): Promise<Result<void>> => {
+  const shopConfigs = await loadShopConfigs(context, selectedShops);
+
+  const environment = await selectSyncTarget(listSyncTargets(shopConfigs.values()));
+  if (environment === null) return { success: false, error: "No environment selected" };
+
+  const rulesResult = await loadSyncRules(context);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load settings" };
+
+  const request: SyncPullRequest = {
+    title,
+    body: DEFAULT_PR_BODY,
+    ...rulesResult.data,
+    ...(environment ? { environment } : {})
+  };
+
+  // Check each shop for content file changes and enforce its protection
+  const contentCheck = await checkContentFiles(context.gitOps, selectedShops, shopConfigs, {
+    ...contentCheckTarget(selectedShops, request, shopConfigs),
+    smartMerge: true
+  });
+  if (contentCheck.shouldBlock) {
+    return { success: false, error: "Sync cancelled - content protection active" };
+  }
+  if (contentCheck.blockedShops.length > 0) {
+    note(`Skipping ${contentCheck.blockedShops.join(', ')}`, "🛡️ Content Protection");
+  }
+  const syncShops = contentCheck.allowedShops;
+
+  const s = spinner();
+  s.start("Creating shop sync PRs...");
+
+  const settings = await loadPullRequestSettings(context);
+  const guide = getManualPullRequestGuide(settings.provider);
+
+  const provider = await createPullRequestProvider(context, settings);
+  if (!provider.success || !provider.data) {
+    s.stop(`❌ ${provider.error ?? "Pull request provider unavailable"}`);
+    const setup = settings.provider.endsWith('-cli') ? `Install ${guide.hostName} CLI` : `Set credentials (${guide.authHint})`;
+    note(`${setup} or configure pullRequests in shops/settings.json to automate PR creation`, "Manual Setup Required");
+    showCompleteManualInstructions(guide, syncShops.map(shop => resolveBase(shop, request, shopConfigs)), title);
+    return { success: true };
+  }
+
+  const results = await createPullRequests(context, { provider: provider.data, settings }, contentCheck, request, shopConfigs);
+
+  const successes = results.filter(r => r.success);
+  const failures = results.filter(r => !r.success);
+
+  if (successes.length > 0 && failures.length === 0) {
+    s.stop("✅ All PRs created successfully");
+    note(`Created PRs for: ${successes.map(r => r.shop).join(', ')}`, "✅ Success");
+    showUpdatedPullRequests(successes);
+    showContentMerges(successes);
+  } else if (successes.length > 0 && failures.length > 0) {
+    s.stop("⚠️ Some PRs failed");
+    note(`Created PRs for: ${successes.map(r => r.shop).join(', ')}`, "✅ Success");
+    showContentMerges(successes);
+    note("Some PR creation failed", "⚠️ Automation Failed");
+    await offerToShowLogs(failures);
+    showCompleteManualInstructions(guide, failures, title);
+  } else {
+    s.stop("❌ All PR creation failed");
+    note("Automated PR creation failed", "⚠️ Automation Failed");
+    await offerToShowLogs(failures);
+    showCompleteManualInstructions(guide, failures, title);
+  }
+
+  return { success: true };
+};
+
+/**
+ * Environment to sync main into when the selected shops define more than one non-production environment
+ * Returns undefined for the default staging target and null when cancelled
+ */
+const selectSyncTarget = async (targets: Environment[]): Promise<Environment | undefined | null> => {
+  if (targets.length <= 1) {
+    // The usual staging-only setup keeps the staging default
+    return targets[0] === DEFAULT_SYNC_ENVIRONMENT ? undefined : targets[0];
+  }
+
+  const choice = await select({
+    message: "Sync main into which environment?",
+    initialValue: targets.includes(DEFAULT_SYNC_ENVIRONMENT) ? DEFAULT_SYNC_ENVIRONMENT : targets[0],
+    options: targets.map(target => ({ value: target, label: environmentLabel(target) }))
+  });
+
+  return isCancel(choice) ? null : String(choice);
+};
+
+/**
+ * Non-interactive sync for CI and scripts
+ * Runs the same content protection check and PR creation as the Tools menu,
+ * without prompts, and returns a per-shop summary
+ */
+export const runShopSync = async (
+  context: CLIContext,
+  options: SyncCommandOptions
+): Promise<Result<SyncSummary>> => {
+  const shopsResult = await resolveSyncTargets(context, options);
+  if (!shopsResult.success || !shopsResult.data) {
+    return { success: false, error: shopsResult.error ?? "No shops selected" };
+  }
+
+  const rulesResult = await loadSyncRules(context);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load settings" };
+
+  const selectedShops = shopsResult.data;
+  const request: SyncPullRequest = {
+    title: options.title,
+    body: options.body ?? DEFAULT_PR_BODY,
+    ...rulesResult.data,
+    ...(options.baseSuffix ? { baseSuffix: options.baseSuffix } : {}),
+    ...(options.environment ? { environment: options.environment } : {})
+  };
+
+  const shopConfigs = await loadShopConfigs(context, selectedShops);
+  const contentCheck = await checkContentFiles(context.gitOps, selectedShops, shopConfigs, {
+    ...contentCheckTarget(selectedShops, request, shopConfigs),
+    interactive: false,
+    allowContentChanges: options.allowContentChanges ?? false,
+    smartMerge: options.smartMerge ?? false
+  });
+
+  const contentProtection = summarizeContentCheck(contentCheck);
+
+  if (contentCheck.shouldBlock) {
+    return { success: true, data: buildSummary(request, contentProtection, []) };
+  }
+
+  // Blocked shops are left out; the rest proceed
+  const syncShops = contentCheck.allowedShops;
+  const target = await loadPullRequestProvider(context);
+  const results = target.success && target.data
+    ? await createPullRequests(context, target.data, contentCheck, request, shopConfigs)
+    : syncShops.map(shop => ({
+        shop,
+        base: resolveBase(shop, request, shopConfigs).base,
+        success: false,
+        error: target.error ?? "Pull request provider unavailable"
+      }));
+
+  return { success: true, data: buildSummary(request, contentProtection, results) };
+};
+
+const resolveSyncTargets = async (context: CLIContext, options: SyncCommandOptions): Promise<Result<string[]>> => {
+  if (options.all && options.shops?.length) {
+    return { success: false, error: "Use either --all or --shops, not both" };
+  }
+
+  if (!options.all && !options.shops?.length) {
+    return { success: false, error: "Specify shops with --shops <ids> or --all" };
+  }
+
+  // --shops accepts shop IDs, tag:<tag> and group:<name>
+  return resolveRequestedShops(context, options.all ? [] : options.shops);
+};
+
+const loadShopConfigs = async (context: CLIContext, shops: string[]): Promise<Map<string, ShopConfig>> => {
   // Load shop configs for protection settings
-  const shopConfigs = new Map();
-  for (const shopId of selectedShops) {
+  const shopConfigs = new Map<string, ShopConfig>();
+  for (const shopId of shops) {
     const configResult = await context.shopOps.loadConfig(shopId);
     if (configResult.success && configResult.data) {
       shopConfigs.set(shopId, configResult.data);
     }
   }
+  return shopConfigs;
+};
 
-  // Check for content file changes and enforce protection
-  const contentCheck = await checkContentFiles(selectedShops, shopConfigs);
-  if (contentCheck.shouldBlock) {
-    return { success: false, error: "Sync cancelled - content protection active" };
+/** The --base-suffix branch when given, otherwise the requested environment's configured branch (staging by default) */
+const resolveBase = (shop: string, request: SyncPullRequest, shopConfigs: Map<string, ShopConfig>): ShopBase => {
+  const { naming } = request;
+  if (!request.environment) {
+    if (request.baseSuffix) return { shop, base: shopBranchName(naming, shop, request.baseSuffix) };
+
+    const stagingBranch = shopConfigs.get(shop)?.shopify.stores[DEFAULT_SYNC_ENVIRONMENT]?.branch;
+    return { shop, base: stagingBranch ?? environmentBranchName(naming, shop, DEFAULT_SYNC_ENVIRONMENT) };
   }
 
-  const s = spinner();
+  const branch = shopConfigs.get(shop)?.shopify.stores[request.environment]?.branch;
+  return branch
+    ? { shop, base: branch }
+    : { shop, base: environmentBranchName(naming, shop, request.environment), error: `${shop} has no ${request.environment} environment` };
+};
+
+/** Branch naming and content globs from shops/settings.json */
+const loadSyncRules = async (context: CLIContext): Promise<Result<Pick<SyncPullRequest, 'naming' | 'contentRules'>>> => {
+  const namingResult = await loadBranchNaming(context.deps.cwd);
+  if (!namingResult.success || !namingResult.data) return { success: false, error: namingResult.error ?? "Failed to load branch naming" };
+
+  const rulesResult = await loadContentRules(context.deps.cwd);
+  if (!rulesResult.success || !rulesResult.data) return { success: false, error: rulesResult.error ?? "Failed to load content rules" };
+
+  return { success: true, data: { naming: namingResult.data, contentRules: rulesResult.data } };
+};
+
+/** Content protection compares each shop against its own sync target */
+const contentCheckTarget = (
+  shops: string[],
+  request: SyncPullRequest,
+  shopConfigs: Map<string, ShopConfig>
+): { branchNaming: BranchNaming; contentRules: ContentRules; targetBranches: Record<string, string> } => ({
+  branchNaming: request.naming,
+  contentRules: request.contentRules,
+  targetBranches: Object.fromEntries(shops.map(shop => [shop, resolveBase(shop, request, shopConfigs).base]))
+});
+
+const summarizeContentCheck = (contentCheck: ContentCheckResult): SyncSummary['contentProtection'] => ({
+  blocked: contentCheck.blockedShops.length > 0,
+  contentFiles: [...new Set(contentCheck.shops.flatMap(check => check.contentFiles))],
+  shops: contentCheck.shops
+});
+
+/** PRs for the shops content protection allowed; smart-merged shops get their merge branch as head */
+const createPullRequests = async (
+  context: CLIContext,
+  target: PullRequestTarget,
+  contentCheck: ContentCheckResult,
+  request: SyncPullRequest,
+  shopConfigs: Map<string, ShopConfig>
+): Promise<ShopSyncResult[]> => {
+  const results: ShopSyncResult[] = [];
+
+  for (const check of contentCheck.shops.filter(shopCheck => !shopCheck.blocked)) {
+    const { shop } = check;
+    const { base, error } = resolveBase(shop, request, shopConfigs);
+    if (error) {
+      results.push({ shop, base, success: false, error });
+      continue;
+    }
 
-  try {
-    s.start("Creating shop sync PRs...");
-    execSync('gh --version', { stdio: 'ignore' });
-
-    const results: { shop: string; success: boolean; error?: string }[] = [];
-
-    for (const shop of selectedShops) {
-      try {
-        execSync(`gh pr create --base ${shop}/staging --head main --title "${title}" --body "Automated deployment of latest changes from main branch"`, { 
-          stdio: ['ignore', 'pipe', 'pipe'],
-          encoding: 'utf8' 
-        });
-        results.push({ shop, success: true });
-      } catch (error: unknown) {
-        // Capture the actual GitHub CLI error output
-        const err = error as { stderr?: string; stdout?: string; message?: string };
-        const errorOutput = err.stderr || err.stdout || err.message || 'Unknown error';
-        results.push({
-          shop,
-          success: false,
-          error: errorOutput
-        });
+    let contentMerge: SmartMergeResult | undefined;
+    if (check.smartMerge) {
+      const merged = await createSmartMergeBranch(context, {
+        shop,
+        base,
+        contentRules: resolveContentRules(shopConfigs.get(shop)?.contentProtection, request.contentRules)
+      });
+      if (!merged.success || !merged.data) {
+        results.push({ shop, base, success: false, error: merged.error ?? "Smart merge failed" });
+        continue;
       }
+      contentMerge = merged.data;
     }
 
-    const successes = results.filter(r => r.success);
-    const failures = results.filter(r => !r.success);
-
-    if (successes.length > 0 && failures.length === 0) {
-      s.stop("✅ All PRs created successfully");
-      note(`Created PRs for: ${successes.map(r => r.shop).join(', ')}`, "✅ Success");
-    } else if (successes.length > 0 && failures.length > 0) {
-      s.stop("⚠️ Some PRs failed");
-      note(`Created PRs for: ${successes.map(r => r.shop).join(', ')}`, "✅ Success");
-      note("Some PR creation failed", "⚠️ Automation Failed");
-      await offerToShowLogs(failures);
-      showCompleteManualInstructions(failures.map(f => f.shop), title);
-    } else {
-      s.stop("❌ All PR creation failed");
-      note("Automated PR creation failed", "⚠️ Automation Failed");
-      await offerToShowLogs(failures);
-      showCompleteManualInstructions(failures.map(f => f.shop), title);
+    const outcome = await openOrUpdatePullRequest(target, {
+      head: contentMerge?.branch ?? "main",
+      base,
+      title: request.title,
+      body: contentMerge ? `${request.body}\n\n${formatContentMergeNotes(contentMerge.files)}` : request.body
+    });
+
+    if (!outcome.success || !outcome.data) {
+      results.push({ shop, base, success: false, error: outcome.error ?? "Unknown error" });
+      continue;
     }
 
-    return { success: true };
+    const { url, updated, warnings } = outcome.data;
+    results.push({
+      shop,
+      base,
+      success: true,
+      ...(url ? { url } : {}),
+      ...(updated ? { updated } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+      ...(contentMerge ? { contentMerge } : {})
+    });
+  }
 
-  } catch {
-    s.stop("❌ GitHub CLI not found");
-    note("Install GitHub CLI to automate PR creation", "Manual Setup Required");
-    showCompleteManualInstructions(selectedShops, title);
-    return { success: true };
+  return results;
+};
+
+const showUpdatedPullRequests = (results: ShopSyncResult[]): void => {
+  const updated = results.filter(r => r.updated);
+  if (updated.length > 0) {
+    note(`Updated existing PRs for: ${updated.map(r => r.shop).join(', ')}`, "🔁 Already Open");
   }
 };
 
+const showContentMerges = (results: ShopSyncResult[]): void => {
+  const merges = results.flatMap(r => (r.contentMerge ? [{ shop: r.shop, ...r.contentMerge }] : []));
+  if (merges.length === 0) return;
+
+  const lines = merges.map(({ shop, branch, files }) => {
+    const conflicts = files.reduce((count, file) => count + file.conflicts.length, 0);
+    return `${shop}: ${branch}${conflicts > 0 ? ` (${conflicts} to review, see PR)` : ''}`;
+  });
+  note(lines.join('\n'), "🔀 Smart Merged Content");
+};
+
+const buildSummary = (
+  request: SyncPullRequest,
+  contentProtection: SyncSummary['contentProtection'],
+  results: ShopSyncResult[]
+): SyncSummary => ({
+  title: request.title,
+  head: "main",
+  contentProtection,
+  results,
+  succeeded: results.filter(r => r.success).length,
+  failed: results.filter(r => !r.success).length
+});
+
 const offerToShowLogs = async (failures: { shop: string; error?: string }[]): Promise<void> => {
   const showLogs = await select({
     message: "Would you like to see the error details?",
@@ -144,24 +436,32 @@ const offerToShowLogs = async (failures: { shop: string; error?: string }[]): Pr
   }
 };
 
-const showCompleteManualInstructions = (shops: string[], title: string): void => {
+const showCompleteManualInstructions = (guide: ManualPullRequestGuide, targets: readonly ShopBase[], title: string): void => {
   note("Manual PR creation options:", "📝 Manual Setup");
 
-  console.log(`\n🔧 Method 1: GitHub CLI Commands`);
-  shops.forEach(shop => {
-    console.log(`gh pr create --base ${shop}/staging --head main --title "${title}" --body "Deployment of latest changes from main branch"`);
-  });
+  const requests = targets.map(({ base }) => ({
+    head: "main",
+    base,
+    title,
+    body: "Deployment of latest changes from main branch"
+  }));
 
-  console.log(`\n🌐 Method 2: GitHub Web Interface`);
-  console.log(`1. Go to your repository on GitHub`);
-  console.log(`2. Click 'Pull requests' → 'New pull request'`);
-  shops.forEach(shop => {
-    console.log(`3. Create PR: main → ${shop}/staging`);
+  let method = 1;
+  if (guide.command) {
+    console.log(`\n🔧 Method ${method++}: ${guide.hostName} CLI Commands`);
+    requests.forEach(request => console.log(guide.command?.(request)));
+  }
+
+  console.log(`\n🌐 Method ${method}: ${guide.hostName} Web Interface`);
+  console.log(`1. Go to your repository on ${guide.hostName}`);
+  console.log(`2. ${guide.webSteps.join(' ')}`);
+  requests.forEach(request => {
+    console.log(`3. Create PR: ${request.head} → ${request.base}`);
     console.log(`   Title: ${title}`);
   });
 
   console.log(`\n💡 Common issues:`);
-  console.log(`   - Branch '${shops[0]}/staging' doesn't exist`);
-  console.log(`   - Not authenticated: gh auth login`);
+  console.log(`   - Branch '${targets[0]?.base}' doesn't exist`);
+  console.log(`   - Not authenticated: ${guide.authHint}`);
   console.log(`   - Wrong repository context: check you're in the right directory`);
-};
\ No newline at end of file
+};
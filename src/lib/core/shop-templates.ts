@@ -0,0 +1,102 @@
+import fs from "fs";
+import path from "path";
+import type { ShopTemplate } from "../../types/shop.js";
+import type { Dependencies, Result } from "./types.js";
+import { validateBranchNaming, validateContentFileGlobs, validateEnvironmentName } from "./validation.js";
+import { DEFAULT_BRANCH_NAMING } from "./branch-naming.js";
+import { AUTHENTICATION_METHODS, ENVIRONMENT_NAME_RULES, SHOP_ID_RULES } from "./validation-schemas.js";
+
+/**
+ * Shop templates: presets for new shops in shops/templates/<name>.template.json
+ * Used by Create New Shop and `multi-shop shop create --template <name>`
+ */
+
+export const SHOP_TEMPLATES_DIR = 'templates';
+const TEMPLATE_SUFFIX = '.template.json';
+
+const PROTECTION_MODES = ['strict', 'warn', 'off'];
+const PROTECTION_VERBOSITIES = ['verbose', 'quiet'];
+
+export const listShopTemplates = async (deps: Dependencies): Promise<Result<string[]>> => {
+  try {
+    const templatesDir = path.join(deps.shopsDir, SHOP_TEMPLATES_DIR);
+    if (!fs.existsSync(templatesDir)) return { success: true, data: [] };
+
+    const templates = fs
+      .readdirSync(templatesDir)
+      .filter(file => file.endsWith(TEMPLATE_SUFFIX))
+      .map(file => file.slice(0, -TEMPLATE_SUFFIX.length))
+      .sort();
+
+    return { success: true, data: templates };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to list shop templates: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+export const loadShopTemplate = async (deps: Dependencies, name: string): Promise<Result<ShopTemplate>> => {
+  // Template names become file names, so they follow the shop ID rules
+  if (!SHOP_ID_RULES.pattern.test(name)) return { success: false, error: `Invalid template name: ${name}` };
+
+  const templatePath = path.join(deps.shopsDir, SHOP_TEMPLATES_DIR, `${name}${TEMPLATE_SUFFIX}`);
+  if (!fs.existsSync(templatePath)) return { success: false, error: `Shop template not found: ${name}` };
+
+  try {
+    const validation = validateShopTemplate(JSON.parse(fs.readFileSync(templatePath, "utf8")));
+    return validation.success ? validation : { success: false, error: `Template ${name}: ${validation.error}` };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to load shop template ${name}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+export const validateShopTemplate = (raw: unknown): Result<ShopTemplate> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: "Template must be a JSON object" };
+  }
+
+  const template = raw as ShopTemplate;
+
+  if (template.environments !== undefined) {
+    if (!Array.isArray(template.environments)) return { success: false, error: "environments must be a list" };
+
+    for (const environment of template.environments) {
+      const validation = validateEnvironmentName(String(environment));
+      if (!validation.success) return { success: false, error: `${validation.error}: ${environment}` };
+    }
+
+    const missing = ENVIRONMENT_NAME_RULES.required.filter(name => !template.environments?.includes(name));
+    if (missing.length > 0) return { success: false, error: `environments must include ${missing.join(', ')}` };
+  }
+
+  if (template.tags !== undefined && !(Array.isArray(template.tags) && template.tags.every(tag => typeof tag === 'string'))) {
+    return { success: false, error: "tags must be a list of strings" };
+  }
+
+  const protection = template.contentProtection;
+  if (protection?.mode !== undefined && !PROTECTION_MODES.includes(protection.mode)) {
+    return { success: false, error: `contentProtection.mode must be one of ${PROTECTION_MODES.join(', ')}` };
+  }
+  if (protection?.verbosity !== undefined && !PROTECTION_VERBOSITIES.includes(protection.verbosity)) {
+    return { success: false, error: `contentProtection.verbosity must be one of ${PROTECTION_VERBOSITIES.join(', ')}` };
+  }
+  const globs = validateContentFileGlobs(protection, 'contentProtection');
+  if (!globs.success) return { success: false, error: globs.error ?? "Invalid content globs" };
+
+  const methods: string[] = Object.values(AUTHENTICATION_METHODS);
+  if (template.authMethod !== undefined && !methods.includes(template.authMethod)) {
+    return { success: false, error: `authMethod must be one of ${methods.join(', ')}` };
+  }
+
+  if (template.branchPattern !== undefined) {
+    const naming = validateBranchNaming({ ...DEFAULT_BRANCH_NAMING, pattern: String(template.branchPattern) });
+    if (!naming.success) return { success: false, error: `branchPattern: ${naming.error}` };
+  }
+
+  return { success: true, data: template };
+};
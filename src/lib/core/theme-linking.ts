@@ -1,5 +1,8 @@
-import { select, isCancel, note } from "@clack/prompts";
+import { note } from "@clack/prompts";
+import type { ShopConfig } from "../../types/shop.js";
 import type { CLIContext, Result } from "./types.js";
+import { listEnvironments, environmentLabel, PRODUCTION_ENVIRONMENT } from "./environments.js";
+import { pickShop } from "./shop-selection.js";
 
 /**
  * Theme linking operations for Shopify GitHub integration
@@ -12,7 +15,7 @@ export const linkThemes = async (context: CLIContext): Promise<Result<void>> =>
     return { success: true };
   }
 
-  const shopChoice = await selectShopForLinking(shopsResult.data);
+  const shopChoice = await pickShop(context, shopsResult.data, "Select shop to link themes:");
   if (!shopChoice) return { success: false, error: "No shop selected" };
 
   const configResult = await context.shopOps.loadConfig(shopChoice);
@@ -38,29 +41,22 @@ export const linkThemes = async (context: CLIContext): Promise<Result<void>> =>
   return { success: true };
 };
 
-const selectShopForLinking = async (shops: string[]): Promise<string | null> => {
-  const shopChoice = await select({
-    message: "Select shop to link themes:",
-    options: shops.map(shop => ({ 
-      value: shop, 
-      label: shop, 
-      hint: `Set up theme linking for ${shop}` 
-    }))
-  });
-
-  return isCancel(shopChoice) ? null : shopChoice as string;
-};
+const showThemeLinkingInstructions = (config: ShopConfig): void => {
+  const environments = listEnvironments(config);
+  const themeName = (name: string): string => name === PRODUCTION_ENVIRONMENT ? 'Main' : environmentLabel(name);
 
-const showThemeLinkingInstructions = (config: { name: string; shopify: { stores: { production: { domain: string; branch: string }; staging: { domain: string; branch: string } } } }): void => {
   console.log(`\n📝 Manual theme linking for ${config.name}:`);
   console.log(`\n1. Go to Shopify Admin:`);
-  console.log(`   Production: https://${config.shopify.stores.production.domain}/admin/themes`);
-  console.log(`   Staging: https://${config.shopify.stores.staging.domain}/admin/themes`);
+  environments.forEach(environment => {
+    console.log(`   ${environmentLabel(environment.name)}: https://${environment.domain}/admin/themes`);
+  });
   console.log(`\n2. Add theme → Connect from GitHub:`);
-  console.log(`   Production branch: ${config.shopify.stores.production.branch}`);
-  console.log(`   Staging branch: ${config.shopify.stores.staging.branch}`);
+  environments.forEach(environment => {
+    console.log(`   ${environmentLabel(environment.name)} branch: ${environment.branch}`);
+  });
   console.log(`\n3. Theme names (suggested):`);
-  console.log(`   Production: "${config.name} Main"`);
-  console.log(`   Staging: "${config.name} Staging"`);
+  environments.forEach(environment => {
+    console.log(`   ${environmentLabel(environment.name)}: "${config.name} ${themeName(environment.name)}"`);
+  });
   console.log(`\n4. After connecting, changes sync automatically between Shopify and Git`);
-};
\ No newline at end of file
+};
@@ -0,0 +1,83 @@
+import type { Result } from "./types.js";
+import { sendJson } from "./http-client.js";
+import { adminGraphqlEndpoint } from "./theme-token-verification.js";
+
+/**
+ * Live theme lookup and theme publishing through the Shopify Admin GraphQL API
+ * Used by scheduled campaigns; publishing needs a token with the write_themes scope
+ */
+
+export interface ThemeApiOptions {
+  /** Replaces https://<domain> (local mock servers, proxies) */
+  readonly adminUrl?: string;
+  /** Replaces the Theme Access proxy for shptka_ passwords */
+  readonly themeAccessUrl?: string;
+  readonly apiVersion?: string;
+}
+
+export interface ThemeInfo {
+  /** gid://shopify/OnlineStoreTheme/<id> */
+  readonly id: string;
+  readonly name: string;
+}
+
+const LIVE_THEME_QUERY = '{ themes(first: 1, roles: [MAIN]) { nodes { id name } } }';
+const PUBLISH_MUTATION = 'mutation themePublish($id: ID!) { themePublish(id: $id) { theme { id name } userErrors { message } } }';
+const THEME_GID_PREFIX = 'gid://shopify/OnlineStoreTheme/';
+
+interface GraphqlResponse<T> {
+  readonly data?: T;
+  readonly errors?: readonly { readonly message: string }[];
+}
+
+type LiveThemeData = { readonly themes?: { readonly nodes: readonly ThemeInfo[] } };
+type PublishData = { readonly themePublish?: { readonly theme?: ThemeInfo | null; readonly userErrors: readonly { readonly message: string }[] } };
+
+/** Numeric IDs from the admin URL or `shopify theme list` become GraphQL IDs */
+export const themeGid = (themeId: string): string => themeId.startsWith(THEME_GID_PREFIX) ? themeId : `${THEME_GID_PREFIX}${themeId}`;
+
+export const getLiveTheme = async (domain: string, token: string, options: ThemeApiOptions = {}): Promise<Result<ThemeInfo>> => {
+  const result = await queryAdmin<LiveThemeData>(domain, token, { query: LIVE_THEME_QUERY }, options);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? `Failed to read themes of ${domain}` };
+
+  const live = result.data.themes?.nodes[0];
+  return live ? { success: true, data: live } : { success: false, error: `${domain} has no live theme` };
+};
+
+export const publishTheme = async (
+  domain: string,
+  token: string,
+  themeId: string,
+  options: ThemeApiOptions = {}
+): Promise<Result<ThemeInfo>> => {
+  const result = await queryAdmin<PublishData>(domain, token, { query: PUBLISH_MUTATION, variables: { id: themeGid(themeId) } }, options);
+  if (!result.success || !result.data) return { success: false, error: result.error ?? `Failed to publish theme on ${domain}` };
+
+  const outcome = result.data.themePublish;
+  const userErrors = outcome?.userErrors ?? [];
+  if (userErrors.length > 0 || !outcome?.theme) {
+    return { success: false, error: `Publishing theme ${themeId} on ${domain} failed: ${userErrors.map(error => error.message).join('; ') || 'no theme returned'}` };
+  }
+
+  return { success: true, data: outcome.theme };
+};
+
+const queryAdmin = async <T>(
+  domain: string,
+  token: string,
+  body: { query: string; variables?: Record<string, unknown> },
+  options: ThemeApiOptions
+): Promise<Result<T>> => {
+  const { url, headers } = adminGraphqlEndpoint(domain, token, options);
+  const result = await sendJson<GraphqlResponse<T>>(url, { method: 'POST', headers, body });
+
+  if (!result.success || !result.data) return { success: false, error: result.error ?? `Could not reach ${domain}` };
+
+  const { status, ok, payload, message } = result.data;
+  if (status === 401) return { success: false, error: `Token for ${domain} rejected (revoked, expired or issued for another store)` };
+  if (!ok) return { success: false, error: `HTTP ${status}: ${message}` };
+  if (payload?.errors?.length) return { success: false, error: payload.errors.map(error => error.message).join('; ') };
+  if (!payload?.data) return { success: false, error: 'Unexpected response from the Admin API' };
+
+  return { success: true, data: payload.data };
+};
@@ -0,0 +1,103 @@
+import type { Environment } from "../../types/shop.js";
+import { sendJson, joinUrl } from "./http-client.js";
+
+/**
+ * Online theme token check against the Shopify Admin GraphQL API
+ * Runs a small themes query per store, so a revoked token or one issued for another
+ * store shows up before `shopify theme dev` fails
+ */
+
+export const SHOPIFY_ADMIN_API_VERSION = '2025-01';
+
+/** Theme Access app passwords are only accepted through Shopify's proxy, not the store's own Admin API */
+export const THEME_ACCESS_PROXY_URL = 'https://theme-kit-access.shopifyapps.com/cli';
+export const THEME_ACCESS_TOKEN_PREFIX = 'shptka_';
+
+export type TokenVerificationStatus = 'valid' | 'expired' | 'insufficient-scope' | 'error';
+
+export interface TokenVerification {
+  readonly environment: Environment;
+  readonly domain: string;
+  readonly status: TokenVerificationStatus;
+  readonly message: string;
+}
+
+export interface TokenVerificationOptions {
+  /** Replaces https://<domain> (local mock servers, proxies) */
+  readonly adminUrl?: string;
+  /** Replaces the Theme Access proxy for shptka_ passwords */
+  readonly themeAccessUrl?: string;
+  readonly apiVersion?: string;
+}
+
+export interface AdminGraphqlEndpoint {
+  readonly url: string;
+  readonly headers: Record<string, string>;
+}
+
+/** Where to send an Admin GraphQL request for this token: the proxy names the store in X-Shopify-Shop */
+export const adminGraphqlEndpoint = (
+  domain: string,
+  token: string,
+  options: TokenVerificationOptions = {}
+): AdminGraphqlEndpoint => {
+  const pathname = `admin/api/${options.apiVersion ?? SHOPIFY_ADMIN_API_VERSION}/graphql.json`;
+
+  if (token.startsWith(THEME_ACCESS_TOKEN_PREFIX)) {
+    return {
+      url: joinUrl(options.themeAccessUrl ?? THEME_ACCESS_PROXY_URL, pathname),
+      headers: { 'X-Shopify-Shop': domain, 'X-Shopify-Access-Token': token }
+    };
+  }
+
+  return {
+    url: joinUrl(options.adminUrl ?? `https://${domain}`, pathname),
+    headers: { 'X-Shopify-Access-Token': token }
+  };
+};
+
+const THEMES_QUERY = '{ themes(first: 10) { nodes { id name role } } }';
+
+interface ThemesResponse {
+  readonly data?: { readonly themes?: { readonly nodes: readonly { readonly role: string }[] } };
+  readonly errors?: readonly { readonly message: string; readonly extensions?: { readonly code?: string } }[];
+}
+
+export const verifyThemeToken = async (
+  environment: Environment,
+  domain: string,
+  token: string,
+  options: TokenVerificationOptions = {}
+): Promise<TokenVerification> => {
+  const { url, headers } = adminGraphqlEndpoint(domain, token, options);
+  const result = await sendJson<ThemesResponse>(url, {
+    method: 'POST',
+    headers,
+    body: { query: THEMES_QUERY }
+  });
+
+  const verdict = (status: TokenVerificationStatus, message: string): TokenVerification =>
+    ({ environment, domain, status, message });
+
+  if (!result.success || !result.data) {
+    return verdict('error', result.error ?? `Could not reach ${domain}`);
+  }
+
+  const { status, payload, message } = result.data;
+
+  if (status === 401) return verdict('expired', 'Token rejected (revoked, expired or issued for another store)');
+  if (status === 403) return verdict('insufficient-scope', `Token lacks the read_themes scope: ${message}`);
+  if (status === 404) return verdict('error', `Store not found at ${domain}`);
+  if (!result.data.ok) return verdict('error', `HTTP ${status}: ${message}`);
+
+  const denied = payload?.errors?.find(error => error.extensions?.code === 'ACCESS_DENIED');
+  if (denied) return verdict('insufficient-scope', `Token lacks the read_themes scope: ${denied.message}`);
+
+  const themes = payload?.data?.themes?.nodes;
+  if (!themes) {
+    return verdict('error', payload?.errors?.map(error => error.message).join('; ') || 'Unexpected response from the Admin API');
+  }
+
+  const live = themes.some(theme => theme.role === 'MAIN') ? ', including the live theme' : '';
+  return verdict('valid', `Token accepted (${themes.length} theme${themes.length === 1 ? '' : 's'} visible${live})`);
+};
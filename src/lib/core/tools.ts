@@ -4,6 +4,7 @@ import { syncShops } from "./shop-sync.js";
 import { linkThemes } from "./theme-linking.js";
 import { checkVersions } from "./version-check.js";
 import { handleContentProtection } from "./content-protection.js";
+import { handleContentSnapshots } from "./content-snapshots.js";
 import { handleHealthCheck } from "./shop-health-check.js";
 
 /**
@@ -17,6 +18,7 @@ export const handleTools = async (context: CLIContext): Promise<Result<void>> =>
       { value: "sync", label: "Sync Shops", hint: "Create PRs to deploy main branch changes to shops" },
       { value: "health", label: "Health Check", hint: "Verify shop configuration and setup" },
       { value: "protection", label: "Content Protection", hint: "Configure content protection per shop" },
+      { value: "snapshots", label: "Content Snapshots", hint: "Archive, compare and restore shop content" },
       { value: "themes", label: "Link Themes", hint: "Connect Git branches to Shopify themes" },
       { value: "versions", label: "Version Check", hint: "Check versions of important packages" }
     ]
@@ -31,6 +33,8 @@ export const handleTools = async (context: CLIContext): Promise<Result<void>> =>
       return handleHealthCheck(context);
     case "protection":
       return handleContentProtection(context);
+    case "snapshots":
+      return handleContentSnapshots(context);
     case "themes":
       return linkThemes(context);
     case "versions":
@@ -19,6 +19,7 @@ export interface CLIContext {
   readonly shopOps: ShopOperations;
   readonly credOps: CredentialOperations; 
   readonly devOps: DevOperations;
+  readonly gitOps: GitOperations;
 }
 
 export interface ShopOperations {
@@ -31,14 +32,117 @@ export interface ShopOperations {
 export interface CredentialOperations {
   readonly loadCredentials: (shopId: string) => Promise<Result<import("../../types/shop.js").ShopCredentials | null>>;
   readonly saveCredentials: (shopId: string, credentials: import("../../types/shop.js").ShopCredentials) => Promise<Result<void>>;
+  /** Like loadCredentials, but also reports where each token came from */
+  readonly resolveCredentials: (shopId: string) => Promise<Result<import("../../types/shop.js").ResolvedCredentials>>;
+}
+
+/**
+ * Storage backend behind CredentialOperations (plaintext file, encrypted file, env vars, external command)
+ */
+export interface CredentialStore {
+  readonly name: import("../../types/shop.js").CredentialBackendName;
+  readonly load: (shopId: string) => Promise<Result<import("../../types/shop.js").ShopCredentials | null>>;
+  readonly save: (shopId: string, credentials: import("../../types/shop.js").ShopCredentials) => Promise<Result<void>>;
 }
 
 export interface DevOperations {
-  readonly startDev: (shopId: string, environment: 'production' | 'staging') => Promise<Result<void>>;
+  readonly startDev: (shopId: string, environment: import("../../types/shop.js").Environment) => Promise<Result<void>>;
 }
 
 export interface GitOperations {
   readonly getCurrentBranch: () => Promise<Result<string>>;
-  readonly createBranch: (branchName: string) => Promise<Result<void>>;
-  readonly pushBranch: (branchName: string) => Promise<Result<void>>;
-}
\ No newline at end of file
+  readonly getHeadCommit: () => Promise<Result<string>>;
+  readonly getRemoteUrl: () => Promise<Result<string>>;
+  readonly isWorkingTreeClean: () => Promise<Result<boolean>>;
+  readonly fetch: () => Promise<Result<void>>;
+  readonly checkout: (ref: string) => Promise<Result<void>>;
+  readonly createBranch: (branchName: string, startPoint?: string) => Promise<Result<void>>;
+  readonly branchExists: (branchName: string, options?: { remote?: boolean }) => Promise<Result<boolean>>;
+  readonly listBranches: (options?: { remote?: boolean }) => Promise<Result<string[]>>;
+  readonly diffNameStatus: (from: string, to: string) => Promise<Result<FileChange[]>>;
+  /** Every file path in a ref's tree */
+  readonly listFiles: (ref: string) => Promise<Result<string[]>>;
+  /** File contents at a ref; null when the file doesn't exist there */
+  readonly readFile: (ref: string, path: string) => Promise<Result<string | null>>;
+  readonly revListCount: (from: string, to: string) => Promise<Result<number>>;
+  /** Hash, author and committer date of a ref's commit */
+  readonly getCommit: (ref: string) => Promise<Result<CommitInfo>>;
+  readonly mergeBase: (a: string, b: string) => Promise<Result<string>>;
+  /** Author date of the oldest first-parent commit on `to` that `from` lacks; null when `to` has none of its own */
+  readonly firstCommitDate: (from: string, to: string) => Promise<Result<string | null>>;
+  readonly merge: (ref: string, options?: MergeOptions) => Promise<Result<MergeOutcome>>;
+  readonly abortMerge: () => Promise<Result<void>>;
+  readonly pushBranch: (branchName: string, options?: PushOptions) => Promise<Result<void>>;
+  readonly deleteBranch: (branchName: string, options?: { remote?: boolean; force?: boolean }) => Promise<Result<void>>;
+  readonly tagExists: (tagName: string) => Promise<Result<boolean>>;
+  /** Annotated tag, so it records who archived what and when */
+  readonly createTag: (tagName: string, ref: string, message: string) => Promise<Result<void>>;
+  readonly pushTag: (tagName: string) => Promise<Result<void>>;
+  readonly restoreFiles: (ref: string, paths: string[]) => Promise<Result<void>>;
+  readonly removeFiles: (paths: string[]) => Promise<Result<void>>;
+  readonly addFiles: (paths: string[]) => Promise<Result<void>>;
+  readonly commit: (message: string) => Promise<Result<void>>;
+}
+
+export interface CommitInfo {
+  readonly sha: string;
+  readonly author: string;
+  /** ISO 8601 committer date */
+  readonly date: string;
+}
+
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'other';
+
+export interface FileChange {
+  readonly status: FileChangeStatus;
+  readonly path: string;
+  readonly previousPath?: string;
+}
+
+export interface MergeOptions {
+  readonly rebase?: boolean;
+  readonly fastForwardOnly?: boolean;
+  /** Stop before committing and leave conflicts for the caller to resolve (or abortMerge) */
+  readonly noCommit?: boolean;
+}
+
+export interface MergeOutcome {
+  readonly merged: boolean;
+  readonly conflicts: string[];
+}
+
+export interface PushOptions {
+  readonly setUpstream?: boolean;
+  readonly forceWithLease?: boolean;
+}
+
+export interface PullRequestProvider {
+  readonly name: import("../../types/shop.js").PullRequestProviderName;
+  readonly create: (request: PullRequestRequest) => Promise<Result<PullRequestInfo>>;
+  readonly findOpen: (head: string, base: string) => Promise<Result<PullRequestInfo | null>>;
+  /** Most recent PR from head into base in any state */
+  readonly findLatest: (head: string, base: string) => Promise<Result<PullRequestStatus | null>>;
+  /** Source branch of a PR, for checking it out */
+  readonly getHeadBranch: (number: number) => Promise<Result<string>>;
+  readonly updateBody: (number: number, body: string) => Promise<Result<void>>;
+  readonly addLabels: (number: number, labels: string[]) => Promise<Result<void>>;
+  readonly addReviewers: (number: number, reviewers: string[]) => Promise<Result<void>>;
+}
+
+export interface PullRequestRequest {
+  readonly head: string;
+  readonly base: string;
+  readonly title: string;
+  readonly body: string;
+}
+
+export interface PullRequestInfo {
+  readonly number: number;
+  readonly url: string;
+}
+
+export type PullRequestState = 'open' | 'merged' | 'closed';
+
+export interface PullRequestStatus extends PullRequestInfo {
+  readonly state: PullRequestState;
+}
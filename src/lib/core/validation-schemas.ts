@@ -44,14 +44,47 @@ export const SHOP_NAME_RULES = {
   description: 'Human-readable shop name'
 } as const;
 
+/**
+ * Validation rules for shop environment names (keys of shopify.stores)
+ */
+export const ENVIRONMENT_NAME_RULES = {
+  // Same shape as shop IDs; maxLength keeps the pattern cheap
+  // eslint-disable-next-line security/detect-unsafe-regex
+  pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+  patternString: '^[a-z0-9]+(-[a-z0-9]+)*$',
+  maxLength: 30,
+  required: ['production'],
+  description: 'Lowercase alphanumeric with hyphens',
+  examples: ['production', 'staging', 'qa', 'holiday-preview'],
+  invalidExamples: ['Production', 'holiday preview', '-qa']
+} as const;
+
 /**
  * Validation rules for Git branch names
  */
 export const BRANCH_NAME_RULES = {
+  /** Production and staging branches under the default naming */
   productionPattern: /^[a-z0-9-]+\/main$/,
   productionPatternString: '^[a-z0-9-]+/main$',
   stagingPattern: /^[a-z0-9-]+\/staging$/,
   stagingPatternString: '^[a-z0-9-]+/staging$',
+  /** Environment branches under any naming: two or more path segments (shop-a/main, stores/shop-a/live) */
+  // maxLength keeps the pattern cheap
+  // eslint-disable-next-line security/detect-unsafe-regex
+  environmentPattern: /^[a-z0-9-]+(\/[a-z0-9._-]+)+$/,
+  environmentPatternString: '^[a-z0-9-]+(/[a-z0-9._-]+)+$',
+  /** What `{environment}` may become: a single path segment */
+  segmentPattern: /^[a-z0-9._-]+$/,
+  /** Placeholders of the branchNaming templates in shops/settings.json */
+  namingPlaceholders: {
+    shop: '{shop}',
+    environment: '{environment}',
+    promo: '{promo}'
+  },
+  defaultNaming: {
+    pattern: '{shop}/{environment}',
+    promoPattern: '{shop}/promo-{promo}'
+  },
   maxLength: 250,
   invalidPatterns: [
     /^\.|\/\.|\.\.|@\{/,  // No leading dots, no /./, no .., no @{
@@ -60,10 +93,55 @@ export const BRANCH_NAME_RULES = {
     /\.lock$/             // No .lock suffix
   ],
   description: 'Valid Git branch name',
-  examples: ['shop-a/main', 'shop-b/staging'],
+  examples: ['shop-a/main', 'shop-b/staging', 'shop-c/holiday-preview'],
   invalidExamples: ['shop/', '/shop', 'shop main', 'shop.lock']
 } as const;
 
+/**
+ * Validation rules for content protection file globs (contentProtection.include / exclude)
+ */
+export const CONTENT_GLOB_RULES = {
+  // Theme-relative path segments of letters, digits, _ . - and the wildcards * and ?; no `..` segments
+  // maxLength keeps the pattern cheap
+  // eslint-disable-next-line security/detect-unsafe-regex
+  pattern: /^(?!(.*\/)?\.\.(\/|$))[A-Za-z0-9_.*?-]+(\/[A-Za-z0-9_.*?-]+)*$/,
+  patternString: '^(?!(.*/)?\\.\\.(/|$))[A-Za-z0-9_.*?-]+(/[A-Za-z0-9_.*?-]+)*$',
+  maxLength: 200,
+  /** Content files when neither shops/settings.json nor the shop config set include */
+  defaultInclude: ['config/settings_data.json', 'config/markets.json', 'templates/**/*.json', 'locales/**/*.json'],
+  description: 'Theme-relative path globs using *, ** and ?',
+  examples: ['sections/*.json', 'templates/**/*.json', 'snippets/metafield-*.liquid'],
+  invalidExamples: ['/config/settings_data.json', '../settings.json', 'templates\\*.json', '{a,b}/*.json']
+} as const;
+
+/**
+ * Validation rules for content snapshot IDs (shops/snapshots/<shop>/<id>.json)
+ */
+export const SNAPSHOT_ID_RULES = {
+  // Anchored, no nested quantifiers
+  // eslint-disable-next-line security/detect-unsafe-regex
+  pattern: /^\d{8}-\d{6}(-\d+)?$/,
+  description: 'YYYYMMDD-HHMMSS, with a -2, -3, ... suffix for snapshots taken in the same second',
+  examples: ['20261019-142500', '20261019-142500-2'],
+  invalidExamples: ['latest', '../shop-b/20261019-142500', '2026-10-19']
+} as const;
+
+/**
+ * Validation rules for shops/campaigns.json
+ */
+export const CAMPAIGN_RULES = {
+  // Same as promo names entered in Campaign Tools
+  namePattern: /^[a-z0-9-]+$/,
+  nameDescription: 'lowercase letters, numbers, and hyphens only',
+  // Admin API theme IDs, numeric or gid://shopify/OnlineStoreTheme/<id>
+  themeIdPattern: /^(gid:\/\/shopify\/OnlineStoreTheme\/)?\d+$/,
+  // Offset required: a schedule must not depend on the machine's time zone
+  // eslint-disable-next-line security/detect-unsafe-regex
+  timestampPattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/,
+  launches: ['pull-request', 'publish-theme'],
+  examples: { startsAt: '2026-11-27T00:00:00-05:00', endsAt: '2026-12-01T23:59:00-05:00' }
+} as const;
+
 /**
  * Validation rules for theme tokens
  */
@@ -106,10 +184,38 @@ export const VALIDATION_ERRORS = {
     noSubdomain: `Domain must have a subdomain before ${DOMAIN_RULES.suffix}`,
     wrongSuffix: `Domain must end with ${DOMAIN_RULES.suffix}`
   },
+  environment: {
+    missing: 'At least one environment is required',
+    invalid: `Environment names must be ${ENVIRONMENT_NAME_RULES.description.toLowerCase()}`,
+    tooLong: `Environment names must be at most ${ENVIRONMENT_NAME_RULES.maxLength} characters`,
+    production: 'A production environment is required'
+  },
   branch: {
     required: 'Branch name is required',
     invalid: `Branch ${BRANCH_NAME_RULES.description}`,
-    tooLong: `Branch name must be at most ${BRANCH_NAME_RULES.maxLength} characters`
+    tooLong: `Branch name must be at most ${BRANCH_NAME_RULES.maxLength} characters`,
+    pattern: 'Branch pattern must contain {shop} and {environment} once each',
+    promoPattern: 'Promo branch pattern must contain {shop} and {promo} once each',
+    segment: 'Environment branch names must be lowercase letters, digits, dots, underscores or hyphens'
+  },
+  contentGlobs: {
+    notList: 'must be a list of globs',
+    invalid: `must be ${CONTENT_GLOB_RULES.description.toLowerCase()}`
+  },
+  snapshot: {
+    invalidId: `Snapshot ID must be ${SNAPSHOT_ID_RULES.description}`,
+    unsafePath: 'Snapshot contains a path outside the theme'
+  },
+  campaign: {
+    notList: 'campaigns must be a list',
+    name: `Campaign name must be ${CAMPAIGN_RULES.nameDescription}`,
+    duplicate: 'Campaign names must be unique',
+    shops: 'Campaign shops must be a non-empty list of shop IDs',
+    timestamp: `Campaign times must be ISO 8601 with a time zone, e.g. ${CAMPAIGN_RULES.examples.startsAt}`,
+    order: 'Campaign endsAt must be after startsAt',
+    schedule: 'Scheduled campaigns need startsAt, endsAt and launch together',
+    launch: `Campaign launch must be one of: ${CAMPAIGN_RULES.launches.join(', ')}`,
+    theme: 'publish-theme campaigns need a theme ID for every shop'
   },
   themeToken: {
     required: 'Theme token is required',
@@ -141,25 +247,48 @@ export const isValidDomain = (value: unknown): value is string => {
   return DOMAIN_RULES.pattern.test(value);
 };
 
+/**
+ * Type guard: Checks if value is a valid environment name
+ */
+export const isValidEnvironmentName = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  if (value.length === 0 || value.length > ENVIRONMENT_NAME_RULES.maxLength) return false;
+  return ENVIRONMENT_NAME_RULES.pattern.test(value);
+};
+
 /**
  * Type guard: Checks if value is a valid branch name
+ * With an environment it must be an environment branch (two or more path segments); naming is configurable
  */
-export const isValidBranchName = (value: unknown, type?: 'production' | 'staging'): value is string => {
+export const isValidBranchName = (value: unknown, type?: string): value is string => {
   if (typeof value !== 'string') return false;
   if (value.length > BRANCH_NAME_RULES.maxLength) return false;
 
   // Check if matches specific pattern if type is provided
-  if (type === 'production') {
-    return BRANCH_NAME_RULES.productionPattern.test(value);
-  }
-  if (type === 'staging') {
-    return BRANCH_NAME_RULES.stagingPattern.test(value);
+  if (type !== undefined) {
+    return BRANCH_NAME_RULES.environmentPattern.test(value);
   }
 
   // General branch name validation
   return !BRANCH_NAME_RULES.invalidPatterns.some(pattern => pattern.test(value));
 };
 
+/**
+ * Type guard: Checks if value is a valid content protection glob
+ */
+export const isValidContentGlob = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  if (value.length === 0 || value.length > CONTENT_GLOB_RULES.maxLength) return false;
+  return CONTENT_GLOB_RULES.pattern.test(value);
+};
+
+/**
+ * Type guard: Checks if value is a valid content snapshot ID
+ */
+export const isValidSnapshotId = (value: unknown): value is string => {
+  return typeof value === 'string' && SNAPSHOT_ID_RULES.pattern.test(value);
+};
+
 /**
  * Type guard: Checks if value is a valid theme token
  */
@@ -1,12 +1,19 @@
-import type { ShopConfig } from "../../types/shop.js";
+import type { Campaign, ShopConfig } from "../../types/shop.js";
 import type { Result } from "./types.js";
+import type { BranchNaming } from "./branch-naming.js";
 import {
   SHOP_ID_RULES,
   DOMAIN_RULES,
+  ENVIRONMENT_NAME_RULES,
+  BRANCH_NAME_RULES,
+  CAMPAIGN_RULES,
   VALIDATION_ERRORS,
   isValidShopId as isShopIdValid,
-  isValidDomain as isDomainValid
+  isValidDomain as isDomainValid,
+  isValidBranchName,
+  isValidContentGlob
 } from "./validation-schemas.js";
+import { environmentLabel } from "./environments.js";
 
 /**
  * Pure functional validation using centralized validation schemas
@@ -68,14 +75,133 @@ export const validateShopConfig = async (config: unknown, shopId: string): Promi
     return { success: false, error: VALIDATION_ERRORS.shopId.mismatch };
   }
 
-  const prodDomainValidation = validateDomain(shopConfig.shopify.stores.production.domain);
-  if (!prodDomainValidation.success) {
-    return { success: false, error: `Production ${prodDomainValidation.error}` };
+  const stores = Object.entries(shopConfig.shopify?.stores ?? {});
+  if (stores.length === 0) {
+    return { success: false, error: VALIDATION_ERRORS.environment.missing };
   }
 
-  const stagingDomainValidation = validateDomain(shopConfig.shopify.stores.staging.domain);
-  if (!stagingDomainValidation.success) {
-    return { success: false, error: `Staging ${stagingDomainValidation.error}` };
+  const missing = ENVIRONMENT_NAME_RULES.required.filter(name => !stores.some(([environment]) => environment === name));
+  if (missing.length > 0) {
+    return { success: false, error: VALIDATION_ERRORS.environment.production };
+  }
+
+  for (const [environment, store] of stores) {
+    const environmentValidation = validateEnvironmentName(environment);
+    if (!environmentValidation.success) {
+      return { success: false, error: `${environmentValidation.error}: ${environment}` };
+    }
+
+    const domainValidation = validateDomain(store?.domain);
+    if (!domainValidation.success) {
+      return { success: false, error: `${environmentLabel(environment)} ${domainValidation.error}` };
+    }
+
+    if (typeof store.branch !== 'string' || store.branch.length === 0) {
+      return { success: false, error: `${environmentLabel(environment)}: ${VALIDATION_ERRORS.branch.required}` };
+    }
+  }
+
+  return validateContentFileGlobs(shopConfig.contentProtection, 'contentProtection');
+};
+
+/** include and exclude of a contentProtection section; `field` prefixes the error */
+export const validateContentFileGlobs = (
+  globs: { readonly include?: unknown; readonly exclude?: unknown } | undefined,
+  field: string
+): Result<void> => {
+  for (const list of ['include', 'exclude'] as const) {
+    const value = globs?.[list];
+    if (value === undefined) continue;
+
+    if (!Array.isArray(value)) {
+      return { success: false, error: `${field}.${list} ${VALIDATION_ERRORS.contentGlobs.notList}` };
+    }
+
+    const invalid: unknown = value.find(glob => !isValidContentGlob(glob));
+    if (invalid !== undefined) {
+      return { success: false, error: `${field}.${list} ${VALIDATION_ERRORS.contentGlobs.invalid}: ${String(invalid)}` };
+    }
+  }
+
+  return { success: true };
+};
+
+export const validateEnvironmentName = (environment: string): Result<void> => {
+  if (environment.length > ENVIRONMENT_NAME_RULES.maxLength) {
+    return { success: false, error: VALIDATION_ERRORS.environment.tooLong };
+  }
+
+  if (!ENVIRONMENT_NAME_RULES.pattern.test(environment)) {
+    return { success: false, error: VALIDATION_ERRORS.environment.invalid };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Checks the branchNaming templates: each placeholder once, every environment name a single segment,
+ * and the branches they produce valid environment branches
+ */
+export const validateBranchNaming = (naming: BranchNaming): Result<void> => {
+  const { shop, environment, promo } = BRANCH_NAME_RULES.namingPlaceholders;
+  const once = (pattern: string, placeholder: string): boolean => pattern.split(placeholder).length === 2;
+
+  if (!once(naming.pattern, shop) || !once(naming.pattern, environment)) {
+    return { success: false, error: VALIDATION_ERRORS.branch.pattern };
+  }
+  if (!once(naming.promoPattern, shop) || !once(naming.promoPattern, promo)) {
+    return { success: false, error: VALIDATION_ERRORS.branch.promoPattern };
+  }
+
+  for (const [name, segment] of Object.entries(naming.environments)) {
+    if (!BRANCH_NAME_RULES.segmentPattern.test(segment)) {
+      return { success: false, error: `${VALIDATION_ERRORS.branch.segment}: ${name}` };
+    }
+  }
+
+  const examples = [
+    naming.pattern.replace(shop, 'shop-a').replace(environment, 'staging'),
+    naming.promoPattern.replace(shop, 'shop-a').replace(promo, 'summer-sale')
+  ];
+  const invalid = examples.find(example => !isValidBranchName(example) || !isValidBranchName(example, 'environment'));
+  if (invalid) return { success: false, error: `${VALIDATION_ERRORS.branch.invalid}: ${invalid}` };
+
+  return { success: true };
+};
+
+/** shops/campaigns.json; errors name the campaign */
+export const validateCampaignManifest = (manifest: unknown): Result<void> => {
+  const campaigns: unknown = (manifest as { campaigns?: unknown } | null)?.campaigns;
+  if (!Array.isArray(campaigns)) return { success: false, error: VALIDATION_ERRORS.campaign.notList };
+
+  const names = new Set<string>();
+  for (const entry of campaigns as (Partial<Campaign> | null)[]) {
+    const campaign = entry ?? {};
+    const name = String(campaign.name);
+    const fail = (error: string): Result<void> => ({ success: false, error: `${name}: ${error}` });
+
+    if (!CAMPAIGN_RULES.namePattern.test(name)) return fail(VALIDATION_ERRORS.campaign.name);
+    if (names.has(name)) return fail(VALIDATION_ERRORS.campaign.duplicate);
+    names.add(name);
+
+    const shops = campaign.shops;
+    if (!Array.isArray(shops) || shops.length === 0 || !shops.every(isShopIdValid)) return fail(VALIDATION_ERRORS.campaign.shops);
+
+    const schedule = [campaign.startsAt, campaign.endsAt, campaign.launch];
+    if (schedule.every(field => field === undefined)) continue;
+    if (schedule.includes(undefined)) return fail(VALIDATION_ERRORS.campaign.schedule);
+
+    const times = [campaign.startsAt, campaign.endsAt];
+    if (!times.every(time => typeof time === 'string' && CAMPAIGN_RULES.timestampPattern.test(time) && !Number.isNaN(Date.parse(time)))) {
+      return fail(VALIDATION_ERRORS.campaign.timestamp);
+    }
+    if (Date.parse(String(campaign.endsAt)) <= Date.parse(String(campaign.startsAt))) return fail(VALIDATION_ERRORS.campaign.order);
+
+    if (!CAMPAIGN_RULES.launches.some(launch => launch === campaign.launch)) return fail(VALIDATION_ERRORS.campaign.launch);
+    if (campaign.launch === 'publish-theme') {
+      const themes = campaign.themes ?? {};
+      if (!shops.every(shop => CAMPAIGN_RULES.themeIdPattern.test(String(themes[shop])))) return fail(VALIDATION_ERRORS.campaign.theme);
+    }
   }
 
   return { success: true };
@@ -6,7 +6,7 @@
 
 // Core functional API (primary interface)
 export { createMultiShopCLI, runMultiShopManager } from "./core/index.js";
-export { createNewShop } from "./core/shop-creation.js";
+export { createNewShop, createShop, type CreateShopOptions } from "./core/shop-creation.js";
 export { startDevelopmentWorkflow } from "./core/dev-operations.js";
 
 // Contextual development
@@ -36,6 +36,7 @@ export type {
   AuthenticationConfig,
   ShopifyConfig,
   ShopifyStore,
+  ShopTemplate,
   CLIOptions
 } from "../types/shop.js";
 
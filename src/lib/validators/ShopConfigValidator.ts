@@ -1,11 +1,13 @@
 import Ajv, { type ValidateFunction } from "ajv";
 import { ShopValidationError } from "../errors/ShopError.js";
-import type { ShopConfig, ShopCredentials, AuthenticationMethod } from "../../types/shop.js";
+import type { ShopConfig, ShopCredentials, AuthenticationMethod, Environment } from "../../types/shop.js";
 import {
   SHOP_ID_RULES,
   SHOP_NAME_RULES,
   DOMAIN_RULES,
   BRANCH_NAME_RULES,
+  CONTENT_GLOB_RULES,
+  ENVIRONMENT_NAME_RULES,
   THEME_TOKEN_RULES,
   AUTHENTICATION_METHODS,
   isValidShopId,
@@ -30,12 +32,27 @@ export class ShopConfigValidator {
       strict: false
     });
 
+    const contentGlobList = {
+      type: "array",
+      items: {
+        type: "string",
+        pattern: CONTENT_GLOB_RULES.patternString,
+        minLength: 1,
+        maxLength: CONTENT_GLOB_RULES.maxLength
+      }
+    };
+
     // Use centralized validation rules
     this.shopConfigSchema = {
       type: "object",
       required: ["shopId", "name", "shopify"],
       additionalProperties: false,
       properties: {
+        version: {
+          type: "integer",
+          minimum: 1,
+          description: "Config format version"
+        },
         shopId: {
           type: "string",
           pattern: SHOP_ID_RULES.patternString,
@@ -55,7 +72,32 @@ export class ShopConfigValidator {
           properties: {
             stores: {
               type: "object",
-              required: ["production", "staging"],
+              required: [...ENVIRONMENT_NAME_RULES.required],
+              minProperties: 1,
+              propertyNames: {
+                pattern: ENVIRONMENT_NAME_RULES.patternString,
+                maxLength: ENVIRONMENT_NAME_RULES.maxLength
+              },
+              additionalProperties: {
+                type: "object",
+                required: ["domain", "branch"],
+                properties: {
+                  domain: {
+                    type: "string",
+                    pattern: DOMAIN_RULES.patternString,
+                    description: "Shopify store domain of this environment"
+                  },
+                  branch: {
+                    type: "string",
+                    pattern: BRANCH_NAME_RULES.environmentPatternString,
+                    description: "Git branch connected to this environment"
+                  },
+                  themeId: {
+                    type: "string",
+                    description: "Theme the environment previews or publishes"
+                  }
+                }
+              },
               properties: {
                 production: {
                   type: "object",
@@ -68,7 +110,7 @@ export class ShopConfigValidator {
                     },
                     branch: {
                       type: "string",
-                      pattern: BRANCH_NAME_RULES.productionPatternString,
+                      pattern: BRANCH_NAME_RULES.environmentPatternString,
                       description: "Git branch connected to production store"
                     }
                   }
@@ -84,7 +126,7 @@ export class ShopConfigValidator {
                     },
                     branch: {
                       type: "string",
-                      pattern: BRANCH_NAME_RULES.stagingPatternString,
+                      pattern: BRANCH_NAME_RULES.environmentPatternString,
                       description: "Git branch connected to staging store"
                     }
                   }
@@ -102,6 +144,23 @@ export class ShopConfigValidator {
               }
             }
           }
+        },
+        contentProtection: {
+          type: "object",
+          required: ["enabled", "mode", "verbosity"],
+          properties: {
+            enabled: { type: "boolean" },
+            mode: { type: "string", enum: ["strict", "warn", "off"] },
+            verbosity: { type: "string", enum: ["verbose", "quiet"] },
+            include: {
+              ...contentGlobList,
+              description: "Content files of this shop (replaces the globs in shops/settings.json)"
+            },
+            exclude: {
+              ...contentGlobList,
+              description: "Files matched by include that are not content"
+            }
+          }
         }
       }
     };
@@ -123,7 +182,7 @@ export class ShopConfigValidator {
             stores: {
               type: "object",
               patternProperties: {
-                "^(production|staging)$": {
+                [ENVIRONMENT_NAME_RULES.patternString]: {
                   type: "object",
                   required: ["themeToken"],
                   properties: {
@@ -227,11 +286,11 @@ export class ShopConfigValidator {
   /**
    * Validates Shopify store domain format using centralized rules
    * @param domain - Store domain
-   * @param type - Domain type (production/staging)
+   * @param type - Environment the domain belongs to
    * @throws ShopValidationError If invalid
    * @returns Valid domain
    */
-  validateStoreDomain(domain: unknown, type: 'production' | 'staging' = 'production'): string {
+  validateStoreDomain(domain: unknown, type: Environment = 'production'): string {
     if (!isValidDomain(domain)) {
       throw new ShopValidationError(
         `${type} ${DOMAIN_RULES.description}`,
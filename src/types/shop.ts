@@ -3,6 +3,8 @@
  */
 
 export interface ShopConfig {
+  /** Config format version; files without one predate named environments (see config-migration) */
+  readonly version?: number;
   readonly shopId: string;
   readonly name: string;
   readonly shopify: ShopifyConfig;
@@ -10,29 +12,91 @@ export interface ShopConfig {
   readonly contentProtection?: ContentProtectionConfig;
 }
 
-export interface ContentProtectionConfig {
+export interface ContentProtectionConfig extends ContentFileGlobs {
   readonly enabled: boolean;
   readonly mode: ContentProtectionMode;
   readonly verbosity: ContentProtectionVerbosity;
 }
 
+/** Theme files that count as shop content, as globs relative to the theme root (`*`, `**`, `?`) */
+export interface ContentFileGlobs {
+  readonly include?: readonly string[];
+  /** Files matching an include glob that are code after all */
+  readonly exclude?: readonly string[];
+}
+
 export type ContentProtectionMode = 'strict' | 'warn' | 'off';
 export type ContentProtectionVerbosity = 'verbose' | 'quiet';
 
 export interface GlobalSettings {
-  readonly contentProtection: {
+  /** include/exclude apply to every shop whose config doesn't set its own */
+  readonly contentProtection: ContentFileGlobs & {
     readonly defaultMode: ContentProtectionMode;
     readonly defaultVerbosity: ContentProtectionVerbosity;
     readonly applyToNewShops: boolean;
   };
+  readonly pullRequests?: PullRequestSettings;
+  readonly credentials?: CredentialSettings;
+  /** Named shop groups for `group:<name>` selectors; members are shop IDs or `tag:<tag>` selectors */
+  readonly shopGroups?: Readonly<Record<string, readonly string[]>>;
+  readonly branchNaming?: BranchNamingSettings;
+  readonly campaigns?: CampaignSettings;
   readonly version: string;
 }
 
+export interface CampaignSettings {
+  /** Promo branches older than this are flagged as stale (default: 30) */
+  readonly staleAfterDays?: number;
+}
+
+/** How shop branches are named, e.g. stores/<shop>/live and stores/<shop>/preview */
+export interface BranchNamingSettings {
+  /** Environment branches; `{shop}` and `{environment}` (default: {shop}/{environment}) */
+  readonly pattern?: string;
+  /** What `{environment}` becomes per environment (default: main for production, otherwise the environment name) */
+  readonly environments?: Readonly<Record<Environment, string>>;
+  /** Promo branches; `{shop}` and `{promo}` (default: {shop}/promo-{promo}) */
+  readonly promoPattern?: string;
+}
+
+export type CredentialBackendName = 'file' | 'encrypted-file' | 'env' | 'command';
+
+export interface CredentialSettings {
+  readonly backend: CredentialBackendName;
+  /** command backend: prints the credentials JSON; `{shop}` is replaced with the shop ID */
+  readonly readCommand?: string[];
+  /** command backend: stores the credentials JSON it receives on stdin */
+  readonly writeCommand?: string[];
+  /** What loading does when the stored checksum no longer matches the tokens (default: warn) */
+  readonly onChecksumMismatch?: ChecksumMismatchMode;
+  /** How MULTI_SHOP_<SHOPID>_<ENV>_TOKEN variables combine with the backend (default: env-first) */
+  readonly envPrecedence?: CredentialEnvPrecedence;
+}
+
+export type CredentialEnvPrecedence = 'env-first' | 'store-first' | 'store-only';
+
+export type ChecksumMismatchMode = 'warn' | 'fail';
+
+export type PullRequestProviderName =
+  | 'github-cli'
+  | 'github-api'
+  | 'gitlab-cli'
+  | 'gitlab-api'
+  | 'bitbucket-api';
+
+export interface PullRequestSettings {
+  readonly provider: PullRequestProviderName;
+  /** owner/repo, GitLab group/project or Bitbucket workspace/repo; defaults to the origin remote */
+  readonly repository?: string;
+  /** REST API base URL (GitHub Enterprise, self-managed GitLab) */
+  readonly apiUrl?: string;
+  readonly labels?: string[];
+  readonly reviewers?: string[];
+}
+
 export interface ShopifyConfig {
-  readonly stores: {
-    readonly production: ShopifyStore;
-    readonly staging: ShopifyStore;
-  };
+  /** One store per named environment (production, staging, qa, holiday-preview, ...), in display order */
+  readonly stores: Readonly<Record<Environment, ShopifyStore>>;
   readonly authentication: AuthenticationConfig;
 }
 
@@ -63,6 +127,80 @@ export interface ShopMetadata {
   readonly lastModified?: string;
 }
 
+/** Preset for new shops, stored as shops/templates/<name>.template.json */
+export interface ShopTemplate {
+  /** Shown when picking the template; becomes the new shop's metadata.description */
+  readonly description?: string;
+  /** Environments to create (default: production, staging) */
+  readonly environments?: readonly Environment[];
+  readonly tags?: readonly string[];
+  /** Overrides the defaults from shops/settings.json */
+  readonly contentProtection?: Partial<ContentProtectionConfig>;
+  /** Skips the authentication prompt */
+  readonly authMethod?: AuthenticationMethod;
+  /** Replaces branchNaming.pattern from shops/settings.json for shops made from this template */
+  readonly branchPattern?: string;
+}
+
+/** Content files captured from a shop, stored as shops/snapshots/<shopId>/<id>.json */
+export interface ContentSnapshot {
+  /** Archive format version */
+  readonly version: number;
+  readonly id: string;
+  readonly shopId: string;
+  readonly createdAt: string;
+  readonly source: ContentSnapshotSource;
+  readonly message?: string;
+  /** File contents by theme-relative path */
+  readonly files: Readonly<Record<string, string>>;
+}
+
+/** A shop branch on origin, or the live theme of an environment's store */
+export type ContentSnapshotSource =
+  | { readonly kind: 'branch'; readonly branch: string }
+  | { readonly kind: 'theme'; readonly environment: Environment; readonly domain: string };
+
+/** shops/campaigns.json: promos spanning several shops; scheduled ones are run by `multi-shop campaign run-due` */
+export interface CampaignManifest {
+  readonly version: number;
+  readonly campaigns: readonly Campaign[];
+}
+
+/**
+ * pull-request: PR from the promo branch into the production branch at start, rollback PR at end
+ * publish-theme: publish the promo theme at start, republish the previous live theme at end
+ */
+export type CampaignLaunch = 'pull-request' | 'publish-theme';
+
+export interface Campaign {
+  /** Promo name, as in the promo branch (branchNaming.promoPattern) */
+  readonly name: string;
+  readonly shops: readonly string[];
+  /** Schedule: startsAt, endsAt and launch together, or none for a campaign run by hand */
+  /** ISO 8601 with a time zone, e.g. 2026-11-27T00:00:00-05:00 */
+  readonly startsAt?: string;
+  readonly endsAt?: string;
+  readonly launch?: CampaignLaunch;
+  /** publish-theme: promo theme ID per shop */
+  readonly themes?: Readonly<Record<string, string>>;
+  readonly owner?: string;
+  /** Written by run-due, per shop */
+  readonly runs?: Readonly<Record<string, CampaignRun>>;
+}
+
+export interface CampaignRun {
+  /** Promo branch created and pushed */
+  readonly branchCreatedAt?: string;
+  readonly startedAt?: string;
+  readonly endedAt?: string;
+  /** Content snapshot of the production branch taken before the promo PR */
+  readonly snapshotId?: string;
+  /** Theme that was live before the promo theme was published */
+  readonly previousThemeId?: string;
+  /** Promo PR, and the rollback PR of a scheduled campaign */
+  readonly pullRequests?: readonly string[];
+}
+
 export interface ShopCredentials {
   readonly developer: string;
   readonly shopify: ShopifyCredentials;
@@ -71,10 +209,8 @@ export interface ShopCredentials {
 }
 
 export interface ShopifyCredentials {
-  readonly stores: {
-    readonly production: StoreCredentials;
-    readonly staging: StoreCredentials;
-  };
+  /** Keyed by the environment names of the shop config */
+  readonly stores: Readonly<Record<Environment, StoreCredentials>>;
 }
 
 export interface StoreCredentials {
@@ -84,10 +220,32 @@ export interface StoreCredentials {
 export interface CredentialMetadata {
   readonly created: string;
   readonly version: string;
+  /** sha256 over the store tokens, written on every save */
   readonly checksum: string;
 }
 
-export type Environment = 'production' | 'staging';
+/**
+ * verified: checksum matches; unverified: no checksum recorded; mismatch: tokens changed since the last save;
+ * unreadable: the backend couldn't load them (e.g. no passphrase for encrypted files)
+ */
+export type CredentialIntegrity = 'verified' | 'unverified' | 'mismatch' | 'missing' | 'unreadable';
+
+/** Environment name from a shop config; lowercase letters, digits and hyphens */
+export type Environment = string;
+
+/** Where a resolved token came from: an environment variable, the credential backend, or nowhere */
+export interface TokenSource {
+  readonly kind: 'env' | 'store' | 'none';
+  /** Variable name for env, backend name for store */
+  readonly name: string;
+}
+
+export type TokenSources = Readonly<Record<Environment, TokenSource>>;
+
+export interface ResolvedCredentials {
+  readonly credentials: ShopCredentials | null;
+  readonly sources: TokenSources;
+}
 
 export interface SecurityAuditReport {
   readonly timestamp: string;
@@ -103,6 +261,10 @@ export interface ShopSecurityAudit {
   readonly hasProduction: boolean;
   readonly hasStaging: boolean;
   readonly integrityValid: boolean;
+  readonly integrity: CredentialIntegrity;
+  /** Why the backend couldn't load the credentials, when integrity is unreadable */
+  readonly error?: string;
+  readonly tokenSources: TokenSources;
 }
 
 export interface SecurityIssue {